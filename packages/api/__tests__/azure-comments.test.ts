@@ -0,0 +1,122 @@
+/**
+ * Unit tests for Azure DevOps PR comment events in routes/webhooks.ts: commenter roles
+ * for `/agnus` commands, and skipping our own comments. The review runner and DB are
+ * mocked — no Azure DevOps connection or Postgres needed.
+ */
+import Fastify, { type FastifyInstance } from 'fastify'
+import type { Pool } from 'pg'
+
+jest.mock('../src/review-runner', () => ({
+  getAzureCommenter: jest.fn(),
+  runReply: jest.fn().mockResolvedValue(undefined),
+  runReview: jest.fn().mockResolvedValue(undefined),
+  runAsk: jest.fn().mockResolvedValue('answer'),
+  runDescribe: jest.fn().mockResolvedValue(undefined),
+  addIgnoredPath: jest.fn().mockResolvedValue(undefined),
+  getPRBaseBranch: jest.fn().mockResolvedValue('main'),
+  postPRComment: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('../src/graph-cache', () => ({ getOrLoadRepo: jest.fn() }))
+jest.mock('../src/branch-checkout', () => ({ checkoutBranch: jest.fn(), filesToReindex: jest.fn() }))
+
+import { getAzureCommenter, runReply, runReview } from '../src/review-runner'
+import { webhookRoutes } from '../src/routes/webhooks'
+
+const REPO_URL = 'https://dev.azure.com/acme/Shop/_git/api'
+const mockGetAzureCommenter = getAzureCommenter as jest.Mock
+
+function makePool(permission: string): Pool {
+  return {
+    query: jest.fn().mockImplementation(async (sql: string) => {
+      if (sql.includes('command_permission')) return { rows: [{ command_permission: permission }] }
+      if (sql.includes('SELECT token')) return { rows: [{ token: 'pat' }] }
+      if (sql.includes('FROM repos')) return { rows: [{ repo_id: 'repo-1', repo_url: REPO_URL }] }
+      return { rows: [] }
+    }),
+  } as unknown as Pool
+}
+
+async function buildApp(pool: Pool): Promise<FastifyInstance> {
+  const app = Fastify()
+  app.decorate('db', pool)
+  await app.register(webhookRoutes)
+  return app
+}
+
+function commentEvent(content: string, overrides: Record<string, unknown> = {}) {
+  return {
+    eventType: 'ms.vss-code.git-pullrequest-comment-event',
+    resource: {
+      comment: {
+        id: 1,
+        parentCommentId: 0,
+        content,
+        commentType: 'text',
+        author: { id: 'user-guid', uniqueName: 'dev@acme.com' },
+        ...overrides,
+      },
+      pullRequest: {
+        pullRequestId: 12,
+        targetRefName: 'refs/heads/main',
+        repository: { remoteUrl: REPO_URL, project: { name: 'Shop' } },
+      },
+    },
+  }
+}
+
+async function flushImmediate(): Promise<void> {
+  await new Promise<void>(r => setImmediate(r))
+  await new Promise<void>(r => setImmediate(r))
+}
+
+beforeEach(() => jest.clearAllMocks())
+
+describe('Azure DevOps PR comment commands', () => {
+  it('runs commands from members of the project\'s administrators when limited to maintainers', async () => {
+    mockGetAzureCommenter.mockResolvedValue({ isSelf: false, groups: ['[Shop]\\Project Administrators', '[Shop]\\Contributors'] })
+    const app = await buildApp(makePool('maintainers'))
+
+    await app.inject({ method: 'POST', url: '/api/webhooks/azure', payload: commentEvent('/agnus review') })
+    await flushImmediate()
+
+    expect(mockGetAzureCommenter).toHaveBeenCalledWith(expect.objectContaining({ repoUrl: REPO_URL, token: 'pat' }), 'user-guid')
+    expect(runReview).toHaveBeenCalledWith(expect.objectContaining({ platform: 'azure', prNumber: 12 }))
+  })
+
+  it('refuses commands from contributors, and from readers when limited to collaborators', async () => {
+    mockGetAzureCommenter.mockResolvedValue({ isSelf: false, groups: ['[Shop]\\Contributors'] })
+    await (await buildApp(makePool('maintainers')))
+      .inject({ method: 'POST', url: '/api/webhooks/azure', payload: commentEvent('/agnus review') })
+
+    mockGetAzureCommenter.mockResolvedValue({ isSelf: false, groups: ['[Shop]\\Readers', '[Other]\\Contributors'] })
+    await (await buildApp(makePool('collaborators')))
+      .inject({ method: 'POST', url: '/api/webhooks/azure', payload: commentEvent('/agnus review') })
+    await flushImmediate()
+
+    expect(runReview).not.toHaveBeenCalled()
+  })
+
+  it('ignores comments posted by our own identity', async () => {
+    mockGetAzureCommenter.mockResolvedValue({ isSelf: true, groups: [] })
+    const app = await buildApp(makePool('anyone'))
+
+    await app.inject({ method: 'POST', url: '/api/webhooks/azure', payload: commentEvent('/agnus review') })
+    await app.inject({
+      method: 'POST',
+      url: '/api/webhooks/azure',
+      payload: commentEvent('Fixed now', { parentCommentId: 1, _links: { threads: { href: 'https://dev.azure.com/acme/_apis/threads/31' } } }),
+    })
+    await flushImmediate()
+
+    expect(runReview).not.toHaveBeenCalled()
+    expect(runReply).not.toHaveBeenCalled()
+  })
+
+  it('does not look up authors of comments that are neither commands nor replies', async () => {
+    const app = await buildApp(makePool('anyone'))
+
+    await app.inject({ method: 'POST', url: '/api/webhooks/azure', payload: commentEvent('Looks good to me') })
+
+    expect(mockGetAzureCommenter).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for Bitbucket pull request events in routes/webhooks.ts: reviews run only
+ * when the source commit moved, tracked in pr_review_state. The review runner and DB
+ * are mocked — no Bitbucket connection or Postgres needed.
+ */
+import Fastify, { type FastifyInstance } from 'fastify'
+import type { Pool } from 'pg'
+
+jest.mock('../src/review-runner', () => ({
+  getAzureCommenter: jest.fn(),
+  runReply: jest.fn().mockResolvedValue(undefined),
+  runReview: jest.fn().mockResolvedValue(undefined),
+}))
+jest.mock('../src/graph-cache', () => ({ getOrLoadRepo: jest.fn() }))
+jest.mock('../src/branch-checkout', () => ({ checkoutBranch: jest.fn(), filesToReindex: jest.fn() }))
+
+import { runReview } from '../src/review-runner'
+import { webhookRoutes } from '../src/routes/webhooks'
+
+const REPO_URL = 'https://bitbucket.org/acme/api'
+
+/** A pool whose pr_review_state heads live in `heads`, the way the upsert would keep them */
+function makePool(heads: Map<string, string>): Pool {
+  return {
+    query: jest.fn().mockImplementation(async (sql: string, params: unknown[] = []) => {
+      if (sql.includes('INSERT INTO pr_review_state')) {
+        const [repoId, prNumber, head] = params as [string, number, string]
+        const key = `${repoId}:${prNumber}`
+        if (heads.get(key) === head) return { rows: [] }
+        heads.set(key, head)
+        return { rows: [{ '?column?': 1 }] }
+      }
+      if (sql.includes('SELECT token')) return { rows: [{ token: 'app-password' }] }
+      if (sql.includes('FROM repos')) return { rows: [{ repo_id: 'repo-1', repo_url: REPO_URL }] }
+      return { rows: [] }
+    }),
+  } as unknown as Pool
+}
+
+async function buildApp(pool: Pool): Promise<FastifyInstance> {
+  const app = Fastify()
+  app.decorate('db', pool)
+  await app.register(webhookRoutes)
+  return app
+}
+
+function prEvent(app: FastifyInstance, eventKey: string, head: string) {
+  return app.inject({
+    method: 'POST',
+    url: '/api/webhooks/bitbucket',
+    headers: { 'x-event-key': eventKey },
+    payload: {
+      repository: { links: { html: { href: REPO_URL } } },
+      pullrequest: { id: 5, source: { commit: { hash: head } }, destination: { branch: { name: 'main' } } },
+    },
+  })
+}
+
+async function flushImmediate(): Promise<void> {
+  await new Promise<void>(r => setImmediate(r))
+  await new Promise<void>(r => setImmediate(r))
+}
+
+beforeEach(() => jest.clearAllMocks())
+
+describe('Bitbucket pull request events', () => {
+  it('reviews new commits but not edits that leave the source commit where it was', async () => {
+    const app = await buildApp(makePool(new Map()))
+
+    await prEvent(app, 'pullrequest:created', 'aaa111')
+    await prEvent(app, 'pullrequest:updated', 'aaa111')
+    await prEvent(app, 'pullrequest:updated', 'bbb222')
+    await flushImmediate()
+
+    expect(runReview).toHaveBeenCalledTimes(2)
+    expect(runReview).toHaveBeenNthCalledWith(1, expect.objectContaining({ prNumber: 5, prAction: 'opened' }))
+    expect(runReview).toHaveBeenNthCalledWith(2, expect.objectContaining({ prNumber: 5, prAction: 'synchronize', incrementalReview: true }))
+  })
+
+  it('remembers the last head across restarts', async () => {
+    const heads = new Map([['repo-1:5', 'aaa111']])
+    const restarted = await buildApp(makePool(heads))
+
+    await prEvent(restarted, 'pullrequest:updated', 'aaa111')
+    await flushImmediate()
+
+    expect(runReview).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for `/agnus` PR comment commands: permission checks and dispatch.
+ * The review runner is mocked — no VCS, LLM or DB needed.
+ */
+import type { Pool } from 'pg'
+
+jest.mock('../src/review-runner', () => ({
+  addIgnoredPath: jest.fn().mockResolvedValue(undefined),
+  getPRBaseBranch: jest.fn().mockResolvedValue('develop'),
+  postPRComment: jest.fn().mockResolvedValue(undefined),
+  runAsk: jest.fn().mockResolvedValue('answer'),
+  runDescribe: jest.fn().mockResolvedValue(undefined),
+  runReview: jest.fn().mockResolvedValue({ verdict: 'comment', commentCount: 0, reviewId: '' }),
+}))
+
+import { addIgnoredPath, getPRBaseBranch, postPRComment, runAsk, runReview } from '../src/review-runner'
+import { azureCommenterRole, canRunCommand, githubCommenterRole, runCommand } from '../src/commands'
+
+const pool = {} as Pool
+const target = { platform: 'github' as const, repoId: 'repo-1', repoUrl: 'https://github.com/acme/api', prNumber: 7, pool }
+
+beforeEach(() => jest.clearAllMocks())
+
+describe('command permissions', () => {
+  it('maps GitHub author associations to roles', () => {
+    expect(githubCommenterRole('OWNER')).toBe('maintainer')
+    expect(githubCommenterRole('MEMBER')).toBe('maintainer')
+    expect(githubCommenterRole('COLLABORATOR')).toBe('collaborator')
+    expect(githubCommenterRole('CONTRIBUTOR')).toBe('contributor')
+    expect(githubCommenterRole(undefined)).toBe('contributor')
+  })
+
+  it('maps Azure DevOps group memberships in the PR\'s project to roles', () => {
+    expect(azureCommenterRole(['[Shop]\\Project Administrators'], 'Shop')).toBe('maintainer')
+    expect(azureCommenterRole(['[acme]\\Project Collection Administrators'], 'Shop')).toBe('maintainer')
+    expect(azureCommenterRole(['[shop]\\contributors', '[Shop]\\Readers'], 'Shop')).toBe('collaborator')
+    expect(azureCommenterRole(['[Other]\\Project Administrators', '[Shop]\\Readers'], 'Shop')).toBe('contributor')
+    expect(azureCommenterRole([], 'Shop')).toBe('contributor')
+  })
+
+  it('lets each permission level through only the roles it names', () => {
+    expect(canRunCommand('anyone', 'contributor')).toBe(true)
+    expect(canRunCommand('collaborators', 'contributor')).toBe(false)
+    expect(canRunCommand('collaborators', 'collaborator')).toBe(true)
+    expect(canRunCommand('maintainers', 'collaborator')).toBe(false)
+    expect(canRunCommand('maintainers', 'maintainer')).toBe(true)
+  })
+})
+
+describe('runCommand', () => {
+  it('runs an incremental review on /agnus review, looking up the base branch', async () => {
+    await runCommand(target, { name: 'review' }, 'octocat')
+
+    expect(getPRBaseBranch).toHaveBeenCalled()
+    expect(runReview).toHaveBeenCalledWith(expect.objectContaining({
+      baseBranch: 'develop',
+      incrementalReview: true,
+      incrementalDiff: false,
+      updatePRDescription: false,
+    }))
+  })
+
+  it('reviews the whole Azure PR on /agnus full-review', async () => {
+    await runCommand({ ...target, platform: 'azure', baseBranch: 'main' }, { name: 'full-review' }, 'octocat')
+
+    expect(getPRBaseBranch).not.toHaveBeenCalled()
+    expect(runReview).toHaveBeenCalledWith(expect.objectContaining({ incrementalDiff: false, incrementalReview: false }))
+  })
+
+  it('passes the question through on /agnus ask', async () => {
+    await runCommand({ ...target, baseBranch: 'main' }, { name: 'ask', question: 'Why a mutex?' }, 'octocat')
+
+    expect(runAsk).toHaveBeenCalledWith(expect.objectContaining({ baseBranch: 'main', question: 'Why a mutex?' }))
+  })
+
+  it('records the path and confirms on /agnus ignore', async () => {
+    await runCommand({ ...target, baseBranch: 'main' }, { name: 'ignore', path: 'docs/**' }, 'octocat')
+
+    expect(addIgnoredPath).toHaveBeenCalledWith(pool, 'repo-1', 7, 'docs/**', 'octocat')
+    expect(postPRComment).toHaveBeenCalledWith(expect.objectContaining({ prNumber: 7 }), expect.stringContaining('`docs/**`'))
+  })
+})
@@ -26,6 +26,11 @@ const describeMB = RUN_MULTI_BRANCH_TESTS ? describe : describe.skip
 
 // ─── Module mocks (hoisted by ts-jest above imports) ─────────────────────────
 
+// A function declaration is hoisted along with the mocks that use it
+function mockIndexStats() {
+  return { symbolCount: 0, edgeCount: 0, fileCount: 0, durationMs: 0, timings: { scanMs: 0, parseMs: 0, persistMs: 0, embedMs: 0 } }
+}
+
 jest.mock('../src/embedding-factory', () => ({
   createEmbeddingAdapter: jest.fn().mockReturnValue(null),
 }))
@@ -47,13 +52,12 @@ jest.mock('@agnus-ai/core', () => ({
     saveEdges: jest.fn().mockResolvedValue(undefined),
     deleteByFile: jest.fn().mockResolvedValue(undefined),
     loadAll: jest.fn().mockResolvedValue({ symbols: [], edges: [] }),
-    saveGraphSnapshot: jest.fn().mockResolvedValue(undefined),
-    loadGraphSnapshot: jest.fn().mockResolvedValue(null),
+    replaceFile: jest.fn().mockResolvedValue(undefined),
   })),
   Indexer: jest.fn().mockImplementation(() => ({
-    fullIndex: jest.fn().mockResolvedValue({ symbolCount: 0, edgeCount: 0, fileCount: 0, durationMs: 0 }),
-    incrementalUpdate: jest.fn().mockResolvedValue(undefined),
-    loadFromStorage: jest.fn().mockResolvedValue(undefined),
+    fullIndex: jest.fn().mockResolvedValue(mockIndexStats()),
+    incrementalUpdate: jest.fn().mockResolvedValue(mockIndexStats()),
+    loadFromStorage: jest.fn().mockResolvedValue({ symbolCount: 0, edgeCount: 0, durationMs: 0 }),
   })),
   Retriever: jest.fn().mockImplementation(() => ({
     getReviewContext: jest.fn().mockResolvedValue(undefined),
@@ -70,7 +74,7 @@ jest.mock('../src/graph-cache', () => ({
   loadRepo: jest.fn().mockResolvedValue(undefined),
   getRepo: jest.fn().mockReturnValue(null),
   getOrLoadRepo: jest.fn().mockResolvedValue({
-    indexer: { incrementalUpdate: jest.fn().mockResolvedValue(undefined) },
+    indexer: { incrementalUpdate: jest.fn().mockResolvedValue(mockIndexStats()) },
     graph: {},
     retriever: {},
     storage: {},
@@ -163,7 +167,7 @@ afterEach(() => {
   jest.clearAllMocks()
   runReview.mockResolvedValue(undefined)
   graphCache.getOrLoadRepo.mockResolvedValue({
-    indexer: { incrementalUpdate: jest.fn().mockResolvedValue(undefined) },
+    indexer: { incrementalUpdate: jest.fn().mockResolvedValue(mockIndexStats()) },
     graph: {},
     retriever: {},
     storage: {},
@@ -205,7 +209,7 @@ describeMB('Step 3 — repo_branches has exactly 2 rows', () => {
 // ─── Step 4: Push to develop — only develop graph updated ────────────────────
 describeMB('Step 4 — GitHub push to develop', () => {
   it('calls getOrLoadRepo(repoId, "develop") and incrementalUpdate with branch=develop', async () => {
-    const mockUpdate = jest.fn().mockResolvedValue(undefined)
+    const mockUpdate = jest.fn().mockResolvedValue(mockIndexStats())
     graphCache.getOrLoadRepo.mockResolvedValue({
       indexer: { incrementalUpdate: mockUpdate },
       graph: {},
@@ -362,7 +366,7 @@ describeMB('Step 7 — GitHub PR targeting main (un-indexed)', () => {
 // ─── Azure: push to develop ───────────────────────────────────────────────────
 describeMB('Azure A — git.push to develop', () => {
   it('extracts branch from refUpdates and calls incrementalUpdate(branch=develop)', async () => {
-    const mockUpdate = jest.fn().mockResolvedValue(undefined)
+    const mockUpdate = jest.fn().mockResolvedValue(mockIndexStats())
     graphCache.getOrLoadRepo.mockResolvedValue({
       indexer: { incrementalUpdate: mockUpdate },
       graph: {},
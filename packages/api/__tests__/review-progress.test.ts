@@ -0,0 +1,31 @@
+import { createReviewJob, getReviewEvents, pushReviewEvent } from '../src/review-progress'
+
+describe('review progress store', () => {
+  it('replays events from a cursor and finishes on done', () => {
+    const jobId = createReviewJob('repo-1')
+    pushReviewEvent(jobId, { type: 'phase', phase: 'context' })
+    pushReviewEvent(jobId, { type: 'comment', comment: { path: 'a.ts', line: 3, body: 'Bug', severity: 'error' } })
+
+    expect(getReviewEvents(jobId, 'repo-1')).toEqual({
+      events: [
+        { type: 'phase', phase: 'context' },
+        { type: 'comment', comment: { path: 'a.ts', line: 3, body: 'Bug', severity: 'error' } },
+      ],
+      finished: false,
+    })
+
+    pushReviewEvent(jobId, { type: 'done', verdict: 'comment', commentCount: 1, reviewId: 'r1' })
+    pushReviewEvent(jobId, { type: 'error', message: 'ignored after done' })
+
+    expect(getReviewEvents(jobId, 'repo-1', 2)).toEqual({
+      events: [{ type: 'done', verdict: 'comment', commentCount: 1, reviewId: 'r1' }],
+      finished: true,
+    })
+  })
+
+  it('hides a job from other repos', () => {
+    const jobId = createReviewJob('repo-1')
+    expect(getReviewEvents(jobId, 'repo-2')).toBeNull()
+    expect(getReviewEvents('missing', 'repo-1')).toBeNull()
+  })
+})
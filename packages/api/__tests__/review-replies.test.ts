@@ -0,0 +1,112 @@
+/**
+ * Unit tests for replies in review comment threads: runReply() in review-runner.ts.
+ * The VCS adapters and review agent are mocked — no VCS, LLM or DB needed.
+ */
+import type { Pool } from 'pg'
+
+const mockReply = jest.fn().mockResolvedValue('reply')
+const mockGetReviewComment = jest.fn()
+const mockGetThread = jest.fn()
+
+jest.mock('@agnus-ai/reviewer', () => {
+  const actual = jest.requireActual('@agnus-ai/reviewer')
+  return {
+    AGNUSAI_MARKER: actual.AGNUSAI_MARKER,
+    AGNUSAI_META_MARKER_START: actual.AGNUSAI_META_MARKER_START,
+    isDismissal: actual.isDismissal,
+    AzureDevOpsAdapter: jest.fn().mockImplementation(() => ({ getThread: mockGetThread })),
+    GitHubAdapter: jest.fn().mockImplementation(() => ({ getReviewComment: mockGetReviewComment })),
+    GitLabAdapter: jest.fn(),
+    BitbucketAdapter: jest.fn(),
+    PRReviewAgent: jest.fn().mockImplementation(() => ({
+      setVCS: jest.fn(),
+      setLLM: jest.fn(),
+      reply: mockReply,
+    })),
+    createBackendFromEnv: jest.fn().mockReturnValue({}),
+  }
+})
+
+jest.mock('../src/graph-cache', () => ({ getRepo: jest.fn().mockReturnValue(null) }))
+jest.mock('../src/embedding-factory', () => ({ createEmbeddingAdapter: jest.fn().mockReturnValue(null) }))
+
+import { runReply } from '../src/review-runner'
+
+const MARKER = '<!-- AGNUSAI: v1 -->'
+const COMMENT_ID = '4f7c2a9e-1b2d-4c3e-9f00-112233445566'
+const reviewBody =
+  'Possible null dereference of `user`.\n\n---\nWas this helpful? ' +
+  `[👍 Yes](https://agnus.example/api/feedback?id=${COMMENT_ID}&signal=accepted&token=a) · ` +
+  `[👎 No](https://agnus.example/api/feedback?id=${COMMENT_ID}&signal=rejected&token=b)\n\n${MARKER}`
+
+function makePool(): jest.Mocked<Pool> {
+  return { query: jest.fn().mockResolvedValue({ rows: [] }) } as unknown as jest.Mocked<Pool>
+}
+
+function feedbackInserts(pool: jest.Mocked<Pool>): unknown[][] {
+  return (pool.query as jest.Mock).mock.calls.filter(([sql]) => (sql as string).includes('INSERT INTO review_feedback'))
+}
+
+const github = { platform: 'github' as const, repoId: 'repo-1', repoUrl: 'https://github.com/acme/api', prNumber: 7, token: 't' }
+
+beforeEach(() => jest.clearAllMocks())
+
+describe('runReply()', () => {
+  it('answers replies to our review comments in their thread, without the footer', async () => {
+    mockGetReviewComment.mockResolvedValue({ body: reviewBody, path: 'src/user.ts', line: 12 })
+    const pool = makePool()
+
+    await runReply({ ...github, pool }, { threadId: 99, body: 'Why would it be null here?', author: 'octocat' })
+
+    expect(mockReply).toHaveBeenCalledWith(7, 99, expect.objectContaining({
+      originalIssue: 'Possible null dereference of `user`.',
+      userReply: 'Why would it be null here?',
+      repliedBy: 'octocat',
+    }))
+    expect(feedbackInserts(pool)).toHaveLength(0)
+  })
+
+  it('records a dismissal as rejected feedback on the comment from its feedback link', async () => {
+    mockGetReviewComment.mockResolvedValue({ body: reviewBody, path: 'src/user.ts', line: 12 })
+    const pool = makePool()
+
+    await runReply({ ...github, pool }, { threadId: 99, body: 'False positive, it is checked upstream', author: 'octocat' })
+
+    expect(mockReply).toHaveBeenCalled()
+    expect(feedbackInserts(pool)).toEqual([[expect.stringContaining("'rejected'"), [COMMENT_ID]]])
+  })
+
+  it('finds an Azure comment without feedback links by its position', async () => {
+    mockGetThread.mockResolvedValue({
+      id: 31,
+      path: 'src/user.ts',
+      line: 12,
+      comments: [
+        { id: 1, parentCommentId: 0, content: `Possible null dereference.\n\n${MARKER}`, author: 'agnus' },
+        { id: 2, parentCommentId: 1, content: "Won't fix", author: 'dev@acme.com' },
+      ],
+    })
+    const pool = makePool()
+    ;(pool.query as jest.Mock).mockImplementation(async (sql: string) =>
+      sql.includes('SELECT id FROM review_comments') ? { rows: [{ id: 'c-1' }] } : { rows: [] })
+
+    await runReply(
+      { platform: 'azure', repoId: 'repo-1', repoUrl: 'https://dev.azure.com/org/proj/_git/api', prNumber: 5, token: 't', pool },
+      { threadId: 31, body: "Won't fix", author: 'dev@acme.com' },
+    )
+
+    expect(mockGetThread).toHaveBeenCalledWith(5, 31)
+    expect(mockReply).toHaveBeenCalledWith(5, 31, expect.anything())
+    expect(feedbackInserts(pool)).toEqual([[expect.any(String), ['c-1']]])
+  })
+
+  it('leaves threads we did not start alone', async () => {
+    mockGetReviewComment.mockResolvedValue({ body: 'Can we rename this?', path: 'src/user.ts', line: 3 })
+    const pool = makePool()
+
+    await runReply({ ...github, pool }, { threadId: 5, body: 'Sure', author: 'octocat' })
+
+    expect(mockReply).not.toHaveBeenCalled()
+    expect(pool.query).not.toHaveBeenCalled()
+  })
+})
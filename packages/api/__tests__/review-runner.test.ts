@@ -6,26 +6,33 @@
  */
 import type { Pool } from 'pg'
 
+const mockResolveFixedComments = jest.fn().mockResolvedValue([])
+const mockIncrementalReview = jest.fn().mockResolvedValue({ verdict: 'comment', comments: [], summary: 'ok' })
+
 // jest.mock is hoisted above imports by Jest — must appear before any import that
 // transitively touches these modules.
 jest.mock('@agnus-ai/reviewer', () => ({
   AzureDevOpsAdapter: jest.fn(),
   GitHubAdapter: jest.fn(),
+  GitLabAdapter: jest.fn(),
+  BitbucketAdapter: jest.fn(),
   PRReviewAgent: jest.fn().mockImplementation(() => ({
     setVCS: jest.fn(),
     setLLM: jest.fn(),
     review: jest.fn().mockResolvedValue({ verdict: 'comment', comments: [], summary: 'ok' }),
-    incrementalReview: jest.fn().mockResolvedValue({ verdict: 'comment', comments: [], summary: 'ok' }),
+    incrementalReview: mockIncrementalReview,
     postReview: jest.fn().mockResolvedValue(undefined),
+    resolveFixedComments: mockResolveFixedComments,
   })),
-  createBackendFromEnv: jest.fn().mockReturnValue({}),
+  createBackendFromEnv: jest.fn().mockReturnValue({ servedBy: [], usage: [] }),
+  summarizeUsage: jest.fn().mockReturnValue({ calls: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0, costUsd: null }),
 }))
 
 jest.mock('../src/graph-cache', () => ({ getRepo: jest.fn().mockReturnValue(null) }))
 jest.mock('../src/embedding-factory', () => ({ createEmbeddingAdapter: jest.fn().mockReturnValue(null) }))
 
-import { AzureDevOpsAdapter } from '@agnus-ai/reviewer'
-import { runReview } from '../src/review-runner'
+import { AzureDevOpsAdapter, GitHubAdapter, GitLabAdapter } from '@agnus-ai/reviewer'
+import { runReview, parseBitbucketRepoUrl } from '../src/review-runner'
 import type { ReviewRunOptions } from '../src/review-runner'
 
 const MockAdapter = AzureDevOpsAdapter as jest.MockedClass<typeof AzureDevOpsAdapter>
@@ -52,6 +59,7 @@ function makePool(lastReviewedIteration: number): jest.Mocked<Pool> {
 type MockAdapterInstance = {
   getLatestIterationId: jest.Mock
   getDiff: jest.Mock
+  getIterationDiff: jest.Mock
   compareToIteration: number | undefined
 }
 
@@ -76,6 +84,7 @@ describe('Azure iteration guard — runReview()', () => {
       getLatestIterationId: jest.fn(),
       // Empty diff causes executeReview to bail before touching reviews/repos tables
       getDiff: jest.fn().mockResolvedValue({ files: [] }),
+      getIterationDiff: jest.fn().mockResolvedValue({ files: [] }),
       compareToIteration: undefined,
     }
     MockAdapter.mockImplementation(() => mockAdapter as any)
@@ -171,3 +180,161 @@ describe('Azure iteration guard — runReview()', () => {
     })
   })
 })
+
+describe('GitLab adapter construction — runReview()', () => {
+  const MockGitLab = GitLabAdapter as jest.MockedClass<typeof GitLabAdapter>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    MockGitLab.mockImplementation(() => ({ getDiff: jest.fn().mockResolvedValue({ files: [] }) }) as any)
+  })
+
+  it('derives the nested project path and self-managed host from the repo URL', async () => {
+    await runReview({
+      platform: 'gitlab',
+      repoId: 'gl-repo',
+      repoUrl: 'https://gitlab.example.com/group/sub/project.git',
+      prNumber: 7,
+      token: 'glpat-fake',
+      baseBranch: 'main',
+      pool: makePool(0),
+    })
+
+    expect(MockGitLab).toHaveBeenCalledWith({
+      token: 'glpat-fake',
+      projectPath: 'group/sub/project',
+      baseUrl: 'https://gitlab.example.com',
+    })
+  })
+
+  it('requires a token', async () => {
+    await expect(runReview({
+      platform: 'gitlab',
+      repoId: 'gl-repo',
+      repoUrl: 'https://gitlab.com/group/project',
+      prNumber: 7,
+      baseBranch: 'main',
+      pool: makePool(0),
+    })).rejects.toThrow('GitLab token required for review')
+  })
+})
+
+describe('Fixed comment resolution — runReview()', () => {
+  const MockGitHub = GitHubAdapter as jest.MockedClass<typeof GitHubAdapter>
+  const diff = {
+    files: [{ path: 'src/user.ts', hunks: [{ content: '-  return user.name;\n+  return user?.name;' }] }],
+  }
+  const fixedComment = {
+    id: 11,
+    body: 'Possible null dereference.\n\n---\nWas this helpful? [👍 Yes](https://agnus.example/api/feedback?id=c-42&signal=accepted&token=t)',
+    path: 'src/user.ts',
+    line: 12,
+    originalLine: 12,
+  }
+  const GITHUB_OPTS = {
+    platform: 'github' as const,
+    repoId: 'gh-repo',
+    repoUrl: 'https://github.com/acme/api',
+    prNumber: 9,
+    token: 'ghp-fake',
+    baseBranch: 'main',
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    MockGitHub.mockImplementation(() => ({ getDiff: jest.fn().mockResolvedValue(diff) }) as any)
+    mockResolveFixedComments.mockResolvedValue([fixedComment])
+  })
+
+  it('resolves fixed comments on an incremental review and records them as accepted', async () => {
+    const pool = makePool(0)
+
+    await runReview({ ...GITHUB_OPTS, pool, incrementalReview: true })
+
+    expect(mockResolveFixedComments).toHaveBeenCalledWith(9, undefined)
+    const feedback = pool.query.mock.calls.find(c => (c[0] as string).includes('INSERT INTO review_feedback'))
+    expect(feedback![0]).toContain("'accepted'")
+    expect(feedback![0]).toContain('DO NOTHING')
+    expect(feedback![1]).toEqual(['c-42'])
+  })
+
+  it('leaves earlier comments alone on a full review', async () => {
+    await runReview({ ...GITHUB_OPTS, pool: makePool(0) })
+
+    expect(mockResolveFixedComments).not.toHaveBeenCalled()
+  })
+
+  it('diffs from the checkpoint before the incremental review moves it to HEAD', async () => {
+    // The agent diffs from its checkpoint, which incrementalReview moves to HEAD
+    let checkpoint = 'abc123'
+    mockIncrementalReview.mockImplementationOnce(async () => {
+      checkpoint = 'HEAD'
+      return { verdict: 'comment', comments: [], summary: 'ok' }
+    })
+    mockResolveFixedComments.mockImplementationOnce(async () => (checkpoint === 'HEAD' ? [] : [fixedComment]))
+    const pool = makePool(0)
+
+    await runReview({ ...GITHUB_OPTS, pool, incrementalReview: true })
+
+    expect(checkpoint).toBe('HEAD')
+    const feedback = pool.query.mock.calls.find(c => (c[0] as string).includes('INSERT INTO review_feedback'))
+    expect(feedback![1]).toEqual(['c-42'])
+  })
+
+  it('diffs Azure PRs from the last reviewed iteration', async () => {
+    const azure = {
+      getLatestIterationId: jest.fn().mockResolvedValue(6),
+      getDiff: jest.fn().mockResolvedValue(diff),
+      getIterationDiff: jest.fn().mockResolvedValue(diff),
+      getIterationCommit: jest.fn().mockResolvedValue('sha-5'),
+      compareToIteration: undefined,
+    }
+    MockAdapter.mockImplementation(() => azure as any)
+
+    await runReview({ ...BASE_OPTS, pool: makePool(5) })
+
+    expect(azure.getIterationDiff).toHaveBeenCalledWith(42, 5)
+    expect(azure.getIterationCommit).toHaveBeenCalledWith(42, 5)
+    expect(mockResolveFixedComments).toHaveBeenCalledWith(42, { diff, sha: 'sha-5' })
+  })
+
+  it('has nothing to resolve on the first Azure review', async () => {
+    const azure = {
+      getLatestIterationId: jest.fn().mockResolvedValue(1),
+      getDiff: jest.fn().mockResolvedValue(diff),
+      getIterationDiff: jest.fn(),
+      compareToIteration: undefined,
+    }
+    MockAdapter.mockImplementation(() => azure as any)
+
+    await runReview({ ...BASE_OPTS, pool: makePool(0) })
+
+    expect(azure.getIterationDiff).not.toHaveBeenCalled()
+    expect(mockResolveFixedComments).not.toHaveBeenCalled()
+  })
+})
+
+describe('parseBitbucketRepoUrl()', () => {
+  it('parses Bitbucket Cloud URLs without a baseUrl', () => {
+    expect(parseBitbucketRepoUrl('https://bitbucket.org/acme/widgets.git')).toEqual({
+      workspace: 'acme',
+      repoSlug: 'widgets',
+    })
+  })
+
+  it('parses Data Center clone URLs, keeping the context path', () => {
+    expect(parseBitbucketRepoUrl('https://git.example.com/bitbucket/scm/plat/widgets.git')).toEqual({
+      workspace: 'plat',
+      repoSlug: 'widgets',
+      baseUrl: 'https://git.example.com/bitbucket',
+    })
+  })
+
+  it('parses Data Center browse URLs', () => {
+    expect(parseBitbucketRepoUrl('https://git.example.com/projects/PLAT/repos/widgets/browse')).toEqual({
+      workspace: 'PLAT',
+      repoSlug: 'widgets',
+      baseUrl: 'https://git.example.com',
+    })
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Worktree checkouts for overlay branches.
+ *
+ * The repo clone tracks the default branch and backs the base graph. Each overlay
+ * branch (`repo_branches.base_branch` set) gets a git worktree next to the clone and
+ * is indexed only for the files that differ from the clone's checkout.
+ */
+import { existsSync, rmSync } from 'fs'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+export interface BranchCheckout {
+  /** Worktree directory holding the branch's files */
+  path: string
+  /** Files that differ between the base checkout and the branch tip */
+  diffFromBase: string[]
+  /** Files changed on the branch since its worktree was last updated; null on a fresh worktree */
+  changedSinceLast: string[] | null
+}
+
+/**
+ * Fetch `branch` and move its worktree to the branch tip, creating the worktree on
+ * first use. Branch names go straight to git as arguments, never through a shell.
+ */
+export async function checkoutBranch(repoPath: string, branch: string): Promise<BranchCheckout> {
+  const dir = `${repoPath}.worktrees/${branch.replace(/[^\w.-]/g, '_')}`
+  const ref = `refs/remotes/origin/${branch}`
+  await git(repoPath, 'fetch', '--depth=1', 'origin', `+refs/heads/${branch}:${ref}`)
+
+  let previous: string | null = null
+  if (existsSync(dir)) {
+    try {
+      previous = (await git(dir, 'rev-parse', 'HEAD')).trim()
+      await git(dir, 'checkout', '--force', '--detach', ref)
+    } catch {
+      // Orphaned by a re-clone — start over
+      previous = null
+      rmSync(dir, { recursive: true, force: true })
+      await git(repoPath, 'worktree', 'prune')
+    }
+  }
+  if (previous === null) {
+    await git(repoPath, 'worktree', 'add', '--force', '--detach', dir, ref)
+  }
+
+  const diffFromBase = lines(await git(repoPath, 'diff', '--name-only', 'HEAD', ref))
+  const changedSinceLast = previous ? lines(await git(repoPath, 'diff', '--name-only', previous, ref)) : null
+  return { path: dir, diffFromBase, changedSinceLast }
+}
+
+/**
+ * Files an overlay has to re-index after `checkout`: whatever changed on the branch,
+ * plus files that newly differ from the base. Without a previous checkout to compare
+ * against, every file the overlay already overrides is re-read as well.
+ */
+export function filesToReindex(checkout: BranchCheckout, overridden: string[]): string[] {
+  const known = new Set(overridden)
+  const files = new Set(checkout.changedSinceLast ?? overridden)
+  for (const file of checkout.diffFromBase) {
+    if (!known.has(file)) files.add(file)
+  }
+  return [...files]
+}
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['-C', cwd, ...args], { timeout: 120_000 })
+  return stdout
+}
+
+function lines(stdout: string): string[] {
+  return stdout.trim().split('\n').filter(Boolean)
+}
@@ -0,0 +1,102 @@
+/**
+ * `/agnus` commands in PR comments — who may run them and what each one runs.
+ */
+import type { Pool } from 'pg'
+import type { PRCommand } from '@agnus-ai/reviewer'
+import { normalizeCommandPermission, type CommandPermission } from './repo-settings'
+import {
+  addIgnoredPath,
+  getPRBaseBranch,
+  postPRComment,
+  runAsk,
+  runDescribe,
+  runReview,
+  type PRCommandTarget,
+} from './review-runner'
+
+/**
+ * - `maintainer` — repository owner or org member
+ * - `collaborator` — has access to the repository
+ * - `contributor` — anyone else, e.g. the author of a PR from a fork
+ */
+export type CommenterRole = 'maintainer' | 'collaborator' | 'contributor'
+
+/** Role for the `author_association` GitHub sends with a comment */
+export function githubCommenterRole(authorAssociation?: string): CommenterRole {
+  if (authorAssociation === 'OWNER' || authorAssociation === 'MEMBER') return 'maintainer'
+  if (authorAssociation === 'COLLABORATOR') return 'collaborator'
+  return 'contributor'
+}
+
+/**
+ * Role for an Azure DevOps commenter from the groups they belong to: project or
+ * collection administrators maintain the project, and its Contributors can push to it.
+ */
+export function azureCommenterRole(groups: string[], project: string): CommenterRole {
+  const names = new Set(groups.map(g => g.toLowerCase()))
+  const inProject = (group: string) => names.has(`[${project}]\\${group}`.toLowerCase())
+  if (inProject('Project Administrators') || groups.some(g => /\\Project Collection Administrators$/i.test(g))) return 'maintainer'
+  if (inProject('Contributors')) return 'collaborator'
+  return 'contributor'
+}
+
+export function canRunCommand(permission: CommandPermission, role: CommenterRole): boolean {
+  if (permission === 'anyone') return true
+  if (permission === 'collaborators') return role !== 'contributor'
+  return role === 'maintainer'
+}
+
+/** The command permission of the org the repo belongs to */
+export async function loadCommandPermission(pool: Pool, repoId: string): Promise<CommandPermission> {
+  const res = await pool.query<{ command_permission: string }>(
+    `SELECT s.command_permission
+     FROM repos r
+     JOIN organizations o ON o.id = r.org_id
+     JOIN org_settings s ON s.org_key = o.slug
+     WHERE r.repo_id = $1
+     LIMIT 1`,
+    [repoId],
+  )
+  return normalizeCommandPermission(res.rows[0])
+}
+
+/**
+ * Run a command from a PR comment. `baseBranch` is looked up from the PR when the
+ * comment event doesn't carry it.
+ */
+export async function runCommand(
+  target: PRCommandTarget & { baseBranch?: string },
+  command: PRCommand,
+  author: string,
+): Promise<void> {
+  const { platform, repoId, prNumber, pool } = target
+  const baseBranch = target.baseBranch ?? await getPRBaseBranch(target)
+
+  switch (command.name) {
+    case 'review':
+    case 'full-review': {
+      const incremental = command.name === 'review'
+      await runReview({
+        ...target,
+        baseBranch,
+        // Azure diffs by iteration; the other platforms by review checkpoint
+        incrementalDiff: platform === 'azure' && incremental,
+        incrementalReview: platform !== 'azure' && incremental,
+        // `/agnus describe` rewrites the description on its own
+        updatePRDescription: false,
+        prAction: 'manual',
+      })
+      return
+    }
+    case 'describe':
+      await runDescribe(target)
+      return
+    case 'ask':
+      await runAsk({ ...target, baseBranch, question: command.question })
+      return
+    case 'ignore':
+      await addIgnoredPath(pool, repoId, prNumber, command.path, author)
+      await postPRComment(target, `Files matching \`${command.path}\` will be left out of later reviews of this PR.`)
+      return
+  }
+}
@@ -1,7 +1,9 @@
 /**
  * In-memory cache: `${repoId}:${branch}` → { graph, retriever, indexer, storage }
  *
- * One InMemorySymbolGraph per (repo, branch) pair, deserialized from Postgres on startup.
+ * One InMemorySymbolGraph per (repo, branch) pair, streamed from Postgres on startup.
+ * Overlay branches (`repo_branches.base_branch` set) hold only the files that differ
+ * from their base branch and read everything else through the base branch's graph.
  * All webhook handlers look up their graph from here by repoId + branch.
  */
 import { Pool } from 'pg'
@@ -20,9 +22,13 @@ export interface RepoCacheEntry {
   retriever: Retriever
   indexer: Indexer
   storage: PostgresStorageAdapter
+  /** Branch this one is an overlay of, null for fully indexed branches */
+  baseBranch: string | null
 }
 
 const cache = new Map<string, RepoCacheEntry>()
+/** Loads in flight, so overlays sharing a base don't each load it */
+const loading = new Map<string, Promise<RepoCacheEntry>>()
 let _pool: Pool | null = null
 let _defaultDepth: ReviewDepth = 'standard'
 
@@ -47,46 +53,84 @@ export async function warmupAllRepos(): Promise<void> {
     const res = await _pool.query<{ repo_id: string; branch: string }>(
       'SELECT repo_id, branch FROM repo_branches',
     )
-    await Promise.all(res.rows.map(row => loadRepo(row.repo_id, row.branch)))
+    await Promise.all(res.rows.map(row => getOrLoadRepo(row.repo_id, row.branch)))
   } catch {
     // Table doesn't exist yet — fall back to repos table with 'main' branch
     const res = await _pool.query<{ repo_id: string }>('SELECT repo_id FROM repos')
-    await Promise.all(res.rows.map(row => loadRepo(row.repo_id, 'main')))
+    await Promise.all(res.rows.map(row => getOrLoadRepo(row.repo_id, 'main')))
   }
 }
 
 /**
  * Load (or reload) one (repo, branch) graph from Postgres into memory.
+ * An overlay branch loads its base branch first, if it isn't cached yet.
  */
 export async function loadRepo(repoId: string, branch: string): Promise<RepoCacheEntry> {
   if (!_pool) throw new Error('GraphCache not initialized')
 
+  const baseBranch = await getBaseBranch(repoId, branch)
+  const base = baseBranch ? await getOrLoadRepo(repoId, baseBranch) : null
   const storage = new PostgresStorageAdapter(_pool)
-  const graph = new InMemorySymbolGraph()
+  const graph = base ? InMemorySymbolGraph.overlay(base.graph) : new InMemorySymbolGraph()
   const registry = await createDefaultRegistry()
   const embeddingAdapter = createEmbeddingAdapter(_pool)
   const indexer = new Indexer(registry, graph, storage, embeddingAdapter)
 
-  await indexer.loadFromStorage(repoId, branch)
+  const loaded = await indexer.loadFromStorage(repoId, branch)
+  console.log(
+    `[GraphCache] Loaded ${repoId}:${branch} — ${loaded.symbolCount} symbols, ` +
+    `${loaded.edgeCount} edges in ${loaded.durationMs}ms`,
+  )
 
   const retriever = new Retriever(graph, embeddingAdapter, { depth: _defaultDepth })
-  const entry: RepoCacheEntry = { graph, retriever, indexer, storage }
+  const entry: RepoCacheEntry = { graph, retriever, indexer, storage, baseBranch }
   cache.set(branchKey(repoId, branch), entry)
   return entry
 }
 
 /**
  * Get the cache entry for a (repo, branch) pair. Returns null if not loaded.
+ * An overlay is composed with the currently cached graph of its base branch.
  */
 export function getRepo(repoId: string, branch: string): RepoCacheEntry | null {
-  return cache.get(branchKey(repoId, branch)) ?? null
+  const entry = cache.get(branchKey(repoId, branch)) ?? null
+  if (entry?.baseBranch) {
+    const base = cache.get(branchKey(repoId, entry.baseBranch))
+    if (base) entry.graph.rebase(base.graph)
+  }
+  return entry
 }
 
 /**
  * Get or load a (repo, branch) cache entry.
  */
 export async function getOrLoadRepo(repoId: string, branch: string): Promise<RepoCacheEntry> {
-  return cache.get(branchKey(repoId, branch)) ?? loadRepo(repoId, branch)
+  const cached = getRepo(repoId, branch)
+  if (cached) return cached
+  const key = branchKey(repoId, branch)
+  let pending = loading.get(key)
+  if (!pending) {
+    pending = loadRepo(repoId, branch).finally(() => loading.delete(key))
+    loading.set(key, pending)
+  }
+  return pending
+}
+
+/**
+ * The branch `branch` is an overlay of, or null when it is indexed in full.
+ */
+export async function getBaseBranch(repoId: string, branch: string): Promise<string | null> {
+  if (!_pool) throw new Error('GraphCache not initialized')
+  try {
+    const res = await _pool.query<{ base_branch: string | null }>(
+      'SELECT base_branch FROM repo_branches WHERE repo_id = $1 AND branch = $2',
+      [repoId, branch],
+    )
+    return res.rows[0]?.base_branch ?? null
+  } catch {
+    // repo_branches (or its base_branch column) predates overlays
+    return null
+  }
 }
 
 /**
@@ -12,6 +12,8 @@ import { repoRoutes } from './routes/repos'
 import { authRoutes } from './routes/auth'
 import { feedbackRoutes } from './routes/feedback'
 import { initGraphCache, warmupAllRepos } from './graph-cache'
+import { purgeExpiredResponses } from './llm-cache'
+import { loadUsageReport, parseWeeks } from './usage'
 import { seedAdminUser } from './auth/seed'
 import { requireAuth } from './auth/middleware'
 import type { AuthJwtClaims } from './auth/types'
@@ -133,13 +135,13 @@ async function buildServer() {
     const orgId = reqAny.user?.activeOrgId ?? null
     const isSystem = Boolean(reqAny.user?.isSystemAdmin) && !orgId
     const { rows } = await app.db.query(isSystem ? `
-      SELECT r.id, r.repo_id, r.pr_number, r.verdict, r.comment_count, r.created_at,
+      SELECT r.id, r.repo_id, r.pr_number, r.verdict, r.comment_count, r.llm_provider, r.llm_cached, r.created_at,
              repos.repo_url
       FROM reviews r
       LEFT JOIN repos ON repos.repo_id = r.repo_id
       ORDER BY r.created_at DESC LIMIT 50
     ` : `
-      SELECT r.id, r.repo_id, r.pr_number, r.verdict, r.comment_count, r.created_at,
+      SELECT r.id, r.repo_id, r.pr_number, r.verdict, r.comment_count, r.llm_provider, r.llm_cached, r.created_at,
              repos.repo_url
       FROM reviews r
       LEFT JOIN repos ON repos.repo_id = r.repo_id
@@ -153,10 +155,22 @@ async function buildServer() {
       prNumber: r.pr_number,
       verdict: r.verdict,
       commentCount: r.comment_count,
+      llmProvider: r.llm_provider ?? null,
+      cached: r.llm_cached ?? false,
       createdAt: r.created_at,
     })))
   })
 
+  // GET /api/usage — weekly LLM tokens and cost for the active org, with a per-repo breakdown (auth required)
+  app.get('/api/usage', { preHandler: [requireAuth] }, async (req, reply) => {
+    const user = req.user as AuthJwtClaims
+    const orgId = user?.activeOrgId ?? null
+    const weeks = parseWeeks((req.query as { weeks?: string }).weeks)
+    if (weeks === null) return reply.status(400).send({ error: 'weeks must be between 1 and 104' })
+    if (!orgId && !user?.isSystemAdmin) return reply.status(403).send({ error: 'No active organization' })
+    return reply.send(await loadUsageReport(app.db, { orgId }, weeks))
+  })
+
   // GET /api/settings — read per-user settings (auth required)
   app.get('/api/settings', { preHandler: [requireAuth] }, async (req, reply) => {
     const user = req.user as { id: string }
@@ -324,6 +338,27 @@ async function main() {
       created_at TIMESTAMPTZ DEFAULT NOW()
     )
   `)
+  // provider/model that answered the review's LLM calls — more than one when it failed over
+  await pool.query(`ALTER TABLE reviews ADD COLUMN IF NOT EXISTS llm_provider TEXT`)
+  // every LLM call of the review was answered from llm_response_cache
+  await pool.query(`ALTER TABLE reviews ADD COLUMN IF NOT EXISTS llm_cached BOOLEAN NOT NULL DEFAULT FALSE`)
+  // LLM usage totals over the review's calls, PR description included; cost_usd is NULL when no model was priced
+  await pool.query(`ALTER TABLE reviews ADD COLUMN IF NOT EXISTS llm_calls INT NOT NULL DEFAULT 0`)
+  await pool.query(`ALTER TABLE reviews ADD COLUMN IF NOT EXISTS prompt_tokens INT NOT NULL DEFAULT 0`)
+  await pool.query(`ALTER TABLE reviews ADD COLUMN IF NOT EXISTS completion_tokens INT NOT NULL DEFAULT 0`)
+  await pool.query(`ALTER TABLE reviews ADD COLUMN IF NOT EXISTS llm_latency_ms INT NOT NULL DEFAULT 0`)
+  await pool.query(`ALTER TABLE reviews ADD COLUMN IF NOT EXISTS cost_usd DOUBLE PRECISION`)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS llm_response_cache (
+      provider    TEXT NOT NULL,
+      model       TEXT NOT NULL,
+      prompt_hash TEXT NOT NULL,
+      response    TEXT NOT NULL,
+      created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      expires_at  TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (provider, model, prompt_hash)
+    )
+  `)
   await pool.query(`
     CREATE TABLE IF NOT EXISTS review_comments (
       id          TEXT PRIMARY KEY,
@@ -373,6 +408,13 @@ async function main() {
   await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS pr_description_use_markers BOOLEAN NOT NULL DEFAULT FALSE`)
   await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS pr_description_publish_labels BOOLEAN NOT NULL DEFAULT TRUE`)
   await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW()`)
+  await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS llm_cache_enabled BOOLEAN NOT NULL DEFAULT TRUE`)
+  await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS llm_cache_ttl_hours INT NOT NULL DEFAULT 24`)
+  await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS llm_provider TEXT`)
+  await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS llm_model TEXT`)
+  await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS llm_base_url TEXT`)
+  await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS llm_temperature DOUBLE PRECISION`)
+  await pool.query(`ALTER TABLE org_settings ADD COLUMN IF NOT EXISTS command_permission TEXT NOT NULL DEFAULT 'collaborators'`)
 
   await pool.query(`
     CREATE TABLE IF NOT EXISTS repo_settings (
@@ -393,6 +435,10 @@ async function main() {
   await pool.query(`ALTER TABLE repo_settings ADD COLUMN IF NOT EXISTS pr_description_use_markers BOOLEAN`)
   await pool.query(`ALTER TABLE repo_settings ADD COLUMN IF NOT EXISTS pr_description_publish_labels BOOLEAN`)
   await pool.query(`ALTER TABLE repo_settings ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW()`)
+  await pool.query(`ALTER TABLE repo_settings ADD COLUMN IF NOT EXISTS llm_provider TEXT`)
+  await pool.query(`ALTER TABLE repo_settings ADD COLUMN IF NOT EXISTS llm_model TEXT`)
+  await pool.query(`ALTER TABLE repo_settings ADD COLUMN IF NOT EXISTS llm_base_url TEXT`)
+  await pool.query(`ALTER TABLE repo_settings ADD COLUMN IF NOT EXISTS llm_temperature DOUBLE PRECISION`)
   await pool.query(`ALTER TABLE repo_settings ALTER COLUMN pr_description_enabled DROP NOT NULL`)
   await pool.query(`ALTER TABLE repo_settings ALTER COLUMN pr_description_update_mode DROP NOT NULL`)
   await pool.query(`ALTER TABLE repo_settings ALTER COLUMN pr_description_publish_mode DROP NOT NULL`)
@@ -414,17 +460,27 @@ async function main() {
         ALTER TABLE invites
         ADD CONSTRAINT invites_org_role_check CHECK (org_role IN ('admin', 'member'));
       END IF;
+      -- Widen platform checks created before GitLab/Bitbucket support
+      IF EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'repos_platform_check' AND pg_get_constraintdef(oid) NOT LIKE '%bitbucket%') THEN
+        ALTER TABLE repos DROP CONSTRAINT repos_platform_check;
+      END IF;
       IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'repos_platform_check') THEN
         ALTER TABLE repos
-        ADD CONSTRAINT repos_platform_check CHECK (platform IN ('github', 'azure'));
+        ADD CONSTRAINT repos_platform_check CHECK (platform IN ('github', 'azure', 'gitlab', 'bitbucket'));
+      END IF;
+      IF EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'org_webhook_secrets_platform_check' AND pg_get_constraintdef(oid) NOT LIKE '%bitbucket%') THEN
+        ALTER TABLE org_webhook_secrets DROP CONSTRAINT org_webhook_secrets_platform_check;
       END IF;
       IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'org_webhook_secrets_platform_check') THEN
         ALTER TABLE org_webhook_secrets
-        ADD CONSTRAINT org_webhook_secrets_platform_check CHECK (platform IN ('github', 'azure'));
+        ADD CONSTRAINT org_webhook_secrets_platform_check CHECK (platform IN ('github', 'azure', 'gitlab', 'bitbucket'));
+      END IF;
+      IF EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'org_settings_platform_check' AND pg_get_constraintdef(oid) NOT LIKE '%bitbucket%') THEN
+        ALTER TABLE org_settings DROP CONSTRAINT org_settings_platform_check;
       END IF;
       IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'org_settings_platform_check') THEN
         ALTER TABLE org_settings
-        ADD CONSTRAINT org_settings_platform_check CHECK (platform IN ('github', 'azure'));
+        ADD CONSTRAINT org_settings_platform_check CHECK (platform IN ('github', 'azure', 'gitlab', 'bitbucket'));
       END IF;
       IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'org_settings_update_mode_check') THEN
         ALTER TABLE org_settings
@@ -434,6 +490,10 @@ async function main() {
         ALTER TABLE org_settings
         ADD CONSTRAINT org_settings_publish_mode_check CHECK (pr_description_publish_mode IN ('replace_pr', 'comment'));
       END IF;
+      IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'org_settings_command_permission_check') THEN
+        ALTER TABLE org_settings
+        ADD CONSTRAINT org_settings_command_permission_check CHECK (command_permission IN ('anyone', 'collaborators', 'maintainers'));
+      END IF;
       IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'repo_settings_update_mode_check') THEN
         ALTER TABLE repo_settings
         ADD CONSTRAINT repo_settings_update_mode_check CHECK (pr_description_update_mode IN ('created_only', 'created_and_updated') OR pr_description_update_mode IS NULL);
@@ -480,7 +540,21 @@ async function main() {
     CREATE UNIQUE INDEX IF NOT EXISTS pr_review_state_uq
     ON pr_review_state (repo_id, pr_number, platform)
   `)
+  // Latest Bitbucket source commit seen, to tell pushes from PR edits
+  await pool.query(`ALTER TABLE pr_review_state ADD COLUMN IF NOT EXISTS last_seen_head TEXT`)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS pr_ignored_paths (
+      repo_id    TEXT NOT NULL,
+      pr_number  INT  NOT NULL,
+      path       TEXT NOT NULL,
+      created_by TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (repo_id, pr_number, path)
+    )
+  `)
   app.log.info('Database schema migrated')
+  const purged = await purgeExpiredResponses(pool)
+  if (purged > 0) app.log.info(`Purged ${purged} expired LLM cache entries`)
   await seedAdminUser(pool)
 
   // Multi-org migration/backfill for existing single-tenant installs
@@ -527,9 +601,9 @@ async function main() {
   if (process.env.WEBHOOK_SECRET) {
     await pool.query(
       `INSERT INTO org_webhook_secrets (id, org_id, platform, secret)
-       VALUES ($1, $2, 'github', $3), ($4, $2, 'azure', $3)
+       VALUES ($1, $2, 'github', $3), ($4, $2, 'azure', $3), ($5, $2, 'gitlab', $3), ($6, $2, 'bitbucket', $3)
        ON CONFLICT (org_id, platform) DO NOTHING`,
-      [crypto.randomUUID(), defaultOrgId, process.env.WEBHOOK_SECRET, crypto.randomUUID()],
+      [crypto.randomUUID(), defaultOrgId, process.env.WEBHOOK_SECRET, crypto.randomUUID(), crypto.randomUUID(), crypto.randomUUID()],
     )
   }
 
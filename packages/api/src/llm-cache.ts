@@ -0,0 +1,40 @@
+/**
+ * Postgres-backed LLM response cache.
+ *
+ * Rows in `llm_response_cache` are keyed by provider, model and prompt hash and expire
+ * after the TTL of the org whose review wrote them. Webhook redeliveries, manual
+ * re-reviews and dry-runs of an unchanged commit then cost no LLM calls.
+ */
+import type { Pool } from 'pg'
+import type { CacheKey, LLMResponseCache } from '@agnus-ai/reviewer'
+
+export class PostgresResponseCache implements LLMResponseCache {
+  constructor(private pool: Pool, private ttlHours: number) {}
+
+  async get(key: CacheKey): Promise<string | null> {
+    const { rows } = await this.pool.query<{ response: string }>(
+      `SELECT response FROM llm_response_cache
+       WHERE provider = $1 AND model = $2 AND prompt_hash = $3 AND expires_at > NOW()`,
+      [key.provider, key.model, key.promptHash],
+    )
+    return rows[0]?.response ?? null
+  }
+
+  async set(key: CacheKey, response: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO llm_response_cache (provider, model, prompt_hash, response, expires_at)
+       VALUES ($1, $2, $3, $4, NOW() + make_interval(hours => $5))
+       ON CONFLICT (provider, model, prompt_hash) DO UPDATE SET
+         response = EXCLUDED.response,
+         created_at = NOW(),
+         expires_at = EXCLUDED.expires_at`,
+      [key.provider, key.model, key.promptHash, response, this.ttlHours],
+    )
+  }
+}
+
+/** Drop expired rows — run on startup, reads already skip them */
+export async function purgeExpiredResponses(pool: Pool): Promise<number> {
+  const { rowCount } = await pool.query(`DELETE FROM llm_response_cache WHERE expires_at <= NOW()`)
+  return rowCount ?? 0
+}
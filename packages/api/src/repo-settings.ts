@@ -1,3 +1,6 @@
+import type { VcsPlatform } from '@agnus-ai/shared';
+import { BASE_URL_OVERRIDE_PROVIDERS, PROVIDER_NAMES, type LLMOverrides, type ProviderName } from '@agnus-ai/reviewer';
+
 export type PRDescriptionUpdateMode = 'created_only' | 'created_and_updated';
 export type PRDescriptionPublishMode = 'replace_pr' | 'comment';
 
@@ -69,7 +72,123 @@ export function resolveRepoPRDescriptionSettings(
   };
 }
 
-export function extractOrgIdentity(platform: 'github' | 'azure', repoUrl: string): { orgKey: string; orgName: string } {
+/** Org-wide LLM response cache — see llm-cache.ts */
+export interface LLMCacheSettings {
+  enabled: boolean;
+  ttlHours: number;
+}
+
+export const DEFAULT_LLM_CACHE_SETTINGS: LLMCacheSettings = {
+  enabled: true,
+  ttlHours: 24,
+};
+
+export function normalizeLLMCacheSettings(
+  row: Partial<{ llm_cache_enabled: boolean; llm_cache_ttl_hours: number }> | null | undefined
+): LLMCacheSettings {
+  return {
+    enabled: row?.llm_cache_enabled ?? DEFAULT_LLM_CACHE_SETTINGS.enabled,
+    ttlHours: row?.llm_cache_ttl_hours ?? DEFAULT_LLM_CACHE_SETTINGS.ttlHours,
+  };
+}
+
+/**
+ * Who may run `/agnus` commands in PR comments:
+ * - `anyone` — any commenter, including contributors from forks
+ * - `collaborators` — people with access to the repository
+ * - `maintainers` — repository owners and org members
+ */
+export type CommandPermission = 'anyone' | 'collaborators' | 'maintainers';
+
+export const COMMAND_PERMISSIONS: CommandPermission[] = ['anyone', 'collaborators', 'maintainers'];
+
+export const DEFAULT_COMMAND_PERMISSION: CommandPermission = 'collaborators';
+
+export function normalizeCommandPermission(
+  row: Partial<{ command_permission: string }> | null | undefined
+): CommandPermission {
+  const value = row?.command_permission as CommandPermission | undefined;
+  return value && COMMAND_PERMISSIONS.includes(value) ? value : DEFAULT_COMMAND_PERMISSION;
+}
+
+/**
+ * LLM provider, model, base URL and temperature for an org (org_settings) or a repo
+ * (repo_settings). Null falls through: repo → org → the LLM_* env vars.
+ */
+export interface LLMSettings {
+  provider: ProviderName | null;
+  model: string | null;
+  baseURL: string | null;
+  temperature: number | null;
+}
+
+export const EMPTY_LLM_SETTINGS: LLMSettings = {
+  provider: null,
+  model: null,
+  baseURL: null,
+  temperature: null,
+};
+
+export function normalizeLLMSettings(
+  row: Partial<{
+    llm_provider: string | null;
+    llm_model: string | null;
+    llm_base_url: string | null;
+    llm_temperature: number | null;
+  }> | null | undefined
+): LLMSettings {
+  // Provider, model and base URL belong together — one without the others would pair
+  // with another level's, e.g. an org's Ollama URL with a repo's OpenAI model
+  const selected = Boolean(row?.llm_provider && row.llm_model);
+  return {
+    provider: selected ? row!.llm_provider as ProviderName : null,
+    model: selected ? row!.llm_model! : null,
+    baseURL: selected ? row!.llm_base_url ?? null : null,
+    temperature: row?.llm_temperature ?? null,
+  };
+}
+
+/** The repo's provider, model and base URL if it picked a provider, else the org's; temperature on its own */
+export function resolveLLMSettings(org: LLMSettings, repo: LLMSettings): LLMSettings {
+  const source = repo.provider ? repo : org;
+  return {
+    provider: source.provider,
+    model: source.model,
+    baseURL: source.baseURL,
+    temperature: repo.temperature ?? org.temperature,
+  };
+}
+
+/** Check a request body's `llm` object; returns the problem, or null if it is valid */
+export function validateLLMSettings(input: Partial<LLMSettings>): string | null {
+  const { provider = null, model = null, baseURL = null, temperature = null } = input;
+  if ((provider === null) !== (model === null)) return 'llm.provider and llm.model must both be set or both be null';
+  if (provider !== null && !PROVIDER_NAMES.includes(provider)) return `llm.provider must be one of: ${PROVIDER_NAMES.join(', ')}`;
+  if (model !== null && (typeof model !== 'string' || !model.trim())) return 'llm.model must be a non-empty string';
+  if (baseURL !== null) {
+    if (provider === null) return 'llm.baseURL needs llm.provider';
+    // Hosted providers are called with the server's API keys, so their endpoint stays the server's
+    if (!BASE_URL_OVERRIDE_PROVIDERS.includes(provider)) {
+      return `llm.baseURL can only be set for ${BASE_URL_OVERRIDE_PROVIDERS.join(' and ')} providers`;
+    }
+    if (typeof baseURL !== 'string' || !/^https?:\/\//.test(baseURL)) return 'llm.baseURL must be an http(s) URL';
+  }
+  if (temperature !== null && !(typeof temperature === 'number' && temperature >= 0 && temperature <= 2)) {
+    return 'llm.temperature must be a number from 0 to 2';
+  }
+  return null;
+}
+
+export function toLLMOverrides(settings: LLMSettings): LLMOverrides {
+  return {
+    provider: settings.provider ?? undefined,
+    model: settings.model ?? undefined,
+    baseURL: settings.baseURL ?? undefined,
+    temperature: settings.temperature ?? undefined,
+  };
+}
+
+export function extractOrgIdentity(platform: VcsPlatform, repoUrl: string): { orgKey: string; orgName: string } {
   try {
     const u = new URL(repoUrl);
     const parts = u.pathname.split('/').filter(Boolean);
@@ -0,0 +1,54 @@
+/**
+ * In-process store of manual reviews started with `stream: true`.
+ *
+ * Each job keeps every event its review has emitted, so an SSE client that connects
+ * late — or reconnects — replays the review from the start. Finished jobs are kept
+ * for a few minutes, then dropped.
+ */
+import crypto from 'crypto'
+import type { ReviewComment, ReviewPhase } from '@agnus-ai/reviewer'
+
+export type ReviewStreamEvent =
+  | { type: 'phase'; phase: ReviewPhase }
+  | { type: 'comment'; comment: ReviewComment }
+  | { type: 'filtered'; comments: ReviewComment[] }
+  | { type: 'done'; verdict: string; commentCount: number; reviewId: string; comments?: unknown[] }
+  | { type: 'error'; message: string }
+
+interface ReviewJob {
+  repoId: string
+  events: ReviewStreamEvent[]
+  finished: boolean
+}
+
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000
+
+const jobs = new Map<string, ReviewJob>()
+
+export function createReviewJob(repoId: string): string {
+  const jobId = crypto.randomUUID()
+  jobs.set(jobId, { repoId, events: [], finished: false })
+  return jobId
+}
+
+/** Append an event; `done` and `error` finish the job */
+export function pushReviewEvent(jobId: string, event: ReviewStreamEvent): void {
+  const job = jobs.get(jobId)
+  if (!job || job.finished) return
+  job.events.push(event)
+  if (event.type === 'done' || event.type === 'error') {
+    job.finished = true
+    setTimeout(() => jobs.delete(jobId), FINISHED_JOB_TTL_MS).unref()
+  }
+}
+
+/** The job's events from index `from` on; null for an unknown job or one of another repo */
+export function getReviewEvents(
+  jobId: string,
+  repoId: string,
+  from = 0,
+): { events: ReviewStreamEvent[]; finished: boolean } | null {
+  const job = jobs.get(jobId)
+  if (!job || job.repoId !== repoId) return null
+  return { events: job.events.slice(from), finished: job.finished }
+}
@@ -4,20 +4,26 @@
  */
 import crypto from 'crypto'
 import path from 'path'
-import { PRReviewAgent, GitHubAdapter, AzureDevOpsAdapter, createBackendFromEnv } from '@agnus-ai/reviewer'
-import type { Config } from '@agnus-ai/reviewer'
+import { PRReviewAgent, GitHubAdapter, AzureDevOpsAdapter, GitLabAdapter, BitbucketAdapter, createBackendFromEnv, summarizeUsage, AGNUSAI_MARKER, AGNUSAI_META_MARKER_START, isDismissal } from '@agnus-ai/reviewer'
+import type { CommentThread, Config, DetailedReviewComment, Diff, ReviewProgressListener, UsageTotals } from '@agnus-ai/reviewer'
 import type { Pool } from 'pg'
 
 // Skills bundled with the reviewer package
 const SKILLS_PATH = path.join(require.resolve('@agnus-ai/reviewer'), '../../..', 'skills')
 import { getRepo } from './graph-cache'
 import { createEmbeddingAdapter } from './embedding-factory'
-import type { GraphReviewContext } from '@agnus-ai/shared'
+import type { GraphReviewContext, VcsPlatform } from '@agnus-ai/shared'
+import { PostgresResponseCache } from './llm-cache'
 import {
   DEFAULT_REPO_PR_DESCRIPTION_SETTINGS,
+  normalizeLLMCacheSettings,
+  normalizeLLMSettings,
   normalizeRepoPRDescriptionSettings,
+  resolveLLMSettings,
   resolveRepoPRDescriptionSettings,
+  toLLMOverrides,
 } from './repo-settings'
+import type { RepoPRDescriptionSettings } from './repo-settings'
 
 // Sequential per-PR lock — prevents concurrent webhooks posting duplicate comments
 const prReviewLocks = new Map<string, Promise<void>>()
@@ -36,6 +42,15 @@ async function withPRLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
   }
 }
 
+async function saveReviewUsage(pool: Pool, reviewId: string, usage: UsageTotals): Promise<void> {
+  await pool.query(
+    `UPDATE reviews
+     SET llm_calls = $2, prompt_tokens = $3, completion_tokens = $4, llm_latency_ms = $5, cost_usd = $6
+     WHERE id = $1`,
+    [reviewId, usage.calls, usage.promptTokens, usage.completionTokens, usage.latencyMs, usage.costUsd],
+  )
+}
+
 async function getLastReviewedIteration(pool: Pool, repoId: string, prNumber: number): Promise<number> {
   const res = await pool.query<{ last_reviewed_iteration: number }>(
     `SELECT last_reviewed_iteration FROM pr_review_state
@@ -55,8 +70,36 @@ async function saveLastReviewedIteration(pool: Pool, repoId: string, prNumber: n
   )
 }
 
+/**
+ * Split a Bitbucket repo URL into adapter coordinates.
+ *   Cloud:       https://bitbucket.org/{workspace}/{repo}
+ *   Data Center: https://host[/context]/scm/{projectKey}/{repo}.git
+ *                https://host[/context]/projects/{projectKey}/repos/{repo}[/browse]
+ */
+export function parseBitbucketRepoUrl(repoUrl: string): { workspace: string; repoSlug: string; baseUrl?: string } {
+  const url = new URL(repoUrl)
+  const parts = url.pathname.replace(/\.git$/, '').split('/').filter(Boolean)
+  if (url.hostname.toLowerCase() === 'bitbucket.org') {
+    return { workspace: parts[0] ?? '', repoSlug: parts[1] ?? '' }
+  }
+  const scmIdx = parts.indexOf('scm')
+  if (scmIdx !== -1) {
+    return {
+      workspace: parts[scmIdx + 1] ?? '',
+      repoSlug: parts[scmIdx + 2] ?? '',
+      baseUrl: `${url.origin}${parts.slice(0, scmIdx).map(p => `/${p}`).join('')}`,
+    }
+  }
+  const projectsIdx = parts.indexOf('projects')
+  return {
+    workspace: parts[projectsIdx + 1] ?? '',
+    repoSlug: parts[projectsIdx + 3] ?? '',
+    baseUrl: `${url.origin}${parts.slice(0, Math.max(projectsIdx, 0)).map(p => `/${p}`).join('')}`,
+  }
+}
+
 export interface ReviewRunOptions {
-  platform: 'github' | 'azure'
+  platform: VcsPlatform
   repoId: string
   repoUrl: string
   prNumber: number
@@ -65,7 +108,7 @@ export interface ReviewRunOptions {
   pool: Pool
   /** Azure only: if true, gates on iteration DB state and diffs only new commits since last reviewed iteration */
   incrementalDiff?: boolean
-  /** GitHub only: if true, uses checkpoint-based incremental review (only new commits since last review) */
+  /** GitHub/GitLab/Bitbucket only: if true, uses checkpoint-based incremental review (only new commits since last review) */
   incrementalReview?: boolean
   /** If true, skips posting comments and DB inserts — returns comments in the response for inspection */
   dryRun?: boolean
@@ -73,33 +116,15 @@ export interface ReviewRunOptions {
   updatePRDescription?: boolean
   /** PR event action to evaluate created-only vs updated behavior */
   prAction?: 'created' | 'updated' | 'opened' | 'synchronize' | 'manual'
+  /** Receives review phases and comments as they are generated */
+  onProgress?: ReviewProgressListener
 }
 
-export async function runReview(opts: ReviewRunOptions): Promise<{ verdict: string; commentCount: number; reviewId: string; comments?: any[] }> {
+export async function runReview(opts: ReviewRunOptions): Promise<{ verdict: string; commentCount: number; reviewId: string; cached?: boolean; usage?: UsageTotals; comments?: any[] }> {
   const { platform, repoId, repoUrl, prNumber, token, pool } = opts
 
   // 1. Build VCS adapter
-  let vcs: any
-  let azureAdapter: AzureDevOpsAdapter | undefined
-  if (platform === 'github') {
-    if (!token) throw new Error('GitHub token required for review')
-    // https://github.com/{owner}/{repo}
-    const urlParts = repoUrl.replace(/\/$/, '').split('/')
-    const owner = urlParts[urlParts.length - 2] ?? ''
-    const repo = urlParts[urlParts.length - 1] ?? ''
-    vcs = new GitHubAdapter({ token, owner, repo })
-  } else {
-    if (!token) throw new Error('Azure token required for review')
-    // https://dev.azure.com/{org}/{project}/_git/{repo}
-    const url = new URL(repoUrl)
-    const parts = url.pathname.split('/').filter(Boolean)
-    // parts: ['org', 'project', '_git', 'repo']
-    const organization = parts[0] ?? ''
-    const project = parts[1] ?? ''
-    const repository = parts[parts.length - 1] ?? ''
-    azureAdapter = new AzureDevOpsAdapter({ organization, project, repository, token })
-    vcs = azureAdapter
-  }
+  const { vcs, azureAdapter } = createVcsAdapter(platform, repoUrl, token)
 
   // 2. Azure incremental gate — skip non-commit events, diff only new commits since last review
   if (opts.incrementalDiff && azureAdapter) {
@@ -144,38 +169,19 @@ export async function runReview(opts: ReviewRunOptions): Promise<{ verdict: stri
   return result
 }
 
-async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Promise<{ verdict: string; commentCount: number; reviewId: string; comments?: any[] }> {
+async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Promise<{ verdict: string; commentCount: number; reviewId: string; cached?: boolean; usage?: UsageTotals; comments?: any[] }> {
   const { platform, repoId, prNumber, baseBranch } = opts
 
-  const config: Config = {
-    vcs: {},
-    tickets: [],
-    llm: {
-      provider: (process.env.LLM_PROVIDER as any) ?? 'ollama',
-      model: process.env.LLM_MODEL ?? 'qwen3.5:397b-cloud',
-      providers: {
-        ollama: { baseURL: process.env.LLM_BASE_URL ?? 'http://localhost:11434/v1' },
-      },
-    },
-    review: {
-      maxDiffSize: process.env.MAX_DIFF_SIZE ? parseInt(process.env.MAX_DIFF_SIZE) : 150000,
-      focusAreas: [],
-      ignorePaths: ['node_modules', 'dist', 'build', '.git'],
-      precisionThreshold: process.env.PRECISION_THRESHOLD ? parseFloat(process.env.PRECISION_THRESHOLD) : 0.7,
-    },
-    skills: {
-      path: SKILLS_PATH,
-      default: 'default',
-    },
+  const { agent, llm, orgKey } = await createReviewAgent(pool, repoId, prNumber, vcs)
+  const onProgress = opts.onProgress
+  if (onProgress) {
+    // Context building starts here with the diff; the agent would report it again after the graph lookup
+    agent.setProgressListener(event => {
+      if (event.type !== 'phase' || event.phase !== 'context') onProgress(event)
+    })
+    onProgress({ type: 'phase', phase: 'context' })
   }
 
-  // Build LLM backend from provider-specific env vars
-  const llm = createBackendFromEnv(process.env)
-
-  const agent = new PRReviewAgent(config)
-  agent.setVCS(vcs)
-  agent.setLLM(llm)
-
   // Hoist diff to outer scope so it's available for RAG retrieval
   const diffString = await fetchDiffString(vcs, prNumber)
 
@@ -186,6 +192,7 @@ async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Prom
   }
 
   // Assemble graph context from the base branch's graph (gracefully degraded if not indexed)
+  onProgress?.({ type: 'phase', phase: 'graph' })
   let graphContext: GraphReviewContext | undefined
   const entry = getRepo(repoId, baseBranch)
   if (entry && diffString) {
@@ -254,9 +261,15 @@ async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Prom
     }
   }
 
-  const result = opts.incrementalReview && platform === 'github'
+  // Resolve earlier comments the new commits fixed — before incrementalReview moves the checkpoint
+  if (!opts.dryRun) await resolveFixedComments(opts, agent, vcs, pool)
+
+  const result = opts.incrementalReview && platform !== 'azure'
     ? await agent.incrementalReview(prNumber, {}, graphContext)
     : await agent.review(prNumber, graphContext)
+  // Read before the PR description is generated, which may fail over on its own
+  const llmProvider = llm.servedBy.join(', ') || null
+  if (result.cached) console.log(`[review-runner] PR ${prNumber}: review answered from the LLM cache`)
 
   // Generate a stable reviewId upfront so review_comments can FK into reviews
   const reviewId = crypto.randomUUID()
@@ -309,6 +322,8 @@ async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Prom
       verdict: (result as any).verdict ?? 'unknown',
       commentCount: comments.length,
       reviewId,
+      cached: result.cached ?? false,
+      usage: summarizeUsage(llm.usage),
       comments: comments.map((c: any) => ({
         path: c.path,
         line: c.line,
@@ -321,9 +336,10 @@ async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Prom
 
   // Persist review row (moved here so both webhook and manual-review paths share one INSERT)
   await pool.query(
-    `INSERT INTO reviews (id, repo_id, pr_number, verdict, comment_count) VALUES ($1,$2,$3,$4,$5)`,
-    [reviewId, repoId, prNumber, (result as any).verdict ?? 'unknown', comments.length],
+    `INSERT INTO reviews (id, repo_id, pr_number, verdict, comment_count, llm_provider, llm_cached) VALUES ($1,$2,$3,$4,$5,$6,$7)`,
+    [reviewId, repoId, prNumber, (result as any).verdict ?? 'unknown', comments.length, llmProvider, result.cached ?? false],
   )
+  await saveReviewUsage(pool, reviewId, summarizeUsage(llm.usage))
 
   // Bulk-insert individual comment rows for feedback correlation
   if (commentRows.length > 0) {
@@ -353,7 +369,324 @@ async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Prom
   }
 
   // Post to GitHub/Azure (comment bodies now include feedback links)
-  // Resolve org-level defaults + repo-level overrides for PR description behavior
+  const prSettings = await loadPRDescriptionSettings(pool, orgKey, repoId)
+
+  const action = opts.prAction ?? 'manual'
+  const shouldRunForAction = prSettings.updateMode === 'created_and_updated'
+    ? (action === 'created' || action === 'updated' || action === 'opened' || action === 'synchronize' || action === 'manual')
+    : (action === 'created' || action === 'opened' || action === 'manual')
+  const shouldUpdatePRDescription =
+    (opts.updatePRDescription ?? true) &&
+    prSettings.enabled &&
+    shouldRunForAction
+
+  await agent.postReview(prNumber, result, {
+    updatePRDescription: shouldUpdatePRDescription,
+    prDescription: {
+      publishMode: prSettings.publishMode,
+      preserveOriginal: prSettings.preserveOriginal,
+      useMarkers: prSettings.useMarkers,
+      publishLabels: prSettings.publishLabels,
+    },
+  })
+  // Again, now that the PR description call is in
+  const usage = summarizeUsage(llm.usage)
+  await saveReviewUsage(pool, reviewId, usage)
+
+  return {
+    verdict: (result as any).verdict ?? 'unknown',
+    commentCount: comments.length,
+    reviewId,
+    cached: result.cached ?? false,
+    usage,
+  }
+}
+
+/** The PR a comment command targets */
+export type PRCommandTarget = Pick<ReviewRunOptions, 'platform' | 'repoId' | 'repoUrl' | 'prNumber' | 'token' | 'pool'>
+
+/** Branch the PR merges into — comment events don't carry it */
+export async function getPRBaseBranch(target: PRCommandTarget): Promise<string> {
+  const { vcs } = createVcsAdapter(target.platform, target.repoUrl, target.token)
+  const pr = await vcs.getPR(target.prNumber)
+  return pr.targetBranch
+}
+
+/**
+ * Whether an Azure DevOps comment author is the identity our token authenticates as —
+ * i.e. the comment is our own — and, if not, the groups they belong to
+ */
+export async function getAzureCommenter(target: PRCommandTarget, identityId: string): Promise<{ isSelf: boolean; groups: string[] }> {
+  const { azureAdapter } = createVcsAdapter('azure', target.repoUrl, target.token)
+  if (identityId === await azureAdapter!.getAuthenticatedIdentityId()) return { isSelf: true, groups: [] }
+  return { isSelf: false, groups: await azureAdapter!.getIdentityGroups(identityId) }
+}
+
+/** Post a PR-level comment */
+export async function postPRComment(target: PRCommandTarget, body: string): Promise<void> {
+  const { vcs } = createVcsAdapter(target.platform, target.repoUrl, target.token)
+  await vcs.addComment(target.prNumber, { path: '', line: 1, severity: 'info', body })
+}
+
+/** Generate and publish the PR description with the repo's PR description settings, whether or not they are enabled */
+export async function runDescribe(target: PRCommandTarget): Promise<void> {
+  const { platform, repoId, repoUrl, prNumber, token, pool } = target
+  const { vcs } = createVcsAdapter(platform, repoUrl, token)
+  const { agent, orgKey } = await createReviewAgent(pool, repoId, prNumber, vcs)
+  const prSettings = await loadPRDescriptionSettings(pool, orgKey, repoId)
+  await agent.describe(prNumber, {
+    publishMode: prSettings.publishMode,
+    preserveOriginal: prSettings.preserveOriginal,
+    useMarkers: prSettings.useMarkers,
+    publishLabels: prSettings.publishLabels,
+  })
+}
+
+/**
+ * Answer a question about the PR and post the answer as a PR comment. The base branch's
+ * graph grounds it: the diff's callers and blast radius, plus callers and callees of the
+ * symbols the question names. `dryRun` returns the answer without posting it.
+ */
+export async function runAsk(target: PRCommandTarget & { baseBranch: string; question: string; dryRun?: boolean }): Promise<string> {
+  const { platform, repoId, repoUrl, prNumber, token, pool, baseBranch, question } = target
+  const { vcs } = createVcsAdapter(platform, repoUrl, token)
+  const { agent } = await createReviewAgent(pool, repoId, prNumber, vcs)
+
+  let graphContext: GraphReviewContext | undefined
+  const entry = getRepo(repoId, baseBranch)
+  const diffString = entry ? await fetchDiffString(vcs, prNumber) : null
+  if (entry && diffString) {
+    graphContext = await entry.retriever.getAskContext(question, diffString, repoId)
+  }
+  return target.dryRun
+    ? agent.answer(prNumber, question, graphContext)
+    : agent.ask(prNumber, question, graphContext)
+}
+
+/** Leave files matching `pattern` out of this PR's later reviews */
+export async function addIgnoredPath(pool: Pool, repoId: string, prNumber: number, pattern: string, createdBy: string): Promise<void> {
+  await pool.query(
+    `INSERT INTO pr_ignored_paths (repo_id, pr_number, path, created_by)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (repo_id, pr_number, path) DO NOTHING`,
+    [repoId, prNumber, pattern, createdBy],
+  )
+}
+
+/** A developer's reply in a review comment thread */
+export interface ReviewCommentReply {
+  /** GitHub: ID of the thread's first comment. Azure DevOps: ID of the thread */
+  threadId: number
+  body: string
+  author: string
+}
+
+/**
+ * Answer a reply in the thread of one of our review comments, with the org's LLM settings.
+ * A reply that dismisses the comment ("won't fix", "false positive") is recorded as
+ * `rejected` feedback on it. Threads we didn't start are left alone.
+ */
+export async function runReply(target: PRCommandTarget, reply: ReviewCommentReply): Promise<void> {
+  const { platform, repoId, repoUrl, prNumber, token, pool } = target
+  const { vcs, azureAdapter } = createVcsAdapter(platform, repoUrl, token)
+
+  let root: { body: string; path: string; line: number | null }
+  if (azureAdapter) {
+    const thread = await azureAdapter.getThread(prNumber, reply.threadId)
+    const first = thread.comments.find(c => c.parentCommentId === 0) ?? thread.comments[0]
+    root = { body: first?.content ?? '', path: thread.path, line: thread.line }
+  } else if (platform === 'github') {
+    const comment = await vcs.getReviewComment(reply.threadId)
+    root = { body: comment.body, path: comment.path, line: comment.line }
+  } else {
+    throw new Error(`Review comment replies are not supported on ${platform}`)
+  }
+
+  if (!isReviewComment(root.body)) return
+
+  const thread: CommentThread = {
+    rootCommentId: reply.threadId,
+    pullRequestNumber: prNumber,
+    owner: '',
+    repo: '',
+    originalIssue: stripReviewCommentFooter(root.body),
+    userReply: reply.body,
+    repliedBy: reply.author,
+  }
+  const { agent } = await createReviewAgent(pool, repoId, prNumber, vcs)
+  await agent.reply(prNumber, reply.threadId, thread)
+
+  if (isDismissal(thread)) {
+    await recordDismissal(pool, repoId, prNumber, root)
+  }
+}
+
+/** Whether a comment body is one of our review comments */
+function isReviewComment(body: string): boolean {
+  return body.trim().endsWith(AGNUSAI_MARKER) || body.includes('\n---\nWas this helpful?')
+}
+
+/** The review comment as the model wrote it, without the marker, metadata and feedback links */
+function stripReviewCommentFooter(body: string): string {
+  return body.replace(AGNUSAI_MARKER, '').split(AGNUSAI_META_MARKER_START)[0].split('\n\n---\nWas this helpful?')[0].trim()
+}
+
+/**
+ * The review_comments row of a posted review comment: the ID in its feedback links, or
+ * failing that the latest comment at its position in the PR
+ */
+async function findReviewCommentId(
+  pool: Pool,
+  repoId: string,
+  prNumber: number,
+  comment: { body: string; path: string; line: number | null },
+): Promise<string | undefined> {
+  const linked = comment.body.match(/\/api\/feedback\?id=([\w-]+)&/)?.[1]
+  if (linked) return linked
+  const res = await pool.query<{ id: string }>(
+    `SELECT id FROM review_comments
+     WHERE repo_id = $1 AND pr_number = $2 AND path = $3 AND line = $4
+     ORDER BY created_at DESC LIMIT 1`,
+    [repoId, prNumber, comment.path, comment.line],
+  )
+  return res.rows[0]?.id
+}
+
+/** Record `rejected` feedback on the review comment a developer dismissed */
+async function recordDismissal(
+  pool: Pool,
+  repoId: string,
+  prNumber: number,
+  root: { body: string; path: string; line: number | null },
+): Promise<void> {
+  const commentId = await findReviewCommentId(pool, repoId, prNumber, root)
+  if (!commentId) return
+  await pool.query(
+    `INSERT INTO review_feedback (comment_id, signal)
+     SELECT id, 'rejected' FROM review_comments WHERE id = $1
+     ON CONFLICT (comment_id) DO UPDATE SET signal = EXCLUDED.signal, created_at = NOW()`,
+    [commentId],
+  )
+}
+
+/**
+ * Resolve the PR's earlier comments that the commits since the last review fixed, and
+ * record them as accepted. GitHub, GitLab and Bitbucket diff from the review checkpoint;
+ * Azure diffs the latest iteration against the last reviewed one, which runReview()
+ * set as `compareToIteration`, and checks the comments made on that iteration's commit.
+ * Full reviews and first reviews have nothing to resolve.
+ */
+async function resolveFixedComments(opts: ReviewRunOptions, agent: PRReviewAgent, vcs: any, pool: Pool): Promise<void> {
+  const { platform, repoId, prNumber } = opts
+  try {
+    let since: { diff: Diff; sha: string } | undefined
+    if (platform === 'azure') {
+      const azure = vcs as AzureDevOpsAdapter
+      const lastReviewed = azure.compareToIteration ?? 0
+      if (!opts.incrementalDiff || lastReviewed === 0) return
+      const [diff, sha] = await Promise.all([
+        azure.getIterationDiff(prNumber, lastReviewed),
+        azure.getIterationCommit(prNumber, lastReviewed),
+      ])
+      since = { diff, sha }
+    } else if (!opts.incrementalReview) {
+      return
+    }
+    const fixed = await agent.resolveFixedComments(prNumber, since)
+    await recordFixedComments(pool, repoId, prNumber, fixed)
+  } catch (err) {
+    console.warn('[review-runner] Resolving fixed comments skipped:', (err as Error).message)
+  }
+}
+
+/**
+ * Record implicit `accepted` feedback on review comments a later commit fixed. A rating
+ * someone already gave the comment is kept.
+ */
+async function recordFixedComments(pool: Pool, repoId: string, prNumber: number, fixed: DetailedReviewComment[]): Promise<void> {
+  for (const comment of fixed) {
+    const commentId = await findReviewCommentId(pool, repoId, prNumber, {
+      body: comment.body,
+      path: comment.path,
+      line: comment.originalLine ?? comment.line,
+    })
+    if (!commentId) continue
+    await pool.query(
+      `INSERT INTO review_feedback (comment_id, signal)
+       SELECT id, 'accepted' FROM review_comments WHERE id = $1
+       ON CONFLICT (comment_id) DO NOTHING`,
+      [commentId],
+    )
+  }
+}
+
+function createVcsAdapter(platform: VcsPlatform, repoUrl: string, token?: string): { vcs: any; azureAdapter?: AzureDevOpsAdapter } {
+  if (platform === 'github') {
+    if (!token) throw new Error('GitHub token required for review')
+    // https://github.com/{owner}/{repo}
+    const urlParts = repoUrl.replace(/\/$/, '').split('/')
+    const owner = urlParts[urlParts.length - 2] ?? ''
+    const repo = urlParts[urlParts.length - 1] ?? ''
+    return { vcs: new GitHubAdapter({ token, owner, repo }) }
+  } else if (platform === 'gitlab') {
+    if (!token) throw new Error('GitLab token required for review')
+    // https://gitlab.com/{group}/{subgroup...}/{project} — self-managed hosts keep their origin
+    const url = new URL(repoUrl)
+    const projectPath = url.pathname.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '')
+    return { vcs: new GitLabAdapter({ token, projectPath, baseUrl: url.origin }) }
+  } else if (platform === 'bitbucket') {
+    if (!token) throw new Error('Bitbucket token required for review')
+    return { vcs: new BitbucketAdapter({ token, ...parseBitbucketRepoUrl(repoUrl) }) }
+  } else {
+    if (!token) throw new Error('Azure token required for review')
+    // https://dev.azure.com/{org}/{project}/_git/{repo}
+    const url = new URL(repoUrl)
+    const parts = url.pathname.split('/').filter(Boolean)
+    // parts: ['org', 'project', '_git', 'repo']
+    const organization = parts[0] ?? ''
+    const project = parts[1] ?? ''
+    const repository = parts[parts.length - 1] ?? ''
+    const azureAdapter = new AzureDevOpsAdapter({ organization, project, repository, token })
+    return { vcs: azureAdapter, azureAdapter }
+  }
+}
+
+/**
+ * PRReviewAgent for one PR, with the LLM backend the repo's and org's settings select
+ * and the paths ignored on the PR with `/agnus ignore`
+ */
+async function createReviewAgent(
+  pool: Pool,
+  repoId: string,
+  prNumber: number,
+  vcs: any,
+): Promise<{ agent: PRReviewAgent; llm: ReturnType<typeof createBackendFromEnv>; orgKey: string }> {
+  const config: Config = {
+    vcs: {},
+    tickets: [],
+    llm: {
+      provider: (process.env.LLM_PROVIDER as any) ?? 'ollama',
+      model: process.env.LLM_MODEL ?? 'qwen3.5:397b-cloud',
+      providers: {
+        ollama: { baseURL: process.env.LLM_BASE_URL ?? 'http://localhost:11434/v1' },
+      },
+    },
+    review: {
+      maxDiffSize: process.env.MAX_DIFF_SIZE ? parseInt(process.env.MAX_DIFF_SIZE) : 150000,
+      focusAreas: [],
+      ignorePaths: ['node_modules', 'dist', 'build', '.git', ...await loadIgnoredPaths(pool, repoId, prNumber)],
+      precisionThreshold: process.env.PRECISION_THRESHOLD ? parseFloat(process.env.PRECISION_THRESHOLD) : 0.7,
+      chunkedReview: process.env.CHUNKED_REVIEW !== 'false',
+      maxReviewChunks: process.env.MAX_REVIEW_CHUNKS ? parseInt(process.env.MAX_REVIEW_CHUNKS) : 10,
+      specialistReview: process.env.SPECIALIST_REVIEW === 'true',
+      specialistConcurrency: process.env.SPECIALIST_CONCURRENCY ? parseInt(process.env.SPECIALIST_CONCURRENCY) : 4,
+    },
+    skills: {
+      path: SKILLS_PATH,
+      default: 'default',
+    },
+  }
+
   const orgIdentityRows = await pool.query<{ slug: string }>(
     `SELECT o.slug
      FROM repos r
@@ -363,6 +696,33 @@ async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Prom
     [repoId],
   )
   const orgKey = orgIdentityRows.rows[0]?.slug ?? 'default'
+
+  // Build LLM backend from provider-specific env vars, overridden by the repo's then the org's LLM settings
+  const orgSettingsRows = await pool.query(
+    `SELECT llm_cache_enabled, llm_cache_ttl_hours, llm_provider, llm_model, llm_base_url, llm_temperature
+     FROM org_settings WHERE org_key = $1`,
+    [orgKey],
+  )
+  const repoLLMRows = await pool.query(
+    `SELECT llm_provider, llm_model, llm_base_url, llm_temperature FROM repo_settings WHERE repo_id = $1`,
+    [repoId],
+  )
+  const llmSettings = resolveLLMSettings(
+    normalizeLLMSettings(orgSettingsRows.rows[0]),
+    normalizeLLMSettings(repoLLMRows.rows[0]),
+  )
+  const llm = createBackendFromEnv(process.env, toLLMOverrides(llmSettings))
+  const cacheSettings = normalizeLLMCacheSettings(orgSettingsRows.rows[0])
+  if (cacheSettings.enabled) llm.cache = new PostgresResponseCache(pool, cacheSettings.ttlHours)
+
+  const agent = new PRReviewAgent(config)
+  agent.setVCS(vcs)
+  agent.setLLM(llm)
+  return { agent, llm, orgKey }
+}
+
+/** Org-level PR description defaults with the repo's overrides applied */
+async function loadPRDescriptionSettings(pool: Pool, orgKey: string, repoId: string): Promise<RepoPRDescriptionSettings> {
   const orgRows = await pool.query(
     `SELECT
        pr_description_enabled,
@@ -399,32 +759,15 @@ async function executeReview(opts: ReviewRunOptions, vcs: any, pool: Pool): Prom
         publishLabels: repoRows.rows[0].pr_description_publish_labels as boolean | null,
       }
     : {}
-  const prSettings = resolveRepoPRDescriptionSettings(orgSettings, repoOverrides)
-
-  const action = opts.prAction ?? 'manual'
-  const shouldRunForAction = prSettings.updateMode === 'created_and_updated'
-    ? (action === 'created' || action === 'updated' || action === 'opened' || action === 'synchronize' || action === 'manual')
-    : (action === 'created' || action === 'opened' || action === 'manual')
-  const shouldUpdatePRDescription =
-    (opts.updatePRDescription ?? true) &&
-    prSettings.enabled &&
-    shouldRunForAction
-
-  await agent.postReview(prNumber, result, {
-    updatePRDescription: shouldUpdatePRDescription,
-    prDescription: {
-      publishMode: prSettings.publishMode,
-      preserveOriginal: prSettings.preserveOriginal,
-      useMarkers: prSettings.useMarkers,
-      publishLabels: prSettings.publishLabels,
-    },
-  })
+  return resolveRepoPRDescriptionSettings(orgSettings, repoOverrides)
+}
 
-  return {
-    verdict: (result as any).verdict ?? 'unknown',
-    commentCount: comments.length,
-    reviewId,
-  }
+async function loadIgnoredPaths(pool: Pool, repoId: string, prNumber: number): Promise<string[]> {
+  const res = await pool.query<{ path: string }>(
+    `SELECT path FROM pr_ignored_paths WHERE repo_id = $1 AND pr_number = $2 ORDER BY created_at`,
+    [repoId, prNumber],
+  )
+  return res.rows.map(r => r.path)
 }
 
 async function fetchDiffString(vcs: any, prNumber: number): Promise<string | null> {
@@ -300,9 +300,9 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
       const webhookSecret = process.env.WEBHOOK_SECRET || crypto.randomBytes(32).toString('hex')
       await pool.query(
         `INSERT INTO org_webhook_secrets (id, org_id, platform, secret)
-         VALUES ($1, $2, 'github', $3), ($4, $2, 'azure', $3)
+         VALUES ($1, $2, 'github', $3), ($4, $2, 'azure', $3), ($5, $2, 'gitlab', $3), ($6, $2, 'bitbucket', $3)
          ON CONFLICT DO NOTHING`,
-        [crypto.randomUUID(), orgId, webhookSecret, crypto.randomUUID()],
+        [crypto.randomUUID(), orgId, webhookSecret, crypto.randomUUID(), crypto.randomUUID(), crypto.randomUUID()],
       )
       await pool.query('COMMIT')
     } catch (e) {
@@ -12,14 +12,28 @@ const REPOS_DIR = process.env.REPOS_DIR ?? '/repos'
 import { createDefaultRegistry, Indexer, InMemorySymbolGraph, PostgresStorageAdapter } from '@agnus-ai/core'
 import type { IndexProgress } from '@agnus-ai/shared'
 import { loadRepo, getOrLoadRepo, evictRepo } from '../graph-cache'
+import { checkoutBranch } from '../branch-checkout'
 import { createEmbeddingAdapter } from '../embedding-factory'
 import { requireAuth, requireOrgAdmin } from '../auth/middleware'
-import { isVcsPlatform, type AuthJwtClaims, type VcsPlatform } from '../auth/types'
-import { runReview } from '../review-runner'
+import { VCS_PLATFORMS, isVcsPlatform, type AuthJwtClaims, type VcsPlatform } from '../auth/types'
+import { runAsk, runReview } from '../review-runner'
+import { createReviewJob, getReviewEvents, pushReviewEvent } from '../review-progress'
+import { loadUsageReport, parseWeeks } from '../usage'
 import {
+  COMMAND_PERMISSIONS,
+  DEFAULT_COMMAND_PERMISSION,
+  DEFAULT_LLM_CACHE_SETTINGS,
   DEFAULT_REPO_PR_DESCRIPTION_SETTINGS,
+  EMPTY_LLM_SETTINGS,
+  normalizeCommandPermission,
+  normalizeLLMCacheSettings,
+  normalizeLLMSettings,
   normalizeRepoPRDescriptionSettings,
+  resolveLLMSettings,
   resolveRepoPRDescriptionSettings,
+  validateLLMSettings,
+  type CommandPermission,
+  type LLMSettings,
   type PRDescriptionPublishMode,
   type PRDescriptionUpdateMode,
 } from '../repo-settings'
@@ -103,20 +117,33 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
          pr_description_publish_mode,
          pr_description_preserve_original,
          pr_description_use_markers,
-         pr_description_publish_labels
+         pr_description_publish_labels,
+         llm_cache_enabled,
+         llm_cache_ttl_hours,
+         llm_provider,
+         llm_model,
+         llm_base_url,
+         llm_temperature,
+         command_permission
        FROM org_settings WHERE org_key = $1`,
       [orgKey],
     )
     const prDescription = rows[0]
       ? normalizeRepoPRDescriptionSettings(rows[0])
       : DEFAULT_REPO_PR_DESCRIPTION_SETTINGS
-    return reply.send({ orgKey, prDescription })
+    return reply.send({
+      orgKey,
+      prDescription,
+      llmCache: normalizeLLMCacheSettings(rows[0]),
+      llm: normalizeLLMSettings(rows[0]),
+      commandPermission: normalizeCommandPermission(rows[0]),
+    })
   })
 
   app.post('/api/orgs/:orgKey/settings', { preHandler: [requireOrgAdmin] }, async (req, reply) => {
     const { orgKey } = req.params as { orgKey: string }
     const body = req.body as {
-      platform: 'github' | 'azure'
+      platform: VcsPlatform
       orgName: string
       prDescription?: Partial<{
         enabled: boolean
@@ -126,6 +153,12 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
         useMarkers: boolean
         publishLabels: boolean
       }>
+      llmCache?: Partial<{
+        enabled: boolean
+        ttlHours: number
+      }>
+      llm?: Partial<LLMSettings>
+      commandPermission?: CommandPermission
     }
     if (!body.platform || !body.orgName) {
       return reply.status(400).send({ error: 'platform and orgName are required' })
@@ -137,7 +170,20 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
     if (next.publishMode !== 'replace_pr' && next.publishMode !== 'comment') {
       return reply.status(400).send({ error: 'Invalid publishMode' })
     }
-    await pool.query(
+    // Omitted llmCache fields keep their stored values
+    const llmCache = body.llmCache ?? {}
+    if (llmCache.ttlHours !== undefined && !(Number.isInteger(llmCache.ttlHours) && llmCache.ttlHours > 0)) {
+      return reply.status(400).send({ error: 'llmCache.ttlHours must be a positive integer' })
+    }
+    // An omitted llm keeps the stored settings; omitted or null fields go back to the env defaults
+    const llmError = body.llm ? validateLLMSettings(body.llm) : null
+    if (llmError) return reply.status(400).send({ error: llmError })
+    const llm = body.llm ? { ...EMPTY_LLM_SETTINGS, ...body.llm } : null
+    // An omitted commandPermission keeps the stored one
+    if (body.commandPermission !== undefined && !COMMAND_PERMISSIONS.includes(body.commandPermission)) {
+      return reply.status(400).send({ error: `commandPermission must be one of: ${COMMAND_PERMISSIONS.join(', ')}` })
+    }
+    const saved = await pool.query(
       `INSERT INTO org_settings (
          org_key, platform, org_name,
          pr_description_enabled,
@@ -146,8 +192,15 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
          pr_description_preserve_original,
          pr_description_use_markers,
          pr_description_publish_labels,
+         llm_cache_enabled,
+         llm_cache_ttl_hours,
+         llm_provider,
+         llm_model,
+         llm_base_url,
+         llm_temperature,
+         command_permission,
          updated_at
-       ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,NOW())
+       ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,COALESCE($10, $12::boolean),COALESCE($11, $13::int),$15,$16,$17,$18,COALESCE($19, $20),NOW())
        ON CONFLICT (org_key) DO UPDATE SET
          platform = EXCLUDED.platform,
          org_name = EXCLUDED.org_name,
@@ -157,7 +210,15 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
          pr_description_preserve_original = EXCLUDED.pr_description_preserve_original,
          pr_description_use_markers = EXCLUDED.pr_description_use_markers,
          pr_description_publish_labels = EXCLUDED.pr_description_publish_labels,
-         updated_at = NOW()`,
+         llm_cache_enabled = COALESCE($10, org_settings.llm_cache_enabled),
+         llm_cache_ttl_hours = COALESCE($11, org_settings.llm_cache_ttl_hours),
+         llm_provider = CASE WHEN $14 THEN $15 ELSE org_settings.llm_provider END,
+         llm_model = CASE WHEN $14 THEN $16 ELSE org_settings.llm_model END,
+         llm_base_url = CASE WHEN $14 THEN $17 ELSE org_settings.llm_base_url END,
+         llm_temperature = CASE WHEN $14 THEN $18::double precision ELSE org_settings.llm_temperature END,
+         command_permission = COALESCE($19, org_settings.command_permission),
+         updated_at = NOW()
+       RETURNING llm_cache_enabled, llm_cache_ttl_hours, llm_provider, llm_model, llm_base_url, llm_temperature, command_permission`,
       [
         orgKey,
         body.platform,
@@ -168,9 +229,27 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
         next.preserveOriginal,
         next.useMarkers,
         next.publishLabels,
+        llmCache.enabled ?? null,
+        llmCache.ttlHours ?? null,
+        DEFAULT_LLM_CACHE_SETTINGS.enabled,
+        DEFAULT_LLM_CACHE_SETTINGS.ttlHours,
+        llm !== null,
+        llm?.provider ?? null,
+        llm?.model?.trim() ?? null,
+        llm?.baseURL ?? null,
+        llm?.temperature ?? null,
+        body.commandPermission ?? null,
+        DEFAULT_COMMAND_PERMISSION,
       ],
     )
-    return reply.send({ ok: true, orgKey, prDescription: next })
+    return reply.send({
+      ok: true,
+      orgKey,
+      prDescription: next,
+      llmCache: normalizeLLMCacheSettings(saved.rows[0]),
+      llm: normalizeLLMSettings(saved.rows[0]),
+      commandPermission: normalizeCommandPermission(saved.rows[0]),
+    })
   })
 
   app.get('/api/orgs/:orgKey/members', { preHandler: [requireAuth] }, async (req, reply) => {
@@ -224,7 +303,7 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
     const { orgKey } = req.params as { orgKey: string }
     const { platform } = req.body as { platform?: VcsPlatform }
     if (!isVcsPlatform(platform)) {
-      return reply.status(400).send({ error: 'platform must be github or azure' })
+      return reply.status(400).send({ error: `platform must be one of: ${VCS_PLATFORMS.join(', ')}` })
     }
     const orgRes = await pool.query<{ id: string }>('SELECT id FROM organizations WHERE slug = $1', [orgKey])
     if (orgRes.rows.length === 0) return reply.status(404).send({ error: 'org not found' })
@@ -258,7 +337,7 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
       isSystemAdmin(req) && !orgId ? [repoId] : [repoId, orgId],
     )
     if (repoRes.rows.length === 0) return reply.status(404).send({ error: 'Repo not found' })
-    const repo = repoRes.rows[0] as { repo_url: string; platform: 'github' | 'azure' }
+    const repo = repoRes.rows[0] as { repo_url: string; platform: VcsPlatform }
     const orgIdentityRows = await pool.query<{ slug: string; name: string }>(
       `SELECT o.slug, o.name
        FROM repos r
@@ -277,7 +356,11 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
          pr_description_publish_mode,
          pr_description_preserve_original,
          pr_description_use_markers,
-         pr_description_publish_labels
+         pr_description_publish_labels,
+         llm_provider,
+         llm_model,
+         llm_base_url,
+         llm_temperature
        FROM org_settings WHERE org_key = $1`,
       [org.orgKey],
     )
@@ -292,7 +375,11 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
          pr_description_publish_mode,
          pr_description_preserve_original,
          pr_description_use_markers,
-         pr_description_publish_labels
+         pr_description_publish_labels,
+         llm_provider,
+         llm_model,
+         llm_base_url,
+         llm_temperature
        FROM repo_settings WHERE repo_id = $1`,
       [repoId],
     )
@@ -307,7 +394,13 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
         }
       : {}
     const effective = resolveRepoPRDescriptionSettings(orgSettings, repoOverrides)
-    return reply.send({ repoId, org: { orgKey: org.orgKey, orgName: org.orgName, platform: repo.platform }, prDescription: { effective, overrides: repoOverrides } })
+    const llmOverrides = normalizeLLMSettings(rows[0])
+    return reply.send({
+      repoId,
+      org: { orgKey: org.orgKey, orgName: org.orgName, platform: repo.platform },
+      prDescription: { effective, overrides: repoOverrides },
+      llm: { effective: resolveLLMSettings(normalizeLLMSettings(orgRows.rows[0]), llmOverrides), overrides: llmOverrides },
+    })
   })
 
   /**
@@ -332,6 +425,7 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
         useMarkers: boolean
         publishLabels: boolean
       }>
+      llm?: Partial<LLMSettings>
     }
 
     const incoming = body.prDescription ?? {}
@@ -350,8 +444,12 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
     if (next.publishMode !== null && next.publishMode !== 'replace_pr' && next.publishMode !== 'comment') {
       return reply.status(400).send({ error: 'Invalid publishMode' })
     }
+    // An omitted llm keeps the stored overrides
+    const llmError = body.llm ? validateLLMSettings(body.llm) : null
+    if (llmError) return reply.status(400).send({ error: llmError })
+    const llm = body.llm ? { ...EMPTY_LLM_SETTINGS, ...body.llm } : null
 
-    await pool.query(
+    const saved = await pool.query(
       `INSERT INTO repo_settings (
          repo_id,
          pr_description_enabled,
@@ -360,8 +458,12 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
          pr_description_preserve_original,
          pr_description_use_markers,
          pr_description_publish_labels,
+         llm_provider,
+         llm_model,
+         llm_base_url,
+         llm_temperature,
          updated_at
-      ) VALUES ($1,$2,$3,$4,$5,$6,$7,NOW())
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$9,$10,$11,$12,NOW())
        ON CONFLICT (repo_id) DO UPDATE SET
          pr_description_enabled = EXCLUDED.pr_description_enabled,
          pr_description_update_mode = EXCLUDED.pr_description_update_mode,
@@ -369,7 +471,12 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
          pr_description_preserve_original = EXCLUDED.pr_description_preserve_original,
          pr_description_use_markers = EXCLUDED.pr_description_use_markers,
          pr_description_publish_labels = EXCLUDED.pr_description_publish_labels,
-         updated_at = NOW()`,
+         llm_provider = CASE WHEN $8 THEN EXCLUDED.llm_provider ELSE repo_settings.llm_provider END,
+         llm_model = CASE WHEN $8 THEN EXCLUDED.llm_model ELSE repo_settings.llm_model END,
+         llm_base_url = CASE WHEN $8 THEN EXCLUDED.llm_base_url ELSE repo_settings.llm_base_url END,
+         llm_temperature = CASE WHEN $8 THEN EXCLUDED.llm_temperature ELSE repo_settings.llm_temperature END,
+         updated_at = NOW()
+       RETURNING llm_provider, llm_model, llm_base_url, llm_temperature`,
       [
         repoId,
         next.enabled,
@@ -378,25 +485,38 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
         next.preserveOriginal,
         next.useMarkers,
         next.publishLabels,
+        llm !== null,
+        llm?.provider ?? null,
+        llm?.model?.trim() ?? null,
+        llm?.baseURL ?? null,
+        llm?.temperature ?? null,
       ],
     )
 
-    return reply.send({ ok: true, repoId, prDescription: { overrides: next } })
+    return reply.send({
+      ok: true,
+      repoId,
+      prDescription: { overrides: next },
+      llm: { overrides: normalizeLLMSettings(saved.rows[0]) },
+    })
   })
 
   /**
-   * POST /api/repos — register a repo and trigger async full index per branch
-   * Body: { repoUrl, platform, token, repoPath, branches? }
+   * POST /api/repos — register a repo and trigger async indexing per branch
+   * Body: { repoUrl, platform, token, repoPath, branches?, baseBranch? }
+   * `baseBranch` (default: the first branch) is indexed in full; every other branch is
+   * an overlay storing only the files that differ from it.
    */
   app.post('/api/repos', { preHandler: [requireAuth] }, async (req, reply) => {
     const orgId = activeOrg(req)
     if (!orgId) return reply.status(400).send({ error: 'Active org is required' })
-    const { repoUrl, platform, token, repoPath, branches } = req.body as {
+    const { repoUrl, platform, token, repoPath, branches, baseBranch } = req.body as {
       repoUrl: string
       platform: VcsPlatform
       token?: string
       repoPath?: string
       branches?: string[]
+      baseBranch?: string
     }
 
     if (!repoUrl || !isVcsPlatform(platform)) {
@@ -404,6 +524,14 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
     }
 
     const indexBranches = (branches && branches.length > 0) ? branches : ['main']
+    const base = baseBranch ?? indexBranches[0]
+    if (!indexBranches.includes(base)) {
+      return reply.status(400).send({ error: 'baseBranch must be one of branches' })
+    }
+    const registrations: BranchRegistration[] = indexBranches.map(branch => ({
+      branch,
+      baseBranch: branch === base ? null : base,
+    }))
 
     // Derive a stable repoId from the URL
     const repoId = Buffer.from(`${orgId}:${repoUrl}`).toString('base64url').slice(0, 32)
@@ -431,28 +559,24 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
     )
 
     // Ensure repo_branches table exists and insert branch registrations
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS repo_branches (
-        repo_id TEXT NOT NULL REFERENCES repos(repo_id) ON DELETE CASCADE,
-        branch TEXT NOT NULL,
-        PRIMARY KEY (repo_id, branch)
-      )
-    `)
-    for (const branch of indexBranches) {
+    await ensureRepoBranches(pool)
+    for (const { branch, baseBranch: branchBase } of registrations) {
       await pool.query(
-        `INSERT INTO repo_branches (repo_id, branch) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
-        [repoId, branch],
+        `INSERT INTO repo_branches (repo_id, branch, base_branch) VALUES ($1, $2, $3)
+         ON CONFLICT (repo_id, branch) DO UPDATE SET base_branch = EXCLUDED.base_branch`,
+        [repoId, branch, branchBase],
       )
     }
 
     // Trigger full index in background
     setImmediate(() => {
-      runFullIndex(pool, repoId, repoPath ?? null, indexBranches, repoUrl, token)
+      runFullIndex(pool, repoId, repoPath ?? null, registrations, repoUrl, token, platform)
     })
 
     return reply.status(202).send({
       repoId,
       branches: indexBranches,
+      baseBranch: base,
       message: `Indexing started for ${indexBranches.length} branch(es) — stream progress at /api/repos/${repoId}/index/status?branch=<branch>`,
     })
   })
@@ -466,21 +590,23 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
 
     const { rows } = await pool.query(
       isSystemAdmin(req) && !orgId
-        ? 'SELECT repo_url, repo_path, token FROM repos WHERE repo_id = $1'
-        : 'SELECT repo_url, repo_path, token FROM repos WHERE repo_id = $1 AND org_id = $2',
+        ? 'SELECT repo_url, repo_path, token, platform FROM repos WHERE repo_id = $1'
+        : 'SELECT repo_url, repo_path, token, platform FROM repos WHERE repo_id = $1 AND org_id = $2',
       isSystemAdmin(req) && !orgId ? [repoId] : [repoId, orgId],
     )
     if (rows.length === 0) {
       return reply.status(404).send({ error: 'Repo not found' })
     }
 
-    const { rows: branchRows } = await pool.query(
-      'SELECT branch FROM repo_branches WHERE repo_id = $1',
+    await ensureRepoBranches(pool)
+    const { rows: branchRows } = await pool.query<{ branch: string; base_branch: string | null }>(
+      'SELECT branch, base_branch FROM repo_branches WHERE repo_id = $1',
       [repoId],
     )
-    const branches = branchRows.length > 0
-      ? branchRows.map((r: any) => r.branch)
-      : ['main']
+    const registrations: BranchRegistration[] = branchRows.length > 0
+      ? branchRows.map(r => ({ branch: r.branch, baseBranch: r.base_branch }))
+      : [{ branch: 'main', baseBranch: null }]
+    const branches = registrations.map(r => r.branch)
 
     // Reset index status so UI shows "indexing" again
     await pool.query(
@@ -489,7 +615,7 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
     )
 
     setImmediate(() => {
-      runFullIndex(pool, repoId, rows[0].repo_path, branches, rows[0].repo_url, rows[0].token)
+      runFullIndex(pool, repoId, rows[0].repo_path, registrations, rows[0].repo_url, rows[0].token, rows[0].platform)
     })
 
     return reply.status(202).send({
@@ -560,12 +686,14 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
 
   /**
    * POST /api/repos/:id/review — manually trigger a review for a PR (auth required)
-   * Body: { prNumber, baseBranch? }
+   * Body: { prNumber, baseBranch?, dryRun?, stream? }
+   * With `stream: true` the review runs in the background and the 202 response names
+   * the SSE stream of its progress.
    */
   app.post('/api/repos/:id/review', { preHandler: [requireAuth] }, async (req, reply) => {
     const { id: repoId } = req.params as { id: string }
     const orgId = activeOrg(req)
-    const { prNumber, baseBranch = 'main', dryRun = false } = req.body as { prNumber: number; baseBranch?: string; dryRun?: boolean }
+    const { prNumber, baseBranch = 'main', dryRun = false, stream = false } = req.body as { prNumber: number; baseBranch?: string; dryRun?: boolean; stream?: boolean }
 
     if (!prNumber) {
       return reply.status(400).send({ error: 'prNumber is required' })
@@ -583,6 +711,37 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
 
     const { repo_url: repoUrl, platform, token } = rows[0]
 
+    if (stream) {
+      const jobId = createReviewJob(repoId)
+      setImmediate(() => {
+        runReview({
+          platform,
+          repoId,
+          repoUrl,
+          prNumber,
+          baseBranch,
+          token: token ?? undefined,
+          pool,
+          dryRun,
+          onProgress: event => pushReviewEvent(jobId, event),
+        })
+          .then(({ verdict, commentCount, reviewId, comments }) => {
+            pushReviewEvent(jobId, { type: 'done', verdict, commentCount, reviewId, ...(dryRun ? { comments } : {}) })
+          })
+          .catch(err => {
+            const msg = (err as Error).message
+            console.error(`[repos] Streamed review failed for PR ${prNumber}:`, msg)
+            pushReviewEvent(jobId, { type: 'error', message: msg })
+          })
+      })
+      return reply.status(202).send({
+        jobId,
+        prNumber,
+        repoId,
+        streamUrl: `/api/repos/${repoId}/review/${jobId}/stream`,
+      })
+    }
+
     // Run review synchronously so the caller gets the result
     try {
       const result = await runReview({
@@ -605,6 +764,94 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
     }
   })
 
+  /**
+   * POST /api/repos/:id/ask — answer a question about a PR and post the answer as a PR comment
+   * Body: { prNumber, question, baseBranch?, dryRun? }
+   */
+  app.post('/api/repos/:id/ask', { preHandler: [requireAuth] }, async (req, reply) => {
+    const { id: repoId } = req.params as { id: string }
+    const orgId = activeOrg(req)
+    const { prNumber, question, baseBranch = 'main', dryRun = false } = req.body as { prNumber: number; question: string; baseBranch?: string; dryRun?: boolean }
+
+    if (!prNumber || !question?.trim()) {
+      return reply.status(400).send({ error: 'prNumber and question are required' })
+    }
+
+    const { rows } = await pool.query(
+      isSystemAdmin(req) && !orgId
+        ? 'SELECT repo_url, platform, token FROM repos WHERE repo_id = $1'
+        : 'SELECT repo_url, platform, token FROM repos WHERE repo_id = $1 AND org_id = $2',
+      isSystemAdmin(req) && !orgId ? [repoId] : [repoId, orgId],
+    )
+    if (rows.length === 0) {
+      return reply.status(404).send({ error: 'Repo not found' })
+    }
+
+    const { repo_url: repoUrl, platform, token } = rows[0]
+    try {
+      const answer = await runAsk({
+        platform,
+        repoId,
+        repoUrl,
+        prNumber,
+        baseBranch,
+        token: token ?? undefined,
+        pool,
+        question: question.trim(),
+        dryRun,
+      })
+      return reply.send({ answer, prNumber, repoId, ...(dryRun ? { dryRun: true } : {}) })
+    } catch (err) {
+      const msg = (err as Error).message
+      console.error(`[repos] Question about PR ${prNumber} failed:`, msg)
+      return reply.status(500).send({ error: msg })
+    }
+  })
+
+  /**
+   * GET /api/repos/:id/review/:jobId/stream — SSE stream of a review started with `stream: true`
+   * Replays every event from the start, then follows the review until `done` or `error`.
+   */
+  app.get('/api/repos/:id/review/:jobId/stream', { preHandler: [requireAuth] }, async (req, reply) => {
+    const { id: repoId, jobId } = req.params as { id: string; jobId: string }
+    const orgId = activeOrg(req)
+    const canAccess = await pool.query(
+      isSystemAdmin(req) && !orgId
+        ? 'SELECT 1 FROM repos WHERE repo_id = $1'
+        : 'SELECT 1 FROM repos WHERE repo_id = $1 AND org_id = $2',
+      isSystemAdmin(req) && !orgId ? [repoId] : [repoId, orgId],
+    )
+    if (canAccess.rows.length === 0 || !getReviewEvents(jobId, repoId)) {
+      return reply.status(404).send({ error: 'Review not found' })
+    }
+
+    reply.raw.setHeader('Content-Type', 'text/event-stream')
+    reply.raw.setHeader('Cache-Control', 'no-cache')
+    reply.raw.setHeader('Connection', 'keep-alive')
+    reply.raw.flushHeaders()
+
+    // Poll the job every 250ms, sending events not yet sent, until it finishes or the connection closes
+    let sent = 0
+    return new Promise<void>(resolve => {
+      const interval = setInterval(() => {
+        const job = getReviewEvents(jobId, repoId, sent)
+        for (const event of job?.events ?? []) {
+          reply.raw.write(`data: ${JSON.stringify(event)}\n\n`)
+        }
+        sent += job?.events.length ?? 0
+        if (!job || job.finished || reply.raw.closed) {
+          clearInterval(interval)
+          reply.raw.end()
+          resolve()
+        }
+      }, 250)
+      req.raw.on('close', () => {
+        clearInterval(interval)
+        resolve()
+      })
+    })
+  })
+
   /**
    * DELETE /api/repos/:id — evict all branches from cache and remove from DB
    */
@@ -660,6 +907,43 @@ export async function repoRoutes(app: FastifyInstance): Promise<void> {
       totals: { ...totals, total, acceptanceRate: total > 0 ? +(totals.accepted / total).toFixed(2) : null },
     })
   })
+
+  /**
+   * GET /api/repos/:id/usage — weekly LLM tokens and cost of the repo's reviews (auth required)
+   */
+  app.get('/api/repos/:id/usage', { preHandler: [requireAuth] }, async (req, reply) => {
+    const { id: repoId } = req.params as { id: string }
+    const weeks = parseWeeks((req.query as { weeks?: string }).weeks)
+    if (weeks === null) return reply.status(400).send({ error: 'weeks must be between 1 and 104' })
+    const orgId = activeOrg(req)
+    const canAccess = await pool.query(
+      isSystemAdmin(req) && !orgId
+        ? 'SELECT 1 FROM repos WHERE repo_id = $1'
+        : 'SELECT 1 FROM repos WHERE repo_id = $1 AND org_id = $2',
+      isSystemAdmin(req) && !orgId ? [repoId] : [repoId, orgId],
+    )
+    if (canAccess.rows.length === 0) return reply.status(404).send({ error: 'Repo not found' })
+
+    const { series, totals } = await loadUsageReport(pool, { repoId }, weeks)
+    return reply.send({ repoId, series, totals })
+  })
+}
+
+interface BranchRegistration {
+  branch: string
+  /** Set on overlay branches — only files differing from this branch are indexed */
+  baseBranch: string | null
+}
+
+async function ensureRepoBranches(pool: Pool): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS repo_branches (
+      repo_id TEXT NOT NULL REFERENCES repos(repo_id) ON DELETE CASCADE,
+      branch TEXT NOT NULL,
+      PRIMARY KEY (repo_id, branch)
+    )
+  `)
+  await pool.query(`ALTER TABLE repo_branches ADD COLUMN IF NOT EXISTS base_branch TEXT`)
 }
 
 // ----- Background full-index runner (shared by POST /repos and POST /repos/:id/reindex) -----
@@ -667,11 +951,13 @@ async function runFullIndex(
   pool: Pool,
   repoId: string,
   repoPath: string | null,
-  indexBranches: string[],
+  registrations: BranchRegistration[],
   repoUrl?: string,
   token?: string | null,
+  platform?: VcsPlatform,
 ): Promise<void> {
   let resolvedPath = repoPath
+  const indexBranches = registrations.map(r => r.branch)
 
   // Determine clone directory: use stored path or derive from REPOS_DIR
   const cloneDir = resolvedPath || `${REPOS_DIR}/${repoId}`
@@ -692,7 +978,7 @@ async function runFullIndex(
 
   try {
     if (!existsSync(cloneDir)) {
-      const cloneUrl = buildAuthenticatedUrl(repoUrl!, token ?? null)
+      const cloneUrl = buildAuthenticatedUrl(repoUrl!, token ?? null, platform)
       console.log(`[repos] Auto-cloning ${repoUrl} → ${cloneDir}`)
       await execAsync(`git clone --depth=1 "${cloneUrl}" "${cloneDir}"`, { timeout: 300_000 })
     } else {
@@ -725,7 +1011,7 @@ async function runFullIndex(
 
     let totalSymbols = 0
 
-    await Promise.all(indexBranches.map(async (branch) => {
+    await Promise.all(registrations.filter(r => !r.baseBranch).map(async ({ branch }) => {
       const graph = new InMemorySymbolGraph()
       const registry = await createDefaultRegistry()
       const indexer = new Indexer(registry, graph, storage, embeddingAdapter)
@@ -738,6 +1024,25 @@ async function runFullIndex(
       await loadRepo(repoId, branch)
     }))
 
+    // Overlays share the clone's git state, so they are checked out one at a time
+    for (const { branch } of registrations.filter(r => r.baseBranch)) {
+      try {
+        const checkout = await checkoutBranch(resolvedPath, branch)
+        await storage.deleteAllForBranch(repoId, branch)
+        evictRepo(repoId, branch)
+        const entry = await loadRepo(repoId, branch)
+        const stats = await entry.indexer.incrementalUpdate(
+          checkout.diffFromBase, repoId, branch, checkout.path,
+          (progress) => setProgress(`${repoId}:${branch}`, progress),
+        )
+        totalSymbols += stats.symbolCount
+      } catch (err) {
+        const errMsg = `Overlay index failed: ${(err as Error).message.split('\n')[0]}`
+        console.error(`[repos] ${errMsg} (${repoId}:${branch})`)
+        setProgress(`${repoId}:${branch}`, { step: 'error', message: errMsg })
+      }
+    }
+
     // Mark repo as indexed in DB
     await pool.query(
       'UPDATE repos SET indexed_at = NOW(), symbol_count = $1 WHERE repo_id = $2',
@@ -749,15 +1054,21 @@ async function runFullIndex(
 }
 
 /** Build an authenticated clone URL by embedding the token as password */
-function buildAuthenticatedUrl(repoUrl: string, token: string | null): string {
+function buildAuthenticatedUrl(repoUrl: string, token: string | null, platform?: VcsPlatform): string {
   if (!token) return repoUrl
   try {
     const url = new URL(repoUrl)
-    if (repoUrl.includes('dev.azure.com')) {
+    // GitLab (including self-managed hosts) accepts PATs only as the password for `oauth2`
+    if (repoUrl.includes('dev.azure.com') || platform === 'gitlab') {
       url.username = 'oauth2'
       url.password = token
+    } else if (platform === 'bitbucket') {
+      // `username:app-password` is used verbatim; bare access tokens use the x-token-auth user
+      const sep = token.indexOf(':')
+      url.username = sep === -1 ? 'x-token-auth' : encodeURIComponent(token.slice(0, sep))
+      url.password = sep === -1 ? token : encodeURIComponent(token.slice(sep + 1))
     } else {
-      // GitHub / GitLab / others
+      // GitHub / others
       url.username = token
       url.password = 'x-oauth-basic'
     }
@@ -4,7 +4,10 @@ import { promisify } from 'util'
 import type { FastifyInstance } from 'fastify'
 import type { Pool } from 'pg'
 import { getOrLoadRepo } from '../graph-cache'
-import { runReview } from '../review-runner'
+import { checkoutBranch, filesToReindex } from '../branch-checkout'
+import { AGNUSAI_MARKER, parseCommand } from '@agnus-ai/reviewer'
+import { getAzureCommenter, runReply, runReview, type PRCommandTarget, type ReviewCommentReply } from '../review-runner'
+import { azureCommenterRole, canRunCommand, githubCommenterRole, loadCommandPermission, runCommand, type CommenterRole } from '../commands'
 
 const execAsync = promisify(exec)
 
@@ -67,6 +70,46 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
     return matched?.repo_id ?? null
   }
 
+  /** Run the `/agnus` command in a PR comment, if it has one and the commenter may run it */
+  const processCommentCommand = async (
+    target: Omit<PRCommandTarget, 'token' | 'pool'> & { baseBranch?: string },
+    body: string,
+    author: string,
+    role: CommenterRole,
+    logPrefix: string,
+  ) => {
+    const command = parseCommand(body)
+    if (!command) return
+    const permission = await loadCommandPermission(pool, target.repoId)
+    if (!canRunCommand(permission, role)) {
+      console.log(`${logPrefix} ${author} (${role}) may not run /agnus ${command.name} on PR ${target.prNumber} — commands are limited to ${permission}`)
+      return
+    }
+    setImmediate(async () => {
+      try {
+        await runCommand({ ...target, token: await getRepoToken(pool, target.repoId), pool }, command, author)
+      } catch (err) {
+        console.error(`${logPrefix} /agnus ${command.name} failed for PR`, target.prNumber, (err as Error).message)
+      }
+    })
+  }
+
+  /** Answer a reply in a review comment thread, unless it is one of ours */
+  const processReviewReply = (
+    target: Omit<PRCommandTarget, 'token' | 'pool'>,
+    reply: ReviewCommentReply,
+    logPrefix: string,
+  ) => {
+    if (reply.body.trim().endsWith(AGNUSAI_MARKER)) return
+    setImmediate(async () => {
+      try {
+        await runReply({ ...target, token: await getRepoToken(pool, target.repoId), pool }, reply)
+      } catch (err) {
+        console.error(`${logPrefix} Reply failed for PR`, target.prNumber, (err as Error).message)
+      }
+    })
+  }
+
   const processGithubPR = async (event: string, payload: Record<string, unknown>, repoId: string, repoUrl: string) => {
     if (event === 'push') {
       const branch = ((payload.ref as string) ?? '').replace('refs/heads/', '') || 'main'
@@ -100,6 +143,33 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
         })
       }
     }
+    if (event === 'issue_comment') {
+      const issue = (payload.issue as any) ?? {}
+      const comment = (payload.comment as any) ?? {}
+      // PR conversation comments arrive as issue comments; edits don't re-run commands
+      if (payload.action !== 'created' || !issue.pull_request || comment.user?.type === 'Bot') return
+      await processCommentCommand(
+        { platform: 'github', repoId, repoUrl, prNumber: issue.number as number },
+        (comment.body as string) ?? '',
+        (comment.user?.login as string) ?? 'unknown',
+        githubCommenterRole(comment.author_association as string | undefined),
+        '[webhook]',
+      )
+    }
+    if (event === 'pull_request_review_comment') {
+      const comment = (payload.comment as any) ?? {}
+      // Replies in a review thread point at the thread's first comment
+      if (payload.action !== 'created' || !comment.in_reply_to_id || comment.user?.type === 'Bot') return
+      processReviewReply(
+        { platform: 'github', repoId, repoUrl, prNumber: (payload.pull_request as any)?.number as number },
+        {
+          threadId: comment.in_reply_to_id as number,
+          body: (comment.body as string) ?? '',
+          author: (comment.user?.login as string) ?? 'unknown',
+        },
+        '[webhook]',
+      )
+    }
   }
 
   const processAzurePR = async (payload: Record<string, unknown>, repoId: string, repoUrl: string) => {
@@ -135,6 +205,163 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
         }
       })
     }
+    if (eventType === 'ms.vss-code.git-pullrequest-comment-event') {
+      const comment = (payload.resource as any)?.comment ?? {}
+      const pr = (payload.resource as any)?.pullRequest ?? {}
+      if (comment.commentType === 'system') return
+      const content = (comment.content as string) ?? ''
+      const author = (comment.author?.uniqueName as string) ?? (comment.author?.displayName as string) ?? 'unknown'
+      // A reply in a thread, unless it is a command — the thread ID is only in the comment's links
+      const threadId = Number(((comment._links?.threads?.href as string) ?? '').match(/\/threads\/(\d+)/)?.[1])
+      const isReply = comment.parentCommentId > 0 && threadId && !parseCommand(content)
+      if (!isReply && !parseCommand(content)) return
+
+      // Azure DevOps sends no role with the comment: look the author up, skipping our own comments
+      const target = { platform: 'azure' as const, repoId, repoUrl, prNumber: pr.pullRequestId as number }
+      let commenter: { isSelf: boolean; groups: string[] }
+      try {
+        commenter = await getAzureCommenter({ ...target, token: await getRepoToken(pool, repoId), pool }, comment.author?.id ?? '')
+      } catch (err) {
+        console.error('[webhook:azure] Could not look up commenter', author, 'on PR', target.prNumber, (err as Error).message)
+        return
+      }
+      if (commenter.isSelf) return
+
+      if (isReply) {
+        processReviewReply(target, { threadId, body: content, author }, '[webhook:azure]')
+        return
+      }
+      const targetRef = (pr.targetRefName as string) ?? 'refs/heads/main'
+      // https://dev.azure.com/{org}/{project}/_git/{repo}
+      const project = (pr.repository?.project?.name as string | undefined)
+        ?? decodeURIComponent(new URL(repoUrl).pathname.split('/').filter(Boolean)[1] ?? '')
+      await processCommentCommand(
+        { ...target, baseBranch: targetRef.replace('refs/heads/', '') || 'main' },
+        content,
+        author,
+        azureCommenterRole(commenter.groups, project),
+        '[webhook:azure]',
+      )
+    }
+  }
+
+  const processGitlabMR = async (payload: Record<string, unknown>, repoId: string, repoUrl: string) => {
+    const objectKind = payload.object_kind as string | undefined
+    if (objectKind === 'push') {
+      const branch = ((payload.ref as string) ?? '').replace('refs/heads/', '') || 'main'
+      const isBranchIndexed = await isIndexedBranch(pool, repoId, branch)
+      if (!isBranchIndexed) return
+      setImmediate(() => runPushIndex(pool, repoId, branch, '[webhook:gitlab]'))
+      return
+    }
+    if (objectKind === 'merge_request') {
+      const attrs = (payload.object_attributes as any) ?? {}
+      const action = attrs.action as string | undefined
+      // `update` fires for title/label edits too — only new commits carry `oldrev`
+      const isNewCommits = action === 'update' && !!attrs.oldrev
+      if (action !== 'open' && action !== 'reopen' && !isNewCommits) return
+      const mrIid = attrs.iid as number
+      const baseBranch = (attrs.target_branch as string) ?? 'main'
+      setImmediate(async () => {
+        try {
+          await runReview({
+            platform: 'gitlab',
+            repoId,
+            repoUrl,
+            prNumber: mrIid,
+            baseBranch,
+            token: await getRepoToken(pool, repoId),
+            pool,
+            incrementalReview: isNewCommits,
+            prAction: isNewCommits ? 'synchronize' : 'opened',
+          })
+        } catch (err) {
+          console.error('[webhook:gitlab] Review failed for MR', mrIid, (err as Error).message)
+        }
+      })
+    }
+  }
+
+  /**
+   * Resolve the repo URL for a Bitbucket payload. Cloud sends the canonical
+   * browse URL; Data Center sends `/projects/KEY/repos/slug/browse`, while repos
+   * are registered by clone URL (`/scm/key/slug.git`), so both forms are tried.
+   */
+  const resolveBitbucketRepo = async (payload: Record<string, unknown>, orgSlug?: string): Promise<{ repoId: string; repoUrl: string } | null> => {
+    const repository = (payload.repository as any) ?? {}
+    const cloudUrl = repository.links?.html?.href as string | undefined
+    if (cloudUrl) {
+      const repoId = await resolveRepoId(cloudUrl, orgSlug)
+      return repoId ? { repoId, repoUrl: cloudUrl } : null
+    }
+    const selfUrl = repository.links?.self?.[0]?.href as string | undefined
+    const projectKey = repository.project?.key as string | undefined
+    const slug = repository.slug as string | undefined
+    if (!selfUrl || !projectKey || !slug) return null
+    const root = selfUrl.split('/projects/')[0]
+    const candidates = [
+      `${root}/scm/${projectKey.toLowerCase()}/${slug}`,
+      `${root}/projects/${projectKey}/repos/${slug}`,
+    ]
+    for (const candidate of candidates) {
+      const repoId = await resolveRepoId(candidate, orgSlug)
+      if (repoId) return { repoId, repoUrl: candidate }
+    }
+    return null
+  }
+
+  const processBitbucketPR = async (eventKey: string, payload: Record<string, unknown>, repoId: string, repoUrl: string) => {
+    // Cloud: repo:push — Data Center: repo:refs_changed
+    if (eventKey === 'repo:push' || eventKey === 'repo:refs_changed') {
+      const branch = eventKey === 'repo:push'
+        ? ((payload.push as any)?.changes?.[0]?.new?.name as string | undefined)
+        : ((payload.changes as any[])?.[0]?.ref?.displayId as string | undefined)
+      if (!branch) return
+      const isBranchIndexed = await isIndexedBranch(pool, repoId, branch)
+      if (!isBranchIndexed) return
+      setImmediate(() => runPushIndex(pool, repoId, branch, '[webhook:bitbucket]'))
+      return
+    }
+
+    let prId: number | undefined
+    let baseBranch = 'main'
+    let isUpdate = false
+    if (eventKey === 'pullrequest:created' || eventKey === 'pullrequest:updated') {
+      const pr = (payload.pullrequest as any) ?? {}
+      prId = pr.id
+      baseBranch = pr.destination?.branch?.name ?? 'main'
+      isUpdate = eventKey === 'pullrequest:updated'
+      // Cloud fires pullrequest:updated for title/description edits too — including our
+      // own PR description write-back — so only review when the source commit moved
+      const head = pr.source?.commit?.hash as string | undefined
+      if (prId && head && !(await recordBitbucketHead(pool, repoId, prId, head)) && isUpdate) return
+    } else if (eventKey === 'pr:opened' || eventKey === 'pr:from_ref_updated') {
+      const pr = (payload.pullRequest as any) ?? {}
+      prId = pr.id
+      baseBranch = pr.toRef?.displayId ?? 'main'
+      isUpdate = eventKey === 'pr:from_ref_updated'
+    } else {
+      return
+    }
+    if (!prId) return
+
+    setImmediate(async () => {
+      try {
+        await runReview({
+          platform: 'bitbucket',
+          repoId,
+          repoUrl,
+          prNumber: prId!,
+          baseBranch,
+          token: await getRepoToken(pool, repoId),
+          pool,
+          incrementalReview: isUpdate,
+          prAction: isUpdate ? 'synchronize' : 'opened',
+        })
+      } catch (err) {
+        console.error('[webhook:bitbucket] Review failed for PR', prId, (err as Error).message)
+      }
+    })
   }
 
   // ─── Multi-org webhook endpoints ───────────────────────────────────────────
@@ -177,7 +404,9 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
       return reply.status(401).send({ error: 'Invalid webhook secret' })
     }
     const payload = req.body as Record<string, unknown>
-    const repoUrl = (payload.resource as any)?.repository?.remoteUrl as string | undefined
+    // Comment events carry the repository under the pull request
+    const repoUrl = ((payload.resource as any)?.repository?.remoteUrl
+      ?? (payload.resource as any)?.pullRequest?.repository?.remoteUrl) as string | undefined
     if (!repoUrl) return reply.status(200).send({ ok: true })
     const repoId = await resolveRepoId(repoUrl, orgSlug)
     if (!repoId) return reply.status(200).send({ ok: true })
@@ -185,6 +414,52 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
     return reply.status(200).send({ ok: true })
   })
 
+  app.post('/api/webhooks/gitlab/:orgSlug', { config: { rateLimit: webhookRateLimit } }, async (req, reply) => {
+    const { orgSlug } = req.params as { orgSlug: string }
+    const orgRes = await pool.query<{ id: string }>('SELECT id FROM organizations WHERE slug = $1', [orgSlug])
+    if (orgRes.rows.length === 0) return reply.status(404).send({ error: 'org not found' })
+    const secretRes = await pool.query<{ secret: string }>(
+      `SELECT secret FROM org_webhook_secrets WHERE org_id = $1 AND platform = 'gitlab'`,
+      [orgRes.rows[0].id],
+    )
+    const secret = secretRes.rows[0]?.secret || webhookSecret
+    const providedSecret = req.headers['x-gitlab-token'] as string | undefined
+    if (!verifySharedWebhookSecret(secret, providedSecret)) {
+      return reply.status(401).send({ error: 'Invalid webhook secret' })
+    }
+    const payload = req.body as Record<string, unknown>
+    const repoUrl = (payload.project as any)?.web_url as string | undefined
+    if (!repoUrl) return reply.status(200).send({ ok: true })
+    const repoId = await resolveRepoId(repoUrl, orgSlug)
+    if (!repoId) return reply.status(200).send({ ok: true })
+    await processGitlabMR(payload, repoId, repoUrl)
+    return reply.status(200).send({ ok: true })
+  })
+
+  app.post('/api/webhooks/bitbucket/:orgSlug', {
+    config: { rawBody: true, rateLimit: webhookRateLimit },
+  }, async (req, reply) => {
+    const { orgSlug } = req.params as { orgSlug: string }
+    const orgRes = await pool.query<{ id: string }>('SELECT id FROM organizations WHERE slug = $1', [orgSlug])
+    if (orgRes.rows.length === 0) return reply.status(404).send({ error: 'org not found' })
+    const secretRes = await pool.query<{ secret: string }>(
+      `SELECT secret FROM org_webhook_secrets WHERE org_id = $1 AND platform = 'bitbucket'`,
+      [orgRes.rows[0].id],
+    )
+    const secret = secretRes.rows[0]?.secret || webhookSecret
+    // Cloud and Data Center both sign with `X-Hub-Signature: sha256=<hmac>`
+    const sig = req.headers['x-hub-signature'] as string | undefined
+    if (!verifyGitHubSignature(secret, req.rawBody ?? '', sig)) {
+      return reply.status(401).send({ error: 'Invalid signature' })
+    }
+    const payload = req.body as Record<string, unknown>
+    const eventKey = req.headers['x-event-key'] as string
+    const repo = await resolveBitbucketRepo(payload, orgSlug)
+    if (!repo) return reply.status(200).send({ ok: true })
+    await processBitbucketPR(eventKey, payload, repo.repoId, repo.repoUrl)
+    return reply.status(200).send({ ok: true })
+  })
+
   // ─── GitHub ──────────────────────────────────────────────────────────────
 
   app.post('/api/webhooks/github', {
@@ -216,7 +491,9 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
       return reply.status(401).send({ error: 'Invalid webhook secret' })
     }
     const payload = req.body as Record<string, unknown>
-    const repoUrl = (payload.resource as any)?.repository?.remoteUrl as string | undefined
+    // Comment events carry the repository under the pull request
+    const repoUrl = ((payload.resource as any)?.repository?.remoteUrl
+      ?? (payload.resource as any)?.pullRequest?.repository?.remoteUrl) as string | undefined
     if (!repoUrl) return reply.status(200).send({ ok: true })
     const repoId = await resolveRepoId(repoUrl)
     if (!repoId) return reply.status(200).send({ ok: true })
@@ -224,6 +501,41 @@ export async function webhookRoutes(app: FastifyInstance): Promise<void> {
 
     return reply.status(200).send({ ok: true })
   })
+
+  // ─── GitLab ───────────────────────────────────────────────────────────────
+
+  app.post('/api/webhooks/gitlab', { config: { rateLimit: webhookRateLimit } }, async (req, reply) => {
+    const providedSecret = req.headers['x-gitlab-token'] as string | undefined
+    if (!verifySharedWebhookSecret(webhookSecret, providedSecret)) {
+      return reply.status(401).send({ error: 'Invalid webhook secret' })
+    }
+    const payload = req.body as Record<string, unknown>
+    const repoUrl = (payload.project as any)?.web_url as string | undefined
+    if (!repoUrl) return reply.status(200).send({ ok: true })
+    const repoId = await resolveRepoId(repoUrl)
+    if (!repoId) return reply.status(200).send({ ok: true })
+    await processGitlabMR(payload, repoId, repoUrl)
+
+    return reply.status(200).send({ ok: true })
+  })
+
+  // ─── Bitbucket (Cloud + Data Center) ──────────────────────────────────────
+
+  app.post('/api/webhooks/bitbucket', {
+    config: { rawBody: true, rateLimit: webhookRateLimit },
+  }, async (req, reply) => {
+    const sig = req.headers['x-hub-signature'] as string | undefined
+    if (!verifyGitHubSignature(webhookSecret, req.rawBody ?? '', sig)) {
+      return reply.status(401).send({ error: 'Invalid signature' })
+    }
+    const payload = req.body as Record<string, unknown>
+    const eventKey = req.headers['x-event-key'] as string
+    const repo = await resolveBitbucketRepo(payload)
+    if (!repo) return reply.status(200).send({ ok: true })
+    await processBitbucketPR(eventKey, payload, repo.repoId, repo.repoUrl)
+
+    return reply.status(200).send({ ok: true })
+  })
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
@@ -261,7 +573,7 @@ async function getRepoToken(pool: Pool, repoId: string): Promise<string | undefi
 
 /**
  * Pull the clone and return files changed since the previous HEAD via git diff.
- * Works for both GitHub and Azure — no payload file list needed.
+ * Works for every platform — no payload file list needed.
  */
 async function getChangedFilesFromGit(repoPath: string): Promise<string[]> {
   try {
@@ -280,9 +592,10 @@ async function getChangedFilesFromGit(repoPath: string): Promise<string[]> {
 }
 
 /**
- * Shared push-index handler for GitHub and Azure git.push events.
+ * Shared push-index handler for push events from every platform.
  * - If no symbols exist yet → full index (fallback for unindexed repos)
  * - Otherwise → incremental update of only the changed files
+ * - Overlay branches are updated from their own worktree, for files differing from the base
  */
 async function runPushIndex(pool: Pool, repoId: string, branch: string, logPrefix: string): Promise<void> {
   try {
@@ -317,14 +630,22 @@ async function runPushIndex(pool: Pool, repoId: string, branch: string, logPrefi
       console.log(`${logPrefix} Full index complete: ${stats.symbolCount} symbols`)
     } else {
       // Incremental — pull and diff to find changed files
-      const changedFiles = await getChangedFilesFromGit(repoPath)
+      const entry = await getOrLoadRepo(repoId, branch)
+      const checkout = entry.baseBranch ? await checkoutBranch(repoPath, branch) : null
+      const changedFiles = checkout
+        ? filesToReindex(checkout, entry.graph.getOverriddenFiles())
+        : await getChangedFilesFromGit(repoPath)
       if (changedFiles.length === 0) {
         console.log(`${logPrefix} No changed files detected for ${repoId}`)
         return
       }
       console.log(`${logPrefix} Incremental update for ${repoId}: ${changedFiles.join(', ')}`)
-      const entry = await getOrLoadRepo(repoId, branch)
-      await entry.indexer.incrementalUpdate(changedFiles, repoId, branch, repoPath)
+      const stats = await entry.indexer.incrementalUpdate(changedFiles, repoId, branch, checkout?.path ?? repoPath)
+      const { parseMs, persistMs, embedMs } = stats.timings
+      console.log(
+        `${logPrefix} Incremental update done in ${stats.durationMs}ms ` +
+        `(parse ${parseMs}ms, persist ${persistMs}ms, embed ${embedMs}ms)`,
+      )
       // Keep symbol_count in sync
       const { rows: countRows } = await pool.query<{ cnt: string }>(
         'SELECT COUNT(*) as cnt FROM symbols WHERE repo_id = $1', [repoId],
@@ -339,6 +660,24 @@ async function runPushIndex(pool: Pool, repoId: string, branch: string, logPrefi
   }
 }
 
+/**
+ * Record `head` as the latest source commit seen for a Bitbucket PR. Returns false when
+ * it was already recorded, i.e. the PR changed without new commits. Kept in
+ * pr_review_state so it survives restarts and is shared between API instances.
+ */
+async function recordBitbucketHead(pool: Pool, repoId: string, prNumber: number, head: string): Promise<boolean> {
+  const res = await pool.query(
+    `INSERT INTO pr_review_state (repo_id, pr_number, platform, last_seen_head, updated_at)
+     VALUES ($1, $2, 'bitbucket', $3, NOW())
+     ON CONFLICT (repo_id, pr_number, platform)
+     DO UPDATE SET last_seen_head = $3, updated_at = NOW()
+     WHERE pr_review_state.last_seen_head IS DISTINCT FROM $3
+     RETURNING 1`,
+    [repoId, prNumber, head],
+  )
+  return res.rows.length > 0
+}
+
 /**
  * Check if a branch is registered in repo_branches.
  * Returns true only if the repo_branches table doesn't exist yet (graceful degradation
@@ -0,0 +1,95 @@
+/**
+ * LLM usage reports over the per-review totals in `reviews` (tokens, latency, cost).
+ * Scoped to one repo, one org, or — for system admins outside an org — everything.
+ */
+import type { Pool } from 'pg'
+
+export interface UsageBucket {
+  reviews: number
+  promptTokens: number
+  completionTokens: number
+  /** USD; null when none of the reviews used a priced model */
+  costUsd: number | null
+}
+
+export interface UsageReport {
+  /** Weekly totals, oldest first */
+  series: Array<UsageBucket & { date: string }>
+  totals: UsageBucket & { llmCalls: number; avgLatencyMs: number | null }
+  repos: Array<UsageBucket & { repoId: string; repoUrl: string }>
+}
+
+export async function loadUsageReport(
+  pool: Pool,
+  scope: { repoId?: string; orgId?: string | null },
+  weeks = 12,
+): Promise<UsageReport> {
+  const conditions = [`r.created_at >= DATE_TRUNC('week', NOW()) - make_interval(weeks => $1)`]
+  const params: unknown[] = [weeks - 1]
+  if (scope.repoId) {
+    params.push(scope.repoId)
+    conditions.push(`r.repo_id = $${params.length}`)
+  }
+  if (scope.orgId) {
+    params.push(scope.orgId)
+    conditions.push(`repos.org_id = $${params.length}`)
+  }
+  const from = `FROM reviews r LEFT JOIN repos ON repos.repo_id = r.repo_id WHERE ${conditions.join(' AND ')}`
+  const sums = `
+    COUNT(*)::int AS reviews,
+    COALESCE(SUM(r.prompt_tokens), 0)::bigint AS prompt_tokens,
+    COALESCE(SUM(r.completion_tokens), 0)::bigint AS completion_tokens,
+    SUM(r.cost_usd) AS cost_usd`
+
+  const [series, totals, repos] = await Promise.all([
+    pool.query(
+      `SELECT DATE_TRUNC('week', r.created_at)::date AS date, ${sums}
+       ${from}
+       GROUP BY DATE_TRUNC('week', r.created_at)
+       ORDER BY date ASC`,
+      params,
+    ),
+    pool.query(
+      `SELECT ${sums},
+         COALESCE(SUM(r.llm_calls), 0)::int AS llm_calls,
+         SUM(r.llm_latency_ms) / NULLIF(SUM(r.llm_calls), 0) AS avg_latency_ms
+       ${from}`,
+      params,
+    ),
+    pool.query(
+      `SELECT r.repo_id, MAX(repos.repo_url) AS repo_url, ${sums}
+       ${from}
+       GROUP BY r.repo_id
+       ORDER BY cost_usd DESC NULLS LAST, prompt_tokens DESC`,
+      params,
+    ),
+  ])
+
+  const t = totals.rows[0]
+  return {
+    series: series.rows.map((r: any) => ({ date: r.date, ...bucket(r) })),
+    totals: {
+      ...bucket(t),
+      llmCalls: t.llm_calls,
+      avgLatencyMs: t.avg_latency_ms === null ? null : Math.round(Number(t.avg_latency_ms)),
+    },
+    repos: repos.rows.map((r: any) => ({ repoId: r.repo_id, repoUrl: r.repo_url ?? '', ...bucket(r) })),
+  }
+}
+
+/** `?weeks=` query value: 12 when absent, null when out of range */
+export function parseWeeks(value: string | undefined): number | null {
+  if (value === undefined) return 12
+  const weeks = Number(value)
+  return Number.isInteger(weeks) && weeks >= 1 && weeks <= 104 ? weeks : null
+}
+
+function bucket(row: any): UsageBucket {
+  return {
+    reviews: row.reviews,
+    // SUM over INT is BIGINT, which pg returns as a string
+    promptTokens: Number(row.prompt_tokens),
+    completionTokens: Number(row.completion_tokens),
+    costUsd: row.cost_usd === null ? null : Number(row.cost_usd),
+  }
+}
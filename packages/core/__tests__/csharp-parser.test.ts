@@ -0,0 +1,78 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { CSharpParser } from '../src/parser/CSharpParser'
+
+const source = `using System.Collections.Generic;
+
+namespace Acme.Orders
+{
+    public interface IOrderService
+    {
+        Order Place(Cart cart);
+    }
+
+    public class OrderService : ServiceBase, IOrderService, IDisposable
+    {
+        private readonly IOrderRepository _repo;
+        public List<Order> Recent { get; set; }
+
+        public OrderService(IOrderRepository repo)
+        {
+            _repo = repo;
+        }
+
+        public override Order Place(Cart cart)
+        {
+            return _repo.Save(cart.ToOrder());
+        }
+
+        void IDisposable.Dispose() {}
+
+        private Receipt Print(Order order) => null;
+
+        Order Clone(Order order) => order;
+
+        public static OrderService Create(string connection) => new OrderService(null);
+    }
+}
+`
+
+describe('CSharpParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new CSharpParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('Orders/OrderService.cs', source, 'repo'))
+  })
+
+  const id = (qn: string) => `Orders/OrderService.cs:${qn}`
+  const uses = (qn: string) => edges.filter(e => e.kind === 'uses' && e.from === id(qn)).map(e => e.to)
+
+  it('extracts interfaces, classes, constructors and methods', () => {
+    expect(symbols.map(s => s.qualifiedName)).toEqual([
+      'IOrderService', 'IOrderService.Place', 'OrderService', 'OrderService.OrderService',
+      'OrderService.Place', 'OrderService.Dispose', 'OrderService.Print', 'OrderService.Clone', 'OrderService.Create',
+    ])
+  })
+
+  it('records field, property, parameter and return types as uses, skipping builtins', () => {
+    expect(uses('OrderService')).toEqual(['IOrderRepository', 'List', 'Order'])
+    expect(uses('OrderService.OrderService')).toEqual(['IOrderRepository'])
+    expect(uses('OrderService.Place')).toEqual(['Cart', 'Order'])
+    expect(uses('OrderService.Create')).toEqual(['OrderService'])
+  })
+
+  it('links methods to every base type, except constructors, private, default-private and static ones', () => {
+    const overrides = edges.filter(e => e.kind === 'overrides').map(e => [e.from, e.to])
+
+    expect(overrides).toEqual([
+      [id('OrderService.Place'), 'ServiceBase.Place'],
+      [id('OrderService.Place'), 'IOrderService.Place'],
+      [id('OrderService.Place'), 'IDisposable.Place'],
+      [id('OrderService.Dispose'), 'ServiceBase.Dispose'],
+      [id('OrderService.Dispose'), 'IOrderService.Dispose'],
+      [id('OrderService.Dispose'), 'IDisposable.Dispose'],
+    ])
+  })
+})
@@ -0,0 +1,60 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { GoParser } from '../src/parser/GoParser'
+
+const source = `package jobs
+
+import (
+	"context"
+	"github.com/acme/queue"
+)
+
+type Runner interface {
+	Run(ctx context.Context, job *Job) (Result, error)
+}
+
+type Worker struct {
+	queue   *queue.Queue
+	jobs    []Job
+	retries map[string]Backoff
+	name    string
+}
+
+func NewWorker(q *queue.Queue) *Worker {
+	return &Worker{queue: q}
+}
+
+func (w *Worker) Run(ctx context.Context, job *Job) (Result, error) {
+	return w.queue.Push(ctx, job)
+}
+`
+
+describe('GoParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new GoParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('jobs/worker.go', source, 'repo'))
+  })
+
+  const id = (qn: string) => `jobs/worker.go:${qn}`
+  const uses = (qn: string) => edges.filter(e => e.kind === 'uses' && e.from === id(qn)).map(e => e.to)
+
+  it('extracts interfaces, structs, functions and methods on their receiver type', () => {
+    expect(symbols.map(s => [s.qualifiedName, s.kind])).toEqual([
+      ['Runner', 'interface'], ['Worker', 'class'], ['NewWorker', 'function'], ['Worker.Run', 'method'],
+    ])
+  })
+
+  it('records struct field, interface method, parameter and result types as uses', () => {
+    expect(uses('Runner')).toEqual(['Context', 'Job', 'Result', 'error'])
+    expect(uses('Worker')).toEqual(['Queue', 'Job', 'string', 'Backoff'])
+    expect(uses('NewWorker')).toEqual(['Queue', 'Worker'])
+    expect(uses('Worker.Run')).toEqual(['Context', 'Job', 'Result', 'error'])
+  })
+
+  it('emits no overrides — Go has no inheritance', () => {
+    expect(edges.filter(e => e.kind === 'overrides')).toEqual([])
+  })
+})
@@ -88,6 +88,207 @@ describe('InMemorySymbolGraph', () => {
     })
   })
 
+  describe('call resolution', () => {
+    function method(filePath: string, qualifiedName: string): ParsedSymbol {
+      return { ...makeSymbol(`${filePath}:${qualifiedName}`, filePath), name: qualifiedName.split('.').pop()!, qualifiedName, kind: 'method' }
+    }
+
+    it('prefers the caller\'s own file over same-named symbols elsewhere', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('src/a.ts:run', 'src/a.ts'))
+      g.addSymbol(makeSymbol('src/a.ts:helper', 'src/a.ts'))
+      g.addSymbol(makeSymbol('src/b.ts:helper', 'src/b.ts'))
+      const edge = { from: 'src/a.ts:run', to: 'helper', kind: 'calls' as const }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge)).toEqual({ resolution: 'resolved', targets: ['src/a.ts:helper'] })
+      expect(g.getCallers('src/b.ts:helper', 1)).toHaveLength(0)
+    })
+
+    it('uses the caller file\'s imports to pick a target', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('src/api/handler.ts:handle', 'src/api/handler.ts'))
+      g.addSymbol(method('src/cache/store.ts', 'Store.get'))
+      g.addSymbol(method('src/http/client.ts', 'Client.get'))
+      g.addEdge({ from: 'src/api/handler.ts', to: '../cache/store', kind: 'imports' })
+      g.addEdge({ from: 'src/api/handler.ts:handle', to: 'get', kind: 'calls', receiver: 'store' })
+
+      expect(g.getCallers('src/cache/store.ts:Store.get', 1).map(s => s.id)).toEqual(['src/api/handler.ts:handle'])
+      expect(g.getCallers('src/http/client.ts:Client.get', 1)).toHaveLength(0)
+    })
+
+    it('narrows static calls by the receiver type', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('app/jobs.rb:run', 'app/jobs.rb'))
+      g.addSymbol(method('app/models/user.rb', 'User.find'))
+      g.addSymbol(method('app/models/post.rb', 'Post.find'))
+      const edge = { from: 'app/jobs.rb:run', to: 'find', kind: 'calls' as const, receiver: 'User' }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge).targets).toEqual(['app/models/user.rb:User.find'])
+    })
+
+    it('follows barrel re-exports of imports resolved to repo files', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('api/src/routes.ts:handle', 'api/src/routes.ts'))
+      g.addSymbol(makeSymbol('shared/src/format.ts:format', 'shared/src/format.ts'))
+      g.addSymbol(makeSymbol('api/src/format.ts:format', 'api/src/format.ts'))
+      g.addEdge({ from: 'shared/src/index.ts', to: 'shared/src/format.ts', kind: 'imports', reexport: true })
+      g.addEdge({ from: 'api/src/routes.ts', to: 'shared/src/index.ts', kind: 'imports' })
+      const edge = { from: 'api/src/routes.ts:handle', to: 'format', kind: 'calls' as const }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge).targets).toEqual(['shared/src/format.ts:format'])
+    })
+
+    it('marks ambiguous calls and keeps them out of callers and risk score', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('src/a.ts:run', 'src/a.ts'))
+      g.addSymbol(method('src/b/cache.ts', 'Cache.get'))
+      g.addSymbol(method('src/c/client.ts', 'Client.get'))
+      const edge = { from: 'src/a.ts:run', to: 'get', kind: 'calls' as const, receiver: 'thing' }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge).resolution).toBe('ambiguous')
+      const br = g.getBlastRadius(['src/b/cache.ts:Cache.get'])
+      expect(br.directCallers).toHaveLength(0)
+      expect(br.riskScore).toBe(0)
+      expect(br.possibleCallers?.map(s => s.id)).toEqual(['src/a.ts:run'])
+    })
+
+    it('marks calls with no matching symbol as unresolved', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('src/a.ts:run', 'src/a.ts'))
+      const edge = { from: 'src/a.ts:run', to: 'readFileSync', kind: 'calls' as const, receiver: 'fs' }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge)).toEqual({ resolution: 'unresolved', targets: [] })
+    })
+
+    it('resolves edges added before their target symbol is indexed', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('src/a.ts:run', 'src/a.ts'))
+      g.addEdge({ from: 'src/a.ts:run', to: 'process', kind: 'calls' })
+      g.addSymbol(makeSymbol('src/b.ts:process', 'src/b.ts'))
+
+      expect(g.getCallers('src/b.ts:process', 1).map(s => s.id)).toEqual(['src/a.ts:run'])
+      expect(g.getCallees('src/a.ts:run', 1).map(s => s.id)).toEqual(['src/b.ts:process'])
+    })
+
+    it('re-links callers when a removed file is indexed again', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('src/a.ts:foo', 'src/a.ts'))
+      g.addSymbol(makeSymbol('src/b.ts:bar', 'src/b.ts'))
+      g.addEdge({ from: 'src/b.ts:bar', to: 'foo', kind: 'calls' })
+
+      g.removeFile('src/a.ts')
+      g.addSymbol(makeSymbol('src/a.ts:foo', 'src/a.ts'))
+      expect(g.getCallers('src/a.ts:foo', 1).map(s => s.id)).toEqual(['src/b.ts:bar'])
+    })
+  })
+
+  describe('type and override edges', () => {
+    function type(filePath: string, name: string, kind: ParsedSymbol['kind'] = 'class'): ParsedSymbol {
+      return { ...makeSymbol(`${filePath}:${name}`, filePath), kind }
+    }
+    function method(filePath: string, qualifiedName: string): ParsedSymbol {
+      return { ...makeSymbol(`${filePath}:${qualifiedName}`, filePath), name: qualifiedName.split('.').pop()!, qualifiedName, kind: 'method' }
+    }
+
+    it('resolves generic and qualified type names to the type symbol', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(type('src/repo.ts', 'Repo', 'interface'))
+      g.addSymbol(type('src/user-repo.ts', 'UserRepo'))
+      g.addSymbol(method('src/user-repo.ts', 'UserRepo.find'))
+      const implementsEdge = { from: 'src/user-repo.ts:UserRepo', to: 'ns.Repo<User>', kind: 'implements' as const }
+      g.addEdge(implementsEdge)
+      g.addEdge({ from: 'src/user-repo.ts:UserRepo.find', to: 'Repo', kind: 'uses' })
+      g.addEdge({ from: 'src/user-repo.ts:UserRepo.find', to: 'Promise', kind: 'uses' })
+
+      expect(g.getEdgeResolution(implementsEdge)).toEqual({ resolution: 'resolved', targets: ['src/repo.ts:Repo'] })
+      expect(g.getCallers('src/repo.ts:Repo', 1).map(s => s.id).sort())
+        .toEqual(['src/user-repo.ts:UserRepo', 'src/user-repo.ts:UserRepo.find'])
+      expect(g.getCallees('src/user-repo.ts:UserRepo.find', 1).map(s => s.id)).toEqual(['src/repo.ts:Repo'])
+    })
+
+    it('only resolves type references to classes, interfaces and type aliases', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(makeSymbol('src/a.ts:User', 'src/a.ts'))
+      g.addSymbol(type('src/a.ts', 'Session'))
+      const edge = { from: 'src/a.ts:Session', to: 'User', kind: 'uses' as const }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge).resolution).toBe('unresolved')
+    })
+
+    it('links overriding methods to the base method, skipping bases that do not declare it', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(type('src/repo.ts', 'Repo', 'interface'))
+      g.addSymbol(method('src/repo.ts', 'Repo.save'))
+      g.addSymbol(type('src/base.ts', 'BaseRepo'))
+      g.addSymbol(type('src/user-repo.ts', 'UserRepo'))
+      g.addSymbol(method('src/user-repo.ts', 'UserRepo.save'))
+      g.addEdge({ from: 'src/base.ts:BaseRepo', to: 'Repo', kind: 'implements' })
+      g.addEdge({ from: 'src/user-repo.ts:UserRepo', to: 'BaseRepo', kind: 'inherits' })
+      const edge = { from: 'src/user-repo.ts:UserRepo.save', to: 'BaseRepo.save', kind: 'overrides' as const }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge)).toEqual({ resolution: 'resolved', targets: ['src/repo.ts:Repo.save'] })
+      const br = g.getBlastRadius(['src/repo.ts:Repo.save'])
+      expect(br.directCallers.map(s => s.id)).toEqual(['src/user-repo.ts:UserRepo.save'])
+    })
+
+    it('leaves overrides of library types unresolved', () => {
+      const g = new InMemorySymbolGraph()
+      g.addSymbol(type('src/a.ts', 'Widget'))
+      g.addSymbol(method('src/a.ts', 'Widget.render'))
+      g.addSymbol(method('src/b.ts', 'Other.render'))
+      const edge = { from: 'src/a.ts:Widget.render', to: 'React.Component.render', kind: 'overrides' as const }
+      g.addEdge(edge)
+
+      expect(g.getEdgeResolution(edge)).toEqual({ resolution: 'unresolved', targets: [] })
+    })
+  })
+
+  describe('branch overlays', () => {
+    function makeBase(): InMemorySymbolGraph {
+      const base = new InMemorySymbolGraph()
+      base.addSymbol(makeSymbol('src/db.ts:save', 'src/db.ts'))
+      base.addSymbol(makeSymbol('src/api.ts:handle', 'src/api.ts'))
+      base.addSymbol(makeSymbol('src/old.ts:legacy', 'src/old.ts'))
+      base.addEdge({ from: 'src/api.ts:handle', to: 'save', kind: 'calls' })
+      base.addEdge({ from: 'src/old.ts:legacy', to: 'save', kind: 'calls' })
+      return base
+    }
+
+    it('reads through to the base except for files the overlay replaces or deletes', () => {
+      const base = makeBase()
+      const branch = InMemorySymbolGraph.overlay(base)
+      branch.removeFile('src/db.ts')
+      branch.addSymbol({ ...makeSymbol('src/db.ts:persist', 'src/db.ts'), name: 'persist' })
+      branch.overrideFile('src/old.ts')
+
+      expect(branch.getAllSymbols().map(s => s.id).sort()).toEqual(['src/api.ts:handle', 'src/db.ts:persist'])
+      expect(branch.getSymbol('src/db.ts:save')).toBeUndefined()
+      expect(branch.getEdgeResolution(base.getAllEdges()[0]).resolution).toBe('unresolved')
+      expect(branch.getOverriddenFiles().sort()).toEqual(['src/db.ts', 'src/old.ts'])
+      // The base itself is untouched
+      expect(base.getCallers('src/db.ts:save', 1).map(s => s.id).sort()).toEqual(['src/api.ts:handle', 'src/old.ts:legacy'])
+    })
+
+    it('resolves base callers against the overlay and follows later changes to the base', () => {
+      const base = makeBase()
+      const branch = InMemorySymbolGraph.overlay(base)
+      branch.addSymbol(makeSymbol('src/jobs.ts:sync', 'src/jobs.ts'))
+      branch.addEdge({ from: 'src/jobs.ts:sync', to: 'save', kind: 'calls' })
+      expect(branch.getCallers('src/db.ts:save', 1).map(s => s.id).sort())
+        .toEqual(['src/api.ts:handle', 'src/jobs.ts:sync', 'src/old.ts:legacy'])
+
+      base.removeFile('src/old.ts')
+      expect(branch.getCallers('src/db.ts:save', 1).map(s => s.id).sort()).toEqual(['src/api.ts:handle', 'src/jobs.ts:sync'])
+    })
+  })
+
   describe('serialize / deserialize', () => {
     it('round-trips correctly', () => {
       const g = new InMemorySymbolGraph()
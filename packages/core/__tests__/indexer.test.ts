@@ -0,0 +1,159 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { Indexer } from '../src/indexer/Indexer'
+import { InMemorySymbolGraph } from '../src/graph/InMemorySymbolGraph'
+import { TsImportResolver } from '../src/indexer/TsImportResolver'
+import type { ParserRegistry } from '../src/parser/ParserRegistry'
+import type { StorageAdapter } from '../src/storage/StorageAdapter'
+import type { EmbeddingAdapter } from '../src/embeddings/EmbeddingAdapter'
+
+/** One function per `name(args)` line */
+const registry = {
+  parseFile(filePath: string, content: string, repoId: string) {
+    const symbols: ParsedSymbol[] = content.split('\n').filter(Boolean).map((line, i) => {
+      const name = line.split('(')[0]
+      return {
+        id: `${filePath}:${name}`, filePath, name, qualifiedName: name, kind: 'function' as const,
+        signature: `function ${line}`, bodyRange: [i + 1, i + 1] as [number, number], repoId,
+      }
+    })
+    const edges: Edge[] = symbols.slice(1).map(s => ({ from: s.id, to: symbols[0].name, kind: 'calls' as const }))
+    return { symbols, edges }
+  },
+} as unknown as ParserRegistry
+
+/** One `imports` edge per `import <spec>` line */
+const importRegistry = {
+  parseFile(filePath: string, content: string) {
+    const edges: Edge[] = content.split('\n').filter(Boolean)
+      .map(line => ({ from: filePath, to: line.replace('import ', ''), kind: 'imports' as const }))
+    return { symbols: [], edges }
+  },
+} as unknown as ParserRegistry
+
+function makeStorage() {
+  const symbols = new Map<string, ParsedSymbol>()
+  const edges: Edge[] = []
+  const calls: string[] = []
+  const storage: StorageAdapter = {
+    async saveSymbols(syms) { for (const s of syms) symbols.set(s.id, s) },
+    async saveEdges(es) { edges.push(...es) },
+    async replaceFile(filePath, _repoId, _branch, syms, es) {
+      calls.push(`replace ${filePath}`)
+      for (const s of [...symbols.values()]) if (s.filePath === filePath) symbols.delete(s.id)
+      for (let i = edges.length - 1; i >= 0; i--) if (edges[i].from === filePath || edges[i].from.startsWith(`${filePath}:`)) edges.splice(i, 1)
+      await storage.saveSymbols(syms, 'main')
+      await storage.saveEdges(es, 'main')
+    },
+    async deleteByFile(filePath) {
+      calls.push(`delete ${filePath}`)
+      for (const s of [...symbols.values()]) if (s.filePath === filePath) symbols.delete(s.id)
+    },
+    async deleteAllForBranch() { symbols.clear(); edges.length = 0 },
+    async loadAll() { return { symbols: [...symbols.values()], edges } },
+    async saveOverlayFiles() {},
+    async loadOverlayFiles() { return [] },
+    async *streamSymbols() {
+      const all = [...symbols.values()]
+      for (let i = 0; i < all.length; i += 2) yield all.slice(i, i + 2)
+    },
+    async *streamEdges() { yield edges },
+  }
+  return { storage, symbols, edges, calls }
+}
+
+function makeEmbeddings() {
+  const embedded: string[] = []
+  const adapter: EmbeddingAdapter = {
+    dim: 1,
+    async embed(texts) { return texts.map(() => [0]) },
+    async upsert(symbolId) { embedded.push(symbolId) },
+    async search() { return [] },
+  }
+  return { adapter, embedded }
+}
+
+describe('Indexer', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'indexer-'))
+    await fs.writeFile(path.join(root, 'a.ts'), 'save(user)\nupdate(user)\n')
+    await fs.writeFile(path.join(root, 'b.ts'), 'load(id)\n')
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('rewrites only changed files and re-embeds only changed symbols', async () => {
+    const { storage, symbols, calls } = makeStorage()
+    const { adapter, embedded } = makeEmbeddings()
+    const graph = new InMemorySymbolGraph()
+    const indexer = new Indexer(registry, graph, storage, adapter)
+    const full = await indexer.fullIndex(root, 'r', 'main')
+    expect(full.symbolCount).toBe(3)
+    expect(full.timings).toEqual(expect.objectContaining({ parseMs: expect.any(Number), persistMs: expect.any(Number) }))
+
+    embedded.length = 0
+    await fs.writeFile(path.join(root, 'a.ts'), 'save(user, opts)\nupdate(user)\nremove(id)\n')
+    const stats = await indexer.incrementalUpdate(['a.ts'], 'r', 'main', root)
+
+    expect(calls).toEqual(['replace a.ts'])
+    expect(embedded.sort()).toEqual(['a.ts:remove', 'a.ts:save'])
+    expect([...symbols.keys()].sort()).toEqual(['a.ts:remove', 'a.ts:save', 'a.ts:update', 'b.ts:load'])
+    expect(stats).toEqual(expect.objectContaining({ symbolCount: 3, edgeCount: 2, fileCount: 1 }))
+  })
+
+  it('removes files deleted since the last index', async () => {
+    const { storage, symbols, calls } = makeStorage()
+    const graph = new InMemorySymbolGraph()
+    const indexer = new Indexer(registry, graph, storage)
+    await indexer.fullIndex(root, 'r', 'main')
+
+    await fs.rm(path.join(root, 'b.ts'))
+    await indexer.incrementalUpdate(['b.ts'], 'r', 'main', root)
+
+    expect(calls).toEqual(['delete b.ts'])
+    expect(graph.getFileSymbols('b.ts')).toEqual([])
+    expect([...symbols.keys()]).not.toContain('b.ts:load')
+  })
+
+  it('loads the graph from storage batch by batch', async () => {
+    const { storage } = makeStorage()
+    await new Indexer(registry, new InMemorySymbolGraph(), storage).fullIndex(root, 'r', 'main')
+
+    const graph = new InMemorySymbolGraph()
+    const loaded = await new Indexer(registry, graph, storage).loadFromStorage('r', 'main')
+
+    expect(loaded).toEqual(expect.objectContaining({ symbolCount: 3, edgeCount: 1 }))
+    expect(graph.getCallers('a.ts:save').map(s => s.id)).toEqual(['a.ts:update'])
+  })
+
+  it('keeps the import resolver across updates until a tsconfig changes', async () => {
+    const load = jest.spyOn(TsImportResolver, 'load')
+    const { storage, edges } = makeStorage()
+    const indexer = new Indexer(importRegistry, new InMemorySymbolGraph(), storage)
+    await fs.writeFile(path.join(root, 'a.ts'), 'import ./b\n')
+    await indexer.fullIndex(root, 'r', 'main')
+    const importsOf = (file: string) => edges.filter(e => e.from === file).map(e => e.to)
+
+    // A new file resolves without reloading, and a deleted one stops resolving
+    await fs.writeFile(path.join(root, 'c.ts'), '')
+    await fs.rm(path.join(root, 'b.ts'))
+    await fs.writeFile(path.join(root, 'a.ts'), 'import ./b\nimport ./c\n')
+    await indexer.incrementalUpdate(['a.ts', 'b.ts', 'c.ts'], 'r', 'main', root)
+    expect(importsOf('a.ts')).toEqual(['./b', 'c.ts'])
+    expect(load).toHaveBeenCalledTimes(1)
+
+    await fs.writeFile(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { paths: { '@/*': ['*'] } } }))
+    await fs.writeFile(path.join(root, 'a.ts'), 'import @/c\n')
+    await indexer.incrementalUpdate(['tsconfig.json', 'a.ts'], 'r', 'main', root)
+    expect(importsOf('a.ts')).toEqual(['c.ts'])
+    expect(load).toHaveBeenCalledTimes(2)
+
+    load.mockRestore()
+  })
+})
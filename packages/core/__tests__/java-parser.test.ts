@@ -0,0 +1,72 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { JavaParser } from '../src/parser/JavaParser'
+
+const source = `package com.acme.billing;
+
+import com.acme.users.User;
+
+interface Billing {
+    Invoice charge(User user, int cents);
+}
+
+public class StripeBilling extends BaseBilling implements Billing, AutoCloseable {
+    private final StripeClient client;
+    private static final Logger LOG = Logger.get();
+
+    public StripeBilling(StripeClient client) {
+        this.client = client;
+    }
+
+    @Override
+    public Invoice charge(User user, int cents) {
+        return client.charge(user.id(), cents);
+    }
+
+    private Receipt receipt(Invoice invoice) {
+        return null;
+    }
+
+    public static StripeBilling create(Config config) {
+        return new StripeBilling(new StripeClient(config));
+    }
+}
+`
+
+describe('JavaParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new JavaParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('billing/StripeBilling.java', source, 'repo'))
+  })
+
+  const id = (qn: string) => `billing/StripeBilling.java:${qn}`
+  const uses = (qn: string) => edges.filter(e => e.kind === 'uses' && e.from === id(qn)).map(e => e.to)
+
+  it('extracts interfaces, classes, constructors and methods', () => {
+    expect(symbols.map(s => [s.qualifiedName, s.kind])).toEqual([
+      ['Billing', 'interface'], ['Billing.charge', 'method'], ['StripeBilling', 'class'],
+      ['StripeBilling.StripeBilling', 'function'], ['StripeBilling.charge', 'method'],
+      ['StripeBilling.receipt', 'method'], ['StripeBilling.create', 'method'],
+    ])
+  })
+
+  it('records field, parameter and return types as uses, skipping primitives', () => {
+    expect(uses('StripeBilling')).toEqual(['StripeClient', 'Logger'])
+    expect(uses('StripeBilling.StripeBilling')).toEqual(['StripeClient'])
+    expect(uses('StripeBilling.charge')).toEqual(['User', 'Invoice'])
+    expect(uses('StripeBilling.create')).toEqual(['Config', 'StripeBilling'])
+  })
+
+  it('links methods to the superclass and interfaces, except constructors, private and static ones', () => {
+    const overrides = edges.filter(e => e.kind === 'overrides').map(e => [e.from, e.to])
+
+    expect(overrides).toEqual([
+      [id('StripeBilling.charge'), 'BaseBilling.charge'],
+      [id('StripeBilling.charge'), 'Billing.charge'],
+      [id('StripeBilling.charge'), 'AutoCloseable.charge'],
+    ])
+  })
+})
@@ -0,0 +1,98 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { KotlinParser } from '../src/parser/KotlinParser'
+
+const source = `package com.acme.ui
+
+import com.acme.data.UserRepository
+import kotlinx.coroutines.launch
+
+typealias Listener = (User) -> Unit
+
+interface Screen : Lifecycle {
+    fun render(state: State)
+}
+
+class UserScreen(private val repo: UserRepository) : BaseScreen(), Screen {
+    override fun render(state: State) {
+        repo.load(state.id).also { show(it) }
+        helpers.format(state)
+    }
+
+    private fun show(user: User) {}
+
+    fun refresh() {}
+
+    companion object {
+        fun create(): UserScreen = UserScreen(UserRepository())
+    }
+}
+
+enum class Mode { LIGHT, DARK }
+
+object Registry {
+    fun register(screen: Screen) {}
+}
+
+fun String.slug(): String = lowercase()
+`
+
+describe('KotlinParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new KotlinParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('ui/UserScreen.kt', source, 'repo'))
+  })
+
+  const id = (qn: string) => `ui/UserScreen.kt:${qn}`
+
+  it('extracts classes, interfaces, objects, enums, aliases and functions, keeping companion members on the class', () => {
+    const byName = Object.fromEntries(symbols.map(s => [s.qualifiedName, s]))
+
+    expect(Object.keys(byName)).toEqual([
+      'Listener', 'Screen', 'Screen.render', 'UserScreen', 'UserScreen.render', 'UserScreen.show',
+      'UserScreen.refresh', 'UserScreen.create', 'Mode', 'Registry', 'Registry.register', 'slug',
+    ])
+    expect(byName['Screen']).toMatchObject({ kind: 'interface', signature: 'interface Screen' })
+    expect(byName['Mode']).toMatchObject({ kind: 'type', signature: 'enum class Mode' })
+    expect(byName['Registry'].signature).toBe('object Registry')
+    expect(byName['UserScreen.render']).toMatchObject({ kind: 'method', signature: 'fun render(state: State)', bodyRange: [13, 16] })
+    expect(byName['slug']).toMatchObject({ kind: 'function', signature: 'fun String.slug(): String' })
+  })
+
+  it('records imports', () => {
+    expect(edges.filter(e => e.kind === 'imports').map(e => e.to)).toEqual([
+      'com.acme.data.UserRepository', 'kotlinx.coroutines.launch',
+    ])
+  })
+
+  it('records calls with their receiver', () => {
+    const calls = (qn: string) => edges.filter(e => e.kind === 'calls' && e.from === id(qn)).map(e => [e.to, e.receiver])
+
+    expect(calls('UserScreen.render')).toEqual([
+      ['also', '?'], ['load', 'repo'], ['show', undefined], ['format', 'helpers'],
+    ])
+    expect(calls('UserScreen.create')).toEqual([['UserScreen', undefined], ['UserRepository', undefined]])
+  })
+
+  it('tells the superclass from interfaces', () => {
+    const links = edges.filter(e => e.kind === 'inherits' || e.kind === 'implements').map(e => [e.from, e.kind, e.to])
+
+    expect(links).toEqual([
+      [id('Screen'), 'inherits', 'Lifecycle'],
+      [id('UserScreen'), 'inherits', 'BaseScreen'],
+      [id('UserScreen'), 'implements', 'Screen'],
+    ])
+  })
+
+  it('only links `override` members as overrides, never private or companion ones', () => {
+    const overrides = edges.filter(e => e.kind === 'overrides').map(e => [e.from, e.to])
+
+    expect(overrides).toEqual([
+      [id('UserScreen.render'), 'BaseScreen.render'],
+      [id('UserScreen.render'), 'Screen.render'],
+    ])
+  })
+})
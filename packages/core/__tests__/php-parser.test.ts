@@ -0,0 +1,100 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { PhpParser } from '../src/parser/PhpParser'
+
+const source = `<?php
+namespace App\\Http\\Controllers;
+
+use App\\Models\\User;
+use Illuminate\\Support\\{Str, Arr};
+
+interface Auditable extends \\JsonSerializable
+{
+    public function audit(): void;
+}
+
+class UserController extends Controller implements Auditable
+{
+    use HasFactory, SoftDeletes;
+
+    public function show(int $id): User
+    {
+        $user = User::find($id);
+        $this->authorize($user);
+        $user?->notify(Str::slug($user->name));
+        return $user;
+    }
+
+    public function audit(): void {}
+
+    private function authorize(User $user) {}
+
+    public static function create(): static
+    {
+        return new static();
+    }
+}
+
+function helper($callback)
+{
+    $callback();
+    return strlen('x');
+}
+`
+
+describe('PhpParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new PhpParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('app/Http/Controllers/UserController.php', source, 'repo'))
+  })
+
+  const id = (qn: string) => `app/Http/Controllers/UserController.php:${qn}`
+
+  it('extracts interfaces, classes, methods and functions', () => {
+    const byName = Object.fromEntries(symbols.map(s => [s.qualifiedName, s]))
+
+    expect(Object.keys(byName)).toEqual([
+      'Auditable', 'Auditable.audit', 'UserController', 'UserController.show', 'UserController.audit',
+      'UserController.authorize', 'UserController.create', 'helper',
+    ])
+    expect(byName['Auditable'].kind).toBe('interface')
+    expect(byName['UserController.show']).toMatchObject({ kind: 'method', signature: 'function show(int $id): User', bodyRange: [16, 22] })
+    expect(byName['helper']).toMatchObject({ kind: 'function', signature: 'function helper($callback)' })
+  })
+
+  it('records namespace imports, expanding grouped ones', () => {
+    expect(edges.filter(e => e.kind === 'imports').map(e => e.to)).toEqual([
+      'App\\Models\\User', 'Illuminate\\Support\\Str', 'Illuminate\\Support\\Arr',
+    ])
+  })
+
+  it('records function, member and static calls, skipping dynamic callees', () => {
+    const calls = (qn: string) => edges.filter(e => e.kind === 'calls' && e.from === id(qn)).map(e => [e.to, e.receiver])
+
+    expect(calls('UserController.show')).toEqual([
+      ['find', 'User'], ['authorize', 'this'], ['notify', 'user'], ['slug', 'Str'],
+    ])
+    expect(calls('helper')).toEqual([['strlen', undefined]])
+  })
+
+  it('links base classes, interfaces and traits', () => {
+    const links = edges.filter(e => e.kind === 'inherits' || e.kind === 'implements').map(e => [e.from, e.kind, e.to])
+
+    expect(links).toEqual([
+      [id('Auditable'), 'inherits', 'JsonSerializable'],
+      [id('UserController'), 'inherits', 'Controller'],
+      [id('UserController'), 'implements', 'Auditable'],
+      [id('UserController'), 'inherits', 'HasFactory'],
+      [id('UserController'), 'inherits', 'SoftDeletes'],
+    ])
+  })
+
+  it('does not link private or static methods as overrides', () => {
+    const overridden = edges.filter(e => e.kind === 'overrides').map(e => e.from.split(':').pop())
+
+    expect(new Set(overridden)).toEqual(new Set(['Auditable.audit', 'UserController.show', 'UserController.audit']))
+  })
+})
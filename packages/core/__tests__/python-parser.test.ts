@@ -0,0 +1,74 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { PythonParser } from '../src/parser/PythonParser'
+
+const source = `from abc import ABCMeta
+from dataclasses import dataclass
+
+
+@dataclass
+class Order(Model, metaclass=ABCMeta):
+    customer: Customer
+    items: List[LineItem]
+    total = 0
+
+    def __init__(self, repo: OrderRepo):
+        self.repo = repo
+
+    def save(self, session: Session) -> Receipt:
+        return self.repo.insert(self)
+
+    def __eq__(self, other: object) -> bool:
+        return False
+
+    def __audit(self, entry: AuditEntry):
+        pass
+
+    @staticmethod
+    def parse(raw: str) -> "Order":
+        return Order(None)
+
+    @classmethod
+    def create(cls, repo: OrderRepo) -> Order:
+        return cls(repo)
+`
+
+describe('PythonParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new PythonParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('shop/order.py', source, 'repo'))
+  })
+
+  const id = (qn: string) => `shop/order.py:${qn}`
+  const uses = (qn: string) => edges.filter(e => e.kind === 'uses' && e.from === id(qn)).map(e => e.to)
+
+  it('extracts decorated classes and their methods', () => {
+    expect(symbols.map(s => s.qualifiedName)).toEqual([
+      'Order', 'Order.__init__', 'Order.save', 'Order.__eq__', 'Order.__audit', 'Order.parse', 'Order.create',
+    ])
+  })
+
+  it('records base classes, skipping keyword arguments like metaclass=', () => {
+    expect(edges.filter(e => e.kind === 'inherits').map(e => [e.from, e.to])).toEqual([[id('Order'), 'Model']])
+  })
+
+  it('records annotated class attributes, parameters and return types as uses', () => {
+    expect(uses('Order')).toEqual(['Customer', 'List', 'LineItem'])
+    expect(uses('Order.__init__')).toEqual(['OrderRepo'])
+    expect(uses('Order.save')).toEqual(['Session', 'Receipt'])
+    expect(uses('Order.create')).toEqual(['OrderRepo', 'Order'])
+  })
+
+  it('links methods to the base class, except __init__, name-mangled and static ones', () => {
+    const overrides = edges.filter(e => e.kind === 'overrides').map(e => [e.from, e.to])
+
+    expect(overrides).toEqual([
+      [id('Order.save'), 'Model.save'],
+      [id('Order.__eq__'), 'Model.__eq__'],
+      [id('Order.create'), 'Model.create'],
+    ])
+  })
+})
@@ -0,0 +1,59 @@
+import { InMemorySymbolGraph } from '../src/graph/InMemorySymbolGraph'
+import { Retriever } from '../src/retriever/Retriever'
+import type { ParsedSymbol } from '@agnus-ai/shared'
+
+function makeSymbol(id: string, filePath: string): ParsedSymbol {
+  const qualifiedName = id.split(':')[1] ?? id
+  return {
+    id,
+    filePath,
+    name: qualifiedName.split('.').pop() ?? qualifiedName,
+    qualifiedName,
+    kind: qualifiedName.includes('.') ? 'method' : 'function',
+    signature: `${qualifiedName}()`,
+    bodyRange: [1, 10],
+    repoId: 'test-repo',
+  }
+}
+
+const diff = 'diff --git a/src/auth.ts b/src/auth.ts\n--- a/src/auth.ts\n+++ b/src/auth.ts\n@@ -1 +1 @@\n+x'
+
+function buildGraph(): InMemorySymbolGraph {
+  const g = new InMemorySymbolGraph()
+  for (const s of [
+    makeSymbol('src/auth.ts:validateToken', 'src/auth.ts'),
+    makeSymbol('src/billing.ts:BillingService.charge', 'src/billing.ts'),
+    makeSymbol('src/api.ts:handleCheckout', 'src/api.ts'),
+    makeSymbol('src/util.ts:retry', 'src/util.ts'),
+  ]) {
+    g.addSymbol(s)
+  }
+  g.addEdge({ from: 'src/api.ts:handleCheckout', to: 'src/billing.ts:BillingService.charge', kind: 'calls' })
+  g.addEdge({ from: 'src/billing.ts:BillingService.charge', to: 'src/auth.ts:validateToken', kind: 'calls' })
+  return g
+}
+
+describe('Retriever.getAskContext', () => {
+  it('looks up callers and callees of symbols named in the question', async () => {
+    const retriever = new Retriever(buildGraph())
+
+    const ctx = await retriever.getAskContext('Is this safe for BillingService.charge?', diff, 'test-repo')
+
+    expect(ctx.changedSymbols.map(s => s.id)).toEqual(['src/auth.ts:validateToken'])
+    expect(ctx.mentionedSymbols).toHaveLength(1)
+    const [charge] = ctx.mentionedSymbols!
+    expect(charge.symbol.id).toBe('src/billing.ts:BillingService.charge')
+    expect(charge.callers.map(s => s.id)).toEqual(['src/api.ts:handleCheckout'])
+    expect(charge.callees.map(s => s.id)).toEqual(['src/auth.ts:validateToken'])
+  })
+
+  it('matches plain words only in backticks or as calls', async () => {
+    const retriever = new Retriever(buildGraph())
+
+    const plain = await retriever.getAskContext('Should we retry here?', diff, 'test-repo')
+    const quoted = await retriever.getAskContext('Should we `retry` here, or call retry() later?', diff, 'test-repo')
+
+    expect(plain.mentionedSymbols).toEqual([])
+    expect(quoted.mentionedSymbols!.map(m => m.symbol.id)).toEqual(['src/util.ts:retry'])
+  })
+})
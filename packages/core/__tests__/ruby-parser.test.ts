@@ -0,0 +1,120 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { RubyParser } from '../src/parser/RubyParser'
+
+const source = `require 'json'
+require_relative '../lib/audit'
+
+module Admin
+  class UsersController < ::ApplicationController
+    include Auditable
+    before_action :authenticate!
+
+    def show
+      user = User.find(params[:id])
+      render json: user.to_json
+    end
+
+    def self.table_name
+      'users'
+    end
+
+    class << self
+      def policy
+        UserPolicy
+      end
+    end
+
+    protected
+
+    def scope
+      current_user.users
+    end
+
+    def cleanup; end
+    private :cleanup
+
+    private
+
+    def authenticate!
+      redirect_to login_path unless current_user
+    end
+
+    public def index; end
+    private def audit_log; end
+  end
+end
+
+class User < ApplicationRecord
+  scope :active, -> { where(active: true) }
+end
+`
+
+describe('RubyParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new RubyParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('app/controllers/admin/users_controller.rb', source, 'repo'))
+  })
+
+  const id = (qn: string) => `app/controllers/admin/users_controller.rb:${qn}`
+
+  it('extracts modules, classes, methods, class methods and scopes', () => {
+    const byName = Object.fromEntries(symbols.map(s => [s.qualifiedName, s]))
+
+    expect(Object.keys(byName)).toEqual([
+      'Admin', 'Admin::UsersController',
+      'Admin::UsersController.show', 'Admin::UsersController.table_name', 'Admin::UsersController.policy',
+      'Admin::UsersController.scope', 'Admin::UsersController.cleanup', 'Admin::UsersController.authenticate!',
+      'Admin::UsersController.index', 'Admin::UsersController.audit_log',
+      'User', 'User.active',
+    ])
+    expect(byName['Admin::UsersController']).toMatchObject({
+      name: 'UsersController', kind: 'class', signature: 'class UsersController < ApplicationController',
+    })
+    expect(byName['Admin::UsersController.show']).toMatchObject({ kind: 'method', signature: 'def show', bodyRange: [9, 12] })
+    expect(byName['Admin::UsersController.table_name'].signature).toBe('def self.table_name')
+    expect(byName['User.active']).toMatchObject({ kind: 'method', signature: 'scope :active' })
+  })
+
+  it('records require and require_relative as imports', () => {
+    expect(edges.filter(e => e.kind === 'imports').map(e => e.to)).toEqual(['json', '../lib/audit'])
+  })
+
+  it('records calls, including bare method calls but not locals', () => {
+    const calls = (qn: string) => edges.filter(e => e.kind === 'calls' && e.from === id(qn)).map(e => [e.to, e.receiver])
+
+    expect(calls('Admin::UsersController.show')).toEqual([
+      ['find', 'User'], ['params', undefined], ['render', undefined], ['to_json', 'user'],
+    ])
+    expect(calls('Admin::UsersController.authenticate!')).toEqual([
+      ['redirect_to', undefined], ['login_path', undefined], ['current_user', undefined],
+    ])
+    expect(calls('User.active')).toEqual([['where', undefined]])
+  })
+
+  it('links superclasses, mixins and Rails callbacks', () => {
+    const links = edges.filter(e => e.from === id('Admin::UsersController') && e.kind !== 'overrides')
+
+    expect(links.map(e => [e.kind, e.to])).toEqual([
+      ['inherits', 'ApplicationController'],
+      ['inherits', 'Auditable'],
+      ['calls', 'authenticate!'],
+    ])
+  })
+
+  it('only links public and protected instance methods as overrides, not class methods or scopes', () => {
+    const overrides = edges.filter(e => e.kind === 'overrides')
+
+    expect(overrides.map(e => [e.from.split('.').pop(), e.to])).toEqual([
+      ['show', 'ApplicationController.show'],
+      ['show', 'Auditable.show'],
+      ['scope', 'ApplicationController.scope'],
+      ['scope', 'Auditable.scope'],
+      ['index', 'ApplicationController.index'],
+      ['index', 'Auditable.index'],
+    ])
+  })
+})
@@ -0,0 +1,89 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { RustParser } from '../src/parser/RustParser'
+
+const source = `use crate::db::{pool::Pool, Conn as C};
+use std::io::*;
+mod cache;
+
+pub trait Store: Send + Sync {
+    fn get(&self, key: &str) -> Option<String>;
+}
+
+pub struct DiskStore {
+    pool: Pool,
+}
+
+pub enum Mode { Read, Write }
+
+type Result<T> = std::result::Result<T, Error>;
+
+impl DiskStore {
+    pub fn open(path: &str) -> Self {
+        let pool = Pool::new(path);
+        DiskStore { pool }
+    }
+}
+
+impl Store for DiskStore {
+    fn get(&self, key: &str) -> Option<String> {
+        self.pool.query(key).ok()
+    }
+}
+
+fn main() {
+    let store = DiskStore::open("db");
+    println!("{}", store.get("k").unwrap());
+    helpers::parse::<u32>("1");
+}
+`
+
+describe('RustParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new RustParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('src/store.rs', source, 'repo'))
+  })
+
+  it('extracts functions, methods on their impl type, traits, structs, enums and aliases', () => {
+    const byName = Object.fromEntries(symbols.map(s => [s.qualifiedName, s]))
+
+    expect(Object.keys(byName).sort()).toEqual([
+      'DiskStore', 'DiskStore.get', 'DiskStore.open', 'Mode', 'Result', 'Store', 'Store.get', 'main',
+    ])
+    expect(byName['DiskStore.open']).toMatchObject({ kind: 'method', signature: 'fn open(path: &str) -> Self', bodyRange: [18, 21] })
+    expect(byName['Store']).toMatchObject({ kind: 'interface', signature: 'trait Store' })
+    expect(byName['DiskStore'].kind).toBe('class')
+    expect(byName['Mode'].kind).toBe('type')
+    expect(byName['main'].kind).toBe('function')
+  })
+
+  it('flattens use trees, importing the module of a glob, and records `mod` declarations', () => {
+    const imports = edges.filter(e => e.kind === 'imports').map(e => e.to)
+
+    expect(imports).toEqual(['crate::db::pool::Pool', 'crate::db::Conn', 'std::io', 'cache'])
+  })
+
+  it('records calls with their receiver, skipping macro arguments', () => {
+    const calls = (from: string) => edges
+      .filter(e => e.kind === 'calls' && e.from === `src/store.rs:${from}`)
+      .map(e => [e.to, e.receiver])
+
+    expect(calls('DiskStore.open')).toEqual([['new', 'Pool']])
+    expect(calls('DiskStore.get')).toEqual([['ok', '?'], ['query', 'pool']])
+    expect(calls('main')).toEqual([['open', 'DiskStore'], ['parse', 'helpers']])
+  })
+
+  it('links trait impls and their methods, and supertraits', () => {
+    const links = edges.filter(e => e.kind !== 'imports' && e.kind !== 'calls').map(e => [e.from, e.kind, e.to])
+
+    expect(links).toEqual([
+      ['src/store.rs:Store', 'inherits', 'Send'],
+      ['src/store.rs:Store', 'inherits', 'Sync'],
+      ['src/store.rs:DiskStore', 'implements', 'Store'],
+      ['src/store.rs:DiskStore.get', 'overrides', 'Store.get'],
+    ])
+  })
+})
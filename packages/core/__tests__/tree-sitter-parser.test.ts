@@ -0,0 +1,86 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { extractOverrides, extractTypeUses, receiverName, type SyntaxNode } from '../src/parser/TreeSitterParser'
+
+/** Just enough of a syntax node for the helpers: type, text and named children */
+function node(type: string, text: string, namedChildren: SyntaxNode[] = []): SyntaxNode {
+  return { type, text, namedChildren } as unknown as SyntaxNode
+}
+
+function method(qualifiedName: string): ParsedSymbol {
+  return {
+    id: `src/admin.ts:${qualifiedName}`,
+    filePath: 'src/admin.ts',
+    name: qualifiedName.split('.').pop()!,
+    qualifiedName,
+    kind: 'method',
+    signature: `${qualifiedName}()`,
+    bodyRange: [1, 1],
+    repoId: 'repo',
+  }
+}
+
+describe('receiverName', () => {
+  it('reduces a receiver to its trailing name', () => {
+    expect(receiverName(node('this', 'this'))).toBe('this')
+    expect(receiverName(node('member_expression', 'this.repo'))).toBe('repo')
+    expect(receiverName(node('scoped_identifier', 'crate::db::Pool'))).toBe('Pool')
+  })
+
+  it('records receivers without a trailing name as `?`, and no receiver as undefined', () => {
+    expect(receiverName(node('call_expression', 'build()'))).toBe('?')
+    expect(receiverName(node('subscript_expression', 'items[0]'))).toBe('?')
+    expect(receiverName(null)).toBeUndefined()
+  })
+})
+
+describe('extractTypeUses', () => {
+  it('emits one `uses` edge per distinct type name, skipping other nodes', () => {
+    const params = node('formal_parameters', '(a: User, b: User, n: number)', [
+      node('required_parameter', 'a: User', [node('identifier', 'a'), node('type_identifier', 'User')]),
+      node('required_parameter', 'b: User', [node('identifier', 'b'), node('type_identifier', 'User')]),
+      node('required_parameter', 'n: number', [node('identifier', 'n'), node('predefined_type', 'number')]),
+    ])
+    const ret = node('generic_type', 'Promise<Session>', [node('type_identifier', 'Promise'), node('type_identifier', 'Session')])
+    const edges: Edge[] = []
+
+    extractTypeUses([params, null, ret], 'src/auth.ts:login', new Set(['type_identifier']), edges)
+
+    expect(edges).toEqual([
+      { from: 'src/auth.ts:login', to: 'User', kind: 'uses' },
+      { from: 'src/auth.ts:login', to: 'Promise', kind: 'uses' },
+      { from: 'src/auth.ts:login', to: 'Session', kind: 'uses' },
+    ])
+  })
+})
+
+describe('extractOverrides', () => {
+  const classId = 'src/admin.ts:Admin'
+  const symbols = [method('Admin.save'), method('Admin.constructor'), method('Admin.audit'), method('Admin.Inner.save')]
+
+  it('links methods declared directly on the class to each base', () => {
+    const edges: Edge[] = [
+      { from: classId, to: 'User', kind: 'inherits' },
+      { from: classId, to: 'Auditable', kind: 'implements' },
+    ]
+
+    extractOverrides(classId, symbols, edges)
+
+    expect(edges.filter(e => e.kind === 'overrides').map(e => [e.from, e.to])).toEqual([
+      ['src/admin.ts:Admin.save', 'User.save'],
+      ['src/admin.ts:Admin.save', 'Auditable.save'],
+      ['src/admin.ts:Admin.audit', 'User.audit'],
+      ['src/admin.ts:Admin.audit', 'Auditable.audit'],
+    ])
+  })
+
+  it('skips methods that cannot override, and classes without bases', () => {
+    const edges: Edge[] = [{ from: classId, to: 'User', kind: 'inherits' }]
+    const standalone: Edge[] = []
+
+    extractOverrides(classId, symbols, edges, new Set(['src/admin.ts:Admin.audit']))
+    extractOverrides(classId, symbols, standalone)
+
+    expect(edges.filter(e => e.kind === 'overrides').map(e => e.to)).toEqual(['User.save'])
+    expect(standalone).toEqual([])
+  })
+})
@@ -0,0 +1,64 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { TsImportResolver } from '../src/indexer/TsImportResolver'
+
+const FILES: Record<string, string> = {
+  'tsconfig.base.json': `{
+    // shared by every package
+    "compilerOptions": { "baseUrl": ".", "paths": { "@lib/*": ["libs/*/src"], }, },
+  }`,
+  'apps/web/tsconfig.json': `{ "extends": "../../tsconfig.base.json" }`,
+  'apps/web/src/main.ts': '',
+  'apps/web/src/user.ts': '',
+  'apps/dash/tsconfig.json': `{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }`,
+  'apps/dash/src/app.tsx': '',
+  'apps/dash/src/hooks/useRepo.ts': '',
+  'libs/date/src/index.ts': '',
+  'packages/shared/package.json': `{ "name": "@acme/shared", "main": "dist/index.js", "types": "dist/index.d.ts" }`,
+  'packages/shared/src/index.ts': '',
+  'packages/shared/src/types.ts': '',
+}
+
+describe('TsImportResolver', () => {
+  let root: string
+  let resolver: TsImportResolver
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'ts-resolver-'))
+    for (const [file, content] of Object.entries(FILES)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true })
+      await fs.writeFile(path.join(root, file), content)
+    }
+    resolver = await TsImportResolver.load(root, Object.keys(FILES))
+  })
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('resolves relative imports, including ESM `.js` specifiers', () => {
+    expect(resolver.resolve('apps/web/src/main.ts', './user')).toBe('apps/web/src/user.ts')
+    expect(resolver.resolve('apps/web/src/main.ts', './user.js')).toBe('apps/web/src/user.ts')
+  })
+
+  it('applies `paths` inherited through `extends`, relative to the base config', () => {
+    expect(resolver.resolve('apps/web/src/main.ts', '@lib/date')).toBe('libs/date/src/index.ts')
+  })
+
+  it('uses the nearest tsconfig and resolves `paths` against it when there is no baseUrl', () => {
+    expect(resolver.resolve('apps/dash/src/app.tsx', '@/hooks/useRepo')).toBe('apps/dash/src/hooks/useRepo.ts')
+    expect(resolver.resolve('apps/web/src/main.ts', '@/hooks/useRepo')).toBeNull()
+  })
+
+  it('maps workspace packages to their source entry and subpaths', () => {
+    expect(resolver.resolve('apps/web/src/main.ts', '@acme/shared')).toBe('packages/shared/src/index.ts')
+    expect(resolver.resolve('apps/web/src/main.ts', '@acme/shared/types')).toBe('packages/shared/src/types.ts')
+  })
+
+  it('leaves external packages and other languages alone', () => {
+    expect(resolver.resolve('apps/web/src/main.ts', 'react')).toBeNull()
+    const edge = { from: 'app/models.py', to: './user', kind: 'imports' as const }
+    expect(resolver.resolveEdge(edge)).toBe(edge)
+  })
+})
@@ -0,0 +1,69 @@
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import { TypeScriptParser } from '../src/parser/TypeScriptParser'
+
+const source = `import { Repo } from './repo'
+
+interface Store {
+  user: User
+  save(user: User): Promise<Receipt>
+}
+
+export class AdminStore extends BaseStore<User> implements Store {
+  user: Admin
+  private cache: Map<string, User> = new Map()
+
+  constructor(private readonly repo: Repo) {
+    super()
+  }
+
+  save(user: User): Promise<Receipt> {
+    return this.repo.insert(user)
+  }
+
+  private audit(entry: AuditEntry): void {}
+
+  #flush(): void {}
+
+  static create(repo: Repo): AdminStore {
+    return new AdminStore(repo)
+  }
+}
+`
+
+describe('TypeScriptParser', () => {
+  let symbols: ParsedSymbol[]
+  let edges: Edge[]
+
+  beforeAll(async () => {
+    const parser = new TypeScriptParser()
+    await parser.init()
+    ;({ symbols, edges } = parser.parseFile('src/admin.ts', source, 'repo'))
+  })
+
+  const id = (qn: string) => `src/admin.ts:${qn}`
+  const uses = (qn: string) => edges.filter(e => e.kind === 'uses' && e.from === id(qn)).map(e => e.to)
+
+  it('extracts interfaces, classes and their members', () => {
+    expect(symbols.map(s => s.qualifiedName)).toEqual([
+      'Store', 'Store.save', 'AdminStore', 'AdminStore.constructor', 'AdminStore.save',
+      'AdminStore.audit', 'AdminStore.#flush', 'AdminStore.create',
+    ])
+  })
+
+  it('records field, parameter and return types as uses, skipping builtins', () => {
+    expect(uses('Store')).toEqual(['User'])
+    expect(uses('AdminStore')).toEqual(['Admin', 'Map', 'User'])
+    expect(uses('AdminStore.save')).toEqual(['User', 'Promise', 'Receipt'])
+    expect(uses('AdminStore.audit')).toEqual(['AuditEntry'])
+    expect(uses('AdminStore.create')).toEqual(['Repo', 'AdminStore'])
+  })
+
+  it('links methods to the base class and interfaces, except constructors, private and static ones', () => {
+    const overrides = edges.filter(e => e.kind === 'overrides').map(e => [e.from, e.to])
+
+    expect(overrides).toEqual([
+      [id('AdminStore.save'), 'BaseStore.save'],
+      [id('AdminStore.save'), 'Store.save'],
+    ])
+  })
+})
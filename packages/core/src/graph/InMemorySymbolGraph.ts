@@ -1,17 +1,94 @@
-import type { ParsedSymbol, Edge, BlastRadius } from '@agnus-ai/shared'
+import path from 'path'
+import type { ParsedSymbol, Edge, BlastRadius, EdgeResolution } from '@agnus-ai/shared'
+
+export interface EdgeTargets {
+  resolution: EdgeResolution
+  /** One id when resolved, every remaining candidate when ambiguous, none when unresolved */
+  targets: string[]
+}
+
+/** Receivers that refer to the calling class itself */
+const SELF_RECEIVERS = new Set(['this', 'self', 'Self', 'static'])
+/** Receivers that refer to the parent class */
+const SUPER_RECEIVERS = new Set(['super', 'base', 'parent'])
+/** Symbol kinds a `uses` / `inherits` / `implements` edge can point at */
+const TYPE_KINDS = new Set<ParsedSymbol['kind']>(['class', 'interface', 'type'])
+/** How far up the hierarchy an `overrides` edge looks for the overridden method */
+const MAX_OVERRIDE_DEPTH = 5
+
+interface ImportTarget {
+  /** Lowercase, extensionless path — repo-relative when anchored, otherwise a path suffix */
+  path: string
+  anchored: boolean
+}
+
+interface EdgeIndex {
+  /** inEdges[id] = edges whose target is `id` (only once resolved) */
+  inEdges: Map<string, Edge[]>
+  /** possibleInEdges[id] = ambiguous edges that have `id` among their candidates */
+  possibleInEdges: Map<string, Edge[]>
+  /** Resolution of every edge except file-level `imports` */
+  resolutions: Map<Edge, EdgeTargets>
+}
 
 export class InMemorySymbolGraph {
   private symbols = new Map<string, ParsedSymbol>()
-  /** outEdges[id] = edges where `from === id` */
+  /** outEdges[id] = edges where `from === id` (file-level `imports` edges are keyed by file path) */
   private outEdges = new Map<string, Edge[]>()
-  /** inEdges[id] = edges where `to === id` (keyed by full symbol ID) */
-  private inEdges = new Map<string, Edge[]>()
   /** fileToSymbols[filePath] = symbol ids */
   private fileToSymbols = new Map<string, Set<string>>()
-  /** nameToIds[name] = [full symbol id, ...] — for resolving bare call names */
+  /** nameToIds[name] = [full symbol id, ...] — candidates for bare call and type names */
   private nameToIds = new Map<string, string[]>()
+  /**
+   * Reverse edges and edge resolutions, derived from `outEdges`. Built on first
+   * query and dropped on every mutation — an edge can only be resolved once the
+   * whole repo's symbols and imports are known, not when its file is parsed.
+   */
+  private index: EdgeIndex | null = null
+  private importCache = new Map<string, ImportTarget[]>()
+  /** Bumped on every mutation, so overlays notice their base changed */
+  private version = 0
+  /** Graph this one is layered over — set on branch overlays, null on full graphs */
+  private base: InMemorySymbolGraph | null = null
+  private baseVersion = -1
+  /** Files this overlay replaces in `base`; those with no symbols or edges here were deleted */
+  private overridden = new Set<string>()
+
+  /**
+   * A branch graph that stores only the files differing from `base`. Every other file
+   * is read through from `base`, including changes made to it later. Symbols, edges and
+   * files added or removed here mark the file as overridden.
+   */
+  static overlay(base: InMemorySymbolGraph): InMemorySymbolGraph {
+    const g = new InMemorySymbolGraph()
+    g.base = base
+    return g
+  }
+
+  isOverlay(): boolean {
+    return this.base !== null
+  }
+
+  /** Point an overlay at a reloaded copy of its base graph */
+  rebase(base: InMemorySymbolGraph): void {
+    if (this.base === base) return
+    this.base = base
+    this.invalidate()
+  }
+
+  /** Hide `base`'s version of a file — one that differs on this branch, or was deleted from it */
+  overrideFile(filePath: string): void {
+    if (!this.base || this.overridden.has(filePath)) return
+    this.overridden.add(filePath)
+    this.invalidate()
+  }
+
+  getOverriddenFiles(): string[] {
+    return [...this.overridden]
+  }
 
   addSymbol(s: ParsedSymbol): void {
+    if (this.base) this.overridden.add(s.filePath)
     this.symbols.set(s.id, s)
     if (!this.fileToSymbols.has(s.filePath)) {
       this.fileToSymbols.set(s.filePath, new Set())
@@ -19,36 +96,23 @@ export class InMemorySymbolGraph {
     this.fileToSymbols.get(s.filePath)!.add(s.id)
     // Index by short name for call edge resolution
     if (!this.nameToIds.has(s.name)) this.nameToIds.set(s.name, [])
-    this.nameToIds.get(s.name)!.push(s.id)
+    const ids = this.nameToIds.get(s.name)!
+    if (!ids.includes(s.id)) ids.push(s.id)
+    this.invalidate()
   }
 
   addEdge(e: Edge): void {
     if (!this.outEdges.has(e.from)) this.outEdges.set(e.from, [])
     this.outEdges.get(e.from)!.push(e)
-    // For call edges the `to` is often a bare name (e.g. "cn") not a full ID.
-    // Resolve it to all matching full symbol IDs so callers BFS works correctly.
-    const toKeys = e.kind === 'calls' ? this.resolveCallTarget(e.to) : [e.to]
-    for (const key of toKeys) {
-      if (!this.inEdges.has(key)) this.inEdges.set(key, [])
-      this.inEdges.get(key)!.push(e)
-    }
-  }
-
-  /**
-   * Resolve a call target to one or more full symbol IDs.
-   * If `name` already looks like a full ID (contains ':'), use it as-is.
-   * Otherwise look up the name index; fall back to the raw name if unresolved.
-   */
-  private resolveCallTarget(name: string): string[] {
-    if (name.includes(':')) return [name]
-    const ids = this.nameToIds.get(name)
-    return ids && ids.length > 0 ? ids : [name]
+    this.invalidate()
   }
 
   /** Remove all symbols and edges for a file (call before re-indexing it). */
   removeFile(filePath: string): void {
-    const ids = this.fileToSymbols.get(filePath)
-    if (!ids) return
+    if (this.base) this.overridden.add(filePath)
+    // File-level edges (imports) are keyed by the path itself
+    this.outEdges.delete(filePath)
+    const ids = this.fileToSymbols.get(filePath) ?? new Set<string>()
     for (const id of ids) {
       const sym = this.symbols.get(id)
       this.symbols.delete(id)
@@ -61,101 +125,318 @@ export class InMemorySymbolGraph {
           else this.nameToIds.set(sym.name, filtered)
         }
       }
-      // Remove outgoing edges from this symbol
-      const outs = this.outEdges.get(id) ?? []
+      // Edges from other files into this file stay: they resolve again once it is re-indexed
+      this.outEdges.delete(id)
+    }
+    this.fileToSymbols.delete(filePath)
+    this.invalidate()
+  }
+
+  /**
+   * How an edge maps onto the graph. `calls` candidates sharing the callee's name are
+   * narrowed by the receiver, then by preferring the caller's own class, its base
+   * classes, the caller's file, the files it imports and finally its directory.
+   * `uses` / `inherits` / `implements` pick a type by name, and `overrides` finds the
+   * method on the nearest base type declaring it, both with the same file/import/
+   * directory preferences. `imports` edges are always reported as resolved to their `to`.
+   */
+  getEdgeResolution(e: Edge): EdgeTargets {
+    if (e.kind === 'imports') return { resolution: 'resolved', targets: [e.to] }
+    return this.getIndex().resolutions.get(e) ?? this.resolveEdge(e)
+  }
+
+  private invalidate(): void {
+    this.version++
+    this.index = null
+    this.importCache.clear()
+  }
+
+  /** Drop derived state built against an older version of the base graph */
+  private syncBase(): void {
+    if (!this.base || this.base.version === this.baseVersion) return
+    this.invalidate()
+    this.baseVersion = this.base.version
+  }
+
+  /** The symbol as this graph sees it — overlays fall back to the base for files they don't override */
+  private lookup(id: string): ParsedSymbol | undefined {
+    const own = this.symbols.get(id)
+    if (own || !this.base) return own
+    const inherited = this.base.lookup(id)
+    return inherited && !this.overridden.has(inherited.filePath) ? inherited : undefined
+  }
+
+  /** Outgoing edges of a symbol id or, for file-level imports, a file path */
+  private edgesFrom(key: string): Edge[] {
+    if (!this.base) return this.outEdges.get(key) ?? []
+    const file = (this.symbols.get(key) ?? this.base.lookup(key))?.filePath ?? key
+    return this.overridden.has(file) ? this.outEdges.get(key) ?? [] : this.base.edgesFrom(key)
+  }
+
+  private idsNamed(name: string): string[] {
+    const own = this.nameToIds.get(name) ?? []
+    if (!this.base) return own
+    const inherited = this.base.idsNamed(name).filter(id => !this.overridden.has(this.base!.lookup(id)!.filePath))
+    return own.length > 0 ? [...own, ...inherited] : inherited
+  }
+
+  private allOutEdges(): Edge[][] {
+    const own = [...this.outEdges.values()]
+    if (!this.base) return own
+    const inherited = this.base.allOutEdges().filter(outs => {
+      const key = outs[0]?.from ?? ''
+      return !this.overridden.has(this.base!.lookup(key)?.filePath ?? key)
+    })
+    return [...own, ...inherited]
+  }
+
+  private getIndex(): EdgeIndex {
+    this.syncBase()
+    if (this.index) return this.index
+    const index: EdgeIndex = { inEdges: new Map(), possibleInEdges: new Map(), resolutions: new Map() }
+    const push = (map: Map<string, Edge[]>, key: string, e: Edge) => {
+      if (!map.has(key)) map.set(key, [])
+      map.get(key)!.push(e)
+    }
+    for (const outs of this.allOutEdges()) {
       for (const e of outs) {
-        // Remove from all inEdges keys this edge was indexed under
-        for (const key of this.resolveCallTarget(e.to)) {
-          const ins = this.inEdges.get(key)
-          if (ins) {
-            const filtered = ins.filter(i => i.from !== id)
-            if (filtered.length === 0) this.inEdges.delete(key)
-            else this.inEdges.set(key, filtered)
-          }
+        if (e.kind === 'imports') {
+          push(index.inEdges, e.to, e)
+          continue
+        }
+        const r = this.resolveEdge(e)
+        index.resolutions.set(e, r)
+        for (const target of r.targets) {
+          push(r.resolution === 'resolved' ? index.inEdges : index.possibleInEdges, target, e)
         }
       }
-      this.outEdges.delete(id)
-      // Remove incoming edges to this symbol (keyed by this symbol's id)
-      const ins = this.inEdges.get(id) ?? []
-      for (const e of ins) {
-        const outs2 = this.outEdges.get(e.from)
-        if (outs2) {
-          this.outEdges.set(e.from, outs2.filter(o => o.to !== e.to))
+    }
+    this.index = index
+    return index
+  }
+
+  private resolveEdge(e: Edge): EdgeTargets {
+    if (this.lookup(e.to)) return { resolution: 'resolved', targets: [e.to] }
+    switch (e.kind) {
+      case 'calls': return this.resolveCall(e)
+      case 'overrides': return this.resolveOverride(e)
+      default: return this.resolveType(e)
+    }
+  }
+
+  private resolveCall(e: Edge): EdgeTargets {
+    let pool = this.idsNamed(e.to).map(id => this.lookup(id)!)
+    const caller = this.lookup(e.from)
+    if (pool.length === 0 || !caller) return verdict(pool)
+
+    const imports = this.getImports(caller.filePath)
+    const receiver = e.receiver
+    const isSelf = receiver !== undefined && SELF_RECEIVERS.has(receiver)
+    const isSuper = receiver !== undefined && SUPER_RECEIVERS.has(receiver)
+    const isValue = receiver !== undefined && !isSelf && !isSuper
+
+    if (isValue) {
+      // `pkg.Func()` / `utils.helper()` — the receiver names an imported module
+      const module = imports.find(t => moduleName(t) === receiver.toLowerCase())
+      if (module) return verdict(pool.filter(s => matchesImport(s.filePath, module)))
+      // `User.find()` targets User's members; any other value can only have methods called on it
+      const onType = pool.filter(s => ownerName(s) === receiver)
+      pool = onType.length > 0 ? onType : pool.filter(s => s.kind === 'method')
+    }
+
+    const callerClass = caller.kind === 'class' || caller.kind === 'interface' ? caller.qualifiedName : ownerOf(caller)
+    const preferences: Array<(s: ParsedSymbol) => boolean> = []
+    if (callerClass && !isValue) {
+      if (!isSuper) preferences.push(s => s.filePath === caller.filePath && ownerOf(s) === callerClass)
+      const bases = this.getBaseNames(`${caller.filePath}:${callerClass}`)
+      preferences.push(s => bases.has(ownerName(s) ?? ''))
+    }
+    return verdict(this.narrow(pool, [...preferences, ...this.nearby(caller)]))
+  }
+
+  /** `uses Repo` / `inherits Base<T>` / `implements ns.Iface` — a class, interface or type alias */
+  private resolveType(e: Edge): EdgeTargets {
+    const pool = this.typesNamed(typeName(e.to))
+    const from = this.lookup(e.from)
+    return verdict(from ? this.narrow(pool, this.nearby(from)) : pool)
+  }
+
+  /**
+   * `Admin.save overrides User.save` — the method on the named base type, or when
+   * that type doesn't declare it (an intermediate abstract class), on its own bases.
+   */
+  private resolveOverride(e: Edge): EdgeTargets {
+    const dot = e.to.lastIndexOf('.')
+    const method = e.to.slice(dot + 1)
+    const from = this.lookup(e.from)
+    const seen = new Set<string>()
+    let owners = new Set([typeName(e.to.slice(0, dot))])
+    for (let depth = 0; depth < MAX_OVERRIDE_DEPTH && owners.size > 0; depth++) {
+      const found = this.idsNamed(method)
+        .map(id => this.lookup(id)!)
+        .filter(s => s.kind === 'method' && s.id !== e.from && owners.has(ownerName(s) ?? ''))
+      if (found.length > 0) return verdict(from ? this.narrow(found, this.nearby(from)) : found)
+      for (const o of owners) seen.add(o)
+      const next = new Set<string>()
+      for (const o of owners) {
+        for (const t of this.typesNamed(o)) {
+          for (const b of this.getBaseNames(t.id)) if (!seen.has(b)) next.add(b)
         }
       }
-      this.inEdges.delete(id)
+      owners = next
     }
-    this.fileToSymbols.delete(filePath)
+    return verdict([])
+  }
+
+  private typesNamed(name: string): ParsedSymbol[] {
+    return this.idsNamed(name).map(id => this.lookup(id)!).filter(s => TYPE_KINDS.has(s.kind))
+  }
+
+  /** Preferences shared by every edge kind: the source's file, the files it imports, its directory */
+  private nearby(from: ParsedSymbol): Array<(s: ParsedSymbol) => boolean> {
+    const imports = this.getImports(from.filePath)
+    return [
+      s => s.filePath === from.filePath,
+      s => imports.some(t => matchesImport(s.filePath, t)),
+      s => path.posix.dirname(s.filePath) === path.posix.dirname(from.filePath),
+    ]
+  }
+
+  /** Apply each preference in turn, skipping any that would leave no candidates */
+  private narrow(pool: ParsedSymbol[], preferences: Array<(s: ParsedSymbol) => boolean>): ParsedSymbol[] {
+    for (const prefer of preferences) {
+      if (pool.length <= 1) break
+      const narrowed = pool.filter(prefer)
+      if (narrowed.length > 0) pool = narrowed
+    }
+    return pool
+  }
+
+  /**
+   * Everything `filePath` imports. Importing a barrel file (`index.ts` with
+   * `export * from './user'`) also imports what it re-exports, transitively.
+   */
+  private getImports(filePath: string): ImportTarget[] {
+    this.syncBase()
+    let targets = this.importCache.get(filePath)
+    if (!targets) {
+      const found: ImportTarget[] = []
+      const seen = new Set([filePath])
+      const visit = (file: string, reexportsOnly: boolean): void => {
+        for (const e of this.edgesFrom(file)) {
+          if (e.kind !== 'imports' || (reexportsOnly && !e.reexport)) continue
+          const isFile = this.isIndexedFile(e.to)
+          found.push(normalizeImport(file, e.to, isFile))
+          if (isFile && !seen.has(e.to)) {
+            seen.add(e.to)
+            visit(e.to, true)
+          }
+        }
+      }
+      visit(filePath, false)
+      targets = found
+      this.importCache.set(filePath, targets)
+    }
+    return targets
+  }
+
+  /** Import edges resolved at index time point at repo files rather than module specifiers */
+  private isIndexedFile(p: string): boolean {
+    if (this.fileToSymbols.has(p) || this.outEdges.has(p)) return true
+    return !!this.base && !this.overridden.has(p) && this.base.isIndexedFile(p)
+  }
+
+  /** Short names of the classes/interfaces `classId` inherits from or implements */
+  private getBaseNames(classId: string): Set<string> {
+    const names = new Set<string>()
+    for (const e of this.edgesFrom(classId)) {
+      if (e.kind === 'inherits' || e.kind === 'implements') {
+        names.add(typeName(e.to))
+      }
+    }
+    return names
   }
 
   getSymbol(id: string): ParsedSymbol | undefined {
-    return this.symbols.get(id)
+    return this.lookup(id)
   }
 
   getAllSymbols(): ParsedSymbol[] {
-    return Array.from(this.symbols.values())
+    const own = Array.from(this.symbols.values())
+    if (!this.base) return own
+    return [...own, ...this.base.getAllSymbols().filter(s => !this.overridden.has(s.filePath))]
+  }
+
+  getFileSymbols(filePath: string): ParsedSymbol[] {
+    if (this.base && !this.overridden.has(filePath)) return this.base.getFileSymbols(filePath)
+    return [...this.fileToSymbols.get(filePath) ?? []].map(id => this.symbols.get(id)!)
   }
 
   getAllEdges(): Edge[] {
     const edges: Edge[] = []
-    for (const outs of this.outEdges.values()) {
+    for (const outs of this.allOutEdges()) {
       edges.push(...outs)
     }
     return edges
   }
 
   /**
-   * Get callers of `id` up to `hops` levels.
-   * Default 2 hops (direct + transitive callers).
+   * Get callers of `id` up to `hops` levels — everything depending on it: callers,
+   * subclasses and implementations, overriding methods and symbols using the type.
+   * Default 2 hops (direct + transitive callers). Ambiguous edges are not followed.
    */
   getCallers(id: string, hops = 2): ParsedSymbol[] {
-    const visited = new Set<string>()
-    const result: ParsedSymbol[] = []
-    this.bfs(id, hops, this.inEdges, visited, result)
-    return result
+    const { inEdges } = this.getIndex()
+    return this.bfs(id, hops, cur => (inEdges.get(cur) ?? []).map(e => e.from))
   }
 
   /**
-   * Get callees of `id` up to `hops` levels.
-   * Default 1 hop.
+   * Get callees of `id` up to `hops` levels — what it calls, uses, extends and overrides.
+   * Default 1 hop. Edges are followed only to their resolved target.
    */
   getCallees(id: string, hops = 1): ParsedSymbol[] {
-    const visited = new Set<string>()
-    const result: ParsedSymbol[] = []
-    this.bfs(id, hops, this.outEdges, visited, result)
-    return result
+    const { resolutions } = this.getIndex()
+    return this.bfs(id, hops, cur => this.edgesFrom(cur).flatMap(e => {
+      const r = resolutions.get(e)
+      return r?.resolution === 'resolved' ? r.targets : []
+    }))
+  }
+
+  /** Symbols with an ambiguous edge that may target `id` (1 hop). */
+  getPossibleCallers(id: string): ParsedSymbol[] {
+    const edges = this.getIndex().possibleInEdges.get(id) ?? []
+    const ids = [...new Set(edges.map(e => e.from))]
+    return ids.map(i => this.lookup(i)).filter(Boolean) as ParsedSymbol[]
   }
 
-  private bfs(
-    startId: string,
-    maxHops: number,
-    edgeMap: Map<string, Edge[]>,
-    visited: Set<string>,
-    result: ParsedSymbol[],
-  ): void {
+  private bfs(startId: string, maxHops: number, neighbors: (id: string) => string[]): ParsedSymbol[] {
+    const visited = new Set<string>([startId])
+    const result: ParsedSymbol[] = []
     const queue: Array<{ id: string; hop: number }> = [{ id: startId, hop: 0 }]
-    visited.add(startId)
     while (queue.length > 0) {
       const { id, hop } = queue.shift()!
       if (hop >= maxHops) continue
-      const edges = edgeMap.get(id) ?? []
-      for (const e of edges) {
-        const neighborId = edgeMap === this.inEdges ? e.from : e.to
+      for (const neighborId of neighbors(id)) {
         if (visited.has(neighborId)) continue
         visited.add(neighborId)
-        const sym = this.symbols.get(neighborId)
+        const sym = this.lookup(neighborId)
         if (sym) {
           result.push(sym)
           queue.push({ id: neighborId, hop: hop + 1 })
         }
       }
     }
+    return result
   }
 
-  /** Compute blast radius for a set of changed symbol ids. */
+  /**
+   * Compute blast radius for a set of changed symbol ids.
+   * Only resolved edges count towards the risk score; ambiguous ones are listed as possible callers.
+   */
   getBlastRadius(ids: string[]): BlastRadius {
     const direct = new Map<string, ParsedSymbol>()
     const transitive = new Map<string, ParsedSymbol>()
+    const possible = new Map<string, ParsedSymbol>()
 
     for (const id of ids) {
       // Direct callers (1 hop)
@@ -166,11 +447,13 @@ export class InMemorySymbolGraph {
       for (const s of t) {
         if (!direct.has(s.id)) transitive.set(s.id, s)
       }
+      for (const s of this.getPossibleCallers(id)) possible.set(s.id, s)
     }
+    for (const id of [...ids, ...direct.keys(), ...transitive.keys()]) possible.delete(id)
 
     const allCallers = [...direct.values(), ...transitive.values()]
     const affectedFiles = [...new Set([
-      ...ids.map(id => this.symbols.get(id)?.filePath).filter(Boolean) as string[],
+      ...ids.map(id => this.lookup(id)?.filePath).filter(Boolean) as string[],
       ...allCallers.map(s => s.filePath),
     ])]
 
@@ -183,6 +466,7 @@ export class InMemorySymbolGraph {
     return {
       directCallers: [...direct.values()],
       transitiveCallers: [...transitive.values()],
+      possibleCallers: [...possible.values()],
       affectedFiles,
       riskScore,
     }
@@ -190,7 +474,7 @@ export class InMemorySymbolGraph {
 
   serialize(): string {
     return JSON.stringify({
-      symbols: Array.from(this.symbols.values()),
+      symbols: this.getAllSymbols(),
       edges: this.getAllEdges(),
     })
   }
@@ -203,3 +487,74 @@ export class InMemorySymbolGraph {
     return g
   }
 }
+
+function verdict(pool: ParsedSymbol[]): EdgeTargets {
+  const targets = pool.map(s => s.id)
+  const resolution = targets.length === 1 ? 'resolved' : targets.length === 0 ? 'unresolved' : 'ambiguous'
+  return { resolution, targets }
+}
+
+/** `Admin::UsersController.show` → `Admin::UsersController`; null for top-level symbols */
+function ownerOf(s: ParsedSymbol): string | null {
+  const i = s.qualifiedName.lastIndexOf('.')
+  return i > 0 ? s.qualifiedName.slice(0, i) : null
+}
+
+/** `Admin::UsersController.show` → `UsersController` */
+function ownerName(s: ParsedSymbol): string | null {
+  return ownerOf(s)?.split(/[.:]/).pop() ?? null
+}
+
+/** `ns.Repository<User>` / `Generic[T]` / `App\Models\User` → the bare type name */
+function typeName(ref: string): string {
+  return ref.split(/[<[]/)[0].split(/[.:\\]/).pop()!.trim()
+}
+
+/** `src/utils/index` → `utils` — what a namespace import of the module is usually called */
+function moduleName(t: ImportTarget): string {
+  const segments = t.path.split('/')
+  const last = segments.pop()!
+  return last === 'index' && segments.length > 0 ? segments.pop()! : last
+}
+
+/**
+ * Normalize an import specifier from any supported language into a lowercase path:
+ * repo files (TS imports resolved at index time) are used as they are;
+ * `../db/pool` and Python's `.utils` are resolved against the importing file;
+ * `app.models.user`, `App\Models\User` and `crate::models::user` become path suffixes.
+ */
+function normalizeImport(fromFile: string, spec: string, isFile: boolean): ImportTarget {
+  if (isFile) return { path: stripSourceExtension(spec).toLowerCase(), anchored: true }
+  const dir = path.posix.dirname(fromFile)
+  if (spec.startsWith('./') || spec.startsWith('../')) {
+    return { path: stripSourceExtension(path.posix.join(dir, spec)).toLowerCase(), anchored: true }
+  }
+  const dots = /^\.+/.exec(spec)?.[0].length ?? 0
+  if (dots > 0) {
+    // `.utils` is a sibling module; every extra dot climbs one package
+    const base = path.posix.join(dir, ...Array<string>(dots - 1).fill('..'))
+    return { path: path.posix.join(base, spec.slice(dots).replace(/\./g, '/')).toLowerCase(), anchored: true }
+  }
+  const slashed = spec.includes('/') ? spec : spec.replace(/::|\\|\./g, '/')
+  return { path: slashed.replace(/^(crate|self|super)\//, '').replace(/\/\*$/, '').toLowerCase(), anchored: false }
+}
+
+/** `user.d.ts` / `user.js` → `user`, matching the extensionless stems `matchesImport` compares */
+function stripSourceExtension(p: string): string {
+  return p.replace(/(\.d)?\.[cm]?[jt]sx?$/, '')
+}
+
+/**
+ * Whether `filePath` is provided by an import: the module file itself, a file in the
+ * imported package directory (index.ts, __init__.py, Go/Java packages), or — for
+ * item imports like `crate::store::Cache` / `com.acme.util.slugify` — the parent module.
+ */
+function matchesImport(filePath: string, target: ImportTarget): boolean {
+  const stem = filePath.replace(/\.[^./]+$/, '').toLowerCase()
+  const dir = path.posix.dirname(stem)
+  // Unanchored targets match as suffixes either way round: `github.com/acme/api/store` ↔ `store/`
+  const hits = (p: string, t: string) => p === t || (!target.anchored && (p.endsWith('/' + t) || t.endsWith('/' + p)))
+  if (hits(stem, target.path) || hits(dir, target.path)) return true
+  const parent = target.anchored ? '' : path.posix.dirname(target.path)
+  return parent !== '.' && parent !== '' && (hits(stem, parent) || hits(dir, parent))
+}
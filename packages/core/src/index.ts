@@ -4,6 +4,7 @@ export * from './graph/InMemorySymbolGraph'
 export * from './storage/StorageAdapter'
 export * from './storage/PostgresStorageAdapter'
 export * from './indexer/Indexer'
+export * from './indexer/TsImportResolver'
 export * from './embeddings/EmbeddingAdapter'
 export * from './embeddings/OllamaEmbeddingAdapter'
 export * from './embeddings/OpenAIEmbeddingAdapter'
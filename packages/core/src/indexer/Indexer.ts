@@ -1,16 +1,20 @@
 import fs from 'fs/promises'
 import path from 'path'
-import type { IndexProgress, IndexStats } from '@agnus-ai/shared'
+import type { IndexProgress, IndexStats, IndexTimings, ParsedSymbol } from '@agnus-ai/shared'
 import type { ParserRegistry } from '../parser/ParserRegistry'
 import type { InMemorySymbolGraph } from '../graph/InMemorySymbolGraph'
 import type { StorageAdapter } from '../storage/StorageAdapter'
 import type { EmbeddingAdapter } from '../embeddings/EmbeddingAdapter'
+import { TsImportResolver } from './TsImportResolver'
 
 /** Number of symbols to embed per batch (avoid overwhelming the embedding server) */
 const EMBED_BATCH_SIZE = 32
 
 /** File extensions to scan during full indexing */
-const INDEXED_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.cs'])
+const INDEXED_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.cs', '.rs', '.rb', '.rake', '.php', '.kt', '.kts'])
+
+/** Files the import resolver reads its settings from — any change reloads it */
+const RESOLVER_CONFIG = /(^|\/)([tj]sconfig[^/]*|package)\.json$/
 
 /** Directories to skip */
 const SKIP_DIRS = new Set([
@@ -19,6 +23,9 @@ const SKIP_DIRS = new Set([
 ])
 
 export class Indexer {
+  /** Import resolver for the repo checkout last indexed, kept across incremental updates */
+  private resolver: { repoPath: string; resolver: TsImportResolver } | null = null
+
   constructor(
     private readonly registry: ParserRegistry,
     private readonly graph: InMemorySymbolGraph,
@@ -37,9 +44,16 @@ export class Indexer {
     onProgress?: (p: IndexProgress) => void,
   ): Promise<IndexStats> {
     const start = Date.now()
+    const timings: IndexTimings = { scanMs: 0, parseMs: 0, persistMs: 0, embedMs: 0 }
     // Clear stale symbols/edges from a previous full-index run before re-indexing
     await this.storage.deleteAllForBranch(repoId, branch)
+    timings.persistMs += Date.now() - start
+
+    let mark = Date.now()
     const files = await collectFiles(repoPath)
+    const resolver = await TsImportResolver.load(repoPath, files.map(f => path.relative(repoPath, f)))
+    this.resolver = { repoPath, resolver }
+    timings.scanMs = Date.now() - mark
     let symbolCount = 0
     let edgeCount = 0
 
@@ -52,17 +66,22 @@ export class Indexer {
       onProgress?.({ step: 'parsing', file: relPath, progress: i + 1, total: files.length })
 
       try {
+        mark = Date.now()
         const content = await fs.readFile(filePath, 'utf-8')
         const result = this.registry.parseFile(relPath, content, repoId)
         if (!result) continue
+        const edges = result.edges.map(e => resolver.resolveEdge(e))
 
         this.graph.addSymbol && result.symbols.forEach(s => this.graph.addSymbol(s))
-        result.edges.forEach(e => this.graph.addEdge(e))
+        edges.forEach(e => this.graph.addEdge(e))
+        timings.parseMs += Date.now() - mark
 
         // Persist — attach repoId to edges for storage
-        const edgesWithRepo = result.edges.map(e => ({ ...e, repoId }))
+        mark = Date.now()
+        const edgesWithRepo = edges.map(e => ({ ...e, repoId }))
         await this.storage.saveSymbols(result.symbols, branch)
         await this.storage.saveEdges(edgesWithRepo, branch)
+        timings.persistMs += Date.now() - mark
 
         symbolCount += result.symbols.length
         edgeCount += result.edges.length
@@ -71,15 +90,14 @@ export class Indexer {
       }
     }
 
-    const snapshot = this.graph.serialize()
-    await this.storage.saveGraphSnapshot(repoId, branch, snapshot)
-
     // Embed all symbols if an embedding adapter is configured
     if (this.embeddings) {
+      mark = Date.now()
       const allSymbols = this.graph.getAllSymbols().filter(s => s.repoId === repoId)
       await this.embedBatch(allSymbols, repoId, branch, (done) => {
         onProgress?.({ step: 'embedding', symbolCount: allSymbols.length, progress: done, total: allSymbols.length })
       })
+      timings.embedMs = Date.now() - mark
     }
 
     const stats: IndexStats = {
@@ -87,51 +105,115 @@ export class Indexer {
       edgeCount,
       fileCount: files.length,
       durationMs: Date.now() - start,
+      timings,
     }
 
-    onProgress?.({ step: 'done', symbolCount, edgeCount, durationMs: stats.durationMs })
+    onProgress?.({ step: 'done', symbolCount, edgeCount, durationMs: stats.durationMs, timings })
     return stats
   }
 
   /**
-   * Re-index only the changed files.
-   * Removes old symbols/edges for each file before re-parsing.
+   * Re-index only the changed files. Storage is updated per file — the rest of the
+   * graph is never rewritten — and only symbols whose signature or doc comment changed
+   * are re-embedded. Files that no longer exist are removed. On a branch overlay the
+   * files are also recorded as overriding the base branch.
+   * TS/JS imports are resolved to repo files only when `repoPath` is given; the repo is
+   * scanned for them on the first update after startup, or when its checkout path or a
+   * tsconfig, jsconfig or package.json changes.
    */
-  async incrementalUpdate(changedFiles: string[], repoId: string, branch: string, repoPath?: string): Promise<void> {
-    for (const relPath of changedFiles) {
-      this.graph.removeFile(relPath)
-      await this.storage.deleteByFile(relPath, repoId, branch)
+  async incrementalUpdate(
+    changedFiles: string[],
+    repoId: string,
+    branch: string,
+    repoPath?: string,
+    onProgress?: (p: IndexProgress) => void,
+  ): Promise<IndexStats> {
+    const start = Date.now()
+    const timings: IndexTimings = { scanMs: 0, parseMs: 0, persistMs: 0, embedMs: 0 }
+    const resolver = repoPath ? await this.resolverFor(repoPath, changedFiles) : null
+    timings.scanMs = Date.now() - start
+    let symbolCount = 0
+    let edgeCount = 0
+    if (this.graph.isOverlay()) await this.storage.saveOverlayFiles(repoId, branch, changedFiles)
 
+    for (let i = 0; i < changedFiles.length; i++) {
+      const relPath = changedFiles[i]
+      onProgress?.({ step: 'parsing', file: relPath, progress: i + 1, total: changedFiles.length })
       try {
+        let mark = Date.now()
+        // What each symbol was embedded from, to skip re-embedding the unchanged ones
+        const previous = new Map(this.graph.getFileSymbols(relPath).map(s => [s.id, embeddingText(s)]))
+        this.graph.removeFile(relPath)
+
         const absPath = repoPath ? path.join(repoPath, relPath) : relPath
-        const content = await fs.readFile(absPath, 'utf-8')
-        const result = this.registry.parseFile(relPath, content, repoId)
-        if (!result) continue
+        const content = await readIfExists(absPath)
+        const result = content === null ? null : this.registry.parseFile(relPath, content, repoId)
+        if (!result) {
+          timings.parseMs += Date.now() - mark
+          mark = Date.now()
+          await this.storage.deleteByFile(relPath, repoId, branch)
+          timings.persistMs += Date.now() - mark
+          continue
+        }
+        const edges = resolver ? result.edges.map(e => resolver.resolveEdge(e)) : result.edges
 
         result.symbols.forEach(s => this.graph.addSymbol(s))
-        result.edges.forEach(e => this.graph.addEdge(e))
+        edges.forEach(e => this.graph.addEdge(e))
+        timings.parseMs += Date.now() - mark
 
-        const edgesWithRepo = result.edges.map(e => ({ ...e, repoId }))
-        await this.storage.saveSymbols(result.symbols, branch)
-        await this.storage.saveEdges(edgesWithRepo, branch)
+        mark = Date.now()
+        const edgesWithRepo = edges.map(e => ({ ...e, repoId }))
+        await this.storage.replaceFile(relPath, repoId, branch, result.symbols, edgesWithRepo)
+        timings.persistMs += Date.now() - mark
+        symbolCount += result.symbols.length
+        edgeCount += edges.length
 
-        if (this.embeddings && result.symbols.length > 0) {
-          await this.embedBatch(result.symbols, repoId, branch)
+        const stale = result.symbols.filter(s => previous.get(s.id) !== embeddingText(s))
+        if (this.embeddings && stale.length > 0) {
+          mark = Date.now()
+          await this.embedBatch(stale, repoId, branch)
+          timings.embedMs += Date.now() - mark
         }
       } catch (err) {
         console.warn(`[Indexer] Incremental update failed for ${relPath}: ${(err as Error).message}`)
       }
     }
 
-    const snapshot = this.graph.serialize()
-    await this.storage.saveGraphSnapshot(repoId, branch, snapshot)
+    const stats: IndexStats = {
+      symbolCount,
+      edgeCount,
+      fileCount: changedFiles.length,
+      durationMs: Date.now() - start,
+      timings,
+    }
+    onProgress?.({ step: 'done', symbolCount, edgeCount, durationMs: stats.durationMs, timings })
+    return stats
+  }
+
+  /**
+   * The import resolver for `repoPath`, with `changedFiles` added to or removed from its
+   * file set. It is only reloaded — which walks the repo and re-reads every tsconfig,
+   * jsconfig and package.json — when none is kept for this checkout or a config changed.
+   */
+  private async resolverFor(repoPath: string, changedFiles: string[]): Promise<TsImportResolver> {
+    const kept = this.resolver
+    if (kept?.repoPath === repoPath && !changedFiles.some(f => RESOLVER_CONFIG.test(f))) {
+      const scanned = changedFiles.filter(f => !f.split(/[\\/]/).some(part => SKIP_DIRS.has(part)))
+      const exists = await Promise.all(scanned.map(f => fileExists(path.join(repoPath, f))))
+      kept.resolver.updateFiles(scanned.filter((_, i) => exists[i]), scanned.filter((_, i) => !exists[i]))
+      return kept.resolver
+    }
+    const files = await collectFiles(repoPath)
+    const resolver = await TsImportResolver.load(repoPath, files.map(f => path.relative(repoPath, f)))
+    this.resolver = { repoPath, resolver }
+    return resolver
   }
 
   /**
    * Embed a list of symbols in batches and upsert into the vector store.
    */
   private async embedBatch(
-    symbols: import('@agnus-ai/shared').ParsedSymbol[],
+    symbols: ParsedSymbol[],
     repoId: string,
     branch: string,
     onProgress?: (done: number) => void,
@@ -141,7 +223,7 @@ export class Indexer {
     onProgress?.(0)
     for (let i = 0; i < symbols.length; i += EMBED_BATCH_SIZE) {
       const batch = symbols.slice(i, i + EMBED_BATCH_SIZE)
-      const texts = batch.map(s => `${s.signature}${s.docComment ? ' ' + s.docComment : ''}`)
+      const texts = batch.map(embeddingText)
       try {
         const vectors = await this.embeddings.embed(texts)
         for (let j = 0; j < batch.length; j++) {
@@ -156,25 +238,49 @@ export class Indexer {
   }
 
   /**
-   * Load persisted symbols/edges from storage and rebuild the in-memory graph.
-   * Call on startup to avoid re-indexing.
+   * Rebuild the in-memory graph from the persisted symbols/edges, streamed in batches.
+   * Call on startup to avoid re-indexing. An overlay graph loads only its own files.
    */
-  async loadFromStorage(repoId: string, branch: string): Promise<void> {
-    const snapshot = await this.storage.loadGraphSnapshot(repoId, branch)
-    if (snapshot) {
-      // Rebuild from snapshot (faster than row-by-row)
-      const { InMemorySymbolGraph } = await import('../graph/InMemorySymbolGraph')
-      const loaded = InMemorySymbolGraph.deserialize(snapshot)
-      // Merge into existing graph
-      for (const sym of loaded.getAllSymbols()) this.graph.addSymbol(sym)
-      for (const edge of loaded.getAllEdges()) this.graph.addEdge(edge)
-      return
+  async loadFromStorage(repoId: string, branch: string): Promise<{ symbolCount: number; edgeCount: number; durationMs: number }> {
+    const start = Date.now()
+    let symbolCount = 0
+    let edgeCount = 0
+    if (this.graph.isOverlay()) {
+      for (const file of await this.storage.loadOverlayFiles(repoId, branch)) this.graph.overrideFile(file)
+    }
+    for await (const batch of this.storage.streamSymbols(repoId, branch)) {
+      for (const s of batch) this.graph.addSymbol(s)
+      symbolCount += batch.length
+    }
+    for await (const batch of this.storage.streamEdges(repoId, branch)) {
+      for (const e of batch) this.graph.addEdge(e)
+      edgeCount += batch.length
     }
+    return { symbolCount, edgeCount, durationMs: Date.now() - start }
+  }
+}
+
+/** The text a symbol's embedding is computed from */
+function embeddingText(s: ParsedSymbol): string {
+  return `${s.signature}${s.docComment ? ' ' + s.docComment : ''}`
+}
+
+/** File contents, or null once it has been deleted */
+async function readIfExists(absPath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(absPath, 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
 
-    // Fallback: load from rows
-    const { symbols, edges } = await this.storage.loadAll(repoId, branch)
-    for (const s of symbols) this.graph.addSymbol(s)
-    for (const e of edges) this.graph.addEdge(e)
+/** Whether a file is still there */
+async function fileExists(absPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(absPath)).isFile()
+  } catch {
+    return false
   }
 }
 
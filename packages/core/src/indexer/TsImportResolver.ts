@@ -0,0 +1,280 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { Edge } from '@agnus-ai/shared'
+
+/** Importing files whose specifiers follow TypeScript module resolution */
+const TS_SOURCE = /\.(ts|tsx|js|jsx|mjs|cjs)$/
+/** Tried in order for extensionless specifiers and `index` files */
+const EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs']
+/** Build output directories that package.json entry points usually point into */
+const OUT_DIR = /^(dist|lib|build|out)\//
+/** Guard against `extends` cycles */
+const MAX_EXTENDS_DEPTH = 5
+
+interface PathMapping {
+  /** `@app/*` → prefix `@app/`, suffix ``; exact mappings have no wildcard */
+  prefix: string
+  suffix: string
+  wildcard: boolean
+  /** Repo-relative substitution targets, still containing `*` */
+  targets: string[]
+}
+
+interface CompilerPaths {
+  /** Repo-relative */
+  baseUrl?: string
+  paths: PathMapping[]
+}
+
+/**
+ * Maps TypeScript/JavaScript import specifiers to the repo files they load, the way
+ * `tsc` would: relative paths, `compilerOptions.paths` / `baseUrl` from the nearest
+ * `tsconfig.json` (following relative `extends`), and workspace packages by their
+ * package.json `name`. Build once from the repo's file list, and keep it current with
+ * `updateFiles()` until a tsconfig, jsconfig or package.json changes.
+ */
+export class TsImportResolver {
+  /** Package name → resolved entry file, filled on first import of the package */
+  private readonly entries = new Map<string, string | null>()
+
+  private constructor(
+    private readonly files: Set<string>,
+    /** Directory (repo-relative, '' for the root) → its tsconfig's compiler paths */
+    private readonly configs: Map<string, CompilerPaths>,
+    /** Workspace package name → its directory and package.json */
+    private readonly packages: Map<string, { dir: string; json: PackageJson }>,
+  ) {}
+
+  /** `relFiles` are repo-relative paths of every file in the repo, not just indexed sources */
+  static async load(repoPath: string, relFiles: string[]): Promise<TsImportResolver> {
+    const files = new Set(relFiles.map(toPosix))
+    const configs = new Map<string, CompilerPaths>()
+    const packages = new Map<string, { dir: string; json: PackageJson }>()
+    // A tsconfig.json wins over a jsconfig.json in the same directory
+    const configFiles = [...files]
+      .filter(f => /(^|\/)[tj]sconfig\.json$/.test(f))
+      .sort((a, b) => path.posix.basename(b).localeCompare(path.posix.basename(a)))
+    for (const file of configFiles) {
+      if (configs.has(dirOf(file))) continue
+      const config = await readCompilerPaths(repoPath, file, 0)
+      if (config) configs.set(dirOf(file), config)
+    }
+    for (const file of files) {
+      if (path.posix.basename(file) !== 'package.json') continue
+      const json = await readJson(path.join(repoPath, file)) as PackageJson | null
+      if (typeof json?.name === 'string') packages.set(json.name, { dir: dirOf(file), json })
+    }
+    return new TsImportResolver(files, configs, packages)
+  }
+
+  /** Record files added to and removed from the repo since the resolver was loaded */
+  updateFiles(added: string[], removed: string[]): void {
+    for (const file of added) this.files.add(toPosix(file))
+    for (const file of removed) this.files.delete(toPosix(file))
+    // Package entry points are resolved against the file set
+    this.entries.clear()
+  }
+
+  /**
+   * Rewrite a TS/JS `imports` edge to the repo file it points at. Edges from other
+   * languages and imports of external packages (`react`, `node:fs`) are returned unchanged.
+   */
+  resolveEdge(e: Edge): Edge {
+    if (e.kind !== 'imports' || !TS_SOURCE.test(e.from)) return e
+    const target = this.resolve(e.from, e.to)
+    return target ? { ...e, to: target } : e
+  }
+
+  /** Repo-relative path of the file `spec` loads when imported from `fromFile`, or null */
+  resolve(fromFile: string, spec: string): string | null {
+    const from = toPosix(fromFile)
+    if (spec.startsWith('./') || spec.startsWith('../') || spec === '.' || spec === '..') {
+      return this.resolveFile(path.posix.join(dirOf(from), spec))
+    }
+
+    const config = this.configFor(from)
+    if (config) {
+      const mapped = this.resolveMapped(config, spec)
+      if (mapped) return mapped
+      if (config.baseUrl !== undefined) {
+        const fromBase = this.resolveFile(path.posix.join(config.baseUrl, spec))
+        if (fromBase) return fromBase
+      }
+    }
+    return this.resolvePackage(spec)
+  }
+
+  /** The tsconfig in the nearest enclosing directory */
+  private configFor(file: string): CompilerPaths | undefined {
+    let dir = dirOf(file)
+    for (;;) {
+      const config = this.configs.get(dir)
+      if (config) return config
+      if (dir === '') return undefined
+      dir = dirOf(dir)
+    }
+  }
+
+  /** `paths` patterns, longest matching prefix first — same precedence as tsc */
+  private resolveMapped(config: CompilerPaths, spec: string): string | null {
+    const matches = config.paths
+      .filter(m => m.wildcard
+        ? spec.startsWith(m.prefix) && spec.endsWith(m.suffix) && spec.length >= m.prefix.length + m.suffix.length
+        : spec === m.prefix)
+      .sort((a, b) => b.prefix.length - a.prefix.length)
+    for (const m of matches) {
+      const star = m.wildcard ? spec.slice(m.prefix.length, spec.length - m.suffix.length) : ''
+      for (const target of m.targets) {
+        const resolved = this.resolveFile(target.replace('*', star))
+        if (resolved) return resolved
+      }
+    }
+    return null
+  }
+
+  /** `@acme/shared` → its entry file; `@acme/shared/utils/date` → that file inside the package */
+  private resolvePackage(spec: string): string | null {
+    const segments = spec.split('/')
+    const nameLength = spec.startsWith('@') ? 2 : 1
+    const name = segments.slice(0, nameLength).join('/')
+    const pkg = this.packages.get(name)
+    if (!pkg) return null
+    const subpath = segments.slice(nameLength).join('/')
+    if (!subpath) {
+      if (!this.entries.has(name)) this.entries.set(name, this.resolveEntry(pkg.dir, pkg.json))
+      return this.entries.get(name)!
+    }
+    return this.resolveFile(path.posix.join(pkg.dir, subpath))
+      ?? this.resolveFile(path.posix.join(pkg.dir, 'src', subpath))
+  }
+
+  /**
+   * A package's entry point. `main` / `types` usually point at build output that isn't
+   * in the repo (`dist/index.js`), so each is also tried with the build directory mapped
+   * back to `src/` before falling back to `src/index` and `index`.
+   */
+  private resolveEntry(dir: string, pkg: PackageJson): string | null {
+    const exported = exportTarget(pkg.exports?.['.'] ?? pkg.exports)
+    const fields = [pkg.source, pkg.types, pkg.typings, exported, pkg.module, pkg.main]
+      .filter((f): f is string => typeof f === 'string')
+    const candidates: string[] = []
+    for (const field of fields) {
+      const rel = path.posix.normalize(field)
+      candidates.push(rel)
+      if (OUT_DIR.test(rel)) candidates.push(rel.replace(OUT_DIR, 'src/').replace(/(\.d)?\.[cm]?js$|\.d\.ts$/, ''))
+    }
+    candidates.push('src/index', 'index')
+    for (const candidate of candidates) {
+      const resolved = this.resolveFile(path.posix.join(dir, candidate))
+      if (resolved) return resolved
+    }
+    return null
+  }
+
+  /** The file itself, ESM-style `./user.js` → `user.ts`, then added extensions, then `index` */
+  private resolveFile(candidate: string): string | null {
+    const file = path.posix.normalize(candidate).replace(/^\.\/|\/$/g, '')
+    if (file.startsWith('../')) return null
+    const stem = file.replace(/\.[cm]?jsx?$/, '')
+    const tries = [
+      ...(stem !== file ? EXTENSIONS.map(ext => stem + ext) : []),
+      file,
+      ...EXTENSIONS.map(ext => file + ext),
+      ...EXTENSIONS.map(ext => `${file}/index${ext}`),
+    ]
+    return tries.find(t => this.files.has(t) && TS_SOURCE.test(t)) ?? null
+  }
+}
+
+interface PackageJson {
+  name?: string
+  source?: string
+  types?: string
+  typings?: string
+  module?: string
+  main?: string
+  exports?: any
+}
+
+/** `{ types, import, require, default }` conditions — the first string target, types first */
+function exportTarget(exp: any): string | undefined {
+  if (typeof exp === 'string') return exp
+  if (!exp || typeof exp !== 'object') return undefined
+  for (const key of ['types', 'import', 'require', 'default']) {
+    const target = exportTarget(exp[key])
+    if (target) return target
+  }
+  return undefined
+}
+
+/**
+ * `compilerOptions.baseUrl` / `paths` of a tsconfig, inherited through relative `extends`.
+ * `baseUrl` is relative to the config declaring it; `paths` targets are relative to
+ * `baseUrl` when one is in effect, otherwise to the config declaring `paths`.
+ */
+async function readCompilerPaths(repoPath: string, file: string, depth: number): Promise<CompilerPaths | null> {
+  const json = await readJson(path.join(repoPath, file))
+  if (!json) return null
+  const dir = dirOf(file)
+
+  // Package-based `extends` (`@tsconfig/node20`) never declares paths — only relative ones are read
+  let inherited: CompilerPaths = { paths: [] }
+  const parents = (Array.isArray(json.extends) ? json.extends : [json.extends])
+    .filter((e: unknown): e is string => typeof e === 'string' && e.startsWith('.'))
+  for (const parent of depth < MAX_EXTENDS_DEPTH ? parents : []) {
+    const parentFile = path.posix.join(dir, parent.endsWith('.json') ? parent : `${parent}.json`)
+    const resolved = await readCompilerPaths(repoPath, parentFile, depth + 1)
+    if (!resolved) continue
+    // With several parents (TS 5), later ones override earlier ones
+    inherited = {
+      baseUrl: resolved.baseUrl ?? inherited.baseUrl,
+      paths: resolved.paths.length > 0 ? resolved.paths : inherited.paths,
+    }
+  }
+
+  const options = json.compilerOptions ?? {}
+  const baseUrl = typeof options.baseUrl === 'string' ? path.posix.join(dir, options.baseUrl) : inherited.baseUrl
+  if (!options.paths || typeof options.paths !== 'object') return { baseUrl, paths: inherited.paths }
+  const pathsBase = baseUrl ?? dir
+  const paths: PathMapping[] = []
+  for (const [pattern, targets] of Object.entries(options.paths as Record<string, unknown>)) {
+    if (!Array.isArray(targets)) continue
+    const star = pattern.indexOf('*')
+    paths.push({
+      prefix: star >= 0 ? pattern.slice(0, star) : pattern,
+      suffix: star >= 0 ? pattern.slice(star + 1) : '',
+      wildcard: star >= 0,
+      targets: targets.filter((t): t is string => typeof t === 'string').map(t => path.posix.join(pathsBase, t)),
+    })
+  }
+  return { baseUrl, paths }
+}
+
+/** JSON with comments and trailing commas, as tsconfig.json allows */
+async function readJson(absPath: string): Promise<any | null> {
+  let text: string
+  try {
+    text = await fs.readFile(absPath, 'utf-8')
+  } catch {
+    return null
+  }
+  const stripped = text
+    .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, str) => str ?? '')
+    .replace(/("(?:\\.|[^"\\])*")|,(\s*[}\]])/g, (_, str, close) => str ?? close)
+  try {
+    return JSON.parse(stripped)
+  } catch (err) {
+    console.warn(`[TsImportResolver] Ignoring ${absPath}: ${(err as Error).message}`)
+    return null
+  }
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/')
+}
+
+/** Repo-relative directory, '' for the root */
+function dirOf(file: string): string {
+  const dir = path.posix.dirname(file)
+  return dir === '.' ? '' : dir
+}
@@ -2,7 +2,7 @@ import path from 'path'
 import Parser from 'web-tree-sitter'
 import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
 import type { ParseResult } from './LanguageParser'
-import { TreeSitterParser, makeSymbolId, initWasm } from './TreeSitterParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractTypeUses, extractOverrides } from './TreeSitterParser'
 
 type SyntaxNode = Parser.SyntaxNode
 
@@ -11,6 +11,32 @@ function getWasmPath(): string {
   return path.join(pkgDir, 'tree-sitter-c_sharp.wasm')
 }
 
+/** Type names are plain identifiers (`User`, `List<User>`, `Ns.User`); builtins are `predefined_type` */
+const TYPE_NODES = new Set(['identifier'])
+
+/** `class A : Base<T>, IService` — the base list is an unnamed child, not a field */
+function baseTypes(node: SyntaxNode): SyntaxNode[] {
+  return node.namedChildren.find(c => c.type === 'base_list')?.namedChildren ?? []
+}
+
+/** Parameter names are identifiers too — only look at the declared types */
+function parameterTypes(params: SyntaxNode | null): Array<SyntaxNode | null> {
+  return params?.namedChildren.map(p => p.childForFieldName('type')) ?? []
+}
+
+/**
+ * Static methods aren't called on an instance, and private ones aren't inherited —
+ * including class members with no access modifier, which default to private. Explicit
+ * interface implementations (`void IService.Run()`) take no modifier but do implement.
+ */
+function isNonOverriding(method: SyntaxNode): boolean {
+  const modifiers = method.namedChildren.filter(c => c.type === 'modifier').map(c => c.text)
+  if (modifiers.includes('static') || modifiers.includes('private')) return true
+  const inInterface = method.parent?.parent?.type === 'interface_declaration'
+  const hasAccess = modifiers.some(m => m === 'public' || m === 'protected' || m === 'internal')
+  return !inInterface && !hasAccess && !method.namedChildren.some(c => c.type === 'explicit_interface_specifier')
+}
+
 export class CSharpParser extends TreeSitterParser {
   extensions = ['.cs']
 
@@ -27,7 +53,7 @@ export class CSharpParser extends TreeSitterParser {
     const tree = this.parserInstance.parse(content)
     const symbols: ParsedSymbol[] = []
     const edges: Edge[] = []
-    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null)
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null, new Set())
     return { symbols, edges }
   }
 }
@@ -39,6 +65,7 @@ function walkNode(
   symbols: ParsedSymbol[],
   edges: Edge[],
   classCtx: string | null,
+  nonOverriding: Set<string>,
 ): void {
   switch (node.type) {
     case 'class_declaration':
@@ -47,31 +74,18 @@ function walkNode(
       if (nameNode) {
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
-        // Inheritance edges
-        const bases = node.childForFieldName('bases')
-        if (bases) {
-          for (const base of bases.namedChildren) {
-            if (base.type === 'base_list') {
-              for (const type of base.namedChildren) {
-                if (type.type !== ',') {
-                  edges.push({ from: makeSymbolId(filePath, qn), to: type.text, kind: 'inherits' })
-                }
-              }
-            }
-          }
+        const id = makeSymbolId(filePath, qn)
+        // Inheritance edges — C# doesn't distinguish the base class from interfaces syntactically
+        for (const type of baseTypes(node)) {
+          edges.push({ from: id, to: type.text, kind: 'inherits' })
         }
         symbols.push({
-          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          id, filePath, name, qualifiedName: qn,
           kind: 'class', signature: `class ${name}`,
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
-        const body = node.childForFieldName('body')
-        if (body) {
-          for (const child of body.namedChildren) {
-            walkNode(child, filePath, repoId, symbols, edges, qn)
-          }
-        }
+        walkBody(node, id, qn, filePath, repoId, symbols, edges, nonOverriding)
         return
       }
       break
@@ -82,12 +96,18 @@ function walkNode(
       if (nameNode) {
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
+        const id = makeSymbolId(filePath, qn)
+        for (const type of baseTypes(node)) {
+          edges.push({ from: id, to: type.text, kind: 'inherits' })
+        }
         symbols.push({
-          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          id, filePath, name, qualifiedName: qn,
           kind: 'interface', signature: `interface ${name}`,
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        walkBody(node, id, qn, filePath, repoId, symbols, edges, nonOverriding)
+        return
       }
       break
     }
@@ -98,7 +118,7 @@ function walkNode(
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
         const params = node.childForFieldName('parameters')
-        const returnType = node.childForFieldName('type')
+        const returnType = node.childForFieldName('returns')
         const sig = `${returnType ? returnType.text + ' ' : ''}${name}${params ? params.text : '()'}`
         symbols.push({
           id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
@@ -106,6 +126,8 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        if (isNonOverriding(node)) nonOverriding.add(makeSymbolId(filePath, qn))
+        extractTypeUses([...parameterTypes(params), returnType], makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
@@ -125,6 +147,9 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        // Constructors aren't inherited
+        nonOverriding.add(makeSymbolId(filePath, qn))
+        extractTypeUses(parameterTypes(params), makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
@@ -147,20 +172,50 @@ function walkNode(
     node.type !== 'method_declaration' &&
     node.type !== 'constructor_declaration') {
     for (const child of node.namedChildren) {
-      walkNode(child, filePath, repoId, symbols, edges, classCtx)
+      walkNode(child, filePath, repoId, symbols, edges, classCtx, nonOverriding)
+    }
+  }
+}
+
+/** Field and property types become `uses` of the type; members are walked, then checked for overrides */
+function walkBody(
+  node: SyntaxNode,
+  id: string,
+  qn: string,
+  filePath: string,
+  repoId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  nonOverriding: Set<string>,
+): void {
+  const body = node.childForFieldName('body')
+  if (body) {
+    const memberTypes = body.namedChildren.map(c => {
+      if (c.type === 'property_declaration') return c.childForFieldName('type')
+      if (c.type === 'field_declaration') {
+        return c.namedChildren.find(v => v.type === 'variable_declaration')?.childForFieldName('type') ?? null
+      }
+      return null
+    })
+    extractTypeUses(memberTypes, id, TYPE_NODES, edges)
+    for (const child of body.namedChildren) {
+      walkNode(child, filePath, repoId, symbols, edges, qn, nonOverriding)
     }
   }
+  extractOverrides(id, symbols, edges, nonOverriding)
 }
 
 function extractCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
   if (node.type === 'invocation_expression') {
     const fn = node.childForFieldName('function')
     if (fn) {
-      const callee = fn.type === 'member_access_expression'
+      const isMember = fn.type === 'member_access_expression'
+      const callee = isMember
         ? fn.childForFieldName('name')?.text ?? fn.text
         : fn.text
       if (callee) {
-        edges.push({ from: fromId, to: callee, kind: 'calls' })
+        const receiver = isMember ? receiverName(fn.childForFieldName('expression')) : undefined
+        edges.push({ from: fromId, to: callee, kind: 'calls', receiver })
       }
     }
   }
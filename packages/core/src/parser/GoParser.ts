@@ -2,7 +2,7 @@ import path from 'path'
 import Parser from 'web-tree-sitter'
 import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
 import type { ParseResult } from './LanguageParser'
-import { TreeSitterParser, makeSymbolId, initWasm } from './TreeSitterParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractTypeUses } from './TreeSitterParser'
 
 type SyntaxNode = Parser.SyntaxNode
 
@@ -11,6 +11,13 @@ function getWasmPath(): string {
   return path.join(pkgDir, 'tree-sitter-go.wasm')
 }
 
+/**
+ * Named types, including the `Job` of `pkg.Job`; builtins (`string`, `error`) are
+ * type identifiers too but never resolve to a symbol. Go has no inheritance, so this
+ * parser emits `uses` edges but no `overrides`.
+ */
+const TYPE_NODES = new Set(['type_identifier'])
+
 export class GoParser extends TreeSitterParser {
   extensions = ['.go']
 
@@ -54,6 +61,7 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        extractTypeUses([params, result], makeSymbolId(filePath, name), TYPE_NODES, edges)
         extractCalls(node, makeSymbolId(filePath, name), edges)
         return
       }
@@ -86,6 +94,8 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        // The receiver is the method's own type — only parameters and results count
+        extractTypeUses([params, result], makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
@@ -108,6 +118,8 @@ function walkNode(
               bodyRange: [child.startPosition.row + 1, child.endPosition.row + 1],
               repoId,
             })
+            // Struct field types, interface method signatures, or the underlying type
+            extractTypeUses([typeNode], makeSymbolId(filePath, name), TYPE_NODES, edges)
           }
         }
       }
@@ -136,11 +148,14 @@ function extractCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
   if (node.type === 'call_expression') {
     const fn = node.childForFieldName('function')
     if (fn) {
-      const callee = fn.type === 'selector_expression'
+      const isSelector = fn.type === 'selector_expression'
+      const callee = isSelector
         ? fn.childForFieldName('field')?.text ?? fn.text
         : fn.text
       if (callee) {
-        edges.push({ from: fromId, to: callee, kind: 'calls' })
+        // `pkg.Func()` / `s.method()` — the operand is a package alias or a value
+        const receiver = isSelector ? receiverName(fn.childForFieldName('operand')) : undefined
+        edges.push({ from: fromId, to: callee, kind: 'calls', receiver })
       }
     }
   }
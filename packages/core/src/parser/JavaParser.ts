@@ -2,7 +2,7 @@ import path from 'path'
 import Parser from 'web-tree-sitter'
 import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
 import type { ParseResult } from './LanguageParser'
-import { TreeSitterParser, makeSymbolId, initWasm } from './TreeSitterParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractTypeUses, extractOverrides } from './TreeSitterParser'
 
 type SyntaxNode = Parser.SyntaxNode
 
@@ -11,6 +11,9 @@ function getWasmPath(): string {
   return path.join(pkgDir, 'tree-sitter-java.wasm')
 }
 
+/** Class and interface names; primitives are `integral_type` / `boolean_type` etc. */
+const TYPE_NODES = new Set(['type_identifier'])
+
 export class JavaParser extends TreeSitterParser {
   extensions = ['.java']
 
@@ -27,7 +30,7 @@ export class JavaParser extends TreeSitterParser {
     const tree = this.parserInstance.parse(content)
     const symbols: ParsedSymbol[] = []
     const edges: Edge[] = []
-    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null)
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null, new Set())
     return { symbols, edges }
   }
 }
@@ -39,6 +42,7 @@ function walkNode(
   symbols: ParsedSymbol[],
   edges: Edge[],
   classCtx: string | null,
+  nonOverriding: Set<string>,
 ): void {
   switch (node.type) {
     case 'class_declaration': {
@@ -46,34 +50,31 @@ function walkNode(
       if (nameNode) {
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
-        const superclass = node.childForFieldName('superclass')
+        const id = makeSymbolId(filePath, qn)
+        // `superclass` wraps the `extends` keyword — the type is its only named child
+        const superclass = node.childForFieldName('superclass')?.namedChildren[0]
         if (superclass) {
-          edges.push({ from: makeSymbolId(filePath, qn), to: superclass.text, kind: 'inherits' })
+          edges.push({ from: id, to: superclass.text, kind: 'inherits' })
         }
         const interfaces = node.childForFieldName('interfaces')
         if (interfaces) {
           for (const iface of interfaces.namedChildren) {
             if (iface.type === 'type_list') {
               for (const t of iface.namedChildren) {
-                edges.push({ from: makeSymbolId(filePath, qn), to: t.text, kind: 'implements' })
+                edges.push({ from: id, to: t.text, kind: 'implements' })
               }
             } else if (iface.type !== ',') {
-              edges.push({ from: makeSymbolId(filePath, qn), to: iface.text, kind: 'implements' })
+              edges.push({ from: id, to: iface.text, kind: 'implements' })
             }
           }
         }
         symbols.push({
-          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          id, filePath, name, qualifiedName: qn,
           kind: 'class', signature: `class ${name}`,
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
-        const body = node.childForFieldName('body')
-        if (body) {
-          for (const c of body.namedChildren) {
-            walkNode(c, filePath, repoId, symbols, edges, qn)
-          }
-        }
+        walkBody(node, id, qn, filePath, repoId, symbols, edges, nonOverriding)
         return
       }
       break
@@ -84,12 +85,22 @@ function walkNode(
       if (nameNode) {
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
+        const id = makeSymbolId(filePath, qn)
+        // `interface Repo<T> extends Base<T>, Closeable`
+        const supertypes = node.namedChildren.find(c => c.type === 'extends_interfaces')
+        for (const list of supertypes?.namedChildren ?? []) {
+          for (const t of list.namedChildren) {
+            edges.push({ from: id, to: t.text, kind: 'inherits' })
+          }
+        }
         symbols.push({
-          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          id, filePath, name, qualifiedName: qn,
           kind: 'interface', signature: `interface ${name}`,
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        walkBody(node, id, qn, filePath, repoId, symbols, edges, nonOverriding)
+        return
       }
       break
     }
@@ -108,6 +119,12 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        // Private methods aren't inherited and static ones aren't called on an instance
+        const modifiers = node.namedChildren.find(c => c.type === 'modifiers')
+        if (modifiers?.children.some(c => c.type === 'private' || c.type === 'static')) {
+          nonOverriding.add(makeSymbolId(filePath, qn))
+        }
+        extractTypeUses([params, retType], makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractJavaCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
@@ -126,6 +143,7 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        extractTypeUses([params], makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractJavaCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
@@ -148,16 +166,41 @@ function walkNode(
     node.type !== 'method_declaration' &&
     node.type !== 'constructor_declaration') {
     for (const child of node.namedChildren) {
-      walkNode(child, filePath, repoId, symbols, edges, classCtx)
+      walkNode(child, filePath, repoId, symbols, edges, classCtx, nonOverriding)
+    }
+  }
+}
+
+/** Field types become `uses` of the class; members are walked, then checked for overrides */
+function walkBody(
+  node: SyntaxNode,
+  id: string,
+  qn: string,
+  filePath: string,
+  repoId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  nonOverriding: Set<string>,
+): void {
+  const body = node.childForFieldName('body')
+  if (body) {
+    const fieldTypes = body.namedChildren
+      .filter(c => c.type === 'field_declaration' || c.type === 'constant_declaration')
+      .map(c => c.childForFieldName('type'))
+    extractTypeUses(fieldTypes, id, TYPE_NODES, edges)
+    for (const c of body.namedChildren) {
+      walkNode(c, filePath, repoId, symbols, edges, qn, nonOverriding)
     }
   }
+  extractOverrides(id, symbols, edges, nonOverriding)
 }
 
 function extractJavaCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
   if (node.type === 'method_invocation') {
     const nameNode = node.childForFieldName('name')
     if (nameNode) {
-      edges.push({ from: fromId, to: nameNode.text, kind: 'calls' })
+      const receiver = receiverName(node.childForFieldName('object'))
+      edges.push({ from: fromId, to: nameNode.text, kind: 'calls', receiver })
     }
   }
   for (const child of node.namedChildren) {
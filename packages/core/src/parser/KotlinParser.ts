@@ -0,0 +1,192 @@
+import path from 'path'
+import Parser from 'web-tree-sitter'
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import type { ParseResult } from './LanguageParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractOverrides } from './TreeSitterParser'
+
+type SyntaxNode = Parser.SyntaxNode
+
+function getWasmPath(): string {
+  const pkgDir = path.dirname(require.resolve('@tree-sitter-grammars/tree-sitter-kotlin/package.json'))
+  return path.join(pkgDir, 'tree-sitter-kotlin.wasm')
+}
+
+const TYPE_NODES = new Set(['user_type', 'nullable_type', 'function_type', 'parenthesized_type', 'non_nullable_type'])
+
+export class KotlinParser extends TreeSitterParser {
+  extensions = ['.kt', '.kts']
+
+  async init(): Promise<void> {
+    if (this.parserInstance) return
+    await initWasm()
+    const lang = await Parser.Language.load(getWasmPath())
+    this.parserInstance = new Parser()
+    this.parserInstance.setLanguage(lang)
+  }
+
+  parseFile(filePath: string, content: string, repoId: string): ParseResult {
+    if (!this.parserInstance) throw new Error('KotlinParser not initialized — call init() first')
+    const tree = this.parserInstance.parse(content)
+    const symbols: ParsedSymbol[] = []
+    const edges: Edge[] = []
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null, new Set())
+    return { symbols, edges }
+  }
+}
+
+/** `RecyclerView.ViewHolder<T>` → `ViewHolder` */
+function baseTypeName(userType: SyntaxNode): string {
+  const ids = userType.namedChildren.filter(c => c.type === 'identifier')
+  return ids.length > 0 ? ids[ids.length - 1].text : userType.text
+}
+
+function hasModifier(node: SyntaxNode, modifier: string): boolean {
+  const modifiers = node.namedChildren.find(c => c.type === 'modifiers')
+  return !!modifiers?.namedChildren.some(m => m.text === modifier)
+}
+
+function walkNode(
+  node: SyntaxNode,
+  filePath: string,
+  repoId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  classCtx: string | null,
+  nonOverriding: Set<string>,
+): void {
+  switch (node.type) {
+    case 'class_declaration':
+    case 'object_declaration': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        const qn = classCtx ? `${classCtx}.${name}` : name
+        const id = makeSymbolId(filePath, qn)
+        const isInterface = node.children.some(c => c.type === 'interface')
+        const isEnum = hasModifier(node, 'enum')
+        const keyword = node.type === 'object_declaration' ? 'object'
+          : isInterface ? 'interface'
+          : isEnum ? 'enum class' : 'class'
+
+        // `: Base(), Iface` — a constructor call marks the superclass, bare types are interfaces
+        const supertypes = node.namedChildren.find(c => c.type === 'delegation_specifiers')
+        for (const spec of supertypes?.namedChildren ?? []) {
+          const target = spec.namedChildren[0]
+          if (!target) continue
+          if (target.type === 'constructor_invocation') {
+            const type = target.namedChildren.find(c => c.type === 'user_type')
+            if (type) edges.push({ from: id, to: baseTypeName(type), kind: 'inherits' })
+          } else if (target.type === 'user_type') {
+            edges.push({ from: id, to: baseTypeName(target), kind: isInterface ? 'inherits' : 'implements' })
+          }
+        }
+
+        symbols.push({
+          id, filePath, name, qualifiedName: qn,
+          kind: isInterface ? 'interface' : isEnum ? 'type' : 'class', signature: `${keyword} ${name}`,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        const body = node.namedChildren.find(c => c.type === 'class_body' || c.type === 'enum_class_body')
+        if (body) {
+          for (const c of body.namedChildren) {
+            walkNode(c, filePath, repoId, symbols, edges, qn, nonOverriding)
+          }
+        }
+        extractOverrides(id, symbols, edges, nonOverriding)
+        return
+      }
+      break
+    }
+
+    case 'companion_object': {
+      // Companion members are called as `Outer.member()` — keep them on the enclosing class,
+      // but they belong to the companion, so they never override the class's supertypes
+      const body = node.namedChildren.find(c => c.type === 'class_body')
+      if (body) {
+        const before = symbols.length
+        for (const c of body.namedChildren) {
+          walkNode(c, filePath, repoId, symbols, edges, classCtx, nonOverriding)
+        }
+        for (const s of symbols.slice(before)) nonOverriding.add(s.id)
+      }
+      return
+    }
+
+    case 'function_declaration': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        const qn = classCtx ? `${classCtx}.${name}` : name
+        let receiver: SyntaxNode | null = null
+        let params: SyntaxNode | null = null
+        let ret: SyntaxNode | null = null
+        for (const c of node.namedChildren) {
+          if (c.type === 'function_value_parameters') params = c
+          else if (TYPE_NODES.has(c.type)) {
+            if (c.startIndex < nameNode.startIndex) receiver = c
+            else if (params) ret = c
+          }
+        }
+        const sig = `fun ${receiver ? receiver.text + '.' : ''}${name}${params ? params.text : '()'}${ret ? ': ' + ret.text : ''}`
+        symbols.push({
+          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          kind: classCtx ? 'method' : 'function', signature: sig,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        // Kotlin requires `override` on every overriding member
+        if (classCtx && !hasModifier(node, 'override')) nonOverriding.add(makeSymbolId(filePath, qn))
+        const body = node.namedChildren.find(c => c.type === 'function_body')
+        if (body) extractKotlinCalls(body, makeSymbolId(filePath, qn), edges)
+        return
+      }
+      break
+    }
+
+    case 'type_alias': {
+      const nameNode = node.childForFieldName('type')
+      if (nameNode) {
+        const name = nameNode.text
+        symbols.push({
+          id: makeSymbolId(filePath, name), filePath, name, qualifiedName: name,
+          kind: 'type', signature: node.text.replace(/\s+/g, ' ').trim(),
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        return
+      }
+      break
+    }
+
+    case 'import': {
+      const identifier = node.namedChildren.find(c => c.type === 'qualified_identifier')
+      if (identifier) {
+        edges.push({ from: filePath, to: identifier.text, kind: 'imports' })
+      }
+      return
+    }
+  }
+
+  for (const child of node.namedChildren) {
+    walkNode(child, filePath, repoId, symbols, edges, classCtx, nonOverriding)
+  }
+}
+
+function extractKotlinCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
+  if (node.type === 'call_expression') {
+    // `render(it)` → render, `vm.items.observe(this)` → observe
+    const callee = node.namedChildren[0]
+    const isNavigation = callee?.type === 'navigation_expression'
+    const nameNode = isNavigation
+      ? callee.namedChildren[callee.namedChildren.length - 1]
+      : callee
+    if (nameNode?.type === 'identifier') {
+      const receiver = isNavigation ? receiverName(callee.namedChildren[0]) : undefined
+      edges.push({ from: fromId, to: nameNode.text, kind: 'calls', receiver })
+    }
+  }
+  for (const child of node.namedChildren) {
+    extractKotlinCalls(child, fromId, edges)
+  }
+}
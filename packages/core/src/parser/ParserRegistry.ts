@@ -39,6 +39,10 @@ export async function createDefaultRegistry(): Promise<ParserRegistry> {
   const { JavaParser } = await import('./JavaParser')
   const { GoParser } = await import('./GoParser')
   const { CSharpParser } = await import('./CSharpParser')
+  const { RustParser } = await import('./RustParser')
+  const { RubyParser } = await import('./RubyParser')
+  const { PhpParser } = await import('./PhpParser')
+  const { KotlinParser } = await import('./KotlinParser')
 
   const candidates: LanguageParser[] = [
     new TypeScriptParser(),
@@ -46,12 +50,16 @@ export async function createDefaultRegistry(): Promise<ParserRegistry> {
     new JavaParser(),
     new GoParser(),
     new CSharpParser(),
+    new RustParser(),
+    new RubyParser(),
+    new PhpParser(),
+    new KotlinParser(),
   ]
 
   // Initialize ALL parsers concurrently — web-tree-sitter requires this because
   // Parser.init() boots the shared WASM runtime once; all parsers must await it
   // together so Parser.Language is available when each grammar WASM is loaded.
-  // Per-parser try/catch isolates ABI mismatches (e.g. Go ABI 15 vs runtime ABI 14)
+  // Per-parser try/catch isolates ABI mismatches (a grammar built for ABI 15 vs runtime ABI 14)
   // without preventing the other parsers from loading.
   await Promise.all(candidates.map(async (p) => {
     try {
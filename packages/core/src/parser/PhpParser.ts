@@ -0,0 +1,179 @@
+import path from 'path'
+import Parser from 'web-tree-sitter'
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import type { ParseResult } from './LanguageParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractOverrides } from './TreeSitterParser'
+
+type SyntaxNode = Parser.SyntaxNode
+
+function getWasmPath(): string {
+  const pkgDir = path.dirname(require.resolve('tree-sitter-php/package.json'))
+  return path.join(pkgDir, 'tree-sitter-php.wasm')
+}
+
+const TYPE_DECLARATIONS: Record<string, { keyword: string; kind: ParsedSymbol['kind'] }> = {
+  class_declaration: { keyword: 'class', kind: 'class' },
+  interface_declaration: { keyword: 'interface', kind: 'interface' },
+  trait_declaration: { keyword: 'trait', kind: 'class' },
+  enum_declaration: { keyword: 'enum', kind: 'type' },
+}
+
+export class PhpParser extends TreeSitterParser {
+  extensions = ['.php']
+
+  async init(): Promise<void> {
+    if (this.parserInstance) return
+    await initWasm()
+    const lang = await Parser.Language.load(getWasmPath())
+    this.parserInstance = new Parser()
+    this.parserInstance.setLanguage(lang)
+  }
+
+  parseFile(filePath: string, content: string, repoId: string): ParseResult {
+    if (!this.parserInstance) throw new Error('PhpParser not initialized — call init() first')
+    const tree = this.parserInstance.parse(content)
+    const symbols: ParsedSymbol[] = []
+    const edges: Edge[] = []
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null, new Set())
+    return { symbols, edges }
+  }
+}
+
+/** `\Illuminate\Routing\Controller` → `Controller` */
+function baseName(node: SyntaxNode): string {
+  const segments = node.text.split('\\')
+  return segments[segments.length - 1].trim()
+}
+
+function isTypeName(node: SyntaxNode): boolean {
+  return node.type === 'name' || node.type === 'qualified_name'
+}
+
+function walkNode(
+  node: SyntaxNode,
+  filePath: string,
+  repoId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  classCtx: string | null,
+  nonOverriding: Set<string>,
+): void {
+  const decl = TYPE_DECLARATIONS[node.type]
+  if (decl) {
+    const nameNode = node.childForFieldName('name')
+    if (nameNode) {
+      const name = nameNode.text
+      const qn = classCtx ? `${classCtx}.${name}` : name
+      const id = makeSymbolId(filePath, qn)
+      for (const c of node.namedChildren) {
+        // `class A extends B` / `interface A extends B, C`
+        if (c.type === 'base_clause') {
+          for (const t of c.namedChildren.filter(isTypeName)) {
+            edges.push({ from: id, to: baseName(t), kind: 'inherits' })
+          }
+        } else if (c.type === 'class_interface_clause') {
+          for (const t of c.namedChildren.filter(isTypeName)) {
+            edges.push({ from: id, to: baseName(t), kind: 'implements' })
+          }
+        }
+      }
+      symbols.push({
+        id, filePath, name, qualifiedName: qn,
+        kind: decl.kind, signature: `${decl.keyword} ${name}`,
+        bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+        repoId,
+      })
+      const body = node.childForFieldName('body')
+      if (body) {
+        for (const c of body.namedChildren) {
+          walkNode(c, filePath, repoId, symbols, edges, qn, nonOverriding)
+        }
+      }
+      extractOverrides(id, symbols, edges, nonOverriding)
+      return
+    }
+  }
+
+  switch (node.type) {
+    case 'method_declaration':
+    case 'function_definition': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        const qn = classCtx ? `${classCtx}.${name}` : name
+        const params = node.childForFieldName('parameters')
+        const ret = node.childForFieldName('return_type')
+        const sig = `function ${name}${params ? params.text : '()'}${ret ? ': ' + ret.text : ''}`
+        symbols.push({
+          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          kind: classCtx ? 'method' : 'function', signature: sig,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        // Private methods aren't inherited and static ones aren't called on an instance
+        if (node.namedChildren.some(c => c.type === 'static_modifier' || (c.type === 'visibility_modifier' && c.text === 'private'))) {
+          nonOverriding.add(makeSymbolId(filePath, qn))
+        }
+        const body = node.childForFieldName('body')
+        if (body) extractPhpCalls(body, makeSymbolId(filePath, qn), edges)
+        return
+      }
+      break
+    }
+
+    case 'use_declaration': {
+      // `use HasFactory, SoftDeletes;` inside a class body — traits are copied into the class
+      if (classCtx) {
+        for (const t of node.namedChildren.filter(isTypeName)) {
+          edges.push({ from: makeSymbolId(filePath, classCtx), to: baseName(t), kind: 'inherits' })
+        }
+      }
+      return
+    }
+
+    case 'namespace_use_declaration': {
+      // `use App\Models\User;` or grouped `use Illuminate\Support\{Str, Arr};`
+      const group = node.childForFieldName('body')
+      const prefix = group ? node.namedChildren.find(c => c.type === 'namespace_name')?.text : undefined
+      const clauses = (group ?? node).namedChildren.filter(c => c.type === 'namespace_use_clause')
+      for (const clause of clauses) {
+        const target = clause.namedChildren.find(isTypeName)
+        if (!target) continue
+        const full = prefix ? `${prefix}\\${target.text}` : target.text
+        edges.push({ from: filePath, to: full.replace(/^\\/, ''), kind: 'imports' })
+      }
+      return
+    }
+  }
+
+  for (const child of node.namedChildren) {
+    walkNode(child, filePath, repoId, symbols, edges, classCtx, nonOverriding)
+  }
+}
+
+function extractPhpCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
+  switch (node.type) {
+    case 'function_call_expression': {
+      // `strlen($a)` / `\App\helper()` — skip `$callback()`
+      const fn = node.childForFieldName('function')
+      if (fn && isTypeName(fn)) {
+        edges.push({ from: fromId, to: baseName(fn), kind: 'calls' })
+      }
+      break
+    }
+    case 'member_call_expression':
+    case 'nullsafe_member_call_expression':
+    case 'scoped_call_expression': {
+      // `$this->save()`, `$user?->notify()`, `User::find()` — skip `$obj->$method()`
+      const nameNode = node.childForFieldName('name')
+      if (nameNode?.type === 'name') {
+        const receiver = receiverName(node.childForFieldName(node.type === 'scoped_call_expression' ? 'scope' : 'object'))
+        edges.push({ from: fromId, to: nameNode.text, kind: 'calls', receiver })
+      }
+      break
+    }
+  }
+  for (const child of node.namedChildren) {
+    extractPhpCalls(child, fromId, edges)
+  }
+}
@@ -2,7 +2,7 @@ import path from 'path'
 import Parser from 'web-tree-sitter'
 import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
 import type { ParseResult } from './LanguageParser'
-import { TreeSitterParser, makeSymbolId, initWasm } from './TreeSitterParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractTypeUses, extractOverrides } from './TreeSitterParser'
 
 type SyntaxNode = Parser.SyntaxNode
 
@@ -11,6 +11,9 @@ function getWasmPath(): string {
   return path.join(pkgDir, 'tree-sitter-python.wasm')
 }
 
+/** Names inside annotations — `List[models.User]` yields `List`, `models` and `User` */
+const TYPE_NODES = new Set(['identifier'])
+
 export class PythonParser extends TreeSitterParser {
   extensions = ['.py']
 
@@ -27,7 +30,7 @@ export class PythonParser extends TreeSitterParser {
     const tree = this.parserInstance.parse(content)
     const symbols: ParsedSymbol[] = []
     const edges: Edge[] = []
-    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null)
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null, new Set())
     return { symbols, edges }
   }
 }
@@ -39,6 +42,7 @@ function walkNode(
   symbols: ParsedSymbol[],
   edges: Edge[],
   classCtx: string | null,
+  nonOverriding: Set<string>,
 ): void {
   switch (node.type) {
     case 'class_definition': {
@@ -46,10 +50,14 @@ function walkNode(
       if (nameNode) {
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
+        const id = makeSymbolId(filePath, qn)
         const superclasses = node.childForFieldName('superclasses')
         if (superclasses) {
+          // Skip `metaclass=ABCMeta` and other keyword arguments
           for (const arg of superclasses.namedChildren) {
-            edges.push({ from: makeSymbolId(filePath, qn), to: arg.text, kind: 'inherits' })
+            if (arg.type !== 'keyword_argument') {
+              edges.push({ from: id, to: arg.text, kind: 'inherits' })
+            }
           }
         }
         symbols.push({
@@ -60,10 +68,18 @@ function walkNode(
         })
         const body = node.childForFieldName('body')
         if (body) {
+          // Annotated class attributes: `repo: UserRepo` (dataclasses, pydantic models)
+          const fieldTypes = body.namedChildren
+            .filter(c => c.type === 'expression_statement')
+            .map(c => c.namedChildren[0])
+            .filter(c => c?.type === 'assignment')
+            .map(c => c.childForFieldName('type'))
+          extractTypeUses(fieldTypes, id, TYPE_NODES, edges)
           for (const c of body.namedChildren) {
-            walkNode(c, filePath, repoId, symbols, edges, qn)
+            walkNode(c, filePath, repoId, symbols, edges, qn, nonOverriding)
           }
         }
+        extractOverrides(id, symbols, edges, nonOverriding)
         return
       }
       break
@@ -89,6 +105,13 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        // `__init__` is the constructor, and `__name` is mangled per class, so neither overrides
+        if (classCtx && (name === '__init__' || (name.startsWith('__') && !name.endsWith('__')))) {
+          nonOverriding.add(makeSymbolId(filePath, qn))
+        }
+        // Parameter names are identifiers too — only look inside the annotations
+        const paramTypes = params?.namedChildren.map(p => p.childForFieldName('type')) ?? []
+        extractTypeUses([...paramTypes, retType], makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractPyCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
@@ -101,7 +124,12 @@ function walkNode(
         c.type === 'function_definition' || c.type === 'class_definition'
       )
       if (inner) {
-        walkNode(inner, filePath, repoId, symbols, edges, classCtx)
+        const before = symbols.length
+        walkNode(inner, filePath, repoId, symbols, edges, classCtx, nonOverriding)
+        // Static methods aren't called on an instance
+        if (classCtx && node.namedChildren.some(c => c.type === 'decorator' && c.text === '@staticmethod')) {
+          for (const s of symbols.slice(before)) nonOverriding.add(s.id)
+        }
         return
       }
       break
@@ -132,7 +160,7 @@ function walkNode(
     node.type !== 'function_definition' &&
     node.type !== 'decorated_definition') {
     for (const child of node.namedChildren) {
-      walkNode(child, filePath, repoId, symbols, edges, classCtx)
+      walkNode(child, filePath, repoId, symbols, edges, classCtx, nonOverriding)
     }
   }
 }
@@ -141,10 +169,12 @@ function extractPyCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
   if (node.type === 'call') {
     const fn = node.childForFieldName('function')
     if (fn) {
-      const callee = fn.type === 'attribute'
+      const isAttribute = fn.type === 'attribute'
+      const callee = isAttribute
         ? fn.childForFieldName('attribute')?.text ?? fn.text
         : fn.text
-      if (callee) edges.push({ from: fromId, to: callee, kind: 'calls' })
+      const receiver = isAttribute ? receiverName(fn.childForFieldName('object')) : undefined
+      if (callee) edges.push({ from: fromId, to: callee, kind: 'calls', receiver })
     }
   }
   for (const child of node.namedChildren) {
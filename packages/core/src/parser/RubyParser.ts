@@ -0,0 +1,286 @@
+import path from 'path'
+import Parser from 'web-tree-sitter'
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import type { ParseResult } from './LanguageParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractOverrides } from './TreeSitterParser'
+
+type SyntaxNode = Parser.SyntaxNode
+
+function getWasmPath(): string {
+  const pkgDir = path.dirname(require.resolve('tree-sitter-ruby/package.json'))
+  return path.join(pkgDir, 'tree-sitter-ruby.wasm')
+}
+
+/** Mixins — the module joins the class's (or singleton class's) ancestor chain */
+const MIXIN_METHODS = new Set(['include', 'extend', 'prepend'])
+
+/** Rails class macros that name instance methods to call back into */
+const RAILS_CALLBACKS = new Set([
+  'before_action', 'after_action', 'around_action', 'prepend_before_action',
+  'before_validation', 'after_validation', 'validate',
+  'before_save', 'around_save', 'after_save',
+  'before_create', 'around_create', 'after_create',
+  'before_update', 'around_update', 'after_update',
+  'before_destroy', 'around_destroy', 'after_destroy',
+  'after_commit', 'after_create_commit', 'after_update_commit', 'after_destroy_commit', 'after_save_commit',
+  'after_rollback', 'after_initialize', 'after_find', 'after_touch',
+  'helper_method',
+])
+
+/** Bare `private` / `protected` / `public` — sets the visibility of the methods after it */
+const VISIBILITY_METHODS = new Set(['private', 'protected', 'public'])
+
+const PARAMETER_NODES = new Set(['method_parameters', 'block_parameters', 'lambda_parameters', 'parameters'])
+
+export class RubyParser extends TreeSitterParser {
+  extensions = ['.rb', '.rake']
+
+  async init(): Promise<void> {
+    if (this.parserInstance) return
+    await initWasm()
+    const lang = await Parser.Language.load(getWasmPath())
+    this.parserInstance = new Parser()
+    this.parserInstance.setLanguage(lang)
+  }
+
+  parseFile(filePath: string, content: string, repoId: string): ParseResult {
+    if (!this.parserInstance) throw new Error('RubyParser not initialized — call init() first')
+    const tree = this.parserInstance.parse(content)
+    const symbols: ParsedSymbol[] = []
+    const edges: Edge[] = []
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null, new Set())
+    return { symbols, edges }
+  }
+}
+
+/** `::Admin::User` → `Admin::User` */
+function constantName(node: SyntaxNode): string {
+  return node.text.replace(/^::/, '')
+}
+
+function walkNode(
+  node: SyntaxNode,
+  filePath: string,
+  repoId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  scopeCtx: string | null,
+  nonOverriding: Set<string>,
+): void {
+  switch (node.type) {
+    case 'class':
+    case 'module': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const fullName = constantName(nameNode)
+        const name = fullName.split('::').pop()!
+        const qn = scopeCtx ? `${scopeCtx}::${fullName}` : fullName
+        const keyword = node.type === 'class' ? 'class' : 'module'
+        const superclass = node.childForFieldName('superclass')
+        const superName = superclass?.namedChildren[0]
+        if (superName) {
+          edges.push({ from: makeSymbolId(filePath, qn), to: constantName(superName), kind: 'inherits' })
+        }
+        symbols.push({
+          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          kind: 'class', signature: `${keyword} ${fullName}${superName ? ` < ${constantName(superName)}` : ''}`,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        const body = node.childForFieldName('body')
+        if (body) walkClassBody(body, filePath, repoId, symbols, edges, qn, nonOverriding)
+        extractOverrides(makeSymbolId(filePath, qn), symbols, edges, nonOverriding)
+        return
+      }
+      break
+    }
+
+    case 'method':
+    case 'singleton_method': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        const qn = scopeCtx ? `${scopeCtx}.${name}` : name
+        const params = node.childForFieldName('parameters')
+        const prefix = node.type === 'singleton_method' ? 'self.' : ''
+        if (node.type === 'singleton_method') nonOverriding.add(makeSymbolId(filePath, qn))
+        symbols.push({
+          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          kind: scopeCtx ? 'method' : 'function', signature: `def ${prefix}${name}${params ? params.text : ''}`,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        const body = node.childForFieldName('body')
+        if (body) {
+          extractRubyCalls(body, makeSymbolId(filePath, qn), collectLocals(node), edges)
+        }
+        return
+      }
+      break
+    }
+
+    case 'singleton_class': {
+      // `class << self` — class methods, like `def self.name`
+      const before = symbols.length
+      const body = node.childForFieldName('body')
+      if (body) walkClassBody(body, filePath, repoId, symbols, edges, scopeCtx, nonOverriding)
+      for (const s of symbols.slice(before)) nonOverriding.add(s.id)
+      return
+    }
+
+    case 'call': {
+      const method = node.childForFieldName('method')?.text
+      const receiver = node.childForFieldName('receiver')
+      const args = node.childForFieldName('arguments')?.namedChildren ?? []
+      if (!method || receiver) break
+
+      // require 'json' / require_relative '../lib/audit'
+      if (method === 'require' || method === 'require_relative') {
+        const target = args[0]?.type === 'string' ? args[0].namedChildren.find(c => c.type === 'string_content')?.text : undefined
+        if (target) edges.push({ from: filePath, to: target, kind: 'imports' })
+        return
+      }
+
+      if (!scopeCtx) break
+      const scopeId = makeSymbolId(filePath, scopeCtx)
+
+      // private :helper / private def helper
+      if (VISIBILITY_METHODS.has(method)) {
+        const before = symbols.length
+        for (const arg of args) {
+          if (method === 'private' && arg.type === 'simple_symbol') {
+            nonOverriding.add(makeSymbolId(filePath, `${scopeCtx}.${arg.text.slice(1)}`))
+          } else {
+            walkNode(arg, filePath, repoId, symbols, edges, scopeCtx, nonOverriding)
+          }
+        }
+        if (method === 'private') for (const s of symbols.slice(before)) nonOverriding.add(s.id)
+        return
+      }
+
+      // include Auditable / extend ActiveSupport::Concern
+      if (MIXIN_METHODS.has(method)) {
+        for (const arg of args) {
+          if (arg.type === 'constant' || arg.type === 'scope_resolution') {
+            edges.push({ from: scopeId, to: constantName(arg), kind: 'inherits' })
+          }
+        }
+        return
+      }
+
+      // before_action :authenticate! — the class calls back into its own method
+      if (RAILS_CALLBACKS.has(method)) {
+        for (const arg of args) {
+          if (arg.type === 'simple_symbol') {
+            edges.push({ from: scopeId, to: arg.text.slice(1), kind: 'calls' })
+          }
+        }
+        return
+      }
+
+      // scope :active, -> { ... } — defines a class method on the model
+      if (method === 'scope' && args[0]?.type === 'simple_symbol') {
+        const name = args[0].text.slice(1)
+        const qn = `${scopeCtx}.${name}`
+        symbols.push({
+          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          kind: 'method', signature: `scope :${name}`,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        nonOverriding.add(makeSymbolId(filePath, qn))
+        const body = args[1]
+        if (body) extractRubyCalls(body, makeSymbolId(filePath, qn), collectLocals(body), edges)
+        return
+      }
+      break
+    }
+  }
+
+  for (const child of node.namedChildren) {
+    walkNode(child, filePath, repoId, symbols, edges, scopeCtx, nonOverriding)
+  }
+}
+
+/**
+ * Walk a class, module or `class << self` body in order, so a bare `private` marks the
+ * methods defined after it — up to the next `public` / `protected` — as not overriding.
+ */
+function walkClassBody(
+  body: SyntaxNode,
+  filePath: string,
+  repoId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  scopeCtx: string | null,
+  nonOverriding: Set<string>,
+): void {
+  let isPrivate = false
+  for (const c of body.namedChildren) {
+    if (c.type === 'identifier' && VISIBILITY_METHODS.has(c.text)) {
+      isPrivate = c.text === 'private'
+      continue
+    }
+    const before = symbols.length
+    walkNode(c, filePath, repoId, symbols, edges, scopeCtx, nonOverriding)
+    // `public def index` opts out of the section
+    const isVisibilityCall = c.type === 'call' && VISIBILITY_METHODS.has(c.childForFieldName('method')?.text ?? '')
+    if (isPrivate && !isVisibilityCall) {
+      for (const s of symbols.slice(before)) {
+        if (s.kind === 'method' && s.qualifiedName === `${scopeCtx}.${s.name}`) nonOverriding.add(s.id)
+      }
+    }
+  }
+}
+
+/**
+ * Local variable names inside a method or block: parameters and assignment targets.
+ * Ruby itself treats any other bare identifier as a method call on `self`.
+ */
+function collectLocals(node: SyntaxNode): Set<string> {
+  const locals = new Set<string>()
+  const visit = (n: SyntaxNode, inParams: boolean) => {
+    const isParams = inParams || PARAMETER_NODES.has(n.type)
+    if (n.type === 'identifier' && isParams) locals.add(n.text)
+    if ((n.type === 'assignment' || n.type === 'operator_assignment') && n.childForFieldName('left')) {
+      const left = n.childForFieldName('left')!
+      if (left.type === 'identifier') locals.add(left.text)
+      for (const c of left.namedChildren) if (c.type === 'identifier') locals.add(c.text)
+    }
+    if (n.type === 'exception_variable' || n.type === 'for') {
+      const target = n.type === 'for' ? n.childForFieldName('pattern') : n.namedChildren[0]
+      if (target?.type === 'identifier') locals.add(target.text)
+    }
+    for (const c of n.namedChildren) visit(c, isParams)
+  }
+  visit(node, false)
+  return locals
+}
+
+function extractRubyCalls(node: SyntaxNode, fromId: string, locals: Set<string>, edges: Edge[]): void {
+  if (PARAMETER_NODES.has(node.type)) return
+
+  if (node.type === 'call') {
+    const method = node.childForFieldName('method')
+    if (method) {
+      const receiver = receiverName(node.childForFieldName('receiver'))
+      edges.push({ from: fromId, to: method.text, kind: 'calls', receiver })
+    }
+    for (const child of node.namedChildren) {
+      if (child.id !== method?.id) extractRubyCalls(child, fromId, locals, edges)
+    }
+    return
+  }
+
+  // `current_user` / `authenticate!` with no receiver or parens
+  if (node.type === 'identifier') {
+    if (!locals.has(node.text)) {
+      edges.push({ from: fromId, to: node.text, kind: 'calls' })
+    }
+    return
+  }
+
+  for (const child of node.namedChildren) {
+    extractRubyCalls(child, fromId, locals, edges)
+  }
+}
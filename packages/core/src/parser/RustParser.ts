@@ -0,0 +1,266 @@
+import path from 'path'
+import Parser from 'web-tree-sitter'
+import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
+import type { ParseResult } from './LanguageParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName } from './TreeSitterParser'
+
+type SyntaxNode = Parser.SyntaxNode
+
+function getWasmPath(): string {
+  const pkgDir = path.dirname(require.resolve('tree-sitter-rust/package.json'))
+  return path.join(pkgDir, 'tree-sitter-rust.wasm')
+}
+
+export class RustParser extends TreeSitterParser {
+  extensions = ['.rs']
+
+  async init(): Promise<void> {
+    if (this.parserInstance) return
+    await initWasm()
+    const lang = await Parser.Language.load(getWasmPath())
+    this.parserInstance = new Parser()
+    this.parserInstance.setLanguage(lang)
+  }
+
+  parseFile(filePath: string, content: string, repoId: string): ParseResult {
+    if (!this.parserInstance) throw new Error('RustParser not initialized — call init() first')
+    const tree = this.parserInstance.parse(content)
+    const symbols: ParsedSymbol[] = []
+    const edges: Edge[] = []
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null)
+    return { symbols, edges }
+  }
+}
+
+/** Strip generics and path prefixes: `crate::store::Cache<K, V>` → `Cache` */
+function baseTypeName(typeNode: SyntaxNode): string {
+  const text = typeNode.text.replace(/<[\s\S]*>$/, '').replace(/^&(mut\s+)?/, '')
+  const segments = text.split('::')
+  return segments[segments.length - 1].trim()
+}
+
+function walkNode(
+  node: SyntaxNode,
+  filePath: string,
+  repoId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  typeCtx: string | null,
+): void {
+  switch (node.type) {
+    case 'function_item':
+    case 'function_signature_item': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        const qn = typeCtx ? `${typeCtx}.${name}` : name
+        const params = node.childForFieldName('parameters')
+        const ret = node.childForFieldName('return_type')
+        const sig = `fn ${name}${params ? params.text : '()'}${ret ? ' -> ' + ret.text : ''}`
+        symbols.push({
+          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          kind: typeCtx ? 'method' : 'function', signature: sig,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        const body = node.childForFieldName('body')
+        if (body) extractRustCalls(body, makeSymbolId(filePath, qn), edges)
+        return
+      }
+      break
+    }
+
+    case 'impl_item': {
+      const typeNode = node.childForFieldName('type')
+      if (typeNode) {
+        const typeName = baseTypeName(typeNode)
+        // `impl Trait for Type` — the Type implements the Trait
+        const traitNode = node.childForFieldName('trait')
+        const trait = traitNode ? baseTypeName(traitNode) : null
+        if (trait) {
+          edges.push({ from: makeSymbolId(filePath, typeName), to: trait, kind: 'implements' })
+        }
+        const before = symbols.length
+        const body = node.childForFieldName('body')
+        if (body) {
+          for (const c of body.namedChildren) {
+            walkNode(c, filePath, repoId, symbols, edges, typeName)
+          }
+        }
+        // Only this block's methods implement the trait — a type can have several `impl` blocks
+        if (trait) {
+          for (const s of symbols.slice(before)) {
+            edges.push({ from: s.id, to: `${trait}.${s.name}`, kind: 'overrides' })
+          }
+        }
+        return
+      }
+      break
+    }
+
+    case 'trait_item': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        symbols.push({
+          id: makeSymbolId(filePath, name), filePath, name, qualifiedName: name,
+          kind: 'interface', signature: `trait ${name}`,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        // Supertraits: `trait Store: Send + Sync`
+        const bounds = node.childForFieldName('bounds')
+        if (bounds) {
+          for (const b of bounds.namedChildren) {
+            if (b.type === 'type_identifier' || b.type === 'scoped_type_identifier' || b.type === 'generic_type') {
+              edges.push({ from: makeSymbolId(filePath, name), to: baseTypeName(b), kind: 'inherits' })
+            }
+          }
+        }
+        const body = node.childForFieldName('body')
+        if (body) {
+          for (const c of body.namedChildren) {
+            walkNode(c, filePath, repoId, symbols, edges, name)
+          }
+        }
+        return
+      }
+      break
+    }
+
+    case 'struct_item':
+    case 'enum_item':
+    case 'union_item': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        const keyword = node.type === 'struct_item' ? 'struct' : node.type === 'enum_item' ? 'enum' : 'union'
+        symbols.push({
+          id: makeSymbolId(filePath, name), filePath, name, qualifiedName: name,
+          kind: node.type === 'enum_item' ? 'type' : 'class', signature: `${keyword} ${name}`,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        return
+      }
+      break
+    }
+
+    case 'type_item': {
+      const nameNode = node.childForFieldName('name')
+      if (nameNode) {
+        const name = nameNode.text
+        symbols.push({
+          id: makeSymbolId(filePath, name), filePath, name, qualifiedName: name,
+          kind: 'type', signature: node.text.replace(/\s+/g, ' ').trim(),
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        return
+      }
+      break
+    }
+
+    case 'use_declaration': {
+      const arg = node.childForFieldName('argument')
+      if (arg) {
+        for (const target of expandUseTree(arg, '')) {
+          edges.push({ from: filePath, to: target, kind: 'imports' })
+        }
+      }
+      return
+    }
+
+    case 'mod_item': {
+      // `mod foo;` pulls in foo.rs / foo/mod.rs — record it as an import of the module
+      const nameNode = node.childForFieldName('name')
+      if (nameNode && !node.childForFieldName('body')) {
+        edges.push({ from: filePath, to: nameNode.text, kind: 'imports' })
+        return
+      }
+      break
+    }
+  }
+
+  for (const child of node.namedChildren) {
+    walkNode(child, filePath, repoId, symbols, edges, typeCtx)
+  }
+}
+
+/**
+ * Flatten a use tree into full paths:
+ * `crate::db::{pool::Pool, Conn as C}` → ['crate::db::pool::Pool', 'crate::db::Conn']
+ */
+function expandUseTree(node: SyntaxNode, prefix: string): string[] {
+  const join = (p: string, s: string) => (p ? `${p}::${s}` : s)
+  switch (node.type) {
+    case 'scoped_use_list': {
+      const pathNode = node.childForFieldName('path')
+      const list = node.childForFieldName('list')
+      const base = join(prefix, pathNode?.text ?? '')
+      return list ? expandUseTree(list, base) : [base]
+    }
+    case 'use_list':
+      return node.namedChildren.flatMap(c => expandUseTree(c, prefix))
+    case 'use_as_clause': {
+      const pathNode = node.childForFieldName('path')
+      return pathNode ? [join(prefix, pathNode.text)] : []
+    }
+    case 'use_wildcard': {
+      const inner = node.namedChildren[0]
+      return [join(prefix, inner ? inner.text : '*')]
+    }
+    default:
+      return [join(prefix, node.text)]
+  }
+}
+
+function extractRustCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
+  if (node.type === 'call_expression') {
+    const fn = node.childForFieldName('function')
+    const callee = fn ? rustCalleeName(fn) : null
+    if (callee) {
+      edges.push({ from: fromId, to: callee, kind: 'calls', receiver: rustReceiver(fn!) })
+    }
+  } else if (node.type === 'macro_invocation') {
+    // Macro arguments are an unparsed token tree — nothing to extract
+    return
+  }
+  for (const child of node.namedChildren) {
+    extractRustCalls(child, fromId, edges)
+  }
+}
+
+/** `self.bar()` → self, `Type::new()` → Type */
+function rustReceiver(fn: SyntaxNode): string | undefined {
+  switch (fn.type) {
+    case 'field_expression':
+      return receiverName(fn.childForFieldName('value'))
+    case 'scoped_identifier':
+      return receiverName(fn.childForFieldName('path'))
+    case 'generic_function': {
+      const inner = fn.childForFieldName('function')
+      return inner ? rustReceiver(inner) : undefined
+    }
+    default:
+      return undefined
+  }
+}
+
+/** `foo()` → foo, `self.bar()` → bar, `Type::new()` → new, `parse::<T>()` → parse */
+function rustCalleeName(fn: SyntaxNode): string | null {
+  switch (fn.type) {
+    case 'identifier':
+      return fn.text
+    case 'field_expression':
+      return fn.childForFieldName('field')?.text ?? null
+    case 'scoped_identifier':
+      return fn.childForFieldName('name')?.text ?? null
+    case 'generic_function': {
+      const inner = fn.childForFieldName('function')
+      return inner ? rustCalleeName(inner) : null
+    }
+    default:
+      return null
+  }
+}
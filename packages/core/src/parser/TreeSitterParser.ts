@@ -26,6 +26,69 @@ export function makeSymbolId(filePath: string, qualifiedName: string): string {
   return `${filePath}:${qualifiedName}`
 }
 
+/**
+ * Receiver of a member call, reduced to its trailing name for the graph's call
+ * resolution: `this.save()` → `this`, `this.repo.save()` → `repo`,
+ * `crate::db::Pool::new()` → `Pool`. Receivers with no trailing name
+ * (`build().run()`, `items[0].run()`) are recorded as `?`.
+ */
+export function receiverName(node: SyntaxNode | null | undefined): string | undefined {
+  if (!node) return undefined
+  return /([A-Za-z_]\w*)\s*$/.exec(node.text)?.[1] ?? '?'
+}
+
+/**
+ * One `uses` edge per distinct type name under `roots` (parameter lists, return
+ * types, field types). `typeNodes` are the grammar's type-name node types, so
+ * builtins like `string` / `int` (predefined types) and parameter names are skipped.
+ */
+export function extractTypeUses(
+  roots: Array<SyntaxNode | null | undefined>,
+  fromId: string,
+  typeNodes: ReadonlySet<string>,
+  edges: Edge[],
+): void {
+  const seen = new Set<string>()
+  const visit = (node: SyntaxNode): void => {
+    if (typeNodes.has(node.type)) {
+      if (!seen.has(node.text)) {
+        seen.add(node.text)
+        edges.push({ from: fromId, to: node.text, kind: 'uses' })
+      }
+      return
+    }
+    for (const child of node.namedChildren) visit(child)
+  }
+  for (const root of roots) if (root) visit(root)
+}
+
+/**
+ * `overrides` edges from every method declared directly on `classId` to the method
+ * of the same name on each type it inherits from or implements (`Admin.save` →
+ * `User.save`). Call once the class body has been walked; the graph drops targets
+ * that don't exist and walks further up the hierarchy when a base doesn't declare it.
+ * Methods in `nonOverriding` (private, static or companion members) are skipped.
+ */
+export function extractOverrides(
+  classId: string,
+  symbols: ParsedSymbol[],
+  edges: Edge[],
+  nonOverriding: ReadonlySet<string> = new Set(),
+): void {
+  const bases = edges
+    .filter(e => e.from === classId && (e.kind === 'inherits' || e.kind === 'implements'))
+    .map(e => e.to)
+  if (bases.length === 0) return
+  const prefix = `${classId}.`
+  for (const s of symbols) {
+    if (s.kind !== 'method' || s.name === 'constructor' || nonOverriding.has(s.id)) continue
+    if (!s.id.startsWith(prefix) || s.id.slice(prefix.length).includes('.')) continue
+    for (const base of bases) {
+      edges.push({ from: s.id, to: `${base}.${s.name}`, kind: 'overrides' })
+    }
+  }
+}
+
 export abstract class TreeSitterParser implements LanguageParser {
   abstract extensions: string[]
   protected parserInstance: Parser | null = null
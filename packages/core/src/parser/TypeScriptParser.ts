@@ -2,7 +2,7 @@ import path from 'path'
 import Parser from 'web-tree-sitter'
 import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
 import type { ParseResult } from './LanguageParser'
-import { TreeSitterParser, makeSymbolId, initWasm } from './TreeSitterParser'
+import { TreeSitterParser, makeSymbolId, initWasm, receiverName, extractTypeUses, extractOverrides } from './TreeSitterParser'
 
 type SyntaxNode = Parser.SyntaxNode
 
@@ -11,6 +11,9 @@ function getWasmPath(): string {
   return path.join(pkgDir, 'tree-sitter-typescript.wasm')
 }
 
+/** `type_identifier` covers `User`, `Promise<User>` and `models.User`; `string` etc. are `predefined_type` */
+const TYPE_NODES = new Set(['type_identifier'])
+
 export class TypeScriptParser extends TreeSitterParser {
   extensions = ['.ts', '.tsx', '.js', '.jsx']
 
@@ -27,7 +30,7 @@ export class TypeScriptParser extends TreeSitterParser {
     const tree = this.parserInstance.parse(content)
     const symbols: ParsedSymbol[] = []
     const edges: Edge[] = []
-    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null)
+    walkNode(tree.rootNode, filePath, repoId, symbols, edges, null, new Set())
     return { symbols, edges }
   }
 }
@@ -39,6 +42,7 @@ function walkNode(
   symbols: ParsedSymbol[],
   edges: Edge[],
   classCtx: string | null,
+  nonOverriding: Set<string>,
 ): void {
   switch (node.type) {
     case 'class_declaration':
@@ -47,14 +51,16 @@ function walkNode(
       if (nameNode) {
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
+        const id = makeSymbolId(filePath, qn)
         // Heritage edges
         for (const child of node.namedChildren) {
           if (child.type === 'class_heritage') {
             for (const clause of child.namedChildren) {
               const kind = clause.type === 'extends_clause' ? 'inherits' : 'implements'
               for (const typeRef of clause.namedChildren) {
-                if (typeRef.type !== 'extends' && typeRef.type !== 'implements') {
-                  edges.push({ from: makeSymbolId(filePath, qn), to: typeRef.text, kind })
+                // `extends Base<T>` keeps its type arguments in a sibling node
+                if (typeRef.type !== 'type_arguments') {
+                  edges.push({ from: id, to: typeRef.text, kind })
                 }
               }
             }
@@ -68,10 +74,15 @@ function walkNode(
         })
         const body = node.childForFieldName('body')
         if (body) {
+          const fieldTypes = body.namedChildren
+            .filter(c => c.type === 'public_field_definition')
+            .map(c => c.childForFieldName('type'))
+          extractTypeUses(fieldTypes, id, TYPE_NODES, edges)
           for (const c of body.namedChildren) {
-            walkNode(c, filePath, repoId, symbols, edges, qn)
+            walkNode(c, filePath, repoId, symbols, edges, qn, nonOverriding)
           }
         }
+        extractOverrides(id, symbols, edges, nonOverriding)
         return
       }
       break
@@ -82,12 +93,30 @@ function walkNode(
       if (nameNode) {
         const name = nameNode.text
         const qn = classCtx ? `${classCtx}.${name}` : name
+        const id = makeSymbolId(filePath, qn)
+        // `interface A extends B<T>, C`
+        const supertypes = node.namedChildren.find(c => c.type === 'extends_type_clause')
+        for (const typeRef of supertypes?.namedChildren ?? []) {
+          edges.push({ from: id, to: typeRef.text, kind: 'inherits' })
+        }
         symbols.push({
-          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          id, filePath, name, qualifiedName: qn,
           kind: 'interface', signature: `interface ${name}`,
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        const body = node.childForFieldName('body')
+        if (body) {
+          const propertyTypes = body.namedChildren
+            .filter(c => c.type === 'property_signature')
+            .map(c => c.childForFieldName('type'))
+          extractTypeUses(propertyTypes, id, TYPE_NODES, edges)
+          for (const c of body.namedChildren) {
+            walkNode(c, filePath, repoId, symbols, edges, qn, nonOverriding)
+          }
+        }
+        extractOverrides(id, symbols, edges, nonOverriding)
+        return
       }
       break
     }
@@ -106,6 +135,7 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        extractTypeUses([params, retType], makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
@@ -126,12 +156,38 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        // Private methods (`private save()`, `#save()`) aren't inherited and static ones aren't called on an instance
+        const isPrivate = nameNode.type === 'private_property_identifier' ||
+          node.namedChildren.some(c => c.type === 'accessibility_modifier' && c.text === 'private')
+        if (isPrivate || node.children.some(c => c.type === 'static')) nonOverriding.add(makeSymbolId(filePath, qn))
+        extractTypeUses([params, retType], makeSymbolId(filePath, qn), TYPE_NODES, edges)
         extractCalls(node, makeSymbolId(filePath, qn), edges)
         return
       }
       break
     }
 
+    case 'method_signature':
+    case 'abstract_method_signature': {
+      // Interface and abstract members — bodiless, but implementations override them
+      const nameNode = node.childForFieldName('name')
+      if (nameNode && classCtx) {
+        const name = nameNode.text
+        const qn = `${classCtx}.${name}`
+        const params = node.childForFieldName('parameters')
+        const retType = node.childForFieldName('return_type')
+        symbols.push({
+          id: makeSymbolId(filePath, qn), filePath, name, qualifiedName: qn,
+          kind: 'method', signature: `${name}${params ? params.text : '()'}${retType ? `: ${retType.text}` : ''}`,
+          bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
+          repoId,
+        })
+        extractTypeUses([params, retType], makeSymbolId(filePath, qn), TYPE_NODES, edges)
+        return
+      }
+      break
+    }
+
     case 'type_alias_declaration': {
       const nameNode = node.childForFieldName('name')
       if (nameNode) {
@@ -143,6 +199,7 @@ function walkNode(
           bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
           repoId,
         })
+        extractTypeUses([node.childForFieldName('value')], makeSymbolId(filePath, qn), TYPE_NODES, edges)
       }
       break
     }
@@ -167,6 +224,7 @@ function walkNode(
               bodyRange: [node.startPosition.row + 1, node.endPosition.row + 1],
               repoId,
             })
+            extractTypeUses([params, retType], makeSymbolId(filePath, qn), TYPE_NODES, edges)
             extractCalls(valueNode, makeSymbolId(filePath, qn), edges)
           }
         }
@@ -181,6 +239,15 @@ function walkNode(
       }
       break
     }
+
+    case 'export_statement': {
+      // Barrel re-exports: `export * from './user'`, `export { User } from './user'`
+      const source = node.childForFieldName('source')
+      if (source) {
+        edges.push({ from: filePath, to: source.text.replace(/['"]/g, ''), kind: 'imports', reexport: true })
+      }
+      break
+    }
   }
 
   // Default recursion for unhandled node types
@@ -189,7 +256,7 @@ function walkNode(
     node.type !== 'function_declaration' &&
     node.type !== 'method_definition') {
     for (const child of node.namedChildren) {
-      walkNode(child, filePath, repoId, symbols, edges, classCtx)
+      walkNode(child, filePath, repoId, symbols, edges, classCtx, nonOverriding)
     }
   }
 }
@@ -198,11 +265,13 @@ function extractCalls(node: SyntaxNode, fromId: string, edges: Edge[]): void {
   if (node.type === 'call_expression') {
     const fn = node.childForFieldName('function')
     if (fn) {
-      const callee = fn.type === 'member_expression'
+      const isMember = fn.type === 'member_expression'
+      const callee = isMember
         ? fn.childForFieldName('property')?.text ?? fn.text
         : fn.text
       if (callee) {
-        edges.push({ from: fromId, to: callee, kind: 'calls' })
+        const receiver = isMember ? receiverName(fn.childForFieldName('object')) : undefined
+        edges.push({ from: fromId, to: callee, kind: 'calls', receiver })
       }
     }
   }
@@ -1,9 +1,12 @@
-import type { ParsedSymbol, GraphReviewContext } from '@agnus-ai/shared'
+import type { ParsedSymbol, GraphReviewContext, MentionedSymbol } from '@agnus-ai/shared'
 import type { InMemorySymbolGraph } from '../graph/InMemorySymbolGraph'
 import type { EmbeddingAdapter } from '../embeddings/EmbeddingAdapter'
 
 export type ReviewDepth = 'fast' | 'standard' | 'deep'
 
+/** Symbols looked up for a question — more names in it are ignored */
+const MAX_MENTIONED_SYMBOLS = 5
+
 export interface RetrieverConfig {
   /** Graph traversal depth: fast=1hop, standard=2hops (default), deep=2hops+embeddings */
   depth?: ReviewDepth
@@ -20,6 +23,7 @@ export interface RetrieverConfig {
  * 3. BFS callers + callees from the graph
  * 4. (deep mode) vector-search for semantic neighbors
  * 5. Compute blast radius
+ * 6. Link changed files that call each other, so large PRs are chunked along them
  */
 export class Retriever {
   constructor(
@@ -96,14 +100,68 @@ export class Retriever {
     // 5. Blast radius
     const blastRadius = this.graph.getBlastRadius(changedSymbols.map(s => s.id))
 
+    // 6. Changed files joined by a direct call
+    const fileLinks = new Map<string, [string, string]>()
+    for (const sym of changedSymbols) {
+      for (const callee of this.graph.getCallees(sym.id, 1)) {
+        if (callee.filePath === sym.filePath || !changedFiles.has(callee.filePath)) continue
+        const pair: [string, string] = [sym.filePath, callee.filePath].sort() as [string, string]
+        fileLinks.set(pair.join('\0'), pair)
+      }
+    }
+
     return {
       changedSymbols,
       callers: [...callerMap.values()],
       callees: [...calleeMap.values()],
       blastRadius,
       semanticNeighbors,
+      fileLinks: [...fileLinks.values()],
+    }
+  }
+
+  /**
+   * Review context for a question about a PR — "what else calls this?", "is this safe
+   * for `BillingService`?" — plus the callers and callees of the symbols it names.
+   */
+  async getAskContext(question: string, diff: string, repoId: string): Promise<GraphReviewContext> {
+    const context = await this.getReviewContext(diff, repoId)
+    const hops = (this.config.depth ?? 'standard') === 'fast' ? 1 : 2
+    const mentionedSymbols: MentionedSymbol[] = findMentionedSymbols(question, this.graph.getAllSymbols())
+      .map(symbol => ({
+        symbol,
+        callers: this.graph.getCallers(symbol.id, hops),
+        callees: this.graph.getCallees(symbol.id, 1),
+      }))
+    return { ...context, mentionedSymbols }
+  }
+}
+
+/**
+ * Symbols a question names, in the order it names them. A word counts as a name when it
+ * is in backticks or looks like code — `AuthService.login`, `validateToken`, `MAX_RETRIES`,
+ * `retry()` — so plain English words don't match symbols that share them.
+ */
+function findMentionedSymbols(question: string, symbols: ParsedSymbol[]): ParsedSymbol[] {
+  const byName = new Map<string, ParsedSymbol[]>()
+  for (const s of symbols) {
+    for (const key of new Set([s.name, s.qualifiedName])) {
+      if (!byName.has(key)) byName.set(key, [])
+      byName.get(key)!.push(s)
+    }
+  }
+
+  const found = new Map<string, ParsedSymbol>()
+  const words = question.matchAll(/(`?)([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)(`?)(\(?)/g)
+  for (const [, open, name, close, call] of words) {
+    const looksLikeCode = (open && close) || call || /[A-Z_.$\d]/.test(name.slice(1))
+    if (!looksLikeCode) continue
+    for (const s of byName.get(name) ?? []) {
+      if (found.size >= MAX_MENTIONED_SYMBOLS) return [...found.values()]
+      found.set(s.id, s)
     }
   }
+  return [...found.values()]
 }
 
 /** Parse unified diff headers to extract changed file paths. */
@@ -1,4 +1,4 @@
-import { Pool, PoolConfig } from 'pg'
+import { Pool, PoolClient, PoolConfig } from 'pg'
 import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
 import type { StorageAdapter } from './StorageAdapter'
 
@@ -26,18 +26,22 @@ CREATE TABLE IF NOT EXISTS edges (
   branch TEXT NOT NULL DEFAULT 'main',
   from_id TEXT NOT NULL,
   to_id TEXT NOT NULL,
-  kind TEXT NOT NULL
+  kind TEXT NOT NULL,
+  receiver TEXT,
+  reexport BOOLEAN
 );
 
-CREATE TABLE IF NOT EXISTS graph_snapshots (
+CREATE TABLE IF NOT EXISTS overlay_files (
   repo_id TEXT NOT NULL,
-  branch TEXT NOT NULL DEFAULT 'main',
-  snapshot TEXT NOT NULL,
-  updated_at TIMESTAMPTZ DEFAULT NOW(),
-  PRIMARY KEY (repo_id, branch)
+  branch TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  PRIMARY KEY (repo_id, branch, file_path)
 );
 `
 
+/** Rows per query when streaming a graph out of `symbols` / `edges` */
+const LOAD_BATCH_SIZE = 5000
+
 const BRANCH_MIGRATION_DDL = `
 DO $$
 BEGIN
@@ -59,16 +63,6 @@ BEGIN
     ALTER TABLE edges ADD COLUMN branch TEXT NOT NULL DEFAULT 'main';
   END IF;
 
-  -- graph_snapshots: add branch column and update PK if needed
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_attribute
-    WHERE attrelid = 'graph_snapshots'::regclass AND attname = 'branch' AND attnum > 0 AND NOT attisdropped
-  ) THEN
-    ALTER TABLE graph_snapshots ADD COLUMN branch TEXT NOT NULL DEFAULT 'main';
-    ALTER TABLE graph_snapshots DROP CONSTRAINT IF EXISTS graph_snapshots_pkey;
-    ALTER TABLE graph_snapshots ADD PRIMARY KEY (repo_id, branch);
-  END IF;
-
   -- symbol_embeddings: add branch column and update PK if needed
   IF EXISTS (SELECT 1 FROM pg_class WHERE relname = 'symbol_embeddings') THEN
     IF NOT EXISTS (
@@ -115,6 +109,19 @@ export class PostgresStorageAdapter implements StorageAdapter {
     // Apply branch column migrations for existing tables
     await this.pool.query(BRANCH_MIGRATION_DDL)
 
+    // Call receivers feed import-aware call resolution in the graph
+    await this.pool.query(`ALTER TABLE edges ADD COLUMN IF NOT EXISTS receiver TEXT`)
+    // Barrel re-exports let importers of an index file see what it re-exports
+    await this.pool.query(`ALTER TABLE edges ADD COLUMN IF NOT EXISTS reexport BOOLEAN`)
+
+    // Graphs load straight from symbols/edges; JSON snapshots went stale on every push
+    await this.pool.query(`DROP TABLE IF EXISTS graph_snapshots`)
+    // Keyset pagination for the streaming loader, per-file rewrites on push
+    await this.pool.query(`CREATE INDEX IF NOT EXISTS symbols_repo_branch_idx ON symbols (repo_id, branch, id)`)
+    await this.pool.query(`CREATE INDEX IF NOT EXISTS symbols_file_idx ON symbols (repo_id, branch, file_path)`)
+    await this.pool.query(`CREATE INDEX IF NOT EXISTS edges_repo_branch_idx ON edges (repo_id, branch, id)`)
+    await this.pool.query(`CREATE INDEX IF NOT EXISTS edges_from_idx ON edges (repo_id, branch, from_id text_pattern_ops)`)
+
     // Check if symbol_embeddings already exists and has the right dimension
     const existing = await this.pool.query<{ atttypmod: number }>(`
       SELECT a.atttypmod
@@ -144,82 +151,44 @@ export class PostgresStorageAdapter implements StorageAdapter {
 
   async saveSymbols(symbols: ParsedSymbol[], branch: string): Promise<void> {
     if (symbols.length === 0) return
-    const client = await this.pool.connect()
-    try {
-      await client.query('BEGIN')
-      for (const s of symbols) {
-        await client.query(
-          `INSERT INTO symbols
-             (id, repo_id, branch, file_path, name, qualified_name, kind, signature, body_start, body_end, doc_comment)
-           VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
-           ON CONFLICT (id, repo_id, branch) DO UPDATE SET
-             file_path = EXCLUDED.file_path,
-             name = EXCLUDED.name,
-             qualified_name = EXCLUDED.qualified_name,
-             kind = EXCLUDED.kind,
-             signature = EXCLUDED.signature,
-             body_start = EXCLUDED.body_start,
-             body_end = EXCLUDED.body_end,
-             doc_comment = EXCLUDED.doc_comment`,
-          [
-            s.id, s.repoId, branch, s.filePath, s.name, s.qualifiedName,
-            s.kind, s.signature, s.bodyRange[0], s.bodyRange[1],
-            s.docComment ?? null,
-          ],
-        )
-      }
-      await client.query('COMMIT')
-    } catch (err) {
-      await client.query('ROLLBACK')
-      throw err
-    } finally {
-      client.release()
-    }
+    await this.transaction(client => upsertSymbols(client, symbols, branch))
   }
 
   async saveEdges(edges: Edge[], branch: string): Promise<void> {
     if (edges.length === 0) return
-    const client = await this.pool.connect()
-    try {
-      await client.query('BEGIN')
-      for (const e of edges) {
-        await client.query(
-          `INSERT INTO edges (repo_id, branch, from_id, to_id, kind) VALUES ($1,$2,$3,$4,$5)`,
-          [(e as any).repoId ?? '', branch, e.from, e.to, e.kind],
-        )
-      }
-      await client.query('COMMIT')
-    } catch (err) {
-      await client.query('ROLLBACK')
-      throw err
-    } finally {
-      client.release()
-    }
+    await this.transaction(client => insertEdges(client, edges, branch))
   }
 
-  async deleteByFile(filePath: string, repoId: string, branch: string): Promise<void> {
-    const client = await this.pool.connect()
-    try {
-      await client.query('BEGIN')
+  async replaceFile(
+    filePath: string,
+    repoId: string,
+    branch: string,
+    symbols: ParsedSymbol[],
+    edges: Edge[],
+  ): Promise<void> {
+    const ids = symbols.map(s => s.id)
+    const prefix = likePrefix(filePath)
+    await this.transaction(async client => {
       await client.query(
-        `DELETE FROM edges WHERE repo_id = $1 AND branch = $2 AND (from_id LIKE $3 OR to_id LIKE $3)`,
-        [repoId, branch, `${filePath}:%`],
+        `DELETE FROM edges WHERE repo_id = $1 AND branch = $2 AND (from_id LIKE $3 OR from_id = $4)`,
+        [repoId, branch, prefix, filePath],
       )
       await client.query(
-        `DELETE FROM symbols WHERE repo_id = $1 AND branch = $2 AND file_path = $3`,
-        [repoId, branch, filePath],
+        `DELETE FROM symbols WHERE repo_id = $1 AND branch = $2 AND file_path = $3 AND NOT (id = ANY($4::text[]))`,
+        [repoId, branch, filePath, ids],
       )
       await client.query(
-        `DELETE FROM symbol_embeddings WHERE repo_id = $1 AND branch = $2 AND symbol_id LIKE $3`,
-        [repoId, branch, `${filePath}:%`],
+        `DELETE FROM symbol_embeddings
+         WHERE repo_id = $1 AND branch = $2 AND symbol_id LIKE $3 AND NOT (symbol_id = ANY($4::text[]))`,
+        [repoId, branch, prefix, ids],
       )
-      await client.query('COMMIT')
-    } catch (err) {
-      await client.query('ROLLBACK')
-      throw err
-    } finally {
-      client.release()
-    }
+      await upsertSymbols(client, symbols, branch)
+      await insertEdges(client, edges, branch)
+    })
+  }
+
+  async deleteByFile(filePath: string, repoId: string, branch: string): Promise<void> {
+    await this.replaceFile(filePath, repoId, branch, [], [])
   }
 
   async deleteAllForBranch(repoId: string, branch: string): Promise<void> {
@@ -229,6 +198,7 @@ export class PostgresStorageAdapter implements StorageAdapter {
       await client.query(`DELETE FROM edges WHERE repo_id = $1 AND branch = $2`, [repoId, branch])
       await client.query(`DELETE FROM symbols WHERE repo_id = $1 AND branch = $2`, [repoId, branch])
       await client.query(`DELETE FROM symbol_embeddings WHERE repo_id = $1 AND branch = $2`, [repoId, branch])
+      await client.query(`DELETE FROM overlay_files WHERE repo_id = $1 AND branch = $2`, [repoId, branch])
       await client.query('COMMIT')
     } catch (err) {
       await client.query('ROLLBACK')
@@ -240,54 +210,164 @@ export class PostgresStorageAdapter implements StorageAdapter {
 
   async loadAll(repoId: string, branch: string): Promise<{ symbols: ParsedSymbol[]; edges: Edge[] }> {
     const symsRes = await this.pool.query(
-      `SELECT id, repo_id, file_path, name, qualified_name, kind, signature, body_start, body_end, doc_comment
-       FROM symbols WHERE repo_id = $1 AND branch = $2`,
+      `SELECT ${SYMBOL_COLUMNS} FROM symbols WHERE repo_id = $1 AND branch = $2`,
       [repoId, branch],
     )
     const edgesRes = await this.pool.query(
-      `SELECT from_id, to_id, kind FROM edges WHERE repo_id = $1 AND branch = $2`,
+      `SELECT ${EDGE_COLUMNS} FROM edges WHERE repo_id = $1 AND branch = $2`,
       [repoId, branch],
     )
-
-    const symbols: ParsedSymbol[] = symsRes.rows.map(row => ({
-      id: row.id,
-      repoId: row.repo_id,
-      filePath: row.file_path,
-      name: row.name,
-      qualifiedName: row.qualified_name,
-      kind: row.kind,
-      signature: row.signature,
-      bodyRange: [row.body_start, row.body_end] as [number, number],
-      docComment: row.doc_comment ?? undefined,
-    }))
-
-    const edges: Edge[] = edgesRes.rows.map(row => ({
-      from: row.from_id,
-      to: row.to_id,
-      kind: row.kind,
-    }))
-
-    return { symbols, edges }
+    return { symbols: symsRes.rows.map(toSymbol), edges: edgesRes.rows.map(toEdge) }
   }
 
-  async saveGraphSnapshot(repoId: string, branch: string, json: string): Promise<void> {
+  async saveOverlayFiles(repoId: string, branch: string, files: string[]): Promise<void> {
+    if (files.length === 0) return
     await this.pool.query(
-      `INSERT INTO graph_snapshots (repo_id, branch, snapshot, updated_at)
-       VALUES ($1, $2, $3, NOW())
-       ON CONFLICT (repo_id, branch) DO UPDATE SET snapshot = EXCLUDED.snapshot, updated_at = NOW()`,
-      [repoId, branch, json],
+      `INSERT INTO overlay_files (repo_id, branch, file_path)
+       SELECT $1, $2, file_path FROM unnest($3::text[]) AS t(file_path)
+       ON CONFLICT DO NOTHING`,
+      [repoId, branch, files],
     )
   }
 
-  async loadGraphSnapshot(repoId: string, branch: string): Promise<string | null> {
-    const res = await this.pool.query(
-      `SELECT snapshot FROM graph_snapshots WHERE repo_id = $1 AND branch = $2`,
+  async loadOverlayFiles(repoId: string, branch: string): Promise<string[]> {
+    const res = await this.pool.query<{ file_path: string }>(
+      `SELECT file_path FROM overlay_files WHERE repo_id = $1 AND branch = $2`,
       [repoId, branch],
     )
-    return res.rows[0]?.snapshot ?? null
+    return res.rows.map(row => row.file_path)
+  }
+
+  async *streamSymbols(repoId: string, branch: string): AsyncGenerator<ParsedSymbol[]> {
+    let after = ''
+    for (;;) {
+      const res = await this.pool.query(
+        `SELECT ${SYMBOL_COLUMNS} FROM symbols
+         WHERE repo_id = $1 AND branch = $2 AND id > $3 ORDER BY id LIMIT $4`,
+        [repoId, branch, after, LOAD_BATCH_SIZE],
+      )
+      if (res.rows.length > 0) yield res.rows.map(toSymbol)
+      if (res.rows.length < LOAD_BATCH_SIZE) return
+      after = res.rows[res.rows.length - 1].id
+    }
+  }
+
+  async *streamEdges(repoId: string, branch: string): AsyncGenerator<Edge[]> {
+    let after = 0
+    for (;;) {
+      const res = await this.pool.query(
+        `SELECT id, ${EDGE_COLUMNS} FROM edges
+         WHERE repo_id = $1 AND branch = $2 AND id > $3 ORDER BY id LIMIT $4`,
+        [repoId, branch, after, LOAD_BATCH_SIZE],
+      )
+      if (res.rows.length > 0) yield res.rows.map(toEdge)
+      if (res.rows.length < LOAD_BATCH_SIZE) return
+      after = res.rows[res.rows.length - 1].id
+    }
   }
 
   async end(): Promise<void> {
     await this.pool.end()
   }
+
+  private async transaction(fn: (client: PoolClient) => Promise<void>): Promise<void> {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await fn(client)
+      await client.query('COMMIT')
+    } catch (err) {
+      await client.query('ROLLBACK')
+      throw err
+    } finally {
+      client.release()
+    }
+  }
+}
+
+const SYMBOL_COLUMNS = 'id, repo_id, file_path, name, qualified_name, kind, signature, body_start, body_end, doc_comment'
+const EDGE_COLUMNS = 'from_id, to_id, kind, receiver, reexport'
+
+/** One multi-row upsert via `unnest` instead of a round-trip per symbol */
+async function upsertSymbols(client: PoolClient, symbols: ParsedSymbol[], branch: string): Promise<void> {
+  if (symbols.length === 0) return
+  // ON CONFLICT can't touch a row twice in one statement — the last duplicate id wins, as row-by-row did
+  const unique = [...new Map(symbols.map(s => [`${s.repoId}:${s.id}`, s])).values()]
+  await client.query(
+    `INSERT INTO symbols
+       (id, repo_id, branch, file_path, name, qualified_name, kind, signature, body_start, body_end, doc_comment)
+     SELECT id, repo_id, $1, file_path, name, qualified_name, kind, signature, body_start, body_end, doc_comment
+     FROM unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::text[], $7::text[], $8::text[], $9::int[], $10::int[], $11::text[])
+       AS t(id, repo_id, file_path, name, qualified_name, kind, signature, body_start, body_end, doc_comment)
+     ON CONFLICT (id, repo_id, branch) DO UPDATE SET
+       file_path = EXCLUDED.file_path,
+       name = EXCLUDED.name,
+       qualified_name = EXCLUDED.qualified_name,
+       kind = EXCLUDED.kind,
+       signature = EXCLUDED.signature,
+       body_start = EXCLUDED.body_start,
+       body_end = EXCLUDED.body_end,
+       doc_comment = EXCLUDED.doc_comment`,
+    [
+      branch,
+      unique.map(s => s.id),
+      unique.map(s => s.repoId),
+      unique.map(s => s.filePath),
+      unique.map(s => s.name),
+      unique.map(s => s.qualifiedName),
+      unique.map(s => s.kind),
+      unique.map(s => s.signature),
+      unique.map(s => s.bodyRange[0]),
+      unique.map(s => s.bodyRange[1]),
+      unique.map(s => s.docComment ?? null),
+    ],
+  )
+}
+
+async function insertEdges(client: PoolClient, edges: Edge[], branch: string): Promise<void> {
+  if (edges.length === 0) return
+  await client.query(
+    `INSERT INTO edges (repo_id, branch, from_id, to_id, kind, receiver, reexport)
+     SELECT repo_id, $1, from_id, to_id, kind, receiver, reexport
+     FROM unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::text[], $7::boolean[])
+       AS t(repo_id, from_id, to_id, kind, receiver, reexport)`,
+    [
+      branch,
+      edges.map(e => (e as any).repoId ?? ''),
+      edges.map(e => e.from),
+      edges.map(e => e.to),
+      edges.map(e => e.kind),
+      edges.map(e => e.receiver ?? null),
+      edges.map(e => e.reexport ?? null),
+    ],
+  )
+}
+
+function toSymbol(row: any): ParsedSymbol {
+  return {
+    id: row.id,
+    repoId: row.repo_id,
+    filePath: row.file_path,
+    name: row.name,
+    qualifiedName: row.qualified_name,
+    kind: row.kind,
+    signature: row.signature,
+    bodyRange: [row.body_start, row.body_end],
+    docComment: row.doc_comment ?? undefined,
+  }
+}
+
+function toEdge(row: any): Edge {
+  return {
+    from: row.from_id,
+    to: row.to_id,
+    kind: row.kind,
+    receiver: row.receiver ?? undefined,
+    reexport: row.reexport ?? undefined,
+  }
+}
+
+/** `LIKE` pattern for ids inside `filePath` — `_` and `%` are common in file names */
+function likePrefix(filePath: string): string {
+  return `${filePath.replace(/[\\%_]/g, '\\$&')}:%`
 }
@@ -3,9 +3,19 @@ import type { ParsedSymbol, Edge } from '@agnus-ai/shared'
 export interface StorageAdapter {
   saveSymbols(symbols: ParsedSymbol[], branch: string): Promise<void>
   saveEdges(edges: Edge[], branch: string): Promise<void>
+  /**
+   * Swap one file's rows for a fresh parse in a single transaction: its edges are
+   * rewritten, symbols upserted, and symbols (with their embeddings) that no longer
+   * exist are dropped. Embeddings of surviving symbols are kept.
+   */
+  replaceFile(filePath: string, repoId: string, branch: string, symbols: ParsedSymbol[], edges: Edge[]): Promise<void>
   deleteByFile(filePath: string, repoId: string, branch: string): Promise<void>
   deleteAllForBranch(repoId: string, branch: string): Promise<void>
   loadAll(repoId: string, branch: string): Promise<{ symbols: ParsedSymbol[]; edges: Edge[] }>
-  saveGraphSnapshot(repoId: string, branch: string, json: string): Promise<void>
-  loadGraphSnapshot(repoId: string, branch: string): Promise<string | null>
+  /** Record files a branch overlay replaces in its base branch (see `InMemorySymbolGraph.overlay`) */
+  saveOverlayFiles(repoId: string, branch: string, files: string[]): Promise<void>
+  loadOverlayFiles(repoId: string, branch: string): Promise<string[]>
+  /** Symbols in batches, so a large graph never sits in memory twice */
+  streamSymbols(repoId: string, branch: string): AsyncIterable<ParsedSymbol[]>
+  streamEdges(repoId: string, branch: string): AsyncIterable<Edge[]>
 }
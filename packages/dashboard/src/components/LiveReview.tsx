@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react'
+import { cn } from '@/lib/utils'
+
+type ReviewPhase = 'context' | 'graph' | 'generation' | 'filtering' | 'posting'
+
+interface ReviewComment {
+  path: string
+  line: number
+  body: string
+  severity: 'info' | 'warning' | 'error'
+  confidence?: number
+}
+
+type ReviewStreamEvent =
+  | { type: 'phase'; phase: ReviewPhase }
+  | { type: 'comment'; comment: ReviewComment }
+  | { type: 'filtered'; comments: ReviewComment[] }
+  | { type: 'done'; verdict: string; commentCount: number; reviewId: string; comments?: ReviewComment[] }
+  | { type: 'error'; message: string }
+
+interface Props {
+  /** `streamUrl` from `POST /api/repos/:id/review` with `stream: true` */
+  streamUrl: string
+  onDone?: () => void
+}
+
+const PHASES: Array<{ key: ReviewPhase; label: string; title: string; desc: string }> = [
+  { key: 'context', label: '01', title: 'Context', desc: 'Fetching the diff, PR and tickets' },
+  { key: 'graph', label: '02', title: 'Graph', desc: 'Retrieving callers, blast radius and past feedback' },
+  { key: 'generation', label: '03', title: 'Generate', desc: 'Writing review comments' },
+  { key: 'filtering', label: '04', title: 'Filter', desc: 'Dropping low-confidence comments' },
+  { key: 'posting', label: '05', title: 'Post', desc: 'Publishing the review to the pull request' },
+]
+
+const VERDICT_LABEL: Record<string, string> = {
+  approve: 'Approved',
+  request_changes: 'Changes Requested',
+  comment: 'Comment',
+}
+
+/** Phases and comments of a running review, as they arrive */
+export function LiveReview({ streamUrl, onDone }: Props) {
+  const [phase, setPhase] = useState<ReviewPhase | null>(null)
+  const [comments, setComments] = useState<ReviewComment[]>([])
+  const [result, setResult] = useState<{ verdict: string; commentCount: number } | null>(null)
+  const [errorMsg, setErrorMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    const es = new EventSource(streamUrl)
+
+    es.onmessage = (e) => {
+      const data: ReviewStreamEvent = JSON.parse(e.data)
+      if (data.type === 'phase') {
+        setPhase(data.phase)
+      } else if (data.type === 'comment') {
+        setComments(prev => [...prev, data.comment])
+      } else if (data.type === 'filtered') {
+        setComments(data.comments)
+      } else if (data.type === 'done') {
+        es.close()
+        if (data.comments) setComments(data.comments)
+        setResult({ verdict: data.verdict, commentCount: data.commentCount })
+        onDone?.()
+      } else if (data.type === 'error') {
+        es.close()
+        setErrorMsg(data.message)
+      }
+    }
+
+    es.onerror = () => es.close()
+    return () => es.close()
+  }, [streamUrl])
+
+  const activeIdx = result ? PHASES.length : PHASES.findIndex(p => p.key === phase)
+
+  return (
+    <div className="space-y-8">
+      <div className="border-t border-border">
+        {PHASES.map((p, i) => {
+          const isDone = i < activeIdx
+          const isActive = i === activeIdx && !errorMsg
+          return (
+            <div
+              key={p.key}
+              className={cn('flex items-start gap-8 border-b border-border py-4 transition-colors', isActive && 'bg-muted/30')}
+            >
+              <span className={cn('num-display w-8 shrink-0 pt-0.5', isDone && 'text-foreground')}>
+                {isDone ? '✓' : p.label}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className={cn('font-medium', isDone && 'line-through text-muted-foreground')}>{p.title}</p>
+                <p className="label-meta mt-1">{p.desc}</p>
+              </div>
+              {p.key === 'generation' && (isActive || isDone) && (
+                <span className="num-display shrink-0">{comments.length}</span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {errorMsg && (
+        <div className="border border-destructive/40 bg-destructive/5 rounded-sm p-6 space-y-2">
+          <p className="label-meta text-destructive">Review Failed</p>
+          <p className="font-mono text-sm text-destructive">{errorMsg}</p>
+        </div>
+      )}
+
+      {result && (
+        <p className="font-mono text-xs text-muted-foreground">
+          {VERDICT_LABEL[result.verdict] ?? result.verdict} · {result.commentCount} comment{result.commentCount !== 1 ? 's' : ''}
+        </p>
+      )}
+
+      {comments.length > 0 && (
+        <div className="border-t border-border">
+          {comments.map((c, i) => (
+            <div key={`${c.path}:${c.line}:${i}`} className="border-b border-border py-4 space-y-2">
+              <p className="label-meta">
+                <span className={cn(c.severity === 'error' && 'text-[#E85A1A]')}>{c.severity}</span>
+                {' · '}{c.path}:{c.line}
+                {c.confidence !== undefined && ` · ${Math.round(c.confidence * 100)}%`}
+              </p>
+              <p className="font-mono text-xs whitespace-pre-wrap break-words">{c.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
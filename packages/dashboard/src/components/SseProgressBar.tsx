@@ -10,6 +10,7 @@ interface IndexStep {
   symbolCount?: number
   edgeCount?: number
   durationMs?: number
+  timings?: { scanMs: number; parseMs: number; persistMs: number; embedMs: number }
   message?: string
 }
 
@@ -149,10 +150,20 @@ export function SseProgressBar({ repoId, branch = 'main', onDone, onError }: Pro
           />
         </div>
       )}
+      {activeStep === 'done' && current?.timings && (
+        <p className="label-meta">
+          Scan {seconds(current.timings.scanMs)} · Parse {seconds(current.timings.parseMs)} ·
+          Persist {seconds(current.timings.persistMs)} · Embed {seconds(current.timings.embedMs)}
+        </p>
+      )}
     </div>
   )
 }
 
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
 function StatCell({ label, value }: { label: string; value: string }) {
   return (
     <div className="px-0 pr-8">
@@ -0,0 +1,114 @@
+interface UsageBucket {
+  reviews: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number | null
+}
+
+interface UsageChartProps {
+  series: Array<UsageBucket & { date: string }>
+  totals: UsageBucket & { llmCalls: number; avgLatencyMs: number | null }
+}
+
+const BAR_MAX_H = 120
+const BAR_W = 32
+const BAR_GAP = 20
+const CHART_BOTTOM = 150
+const LABEL_Y = CHART_BOTTOM + 16
+
+function formatWeek(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`
+  return String(n)
+}
+
+export function formatCost(usd: number | null): string {
+  if (usd === null) return '—'
+  return usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`
+}
+
+/** Weekly tokens per bar — prompt (bottom) and completion (top) */
+export function UsageChart({ series, totals }: UsageChartProps) {
+  if (series.length === 0) {
+    return (
+      <div className="border border-border py-12 text-center">
+        <p className="label-meta text-muted-foreground">
+          No usage yet — token counts are recorded with each new review
+        </p>
+      </div>
+    )
+  }
+
+  const maxTotal = Math.max(...series.map(d => d.promptTokens + d.completionTokens), 1)
+  const svgW = Math.max(600, series.length * (BAR_W + BAR_GAP) + BAR_GAP * 2)
+
+  return (
+    <div>
+      {/* Headline stat */}
+      <p className="font-mono text-xs text-muted-foreground mb-4">
+        {formatCost(totals.costUsd)} estimated · {formatTokens(totals.promptTokens + totals.completionTokens)} tokens
+        · {totals.reviews} review{totals.reviews !== 1 ? 's' : ''} · {totals.llmCalls} LLM call{totals.llmCalls !== 1 ? 's' : ''}
+        {totals.avgLatencyMs !== null && ` · ${(totals.avgLatencyMs / 1000).toFixed(1)}s avg`}
+      </p>
+
+      {/* Legend */}
+      <div className="flex items-center gap-6 mb-4">
+        <span className="flex items-center gap-1.5 label-meta">
+          <span className="inline-block w-3 h-3" style={{ background: '#E85A1A' }} />
+          Prompt
+        </span>
+        <span className="flex items-center gap-1.5 label-meta">
+          <span className="inline-block w-3 h-3" style={{ background: '#3D3D3B' }} />
+          Completion
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <svg
+          viewBox={`0 0 ${svgW} 180`}
+          width="100%"
+          style={{ minWidth: Math.min(svgW, 600) }}
+          xmlns="http://www.w3.org/2000/svg"
+        >
+          {series.map((d, i) => {
+            const x = BAR_GAP + i * (BAR_W + BAR_GAP)
+            const promptH = (d.promptTokens / maxTotal) * BAR_MAX_H
+            const completionH = (d.completionTokens / maxTotal) * BAR_MAX_H
+
+            return (
+              <g key={d.date}>
+                <title>{`${formatTokens(d.promptTokens)} prompt · ${formatTokens(d.completionTokens)} completion · ${formatCost(d.costUsd)}`}</title>
+                {/* Prompt tokens (orange, bottom) */}
+                {promptH > 0 && (
+                  <rect x={x} y={CHART_BOTTOM - promptH} width={BAR_W} height={promptH} fill="#E85A1A" />
+                )}
+                {/* Completion tokens (dark, top) */}
+                {completionH > 0 && (
+                  <rect x={x} y={CHART_BOTTOM - promptH - completionH} width={BAR_W} height={completionH} fill="#3D3D3B" />
+                )}
+                {/* X-axis label */}
+                <text
+                  x={x + BAR_W / 2}
+                  y={LABEL_Y}
+                  textAnchor="middle"
+                  fontFamily="'JetBrains Mono', monospace"
+                  fontSize={9}
+                  fill="#8A8880"
+                >
+                  {formatWeek(d.date)}
+                </text>
+              </g>
+            )
+          })}
+
+          {/* Baseline */}
+          <line x1={0} y1={CHART_BOTTOM} x2={svgW} y2={CHART_BOTTOM} stroke="#B8B5AF" strokeWidth={1} />
+        </svg>
+      </div>
+    </div>
+  )
+}
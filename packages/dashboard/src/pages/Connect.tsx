@@ -5,16 +5,31 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { VcsPlatform } from '@agnus-ai/shared'
 
 interface SavedCredential {
   id: string
   label: string
   token: string
-  platform: 'github' | 'azure'
+  platform: VcsPlatform
 }
 
 const CREDS_KEY = 'agnus:saved_credentials'
 
+const TOKEN_PLACEHOLDERS: Record<VcsPlatform, string> = {
+  github: 'ghp_…',
+  azure: 'PAT from dev.azure.com…',
+  gitlab: 'glpat-…',
+  bitbucket: 'Access token or username:app-password',
+}
+
+const REPO_URL_PLACEHOLDERS: Record<VcsPlatform, string> = {
+  github: 'https://github.com/owner/repo',
+  azure: 'https://dev.azure.com/org/project/_git/repo',
+  gitlab: 'https://gitlab.com/group/project',
+  bitbucket: 'https://bitbucket.org/workspace/repo  or  https://host/scm/KEY/repo.git',
+}
+
 function loadCredentials(): SavedCredential[] {
   try { return JSON.parse(localStorage.getItem(CREDS_KEY) ?? '[]') } catch { return [] }
 }
@@ -39,7 +54,7 @@ export default function Connect() {
   const [form, setForm] = useState({
     repoUrl: '',
     token: '',
-    platform: 'github' as 'github' | 'azure',
+    platform: 'github' as VcsPlatform,
     repoPath: '',
     branchesInput: '',
   })
@@ -135,7 +150,7 @@ export default function Connect() {
           <p className="label-meta mb-1" style={{ color: 'var(--lp-accent)' }}>// quickstart</p>
           <p className="font-mono text-xs text-muted-foreground leading-relaxed">
             docker compose up --build<br />
-            <span style={{ color: 'var(--syn-cmt)' }}># then connect any GitHub or Azure DevOps repo here</span>
+            <span style={{ color: 'var(--syn-cmt)' }}># then connect any GitHub, Azure DevOps, GitLab or Bitbucket repo here</span>
           </p>
         </div>
       </div>
@@ -165,6 +180,8 @@ export default function Connect() {
               <SelectContent>
                 <SelectItem value="github">GitHub</SelectItem>
                 <SelectItem value="azure">Azure DevOps</SelectItem>
+                <SelectItem value="gitlab">GitLab</SelectItem>
+                <SelectItem value="bitbucket">Bitbucket</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -173,7 +190,7 @@ export default function Connect() {
             <Label htmlFor="repoUrl">Repository URL</Label>
             <Input
               id="repoUrl"
-              placeholder="https://github.com/owner/repo"
+              placeholder={REPO_URL_PLACEHOLDERS[form.platform]}
               value={form.repoUrl}
               onChange={e => setForm(f => ({ ...f, repoUrl: e.target.value }))}
               required
@@ -221,7 +238,7 @@ export default function Connect() {
             <Input
               id="token"
               type="password"
-              placeholder={form.platform === 'azure' ? 'PAT from dev.azure.com…' : 'ghp_…'}
+              placeholder={TOKEN_PLACEHOLDERS[form.platform]}
               value={form.token}
               onChange={e => setForm(f => ({ ...f, token: e.target.value }))}
             />
@@ -266,7 +283,10 @@ export default function Connect() {
               value={form.branchesInput}
               onChange={e => setForm(f => ({ ...f, branchesInput: e.target.value }))}
             />
-            <p className="label-meta">Comma-separated. Defaults to <code className="font-mono">main</code>.</p>
+            <p className="label-meta">
+              Comma-separated. Defaults to <code className="font-mono">main</code>. The first branch is indexed in
+              full; the others store only the files that differ from it.
+            </p>
           </div>
 
           <div className="space-y-2">
@@ -4,12 +4,18 @@ import { Link, useNavigate } from 'react-router-dom'
 import { Trash2, RefreshCw } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { FeedbackChart } from '@/components/FeedbackChart'
+import { UsageChart, formatCost, formatTokens } from '@/components/UsageChart'
+import { LiveReview } from '@/components/LiveReview'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { VcsPlatform } from '@agnus-ai/shared'
 
 interface Repo {
   repoId: string
   repoUrl: string
-  platform: 'github' | 'azure'
+  platform: VcsPlatform
   repoPath: string | null
   indexedAt: string | null
   symbolCount: number
@@ -23,6 +29,10 @@ interface Review {
   prNumber: number
   verdict: 'approve' | 'request_changes' | 'comment'
   commentCount: number
+  /** provider/model that answered, comma-separated if the review failed over */
+  llmProvider: string | null
+  /** answered entirely from the LLM response cache */
+  cached: boolean
   riskScore: number
   createdAt: string
 }
@@ -47,6 +57,23 @@ interface FeedbackMetrics {
   totals: { accepted: number; rejected: number; total: number; acceptanceRate: number | null }
 }
 
+interface UsageBucket {
+  reviews: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number | null
+}
+
+interface UsageReport {
+  series: Array<UsageBucket & { date: string }>
+  totals: UsageBucket & { llmCalls: number; avgLatencyMs: number | null }
+  /** Only in the org-wide report */
+  repos?: Array<UsageBucket & { repoId: string; repoUrl: string }>
+}
+
+/** `org` for the whole organization, otherwise a repo id */
+const ORG_SCOPE = 'org'
+
 interface PrecisionBucket {
   bucket: string
   total: number
@@ -56,7 +83,7 @@ interface PrecisionBucket {
 
 export default function Dashboard() {
   const { data: repos, mutate: mutateRepos } = useSWR<Repo[]>('/api/repos', fetcher, { refreshInterval: 30000 })
-  const { data: reviews } = useSWR<Review[]>('/api/reviews', fetcher, { refreshInterval: 30000 })
+  const { data: reviews, mutate: mutateReviews } = useSWR<Review[]>('/api/reviews', fetcher, { refreshInterval: 30000 })
   const navigate = useNavigate()
 
   const [selectedRepoId, setSelectedRepoId] = useState<string | null>(null)
@@ -80,15 +107,48 @@ export default function Dashboard() {
     { refreshInterval: 60000 },
   )
 
+  const [usageScope, setUsageScope] = useState<string>(ORG_SCOPE)
+  const { data: usage } = useSWR<UsageReport>(
+    usageScope === ORG_SCOPE ? '/api/usage' : `/api/repos/${usageScope}/usage`,
+    fetcher,
+    { refreshInterval: 60000 },
+  )
+
+  const [reviewRepoId, setReviewRepoId] = useState<string | null>(null)
+  const [reviewPR, setReviewPR] = useState('')
+  const [reviewDryRun, setReviewDryRun] = useState(false)
+  const [reviewStreamUrl, setReviewStreamUrl] = useState<string | null>(null)
+  const [reviewError, setReviewError] = useState<string | null>(null)
+
   const hasData = repos && repos.length > 0
 
   async function handleDelete(repoId: string, repoUrl: string) {
-    const name = repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '')
+    const name = repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '').replace('https://gitlab.com/', '').replace('https://bitbucket.org/', '')
     if (!window.confirm(`Delete "${name}"? This cannot be undone.`)) return
     await fetch(`/api/repos/${repoId}`, { method: 'DELETE', credentials: 'include' })
     mutateRepos()
   }
 
+  async function handleRunReview() {
+    const repoId = reviewRepoId ?? repos?.[0]?.repoId
+    const prNumber = Number(reviewPR)
+    if (!repoId || !Number.isInteger(prNumber) || prNumber < 1) return
+    setReviewError(null)
+    setReviewStreamUrl(null)
+    const res = await fetch(`/api/repos/${repoId}/review`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prNumber, dryRun: reviewDryRun, stream: true }),
+    })
+    const data = await res.json() as { streamUrl?: string; error?: string }
+    if (!res.ok || !data.streamUrl) {
+      setReviewError(data.error ?? 'Failed to start review')
+      return
+    }
+    setReviewStreamUrl(data.streamUrl)
+  }
+
   async function handleReindex(repoId: string) {
     const res = await fetch(`/api/repos/${repoId}/reindex`, { method: 'POST', credentials: 'include' })
     const data = await res.json() as { branches?: string[] }
@@ -123,7 +183,7 @@ export default function Dashboard() {
                   {/* Name + meta */}
                   <div className="flex-1 min-w-0">
                     <p className="font-medium truncate">
-                      {repo.repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '')}
+                      {repo.repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '').replace('https://gitlab.com/', '').replace('https://bitbucket.org/', '')}
                     </p>
                     <p className="label-meta mt-0.5">{repo.platform} · added {formatDate(repo.createdAt)}</p>
                   </div>
@@ -161,6 +221,48 @@ export default function Dashboard() {
             </div>
           </section>
 
+          {/* Manual review section */}
+          <section>
+            <p className="label-meta mb-6">Run a Review</p>
+            <div className="flex flex-wrap items-center gap-4 mb-8">
+              {repos.length > 1 && (
+                <Select value={reviewRepoId ?? repos[0].repoId} onValueChange={setReviewRepoId}>
+                  <SelectTrigger className="w-56 h-9 text-xs overflow-hidden">
+                    <span className="truncate min-w-0 flex-1 text-left">
+                      <SelectValue />
+                    </span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {repos.map(r => (
+                      <SelectItem key={r.repoId} value={r.repoId}>
+                        <span className="block truncate max-w-[240px]">
+                          {r.repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '').replace('https://gitlab.com/', '').replace('https://bitbucket.org/', '')}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                type="number"
+                min={1}
+                placeholder="PR number"
+                className="w-32"
+                value={reviewPR}
+                onChange={e => setReviewPR(e.target.value)}
+              />
+              <label className="label-meta flex items-center gap-2">
+                <Switch checked={reviewDryRun} onCheckedChange={setReviewDryRun} />
+                Dry run
+              </label>
+              <Button onClick={handleRunReview} disabled={!reviewPR}>Review</Button>
+            </div>
+            {reviewError && <p className="font-mono text-sm text-destructive mb-6">{reviewError}</p>}
+            {reviewStreamUrl && (
+              <LiveReview key={reviewStreamUrl} streamUrl={reviewStreamUrl} onDone={() => mutateReviews()} />
+            )}
+          </section>
+
           {/* Learning Metrics section */}
           <section>
             <div className="flex items-center justify-between mb-6">
@@ -176,7 +278,7 @@ export default function Dashboard() {
                     {repos.map(r => (
                       <SelectItem key={r.repoId} value={r.repoId}>
                         <span className="block truncate max-w-[240px]">
-                          {r.repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '')}
+                          {r.repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '').replace('https://gitlab.com/', '').replace('https://bitbucket.org/', '')}
                         </span>
                       </SelectItem>
                     ))}
@@ -214,6 +316,60 @@ export default function Dashboard() {
             )}
           </section>
 
+          {/* LLM Usage section */}
+          <section>
+            <div className="flex items-center justify-between mb-6">
+              <p className="label-meta">LLM Usage</p>
+              {repos && repos.length > 1 && (
+                <Select value={usageScope} onValueChange={setUsageScope}>
+                  <SelectTrigger className="w-56 h-8 text-xs overflow-hidden">
+                    <span className="truncate min-w-0 flex-1 text-left">
+                      <SelectValue />
+                    </span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ORG_SCOPE}>All repos</SelectItem>
+                    {repos.map(r => (
+                      <SelectItem key={r.repoId} value={r.repoId}>
+                        <span className="block truncate max-w-[240px]">
+                          {r.repoUrl.replace('https://github.com/', '').replace('https://dev.azure.com/', '').replace('https://gitlab.com/', '').replace('https://bitbucket.org/', '')}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {usage?.series ? (
+              <UsageChart series={usage.series} totals={usage.totals} />
+            ) : (
+              <div className="border border-border py-12 text-center">
+                <p className="label-meta text-muted-foreground">Loading…</p>
+              </div>
+            )}
+            {usage?.repos && usage.repos.length > 1 && (
+              <div className="mt-8">
+                <p className="label-meta mb-4">By Repository</p>
+                <div className="border-t border-border">
+                  <div className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-4 border-b border-border py-2">
+                    <span className="label-meta">Repository</span>
+                    <span className="label-meta text-right">Reviews</span>
+                    <span className="label-meta text-right">Tokens</span>
+                    <span className="label-meta text-right">Cost</span>
+                  </div>
+                  {usage.repos.map(r => (
+                    <div key={r.repoId} className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-4 border-b border-border py-3">
+                      <span className="font-mono text-xs truncate">{r.repoUrl.split('/').slice(-2).join('/')}</span>
+                      <span className="font-mono text-xs text-right">{r.reviews}</span>
+                      <span className="font-mono text-xs text-right">{formatTokens(r.promptTokens + r.completionTokens)}</span>
+                      <span className="font-mono text-xs text-right">{formatCost(r.costUsd)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </section>
+
           {/* Reviews table */}
           <section>
             <p className="label-meta mb-6">Recent Reviews</p>
@@ -238,6 +394,11 @@ export default function Dashboard() {
                     <p className="font-medium truncate text-sm">
                       {r.repoUrl.split('/').slice(-2).join('/')} #{r.prNumber}
                     </p>
+                    {(r.llmProvider || r.cached) && (
+                      <p className="label-meta truncate mt-1">
+                        {[r.llmProvider, r.cached && 'cached'].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
                   </div>
                   <span className="font-mono text-sm text-right">{r.commentCount}</span>
                   <span className={cn('label-meta', VERDICT_COLOR[r.verdict])}>
@@ -289,7 +450,7 @@ function EmptyState() {
 
       <div className="border-t border-border mb-8">
         {[
-          { n: '01', title: 'Connect Repo', desc: 'Add your GitHub or Azure DevOps repo' },
+          { n: '01', title: 'Connect Repo', desc: 'Add your GitHub, Azure DevOps, GitLab or Bitbucket repo' },
           { n: '02', title: 'Index Codebase', desc: 'Tree-sitter builds a symbol dependency graph' },
           { n: '03', title: 'Get Reviews', desc: 'Every PR receives blast-radius-aware comments' },
         ].map(s => (
@@ -4,12 +4,34 @@ import { useState } from 'react'
 import useSWR from 'swr'
 import { Badge } from '@/components/ui/badge'
 import { useAuth } from '@/hooks/useAuth'
+import type { VcsPlatform } from '@agnus-ai/shared'
 
 const fetcher = (url: string) => fetch(url, { credentials: 'include' }).then(r => r.json())
 
+const PLATFORM_LABELS: Record<VcsPlatform, string> = {
+  github: 'GitHub',
+  azure: 'Azure DevOps',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+}
+
+const EVENT_LABELS: Record<VcsPlatform, string> = {
+  github: 'push  +  pull_request',
+  azure: 'git.push  +  git.pullrequest.created / updated',
+  gitlab: 'Push events  +  Merge request events',
+  bitbucket: 'Repository push  +  Pull request created / updated (Data Center: source branch updated)',
+}
+
+const SECRET_HINTS: Record<VcsPlatform, string> = {
+  github: 'Use value of WEBHOOK_SECRET from .env',
+  azure: 'Set header X-Webhook-Secret to your webhook secret',
+  gitlab: 'Paste your webhook secret into the Secret token field (sent as X-Gitlab-Token)',
+  bitbucket: 'Paste your webhook secret into the Secret field (signed as X-Hub-Signature)',
+}
+
 interface Repo {
   repoId: string
-  platform: 'github' | 'azure'
+  platform: VcsPlatform
 }
 
 export default function Ready() {
@@ -22,15 +44,13 @@ export default function Ready() {
 
   const platform = repo?.platform ?? 'github'
   const activeOrgSlug = user?.orgs?.find(o => o.orgId === user.activeOrgId)?.slug
-  const webhookPath = platform === 'azure'
-    ? (activeOrgSlug ? `/api/webhooks/azure/${activeOrgSlug}` : '/api/webhooks/azure')
-    : (activeOrgSlug ? `/api/webhooks/github/${activeOrgSlug}` : '/api/webhooks/github')
+  const webhookPath = activeOrgSlug
+    ? `/api/webhooks/${platform}/${activeOrgSlug}`
+    : `/api/webhooks/${platform}`
   const webhookUrl = `${window.location.origin}${webhookPath}`
 
-  const platformLabel = platform === 'azure' ? 'Azure DevOps' : 'GitHub'
-  const eventLabel = platform === 'azure'
-    ? 'git.push  +  git.pullrequest.created / updated'
-    : 'push  +  pull_request'
+  const platformLabel = PLATFORM_LABELS[platform]
+  const eventLabel = EVENT_LABELS[platform]
 
   function copyWebhook() {
     navigator.clipboard.writeText(webhookUrl)
@@ -110,9 +130,7 @@ export default function Ready() {
           <div className="py-4 pl-8">
             <p className="label-meta">Secret</p>
             <p className="font-mono text-sm mt-1">
-              {platform === 'azure'
-                ? 'Set header X-Webhook-Secret to your webhook secret'
-                : 'Use value of WEBHOOK_SECRET from .env'}
+              {SECRET_HINTS[platform]}
             </p>
           </div>
         </div>
@@ -3,13 +3,15 @@ import { Check, Copy, CheckCircle, AlertTriangle } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { usePermissions } from '@/hooks/usePermissions'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
+import type { VcsPlatform } from '@agnus-ai/shared'
 
 type Depth = 'fast' | 'standard' | 'deep'
-type Section = 'review-depth' | 'pr-description' | 'team' | 'api-key'
-type Platform = 'github' | 'azure'
+type Section = 'review-depth' | 'pr-description' | 'llm-provider' | 'pr-commands' | 'team' | 'api-key'
+type Platform = VcsPlatform
 type UpdateMode = PRDescriptionSettings['updateMode']
 type PublishMode = PRDescriptionSettings['publishMode']
 
@@ -31,8 +33,38 @@ type PRDescriptionOverrides = {
   publishLabels?: boolean | null
 }
 
+type LLMProvider = 'ollama' | 'openai' | 'azure' | 'claude' | 'gemini' | 'bedrock' | 'custom'
+
+/** Null fields fall through: repo → org → server environment */
+type LLMSettings = {
+  provider: LLMProvider | null
+  model: string | null
+  baseURL: string | null
+  temperature: number | null
+}
+
+const EMPTY_LLM_SETTINGS: LLMSettings = { provider: null, model: null, baseURL: null, temperature: null }
+
+const PROVIDER_OPTIONS: Array<{ value: LLMProvider; label: string }> = [
+  { value: 'ollama', label: 'Ollama' },
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'azure', label: 'Azure OpenAI' },
+  { value: 'claude', label: 'Claude (Anthropic)' },
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'bedrock', label: 'AWS Bedrock' },
+  { value: 'custom', label: 'Custom (OpenAI-compatible)' },
+]
+
+/** Hosted providers use the server's endpoint along with its API key */
+const BASE_URL_PROVIDERS: LLMProvider[] = ['ollama', 'custom']
+
 type Repo = { repoId: string; repoUrl: string; platform: Platform }
+type RepoSettingsResponse = {
+  prDescription: { effective: PRDescriptionSettings; overrides: PRDescriptionOverrides }
+  llm: { effective: LLMSettings; overrides: LLMSettings }
+}
 type Org = { orgKey: string; orgName: string; platform: Platform }
+type CommandPermission = 'anyone' | 'collaborators' | 'maintainers'
 
 const DEPTH_OPTIONS: Array<{
   key: Depth
@@ -76,11 +108,97 @@ const PUBLISH_MODE_OPTIONS: Array<{ value: PublishMode; label: string }> = [
   { value: 'comment', label: 'publish as comment' },
 ]
 
+const COMMAND_PERMISSION_OPTIONS: Array<{ key: CommandPermission; label: string; desc: string }> = [
+  { key: 'anyone', label: 'Anyone', desc: 'Any commenter, including authors of PRs from forks.' },
+  { key: 'collaborators', label: 'Collaborators', desc: 'People with access to the repository. Every Azure DevOps commenter counts.' },
+  { key: 'maintainers', label: 'Maintainers', desc: 'Repository owners and organization members on GitHub.' },
+]
+
+const COMMANDS: Array<{ usage: string; desc: string }> = [
+  { usage: '/agnus review', desc: 'Review the commits pushed since the last review' },
+  { usage: '/agnus full-review', desc: 'Review the whole PR again' },
+  { usage: '/agnus describe', desc: 'Regenerate the PR description' },
+  { usage: '/agnus ask <question>', desc: 'Answer a question about the PR in a comment' },
+  { usage: '/agnus ignore <path>', desc: 'Leave a file, directory or glob out of later reviews of the PR' },
+]
+
 function parseNullableBoolean(value: string): boolean | null {
   if (value === 'inherit') return null
   return value === 'true'
 }
 
+function describeLLM(s: LLMSettings): string {
+  const model = s.provider ? `${s.provider} / ${s.model}` : 'server default'
+  return s.temperature === null ? model : `${model}, temperature ${s.temperature}`
+}
+
+/** Provider, model, base URL and temperature — empty fields use `inheritLabel` */
+function LLMSettingsFields({ value, onChange, inheritLabel }: {
+  value: LLMSettings
+  onChange: (next: LLMSettings) => void
+  inheritLabel: string
+}) {
+  return (
+    <div className="grid gap-3 max-w-xl">
+      <div className="space-y-2">
+        <label className="label-meta">Provider</label>
+        <Select
+          value={value.provider ?? 'inherit'}
+          onValueChange={(provider) => onChange(provider === 'inherit'
+            ? { ...value, provider: null, model: null, baseURL: null }
+            : {
+                ...value,
+                provider: provider as LLMProvider,
+                baseURL: BASE_URL_PROVIDERS.includes(provider as LLMProvider) ? value.baseURL : null,
+              })}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="inherit">{inheritLabel}</SelectItem>
+            {PROVIDER_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.provider && (
+        <>
+          <div className="space-y-2">
+            <label className="label-meta">Model</label>
+            <Input
+              placeholder="e.g. qwen3.5:cloud"
+              value={value.model ?? ''}
+              onChange={e => onChange({ ...value, model: e.target.value || null })}
+            />
+          </div>
+          {BASE_URL_PROVIDERS.includes(value.provider) && (
+            <div className="space-y-2">
+              <label className="label-meta">Base URL (optional)</label>
+              <Input
+                placeholder="provider endpoint from the server environment"
+                value={value.baseURL ?? ''}
+                onChange={e => onChange({ ...value, baseURL: e.target.value || null })}
+              />
+            </div>
+          )}
+        </>
+      )}
+      <div className="space-y-2">
+        <label className="label-meta">Temperature (0–2, optional)</label>
+        <Input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          placeholder={inheritLabel}
+          value={value.temperature ?? ''}
+          onChange={e => onChange({ ...value, temperature: e.target.value === '' ? null : Number(e.target.value) })}
+        />
+      </div>
+    </div>
+  )
+}
+
 export default function Settings() {
   const { user, isOrgAdmin, canInviteMembers, canManageSystemApiKey } = usePermissions()
   const [section, setSection] = useState<Section>('review-depth')
@@ -101,6 +219,13 @@ export default function Settings() {
   const [repoEffective, setRepoEffective] = useState<PRDescriptionSettings | null>(null)
   const [repoOverrides, setRepoOverrides] = useState<PRDescriptionOverrides>({})
   const [prSaved, setPrSaved] = useState(false)
+  const [orgLLM, setOrgLLM] = useState<LLMSettings>(EMPTY_LLM_SETTINGS)
+  const [repoLLM, setRepoLLM] = useState<LLMSettings>(EMPTY_LLM_SETTINGS)
+  const [repoLLMEffective, setRepoLLMEffective] = useState<LLMSettings | null>(null)
+  const [llmSaved, setLlmSaved] = useState(false)
+  const [llmError, setLlmError] = useState('')
+  const [commandPermission, setCommandPermission] = useState<CommandPermission>('collaborators')
+  const [commandsSaved, setCommandsSaved] = useState(false)
 
   useEffect(() => {
     fetch('/api/settings', { credentials: 'include' })
@@ -137,18 +262,26 @@ export default function Settings() {
   useEffect(() => {
     if (!selectedOrgKey) return
     fetch(`/api/orgs/${encodeURIComponent(selectedOrgKey)}/settings`, { credentials: 'include' })
-      .then(r => r.ok ? r.json() as Promise<{ prDescription: PRDescriptionSettings }> : null)
-      .then(d => { if (d?.prDescription) setOrgSettings(d.prDescription) })
+      .then(r => r.ok ? r.json() as Promise<{ prDescription: PRDescriptionSettings; llm: LLMSettings; commandPermission: CommandPermission }> : null)
+      .then(d => {
+        if (d?.prDescription) setOrgSettings(d.prDescription)
+        if (d?.llm) setOrgLLM(d.llm)
+        if (d?.commandPermission) setCommandPermission(d.commandPermission)
+      })
       .catch(() => {})
   }, [selectedOrgKey])
 
   useEffect(() => {
     if (!selectedRepoId) return
     fetch(`/api/repos/${encodeURIComponent(selectedRepoId)}/settings`, { credentials: 'include' })
-      .then(r => r.ok ? r.json() as Promise<{ prDescription: { effective: PRDescriptionSettings; overrides: PRDescriptionOverrides } }> : null)
+      .then(r => r.ok ? r.json() as Promise<RepoSettingsResponse> : null)
       .then(d => {
         if (d?.prDescription?.effective) setRepoEffective(d.prDescription.effective)
         if (d?.prDescription?.overrides) setRepoOverrides(d.prDescription.overrides)
+        if (d?.llm) {
+          setRepoLLMEffective(d.llm.effective)
+          setRepoLLM(d.llm.overrides)
+        }
       })
       .catch(() => {})
   }, [selectedRepoId])
@@ -237,7 +370,7 @@ export default function Settings() {
     // refresh effective + overrides after save
     const res = await fetch(`/api/repos/${encodeURIComponent(selectedRepoId)}/settings`, { credentials: 'include' })
     if (res.ok) {
-      const d = await res.json() as { prDescription: { effective: PRDescriptionSettings; overrides: PRDescriptionOverrides } }
+      const d = await res.json() as RepoSettingsResponse
       setRepoEffective(d.prDescription.effective)
       setRepoOverrides(d.prDescription.overrides)
     }
@@ -245,9 +378,67 @@ export default function Settings() {
     setTimeout(() => setPrSaved(false), 1500)
   }
 
+  async function saveOrgLLMSettings() {
+    const org = orgs.find(o => o.orgKey === selectedOrgKey)
+    if (!org || !orgSettings) return
+    setLlmError('')
+    // The org endpoint resets omitted PR description fields, so the loaded ones go along
+    const res = await fetch(`/api/orgs/${encodeURIComponent(org.orgKey)}/settings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ platform: org.platform, orgName: org.orgName, prDescription: orgSettings, llm: orgLLM }),
+    })
+    if (!res.ok) {
+      setLlmError(((await res.json()) as { error?: string }).error ?? 'Save failed')
+      return
+    }
+    setLlmSaved(true)
+    setTimeout(() => setLlmSaved(false), 1500)
+  }
+
+  async function saveRepoLLMSettings() {
+    if (!selectedRepoId) return
+    setLlmError('')
+    // Likewise, omitted PR description overrides would be cleared
+    const res = await fetch(`/api/repos/${encodeURIComponent(selectedRepoId)}/settings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ prDescription: repoOverrides, llm: repoLLM }),
+    })
+    if (!res.ok) {
+      setLlmError(((await res.json()) as { error?: string }).error ?? 'Save failed')
+      return
+    }
+    const refreshed = await fetch(`/api/repos/${encodeURIComponent(selectedRepoId)}/settings`, { credentials: 'include' })
+    if (refreshed.ok) {
+      const d = await refreshed.json() as RepoSettingsResponse
+      setRepoLLMEffective(d.llm.effective)
+      setRepoLLM(d.llm.overrides)
+    }
+    setLlmSaved(true)
+    setTimeout(() => setLlmSaved(false), 1500)
+  }
+
+  async function saveCommandPermission() {
+    const org = orgs.find(o => o.orgKey === selectedOrgKey)
+    if (!org || !orgSettings) return
+    await fetch(`/api/orgs/${encodeURIComponent(org.orgKey)}/settings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ platform: org.platform, orgName: org.orgName, prDescription: orgSettings, commandPermission }),
+    })
+    setCommandsSaved(true)
+    setTimeout(() => setCommandsSaved(false), 1500)
+  }
+
   const NAV: Array<{ key: Section; label: string; requires?: 'org_admin' | 'system_admin' }> = [
     { key: 'review-depth', label: 'Review Depth' },
     { key: 'pr-description', label: 'PR Description' },
+    { key: 'llm-provider', label: 'LLM Provider' },
+    { key: 'pr-commands', label: 'PR Commands' },
     { key: 'team', label: 'Team & Invites', requires: 'org_admin' },
     { key: 'api-key', label: 'API Key', requires: 'system_admin' },
   ]
@@ -567,6 +758,119 @@ export default function Settings() {
           </div>
         )}
 
+        {section === 'llm-provider' && (
+          <div className="space-y-8">
+            <p className="label-meta mb-3" style={{ color: '#E85A1A' }}>// llm-provider</p>
+            <h1 className="text-[clamp(1.4rem,2.5vw,2rem)] font-bold leading-none tracking-tight text-foreground">
+              LLM Provider.
+            </h1>
+            <p className="text-sm text-muted-foreground font-mono max-w-2xl">
+              API keys stay in the server environment. A repository that picks its own provider — for example
+              a local Ollama model for sensitive code — never fails over to the server's fallback providers.
+            </p>
+            {llmError && <p className="label-meta text-[#E85A1A]">{llmError}</p>}
+
+            <div className="border border-border p-5 space-y-4">
+              <p className="font-semibold">Organization Defaults</p>
+              <div className="max-w-md">
+                <Select value={selectedOrgKey} onValueChange={setSelectedOrgKey}>
+                  <SelectTrigger><SelectValue placeholder="Select organization" /></SelectTrigger>
+                  <SelectContent>
+                    {orgs.map(o => <SelectItem key={o.orgKey} value={o.orgKey}>{o.platform} / {o.orgName}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <LLMSettingsFields value={orgLLM} onChange={setOrgLLM} inheritLabel="server default" />
+              <Button onClick={saveOrgLLMSettings} disabled={!selectedOrgKey || !orgSettings}>
+                {llmSaved ? '✓ Saved' : 'Save Org Defaults'}
+              </Button>
+            </div>
+
+            <div className="border border-border p-5 space-y-4">
+              <p className="font-semibold">Repository Overrides (take precedence)</p>
+              <div className="max-w-md">
+                <Select value={selectedRepoId} onValueChange={setSelectedRepoId}>
+                  <SelectTrigger><SelectValue placeholder="Select repository" /></SelectTrigger>
+                  <SelectContent>
+                    {repos.map(r => <SelectItem key={r.repoId} value={r.repoId}>{r.platform} / {r.repoUrl.split('/').slice(-2).join('/')}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              {repoLLMEffective && (
+                <p className="label-meta">Effective: {describeLLM(repoLLMEffective)}</p>
+              )}
+              <LLMSettingsFields value={repoLLM} onChange={setRepoLLM} inheritLabel="inherit" />
+              <Button onClick={saveRepoLLMSettings} disabled={!selectedRepoId || !repoLLMEffective}>
+                {llmSaved ? '✓ Saved' : 'Save Repo Overrides'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* ── PR Commands ── */}
+        {section === 'pr-commands' && (
+          <div className="space-y-8">
+            <p className="label-meta mb-3" style={{ color: '#E85A1A' }}>// pr-commands</p>
+            <h1 className="text-[clamp(1.4rem,2.5vw,2rem)] font-bold leading-none tracking-tight text-foreground">
+              PR Commands.
+            </h1>
+            <p className="text-sm text-muted-foreground font-mono max-w-2xl">
+              Start a comment line with a command on a GitHub or Azure DevOps pull request. Commands from
+              people below the organization's level are ignored.
+            </p>
+
+            <div className="border-t border-border">
+              {COMMANDS.map(c => (
+                <div key={c.usage} className="flex items-baseline gap-8 border-b border-border py-3">
+                  <code className="font-mono text-sm w-56 shrink-0">{c.usage}</code>
+                  <p className="text-sm text-muted-foreground">{c.desc}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="border border-border p-5 space-y-4">
+              <p className="font-semibold">Who May Run Commands</p>
+              <div className="max-w-md">
+                <Select value={selectedOrgKey} onValueChange={setSelectedOrgKey}>
+                  <SelectTrigger><SelectValue placeholder="Select organization" /></SelectTrigger>
+                  <SelectContent>
+                    {orgs.map(o => <SelectItem key={o.orgKey} value={o.orgKey}>{o.platform} / {o.orgName}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="border-t border-border">
+                {COMMAND_PERMISSION_OPTIONS.map((opt, i) => {
+                  const isSelected = commandPermission === opt.key
+                  return (
+                    <button
+                      key={opt.key}
+                      onClick={() => setCommandPermission(opt.key)}
+                      className={cn(
+                        'w-full flex items-start gap-8 border-b border-border py-4 text-left transition-colors hover:bg-muted/20',
+                        isSelected && 'bg-muted/30',
+                      )}
+                    >
+                      <span className={cn('num-display w-8 shrink-0 pt-0.5', isSelected && 'text-[#E85A1A]')}>
+                        {isSelected
+                          ? <Check className="h-4 w-4 text-[#E85A1A]" />
+                          : String(i + 1).padStart(2, '0')
+                        }
+                      </span>
+                      <div className="flex-1">
+                        <span className="font-semibold">{opt.label}</span>
+                        <p className="text-sm text-muted-foreground mt-1 font-mono">{opt.desc}</p>
+                      </div>
+                    </button>
+                  )
+                })}
+              </div>
+              <Button onClick={saveCommandPermission} disabled={!selectedOrgKey || !orgSettings}>
+                {commandsSaved ? '✓ Saved' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* ── Team & Invites ── */}
         {section === 'team' && canInviteMembers && (
           <div>
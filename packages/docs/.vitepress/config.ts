@@ -49,6 +49,8 @@ export default defineConfig({
           { text: 'Ollama (local)', link: '/providers/ollama' },
           { text: 'OpenAI', link: '/providers/openai' },
           { text: 'Claude (Anthropic)', link: '/providers/claude' },
+          { text: 'Google Gemini', link: '/providers/gemini' },
+          { text: 'AWS Bedrock', link: '/providers/bedrock' },
           { text: 'Azure OpenAI', link: '/providers/azure' },
         ],
       },
@@ -0,0 +1,164 @@
+// Tests for the Bitbucket adapter's requests to Cloud and Data Center and how it reads their responses
+
+import fetch from 'node-fetch';
+import { BitbucketAdapter } from '../src/adapters/vcs/bitbucket';
+
+jest.mock('node-fetch', () => ({ __esModule: true, default: jest.fn() }));
+
+const mockFetch = fetch as unknown as jest.Mock;
+const CLOUD = 'https://api.bitbucket.org/2.0/repositories/acme/api';
+const DC = 'https://git.example.com/bitbucket/rest/api/1.0/projects/ACME/repos/api';
+
+const rawDiff = [
+  'diff --git a/src/user.ts b/src/account.ts',
+  'similarity index 90%',
+  'rename from src/user.ts',
+  'rename to src/account.ts',
+  '--- a/src/user.ts',
+  '+++ b/src/account.ts',
+  '@@ -10,3 +10,4 @@ export class User {',
+  '   id: string;',
+  '-  name: string;',
+  '+  displayName: string;',
+  '+  email: string;',
+  ' }',
+  'diff --git a/old.txt b/old.txt',
+  'deleted file mode 100644',
+  '--- a/old.txt',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-bye',
+  ''
+].join('\n');
+
+let requests: Array<{ method: string; url: string; body?: any }>;
+
+/** Serve `routes` by "METHOD url"; a route's value is the JSON body, or the raw text when a string */
+function serve(routes: Record<string, unknown>): void {
+  mockFetch.mockImplementation(async (url: string, init: any = {}) => {
+    const method = init.method ?? 'GET';
+    requests.push({ method, url, body: init.body ? JSON.parse(init.body) : undefined });
+    const key = `${method} ${url}`;
+    const found = key in routes;
+    const body = routes[key];
+    return {
+      ok: found,
+      status: found ? 200 : 404,
+      statusText: found ? 'OK' : 'Not Found',
+      text: async () => (typeof body === 'string' ? body : JSON.stringify(body ?? { errors: [] }))
+    };
+  });
+}
+
+const cloud = () => new BitbucketAdapter({ token: 'dev:app-password', workspace: 'acme', repoSlug: 'api' });
+const dataCenter = () => new BitbucketAdapter({
+  token: 'http-access-token',
+  workspace: 'ACME',
+  repoSlug: 'api',
+  baseUrl: 'https://git.example.com/bitbucket/'
+});
+
+beforeEach(() => {
+  requests = [];
+  mockFetch.mockReset();
+});
+
+describe('BitbucketAdapter', () => {
+  it('uses Basic auth for username:password tokens and Bearer otherwise', async () => {
+    serve({ [`GET ${CLOUD}/pullrequests/3/diff`]: '', [`GET ${DC}/pull-requests/3.diff`]: '' });
+
+    await cloud().getDiff(3);
+    await dataCenter().getDiff(3);
+
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe(`Basic ${Buffer.from('dev:app-password').toString('base64')}`);
+    expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe('Bearer http-access-token');
+  });
+
+  it('parses the raw PR diff, following renames and deletions', async () => {
+    serve({ [`GET ${CLOUD}/pullrequests/3/diff`]: rawDiff });
+
+    const diff = await cloud().getDiff(3);
+
+    expect(diff).toMatchObject({ additions: 2, deletions: 2, changedFiles: 2 });
+    expect(diff.files[0]).toMatchObject({ path: 'src/account.ts', oldPath: 'src/user.ts', status: 'renamed' });
+    expect(diff.files[0].hunks[0]).toMatchObject({ oldStart: 10, oldLines: 3, newStart: 10, newLines: 4 });
+    expect(diff.files[1]).toMatchObject({ path: 'old.txt', oldPath: undefined, status: 'deleted' });
+  });
+
+  it('posts inline comments and verdicts in each flavor\'s format', async () => {
+    serve({
+      [`POST ${CLOUD}/pullrequests/3/comments`]: { id: 11 },
+      [`POST ${CLOUD}/pullrequests/3/request-changes`]: {},
+      [`POST ${DC}/pull-requests/3/comments`]: { id: 12, version: 0 },
+      [`POST ${DC}/pull-requests/3/approve`]: {}
+    });
+    const comment = { path: '/src/account.ts', line: 12, body: 'Validate it', severity: 'warning' as const };
+
+    await cloud().submitReview(3, { summary: 'Needs work', verdict: 'request_changes', comments: [comment] });
+    await dataCenter().submitReview(3, { summary: 'Ship it', verdict: 'approve', comments: [comment] });
+
+    const [cloudInline, cloudSummary, cloudVerdict, dcInline, dcSummary, dcVerdict] = requests;
+    expect(cloudInline.body).toMatchObject({ inline: { path: 'src/account.ts', to: 12 } });
+    expect(cloudInline.body.content.raw).toContain('Validate it');
+    expect(cloudSummary.body).toEqual({ content: { raw: expect.stringContaining('Needs work') } });
+    expect(cloudVerdict).toMatchObject({ method: 'POST', url: `${CLOUD}/pullrequests/3/request-changes` });
+    expect(dcInline.body.anchor).toEqual({ path: 'src/account.ts', line: 12, lineType: 'ADDED', fileType: 'TO', diffType: 'EFFECTIVE' });
+    expect(dcSummary.body).toEqual({ text: expect.stringContaining('Ship it') });
+    expect(dcVerdict).toMatchObject({ method: 'POST', url: `${DC}/pull-requests/3/approve` });
+  });
+
+  it('follows Cloud `next` links when listing comments', async () => {
+    const comment = (id: number, extra: object = {}) => ({
+      id, content: { raw: `c${id}` }, user: { display_name: 'Dev', nickname: 'dev' },
+      created_on: '2026-01-01T00:00:00Z', updated_on: '2026-01-01T00:00:00Z', ...extra
+    });
+    serve({
+      [`GET ${CLOUD}/pullrequests/3/comments?pagelen=50`]: {
+        values: [comment(1, { inline: { path: 'a.ts', to: 4, from: null } })],
+        next: `${CLOUD}/pullrequests/3/comments?pagelen=50&page=2`
+      },
+      [`GET ${CLOUD}/pullrequests/3/comments?pagelen=50&page=2`]: {
+        values: [comment(2, { inline: { path: 'a.ts', to: 4, from: null }, parent: { id: 1 } }), comment(3), comment(4, { deleted: true })]
+      }
+    });
+
+    const adapter = cloud();
+    const inline = await adapter.getReviewComments(3);
+    const general = await adapter.getPRComments(3);
+
+    expect(inline.map(c => [c.id, c.line, c.inReplyToId])).toEqual([[1, 4, null], [2, 4, 1]]);
+    expect(general.map(c => c.id)).toEqual([3]);
+  });
+
+  it('reads Data Center comments from activities, and sends the version when editing', async () => {
+    const reply = { id: 22, version: 0, text: 'Why?', author: { name: 'dev', displayName: 'Dev' }, createdDate: 0, updatedDate: 0 };
+    serve({
+      [`GET ${DC}/pull-requests/3/activities?limit=100&start=0`]: {
+        values: [{ action: 'COMMENTED', comment: { ...reply, id: 21, text: 'Fix this', comments: [reply] }, commentAnchor: { path: 'a.ts', line: 4 } }],
+        isLastPage: false,
+        nextPageStart: 1
+      },
+      [`GET ${DC}/pull-requests/3/activities?limit=100&start=1`]: { values: [{ action: 'APPROVED' }], isLastPage: true },
+      [`GET ${DC}/pull-requests/3`]: { links: { self: [{ href: 'https://git.example.com/bitbucket/projects/ACME/repos/api/pull-requests/3' }] } },
+      [`GET ${DC}/pull-requests/3/comments/21`]: { id: 21, version: 4 },
+      [`PUT ${DC}/pull-requests/3/comments/21`]: { id: 21, version: 5 }
+    });
+
+    const adapter = dataCenter();
+    const comments = await adapter.getReviewComments(3);
+    await adapter.updateReviewComment(3, 21, 'Fixed');
+
+    expect(comments.map(c => [c.id, c.path, c.line, c.inReplyToId])).toEqual([[21, 'a.ts', 4, null], [22, 'a.ts', 4, 21]]);
+    expect(comments[1].htmlUrl).toBe('https://git.example.com/bitbucket/projects/ACME/repos/api/pull-requests/3?commentId=22');
+    expect(requests[requests.length - 1]).toMatchObject({ method: 'PUT', body: { text: 'Fixed', version: 4 } });
+  });
+
+  it('surfaces the status of failed requests', async () => {
+    serve({});
+
+    await expect(cloud().getDiff(9)).rejects.toMatchObject({
+      status: 404,
+      message: expect.stringContaining(`Bitbucket API GET ${CLOUD}/pullrequests/9/diff failed: 404 Not Found`)
+    });
+  });
+});
@@ -0,0 +1,126 @@
+// Tests for chunked (map-reduce) review
+
+import { groupRelatedFiles, mergeChunkComments, planChunks } from '../src/review/chunking';
+import { BaseLLMBackend } from '../src/llm/base';
+import { FileDiff, ReviewContext } from '../src/types';
+
+function fileDiff(path: string, lines: number): FileDiff {
+  const content = Array.from({ length: lines }, (_, i) => `+const value${i} = ${i};`).join('\n');
+  return {
+    path,
+    status: 'modified',
+    additions: lines,
+    deletions: 0,
+    hunks: [{ oldStart: 1, oldLines: 0, newStart: 1, newLines: lines, content }],
+  };
+}
+
+function makeContext(files: FileDiff[], fileLinks: Array<[string, string]> = []): ReviewContext {
+  return {
+    pr: { title: 'Big change', description: '', author: { username: 'dev' }, sourceBranch: 'feature', targetBranch: 'main' },
+    diff: { files, additions: 0, deletions: 0, changedFiles: files.length },
+    files: [],
+    tickets: [],
+    skills: [],
+    config: { maxDiffSize: 1_000_000, focusAreas: [], ignorePaths: [] },
+    graphContext: {
+      changedSymbols: [],
+      callers: [],
+      callees: [],
+      blastRadius: { directCallers: [], transitiveCallers: [], affectedFiles: [], riskScore: 0 },
+      semanticNeighbors: [],
+      fileLinks,
+    },
+  } as unknown as ReviewContext;
+}
+
+const paths = (context: ReviewContext) => context.diff.files.map(f => f.path);
+
+describe('groupRelatedFiles', () => {
+  it('groups linked files where the first of them appears', () => {
+    const files = ['a.ts', 'b.ts', 'c.ts', 'd.ts'].map(p => fileDiff(p, 1));
+    const groups = groupRelatedFiles(files, [['d.ts', 'a.ts'], ['/c.ts', 'x.ts']]);
+    expect(groups.map(g => g.map(f => f.path))).toEqual([['a.ts', 'd.ts'], ['b.ts'], ['c.ts']]);
+  });
+});
+
+describe('planChunks', () => {
+  it('returns the context unchanged when the diff fits', () => {
+    const context = makeContext([fileDiff('a.ts', 10)]);
+    expect(planChunks(context, { contextWindow: 32_768 })).toEqual({ chunks: [context], skipped: [] });
+  });
+
+  it('splits a large diff and keeps linked files in one chunk', () => {
+    const files = ['a.ts', 'b.ts', 'c.ts', 'd.ts'].map(p => fileDiff(p, 500));
+    const { chunks, skipped } = planChunks(makeContext(files, [['a.ts', 'd.ts']]), { contextWindow: 16_000 });
+
+    expect(chunks.map(paths)).toEqual([['a.ts', 'd.ts'], ['b.ts', 'c.ts']]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('stops at maxChunks and reports the rest as skipped', () => {
+    const files = ['a.ts', 'b.ts', 'c.ts'].map(p => fileDiff(p, 700));
+    const { chunks, skipped } = planChunks(makeContext(files), { contextWindow: 16_000, maxChunks: 2 });
+    expect(chunks.map(paths)).toEqual([['a.ts'], ['b.ts']]);
+    expect(skipped).toEqual(['c.ts']);
+  });
+});
+
+describe('mergeChunkComments', () => {
+  it('keeps the most confident comment per line', () => {
+    const merged = mergeChunkComments([
+      { path: '/a.ts', line: 3, body: 'weak', severity: 'info', confidence: 0.7 },
+      { path: 'a.ts', line: 3, body: 'strong', severity: 'error', confidence: 0.9 },
+      { path: 'a.ts', line: 4, body: 'other', severity: 'info' },
+    ]);
+    expect(merged.map(c => c.body)).toEqual(['strong', 'other']);
+  });
+});
+
+describe('BaseLLMBackend.generateChunkedReview', () => {
+  class ScriptedBackend extends BaseLLMBackend {
+    readonly name = 'scripted';
+    prompts: string[] = [];
+    constructor(private responses: string[]) { super(); }
+    async generate(prompt: string): Promise<string> {
+      this.prompts.push(prompt);
+      return this.responses.shift() ?? '';
+    }
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reviews each chunk and merges them in a reduce pass', async () => {
+    const context = makeContext([fileDiff('a.ts', 2), fileDiff('b.ts', 2)]);
+    const chunks = [makeContext([fileDiff('a.ts', 2)]), makeContext([fileDiff('b.ts', 2)])];
+    const llm = new ScriptedBackend([
+      'SUMMARY: Part one.\n[File: a.ts, Line: 1]\nNull check missing. [Confidence: 0.9]\nVERDICT: request_changes',
+      'SUMMARY: Part two looks fine.\nVERDICT: approve',
+      'SUMMARY: Adds values; a.ts misses a null check.\nVERDICT: request_changes',
+    ]);
+
+    const result = await llm.generateChunkedReview(context, chunks, ['c.ts']);
+
+    expect(llm.prompts).toHaveLength(3);
+    expect(llm.prompts[2]).toContain('### Part 1 of 2 (1 files: a.ts)');
+    expect(llm.prompts[2]).toContain('- [info] a.ts:1 — Null check missing.');
+    expect(result.summary).toContain('Adds values; a.ts misses a null check.');
+    expect(result.summary).toContain('1 changed file (`c.ts`)');
+    expect(result.verdict).toBe('request_changes');
+    expect(result.comments).toHaveLength(1);
+  });
+
+  it('falls back to the strictest part verdict when the reduce response has none', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const chunks = [makeContext([fileDiff('a.ts', 2)]), makeContext([fileDiff('b.ts', 2)])];
+    const llm = new ScriptedBackend(['SUMMARY: a\nVERDICT: request_changes', 'SUMMARY: b\nVERDICT: approve', 'Merged.']);
+    const result = await llm.generateChunkedReview(makeContext([]), chunks);
+    expect(result.verdict).toBe('request_changes');
+  });
+});
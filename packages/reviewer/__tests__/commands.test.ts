@@ -0,0 +1,90 @@
+// Tests for PR comment commands and the ask prompt
+
+import { isIgnoredPath, parseCommand } from '../src/review/commands';
+import { buildAskPrompt } from '../src/llm/prompt';
+import { ReviewContext } from '../src/types';
+
+describe('parseCommand', () => {
+  it('reads commands without arguments', () => {
+    expect(parseCommand('/agnus review')).toEqual({ name: 'review' });
+    expect(parseCommand('Pushed a fix.\n\n  /agnus full-review  ')).toEqual({ name: 'full-review' });
+    expect(parseCommand('/AGNUS Describe')).toEqual({ name: 'describe' });
+  });
+
+  it('takes the rest of the comment as the question', () => {
+    expect(parseCommand('/agnus ask what else calls `charge()`?\nIs the retry safe?')).toEqual({
+      name: 'ask',
+      question: 'what else calls `charge()`?\nIs the retry safe?',
+    });
+  });
+
+  it('reads the path to ignore', () => {
+    expect(parseCommand('/agnus ignore `/generated/`')).toEqual({ name: 'ignore', path: 'generated/' });
+  });
+
+  it('ignores unknown commands, missing arguments and mentions mid-line', () => {
+    expect(parseCommand('/agnus deploy')).toBeNull();
+    expect(parseCommand('/agnus ask')).toBeNull();
+    expect(parseCommand('/agnus ignore')).toBeNull();
+    expect(parseCommand('You can type /agnus review to re-run it')).toBeNull();
+  });
+});
+
+describe('isIgnoredPath', () => {
+  it('matches a path and everything under it', () => {
+    expect(isIgnoredPath('generated/api.ts', ['generated'])).toBe(true);
+    expect(isIgnoredPath('/src/legacy.ts', ['src/legacy.ts'])).toBe(true);
+    expect(isIgnoredPath('generated-docs/a.md', ['generated'])).toBe(false);
+  });
+
+  it('matches globs, with slash-free patterns matching in any directory', () => {
+    expect(isIgnoredPath('docs/guide/intro.md', ['docs/**'])).toBe(true);
+    expect(isIgnoredPath('src/__snapshots__/a.test.ts.snap', ['*.snap'])).toBe(true);
+    expect(isIgnoredPath('src/a/b/fixture.json', ['src/**/fixture.json'])).toBe(true);
+    expect(isIgnoredPath('src/fixture.json', ['src/**/fixture.json'])).toBe(true);
+    expect(isIgnoredPath('src/index.ts', ['docs/**', '*.snap'])).toBe(false);
+  });
+});
+
+describe('buildAskPrompt', () => {
+  const symbol = (qualifiedName: string, filePath: string) => ({
+    id: `${filePath}:${qualifiedName}`,
+    filePath,
+    name: qualifiedName.split('.').pop()!,
+    qualifiedName,
+    kind: 'method' as const,
+    signature: `${qualifiedName}()`,
+    bodyRange: [1, 5] as [number, number],
+    repoId: 'repo',
+  });
+
+  it('lists callers and callees of the symbols the question names', () => {
+    const context = {
+      pr: { title: 'Retry charges', description: '', author: { username: 'dev' }, sourceBranch: 'retry', targetBranch: 'main' },
+      diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+      files: [],
+      tickets: [],
+      skills: [],
+      config: { maxDiffSize: 30000, focusAreas: [], ignorePaths: [] },
+      graphContext: {
+        changedSymbols: [],
+        callers: [],
+        callees: [],
+        blastRadius: { directCallers: [], transitiveCallers: [], affectedFiles: [], riskScore: 0 },
+        semanticNeighbors: [],
+        mentionedSymbols: [{
+          symbol: symbol('BillingService.charge', 'src/billing.ts'),
+          callers: [symbol('handleCheckout', 'src/api.ts')],
+          callees: [],
+        }],
+      },
+    } as unknown as ReviewContext;
+
+    const prompt = buildAskPrompt(context, 'Is this safe for BillingService.charge?');
+
+    expect(prompt).toContain('### `BillingService.charge` (named in the question)');
+    expect(prompt).toContain('- Called by: `handleCheckout` in `src/api.ts`');
+    expect(prompt).toContain('- Calls: nothing in the indexed codebase');
+    expect(prompt).toContain('## Question\nIs this safe for BillingService.charge?');
+  });
+});
@@ -0,0 +1,82 @@
+// Tests for provider failover and retry
+
+import { APICallError } from 'ai';
+import { isTransientError, ProviderChainError, retryDelay, withFailover } from '../src/llm/failover';
+import { parseFallbacks } from '../src/llm/unified';
+
+function apiError(statusCode: number, headers: Record<string, string> = {}): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'http://llm',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders: headers,
+  });
+}
+
+const providers = [{ label: 'ollama/qwen' }, { label: 'openai/gpt-4o-mini' }];
+
+describe('withFailover', () => {
+  it('retries transient errors with backoff before moving on', async () => {
+    const delays: number[] = [];
+    const calls: string[] = [];
+    const { value, provider } = await withFailover(providers, async p => {
+      calls.push(p.label);
+      if (p.label === 'ollama/qwen') throw apiError(503);
+      return 'review';
+    }, { maxRetries: 2, baseDelayMs: 100 }, async ms => { delays.push(ms); });
+
+    expect(value).toBe('review');
+    expect(provider.label).toBe('openai/gpt-4o-mini');
+    expect(calls).toEqual(['ollama/qwen', 'ollama/qwen', 'ollama/qwen', 'openai/gpt-4o-mini']);
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('fails over at once on errors that a retry will not fix', async () => {
+    const calls: string[] = [];
+    await withFailover(providers, async p => {
+      calls.push(p.label);
+      if (p.label === 'ollama/qwen') throw apiError(401);
+      return 'review';
+    }, {}, async () => {});
+
+    expect(calls).toEqual(['ollama/qwen', 'openai/gpt-4o-mini']);
+  });
+
+  it('reports every provider when the whole chain fails', async () => {
+    const failing = withFailover(providers, async () => { throw apiError(400); }, {}, async () => {});
+    await expect(failing).rejects.toBeInstanceOf(ProviderChainError);
+    await expect(failing).rejects.toThrow('ollama/qwen (HTTP 400); openai/gpt-4o-mini (HTTP 400)');
+  });
+});
+
+describe('retry classification', () => {
+  it('treats rate limits, server errors and timeouts as transient', () => {
+    expect(isTransientError(apiError(429))).toBe(true);
+    expect(isTransientError(apiError(502))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toBe(true);
+    expect(isTransientError(apiError(404))).toBe(false);
+  });
+
+  it('honours Retry-After up to the cap', () => {
+    expect(retryDelay(apiError(429, { 'retry-after': '3' }), 0)).toBe(3000);
+    expect(retryDelay(apiError(429, { 'retry-after': '600' }), 0)).toBe(30_000);
+    expect(retryDelay(apiError(500), 2, { baseDelayMs: 500 })).toBe(2000);
+  });
+});
+
+describe('parseFallbacks', () => {
+  it('splits provider from model at the first colon only', () => {
+    expect(parseFallbacks(' openai:gpt-4o-mini , ollama:qwen3.5:cloud ')).toEqual([
+      { provider: 'openai', model: 'gpt-4o-mini' },
+      { provider: 'ollama', model: 'qwen3.5:cloud' },
+    ]);
+    expect(parseFallbacks(undefined)).toEqual([]);
+    expect(() => parseFallbacks('gpt-4o')).toThrow("LLM_FALLBACKS entry 'gpt-4o' must be provider:model");
+  });
+
+  it('rejects providers it does not know', () => {
+    expect(() => parseFallbacks('openai:gpt-4o-mini,anthropic:claude-sonnet-4-5'))
+      .toThrow("LLM_FALLBACKS entry 'anthropic:claude-sonnet-4-5' names unknown provider 'anthropic'");
+  });
+});
@@ -0,0 +1,135 @@
+// Tests for the GitLab adapter's requests and how it reads GitLab's responses
+
+import fetch from 'node-fetch';
+import { GitLabAdapter } from '../src/adapters/vcs/gitlab';
+
+jest.mock('node-fetch', () => ({ __esModule: true, default: jest.fn() }));
+
+const mockFetch = fetch as unknown as jest.Mock;
+const API = 'https://gitlab.example.com/api/v4/projects/acme%2Fapi';
+
+const mr = {
+  id: 901,
+  iid: 7,
+  title: 'Rename the user model',
+  description: 'Fixes #12 and PROJ-3',
+  author: { id: 3, username: 'dev' },
+  source_branch: 'rename',
+  target_branch: 'main',
+  web_url: 'https://gitlab.example.com/acme/api/-/merge_requests/7',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-02T00:00:00Z',
+  state: 'opened',
+  sha: 'head1',
+  labels: [],
+  diff_refs: { base_sha: 'base1', start_sha: 'start1', head_sha: 'head1' }
+};
+
+const diffs = [
+  {
+    old_path: 'src/user.ts',
+    new_path: 'src/account.ts',
+    new_file: false,
+    renamed_file: true,
+    deleted_file: false,
+    diff: '@@ -10,3 +10,4 @@ export class User {\n   id: string;\n-  name: string;\n+  displayName: string;\n+  email: string;\n }\n'
+  },
+  { old_path: 'README.md', new_path: 'README.md', new_file: true, renamed_file: false, deleted_file: false, diff: '@@ -0,0 +1 @@\n+# API\n' }
+];
+
+let requests: Array<{ method: string; url: string; body?: any }>;
+
+/** Serve `routes` by "METHOD path" (path relative to the project API, query dropped) */
+function serve(routes: Record<string, unknown>, headers: Record<string, string> = {}): void {
+  mockFetch.mockImplementation(async (url: string, init: any = {}) => {
+    const method = init.method ?? 'GET';
+    requests.push({ method, url, body: init.body ? JSON.parse(init.body) : undefined });
+    const key = `${method} ${url.replace(API, '').split('?')[0]}`;
+    const found = key in routes;
+    return {
+      ok: found,
+      status: found ? 200 : 404,
+      statusText: found ? 'OK' : 'Not Found',
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      json: async () => routes[key],
+      text: async () => (found ? JSON.stringify(routes[key]) : '{"message":"404 Not found"}')
+    };
+  });
+}
+
+const adapter = () => new GitLabAdapter({ token: 'glpat', projectPath: '/acme/api/', baseUrl: 'https://gitlab.example.com/' });
+
+beforeEach(() => {
+  requests = [];
+  mockFetch.mockReset();
+});
+
+describe('GitLabAdapter', () => {
+  it('reads a merge request, authenticating with the private token', async () => {
+    serve({ 'GET /merge_requests/7': mr });
+
+    const pr = await adapter().getPR(7);
+
+    expect(pr).toMatchObject({ id: '901', number: 7, title: 'Rename the user model', sourceBranch: 'rename', targetBranch: 'main' });
+    expect(mockFetch.mock.calls[0][1].headers['PRIVATE-TOKEN']).toBe('glpat');
+  });
+
+  it('parses MR diffs into files with their status, old path and hunks', async () => {
+    serve({ 'GET /merge_requests/7/diffs': diffs });
+
+    const diff = await adapter().getDiff(7);
+
+    expect(requests[0].url).toBe(`${API}/merge_requests/7/diffs?per_page=100&page=1`);
+    expect(diff).toMatchObject({ additions: 3, deletions: 1, changedFiles: 2 });
+    expect(diff.files[0]).toMatchObject({ path: 'src/account.ts', oldPath: 'src/user.ts', status: 'renamed' });
+    expect(diff.files[0].hunks[0]).toMatchObject({ oldStart: 10, oldLines: 3, newStart: 10, newLines: 4 });
+    expect(diff.files[1]).toMatchObject({ path: 'README.md', oldPath: undefined, status: 'added' });
+  });
+
+  it('anchors review comments with the renamed file\'s old path, and both lines on unchanged code', async () => {
+    serve({ 'GET /merge_requests/7': mr, 'GET /merge_requests/7/diffs': diffs, 'POST /merge_requests/7/discussions': {}, 'POST /merge_requests/7/notes': {} });
+
+    await adapter().submitReview(7, {
+      summary: 'Looks fine',
+      verdict: 'comment',
+      comments: [
+        { path: '/src/account.ts', line: 12, body: 'Validate it', severity: 'warning' },
+        { path: 'src/account.ts', line: 10, body: 'Document it', severity: 'info' }
+      ]
+    });
+
+    const positions = requests.filter(r => r.url.endsWith('/discussions')).map(r => r.body.position);
+    expect(positions).toEqual([
+      { position_type: 'text', base_sha: 'base1', start_sha: 'start1', head_sha: 'head1', old_path: 'src/user.ts', new_path: 'src/account.ts', new_line: 12 },
+      { position_type: 'text', base_sha: 'base1', start_sha: 'start1', head_sha: 'head1', old_path: 'src/user.ts', new_path: 'src/account.ts', new_line: 10, old_line: 10 }
+    ]);
+    expect(requests.find(r => r.url.endsWith('/notes'))?.body.body).toContain('Looks fine');
+  });
+
+  it('keeps posting the review when GitLab rejects a comment\'s position', async () => {
+    serve({ 'GET /merge_requests/7': mr, 'GET /merge_requests/7/diffs': diffs, 'POST /merge_requests/7/notes': {}, 'POST /merge_requests/7/approve': {} });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await adapter().submitReview(7, {
+      summary: 'Ship it',
+      verdict: 'approve',
+      comments: [{ path: 'src/account.ts', line: 99, body: 'Nit', severity: 'info' }]
+    });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping inline comment at src/account.ts:99'));
+    expect(requests.map(r => `${r.method} ${r.url.replace(API, '')}`)).toEqual(expect.arrayContaining([
+      'POST /merge_requests/7/notes',
+      'POST /merge_requests/7/approve'
+    ]));
+    warn.mockRestore();
+  });
+
+  it('surfaces the status of failed requests', async () => {
+    serve({});
+
+    await expect(adapter().getPR(8)).rejects.toMatchObject({
+      status: 404,
+      message: expect.stringContaining('GitLab API GET /api/v4/projects/acme%2Fapi/merge_requests/8 failed: 404 Not Found')
+    });
+  });
+});
@@ -0,0 +1,174 @@
+// Tests for the LLM response cache
+
+import { BaseLLMBackend } from '../src/llm/base';
+import { CacheKey, LLMResponseCache } from '../src/llm/cache';
+import { UnifiedLLMBackend } from '../src/llm/unified';
+import { ReviewContext } from '../src/types';
+
+const context = {
+  pr: { title: 'Fix login', description: '', author: { username: 'dev' }, sourceBranch: 'feature', targetBranch: 'main' },
+  diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+  files: [],
+  tickets: [],
+  skills: [],
+  config: { maxDiffSize: 30000, focusAreas: [], ignorePaths: [] },
+} as unknown as ReviewContext;
+
+class CountingBackend extends BaseLLMBackend {
+  readonly name = 'counting';
+  calls = 0;
+
+  async generate(): Promise<string> {
+    this.calls++;
+    return 'SUMMARY: Looks good.\n\nVERDICT: approve';
+  }
+}
+
+class MapCache implements LLMResponseCache {
+  entries = new Map<string, string>();
+  keys: CacheKey[] = [];
+
+  async get(key: CacheKey): Promise<string | null> {
+    return this.entries.get(key.promptHash) ?? null;
+  }
+
+  async set(key: CacheKey, response: string): Promise<void> {
+    this.keys.push(key);
+    this.entries.set(key.promptHash, response);
+  }
+}
+
+describe('BaseLLMBackend response cache', () => {
+  it('answers a repeated review from the cache and marks it cached', async () => {
+    const backend = new CountingBackend();
+    backend.cache = new MapCache();
+
+    const first = await backend.generateReview(context);
+    const second = await backend.generateReview(context);
+
+    expect(backend.calls).toBe(1);
+    expect(first.cached).toBe(false);
+    expect(second).toEqual({ ...first, cached: true });
+  });
+
+  it('keys entries by provider and prompt', async () => {
+    const backend = new CountingBackend();
+    const cache = new MapCache();
+    backend.cache = cache;
+
+    await backend.generateReview(context);
+    await backend.generateReview({ ...context, pr: { ...context.pr, title: 'Fix logout' } });
+
+    expect(backend.calls).toBe(2);
+    expect(cache.keys.map(k => k.provider)).toEqual(['counting', 'counting']);
+    expect(cache.keys[0].promptHash).not.toBe(cache.keys[1].promptHash);
+  });
+
+  it('still reviews when the cache is unavailable', async () => {
+    const backend = new CountingBackend();
+    backend.cache = {
+      get: async () => { throw new Error('connection refused'); },
+      set: async () => { throw new Error('connection refused'); },
+    };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await backend.generateReview(context);
+
+    expect(result.verdict).toBe('approve');
+    expect(result.cached).toBe(false);
+    expect(warn).toHaveBeenCalledWith('[AgnusAI] LLM cache read failed: connection refused');
+    warn.mockRestore();
+  });
+
+  it('caches a JSON review only once it parses, so a retry can recover', async () => {
+    const valid = JSON.stringify({ summary: 'Looks good.', comments: [], verdict: 'approve' });
+    const responses = ['not json', 'still not json', valid, valid];
+    const backend = new (class extends CountingBackend {
+      async generate(): Promise<string> {
+        this.calls++;
+        return responses.shift()!;
+      }
+    })();
+    const cache = new MapCache();
+    backend.cache = cache;
+    backend.outputFormat = 'json';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(backend.generateReview(context)).rejects.toThrow();
+    expect(cache.keys).toEqual([]);
+
+    const retried = await backend.generateReview(context);
+    const replayed = await backend.generateReview(context);
+
+    expect(retried).toMatchObject({ verdict: 'approve', cached: false });
+    expect(replayed).toMatchObject({ verdict: 'approve', cached: true });
+    expect(backend.calls).toBe(3);
+    warn.mockRestore();
+  });
+});
+
+describe('UnifiedLLMBackend response cache', () => {
+  const realFetch = global.fetch;
+
+  /** Chat completions answered by `ok` hosts; others fail with a 400, which fails over at once */
+  function serve(ok: string[]): void {
+    global.fetch = jest.fn(async (url: any, init?: any) => {
+      if (!ok.includes(new URL(String(url)).host)) {
+        return new Response('{"error":"bad request"}', { status: 400, headers: { 'content-type': 'application/json' } });
+      }
+      const { model } = JSON.parse(init.body);
+      return new Response(JSON.stringify({
+        id: 'chatcmpl-1', object: 'chat.completion', created: 0, model,
+        choices: [{ index: 0, message: { role: 'assistant', content: `SUMMARY: From ${model}.\n\nVERDICT: approve` }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+      }), { status: 200, headers: { 'content-type': 'application/json' } });
+    }) as typeof fetch;
+  }
+
+  const backend = (temperature?: number) => new UnifiedLLMBackend({
+    provider: 'ollama',
+    model: 'qwen3.5',
+    baseURL: 'http://primary:11434/v1',
+    temperature,
+    fallbacks: [{ provider: 'ollama', model: 'llama3', baseURL: 'http://fallback:11434/v1' }],
+    retry: { maxRetries: 0 },
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  it('does not file a fallback\'s answer under the primary provider', async () => {
+    const cache = new MapCache();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    serve(['fallback:11434']);
+    const failedOver = backend();
+    failedOver.cache = cache;
+    expect((await failedOver.generateReview(context)).summary).toBe('From llama3.');
+    expect(cache.keys).toEqual([]);
+
+    serve(['primary:11434', 'fallback:11434']);
+    const recovered = backend();
+    recovered.cache = cache;
+    const review = await recovered.generateReview(context);
+
+    expect(review).toMatchObject({ summary: 'From qwen3.5.', cached: false });
+    expect(cache.keys.map(k => [k.provider, k.model])).toEqual([['ollama', 'qwen3.5']]);
+    warn.mockRestore();
+  });
+
+  it('keys entries by temperature', async () => {
+    const cache = new MapCache();
+    serve(['primary:11434']);
+
+    for (const temperature of [0.1, 0.7]) {
+      const b = backend(temperature);
+      b.cache = cache;
+      await b.generateReview(context);
+    }
+
+    expect(cache.keys).toHaveLength(2);
+    expect(cache.keys[0].promptHash).not.toBe(cache.keys[1].promptHash);
+  });
+});
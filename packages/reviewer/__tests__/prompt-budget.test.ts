@@ -0,0 +1,116 @@
+// Tests for token-budgeted prompt assembly
+
+import { allocateBudget, contextWindowFor, describeOmitted, estimateTokens } from '../src/llm/budget';
+import { assembleReviewPrompt } from '../src/llm/prompt';
+import { BaseLLMBackend } from '../src/llm/base';
+import { ReviewContext } from '../src/types';
+
+const item = (label: string, tokens: number) => ({ label, text: 'x'.repeat(tokens * 4) });
+
+function fileDiff(path: string, lines: number) {
+  const content = Array.from({ length: lines }, (_, i) => `+const value${i} = ${i};`).join('\n');
+  return {
+    path,
+    status: 'modified' as const,
+    additions: lines,
+    deletions: 0,
+    hunks: [{ oldStart: 1, oldLines: 0, newStart: 1, newLines: lines, content }],
+  };
+}
+
+function makeContext(overrides: Partial<ReviewContext> = {}): ReviewContext {
+  return {
+    pr: { title: 'Change', description: '', author: { username: 'dev' }, sourceBranch: 'feature', targetBranch: 'main' },
+    diff: { files: [fileDiff('src/small.ts', 5), fileDiff('src/huge.ts', 4000)], additions: 0, deletions: 0, changedFiles: 2 },
+    files: [],
+    tickets: [],
+    skills: [],
+    config: { maxDiffSize: 1_000_000, focusAreas: [], ignorePaths: [] },
+    ...overrides,
+  } as unknown as ReviewContext;
+}
+
+describe('allocateBudget', () => {
+  it('fills sections in priority order and reports what does not fit', () => {
+    const diff = [item('a.ts', 500), item('b.ts', 300)];
+    const skills = [item('security', 50)];
+    const { kept, omitted } = allocateBudget({ diff, skills }, 700);
+
+    expect(kept.has(diff[0])).toBe(true);
+    expect(kept.has(skills[0])).toBe(true);
+    expect(omitted).toEqual([{ section: 'diff', items: ['b.ts'] }]);
+  });
+
+  it('keeps smaller items after one that does not fit', () => {
+    const diff = [item('big.ts', 900), item('small.ts', 10)];
+    const { kept, omitted } = allocateBudget({ diff }, 100);
+    expect(kept.has(diff[1])).toBe(true);
+    expect(omitted).toEqual([{ section: 'diff', items: ['big.ts'] }]);
+  });
+
+  it('guarantees lower-priority sections their share', () => {
+    const diff = [item('a.ts', 400), item('b.ts', 400), item('c.ts', 400)];
+    const graph = [item('Known callers of changed symbols', 100)];
+    const { kept } = allocateBudget({ diff, graph }, 1000);
+    expect(kept.has(graph[0])).toBe(true);
+  });
+});
+
+describe('contextWindowFor', () => {
+  it('looks up known models and falls back to the default', () => {
+    expect(contextWindowFor('claude-sonnet-4-6')).toBe(200_000);
+    expect(contextWindowFor('gpt-4o-mini')).toBe(128_000);
+    expect(contextWindowFor('my-finetune')).toBe(32_768);
+  });
+});
+
+describe('assembleReviewPrompt', () => {
+  it('fits the prompt to the context window and names the dropped files', () => {
+    const { prompt, omitted } = assembleReviewPrompt(makeContext(), 'text', 12_000);
+
+    expect(estimateTokens(prompt)).toBeLessThan(12_000);
+    expect(prompt).toContain('+++ src/small.ts');
+    expect(prompt).not.toContain('+++ src/huge.ts');
+    expect(prompt).toContain('1 changed files are not shown: src/huge.ts');
+    expect(omitted).toEqual([{ section: 'diff', items: ['src/huge.ts'] }]);
+  });
+
+  it('includes linked tickets and high-priority skills first', () => {
+    const context = makeContext({
+      diff: { files: [fileDiff('src/small.ts', 5)], additions: 5, deletions: 0, changedFiles: 1 },
+      tickets: [{ id: '1', key: 'PROJ-7', title: 'Validate input', description: 'Reject empty names', status: 'open', type: 'story', labels: [] }],
+      skills: [
+        { name: 'style', description: '', triggers: [], priority: 'low', content: 'Style skill' },
+        { name: 'security', description: '', triggers: [], priority: 'high', content: 'Security skill' },
+      ],
+    });
+    const { prompt, omitted } = assembleReviewPrompt(context);
+
+    expect(omitted).toEqual([]);
+    expect(prompt).toContain('### PROJ-7: Validate input');
+    expect(prompt.indexOf('Security skill')).toBeLessThan(prompt.indexOf('Style skill'));
+  });
+
+  it('applies maxDiffSize as a character cap', () => {
+    const context = makeContext({ config: { maxDiffSize: 1000, focusAreas: [], ignorePaths: [] } });
+    const { omitted } = assembleReviewPrompt(context, 'text', 1_000_000);
+    expect(omitted).toEqual([{ section: 'diff', items: ['src/huge.ts'] }]);
+  });
+});
+
+describe('BaseLLMBackend review summary', () => {
+  class StubBackend extends BaseLLMBackend {
+    readonly name = 'stub';
+    async generate(): Promise<string> {
+      return 'SUMMARY: Looks fine.\n\nVERDICT: approve';
+    }
+  }
+
+  it('notes omitted content in the summary', async () => {
+    const llm = new StubBackend();
+    llm.contextWindow = 12_000;
+    const result = await llm.generateReview(makeContext());
+    expect(result.summary).toContain('Looks fine.');
+    expect(result.summary).toContain(describeOmitted([{ section: 'diff', items: ['src/huge.ts'] }]));
+  });
+});
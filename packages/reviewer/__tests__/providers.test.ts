@@ -0,0 +1,190 @@
+// Tests for the native Anthropic, Gemini and Bedrock request paths
+
+import { createBackendFromEnv } from '../src/llm/unified';
+import { splitSystemPrompt } from '../src/llm/prompt';
+import { estimateCost, DEFAULT_PRICES } from '../src/llm/usage';
+import { ReviewContext } from '../src/types';
+
+const context = {} as ReviewContext;
+
+const prompt = `You are an expert code reviewer.
+
+## PR Information
+Title: Fix login
+
+## Output Format
+VERDICT: approve|request_changes|comment`;
+
+const realFetch = global.fetch;
+let requests: Array<{ url: string; body: any }>;
+
+function respondWith(body: unknown): void {
+  requests = [];
+  global.fetch = jest.fn(async (url: any, init?: any) => {
+    requests.push({ url: String(url), body: JSON.parse(init.body) });
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+  }) as typeof fetch;
+}
+
+afterEach(() => {
+  global.fetch = realFetch;
+});
+
+describe('splitSystemPrompt', () => {
+  it('moves the role line and output format to the system message', () => {
+    expect(splitSystemPrompt(prompt)).toEqual({
+      system: 'You are an expert code reviewer.\n\n## Output Format\nVERDICT: approve|request_changes|comment',
+      prompt: '## PR Information\nTitle: Fix login',
+    });
+  });
+
+  it('keeps prompts without a role line whole', () => {
+    expect(splitSystemPrompt('Your previous response could not be used.\n\n## Problems')).toEqual({
+      system: '',
+      prompt: 'Your previous response could not be used.\n\n## Problems',
+    });
+  });
+});
+
+describe('claude provider', () => {
+  it('sends a cached system prompt and max tokens to the Messages API', async () => {
+    respondWith({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [{ type: 'text', text: 'VERDICT: approve' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 120, output_tokens: 8 },
+    });
+    const backend = createBackendFromEnv({
+      LLM_PROVIDER: 'claude',
+      LLM_MODEL: 'claude-sonnet-4-5',
+      ANTHROPIC_API_KEY: 'key',
+      CLAUDE_MAX_TOKENS: '2048',
+    });
+
+    await expect(backend.generate(prompt, context)).resolves.toBe('VERDICT: approve');
+
+    const [{ url, body }] = requests;
+    expect(url).toMatch(/\/messages$/);
+    expect(body.max_tokens).toBe(2048);
+    expect(body.system).toEqual([expect.objectContaining({
+      type: 'text',
+      text: expect.stringContaining('## Output Format'),
+      cache_control: { type: 'ephemeral' },
+    })]);
+    expect(body.messages[0].content[0].text).toBe('## PR Information\nTitle: Fix login');
+    expect(backend.usage[0]).toEqual(expect.objectContaining({ provider: 'claude', promptTokens: 120, completionTokens: 8 }));
+  });
+
+  it('leaves the cache breakpoint off when prompt caching is disabled', async () => {
+    respondWith({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [{ type: 'text', text: 'VERDICT: approve' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 120, output_tokens: 8 },
+    });
+    const backend = createBackendFromEnv({
+      LLM_PROVIDER: 'claude',
+      LLM_MODEL: 'claude-sonnet-4-5',
+      ANTHROPIC_API_KEY: 'key',
+      ANTHROPIC_PROMPT_CACHE: 'false',
+    });
+
+    await backend.generate(prompt, context);
+
+    expect(requests[0].body.system[0].cache_control).toBeUndefined();
+  });
+});
+
+describe('gemini provider', () => {
+  it('sends the system prompt as a system instruction', async () => {
+    respondWith({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'VERDICT: approve' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 90, candidatesTokenCount: 6, totalTokenCount: 96 },
+    });
+    const backend = createBackendFromEnv({
+      LLM_PROVIDER: 'gemini',
+      LLM_MODEL: 'gemini-2.5-flash',
+      GOOGLE_GENERATIVE_AI_API_KEY: 'key',
+    });
+
+    await expect(backend.generate(prompt, context)).resolves.toBe('VERDICT: approve');
+
+    const [{ url, body }] = requests;
+    expect(url).toContain('/models/gemini-2.5-flash:generateContent');
+    expect(body.systemInstruction.parts[0].text).toContain('## Output Format');
+    expect(backend.usage[0]).toEqual(expect.objectContaining({ provider: 'gemini', promptTokens: 90 }));
+    expect(backend.usage[0].costUsd).toBeCloseTo((90 * 0.3 + 6 * 2.5) / 1_000_000);
+  });
+});
+
+describe('overrides', () => {
+  const chatCompletion = {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'qwen3.5',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'VERDICT: approve' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+  };
+
+  it('replaces the env provider and model but keeps the env credentials', () => {
+    const backend = createBackendFromEnv(
+      { LLM_PROVIDER: 'ollama', LLM_MODEL: 'qwen3.5:cloud', GOOGLE_GENERATIVE_AI_API_KEY: 'key' },
+      { provider: 'gemini', model: 'gemini-2.5-pro' },
+    );
+    expect(backend.name).toBe('gemini');
+  });
+
+  it('sends calls to the overridden base URL with the chosen temperature', async () => {
+    respondWith(chatCompletion);
+    const backend = createBackendFromEnv(
+      { LLM_PROVIDER: 'openai', LLM_MODEL: 'gpt-4o', OPENAI_API_KEY: 'key' },
+      { provider: 'ollama', model: 'qwen3.5', baseURL: 'http://ollama.internal:11434/v1', temperature: 0.1 },
+    );
+
+    await backend.generate(prompt, context);
+
+    expect(requests[0].url).toBe('http://ollama.internal:11434/v1/chat/completions');
+    expect(requests[0].body).toEqual(expect.objectContaining({ model: 'qwen3.5', temperature: 0.1 }));
+  });
+
+  it('keeps hosted providers on the server endpoint their API key is for', async () => {
+    respondWith(chatCompletion);
+    const backend = createBackendFromEnv(
+      { LLM_PROVIDER: 'openai', LLM_MODEL: 'gpt-4o', OPENAI_API_KEY: 'key' },
+      { provider: 'openai', model: 'gpt-4o', baseURL: 'https://collector.example.com/v1' },
+    );
+
+    // The canned chat completion doesn't parse as an OpenAI response; only the host matters
+    await backend.generate(prompt, context).catch(() => undefined);
+
+    expect(new URL(requests[0].url).host).toBe('api.openai.com');
+  });
+
+  it('never fails over from a pinned provider to the env fallbacks', async () => {
+    requests = [];
+    global.fetch = jest.fn(async (url: any, init?: any) => {
+      requests.push({ url: String(url), body: JSON.parse(init.body) });
+      return new Response('{"error":"bad request"}', { status: 400, headers: { 'content-type': 'application/json' } });
+    }) as typeof fetch;
+    const backend = createBackendFromEnv(
+      { LLM_PROVIDER: 'openai', LLM_MODEL: 'gpt-4o', OPENAI_API_KEY: 'key', LLM_FALLBACKS: 'openai:gpt-4o-mini' },
+      { provider: 'ollama', model: 'qwen3.5' },
+    );
+
+    await expect(backend.generate(prompt, context)).rejects.toThrow('ollama/qwen3.5');
+    expect(requests.map(r => r.body.model)).toEqual(['qwen3.5']);
+  });
+});
+
+describe('bedrock pricing', () => {
+  it('prices Bedrock model ids by their vendor model name', () => {
+    expect(estimateCost('us.anthropic.claude-sonnet-4-20250514-v1:0', 1_000_000, 0, DEFAULT_PRICES)).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,91 @@
+// Tests for resolving review comments once the flagged code changes
+
+import { findTouchedComments } from '../src/review/resolution';
+import { generateCommentMetadata } from '../src/review/deduplication';
+import { AGNUSAI_MARKER } from '../src/review/thread';
+import { DetailedReviewComment, Diff, FileDiff } from '../src/types';
+
+/** The body of a comment a review made on commit `sha` */
+const bodyAt = (sha: string): string =>
+  `Possible null dereference.\n\n${generateCommentMetadata(sha, 'issue-1', 'return user.name;')}\n\n${AGNUSAI_MARKER}`;
+
+const comment = (line: number, overrides: Partial<DetailedReviewComment> = {}): DetailedReviewComment => ({
+  id: line,
+  body: bodyAt('abc123'),
+  user: { login: 'agnusai-bot', type: 'Bot' },
+  path: 'src/user.ts',
+  line,
+  originalLine: line,
+  inReplyToId: null,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  htmlUrl: '',
+  ...overrides
+});
+
+// Old lines 10-14 → new lines 10-14, with line 12 rewritten
+const fix: FileDiff = {
+  path: 'src/user.ts',
+  status: 'modified',
+  additions: 1,
+  deletions: 1,
+  hunks: [{
+    oldStart: 10,
+    oldLines: 5,
+    newStart: 10,
+    newLines: 5,
+    content: ' function name(user) {\n   const x = 1;\n-  return user.name;\n+  return user?.name ?? "";\n }'
+  }]
+};
+
+const diffOf = (...files: FileDiff[]): Diff => ({ files, additions: 1, deletions: 1, changedFiles: files.length });
+
+describe('findTouchedComments', () => {
+  it('returns comments on a changed line with the code they flagged and the change', () => {
+    const touched = findTouchedComments([comment(12)], diffOf(fix), 'abc123');
+
+    expect(touched).toHaveLength(1);
+    expect(touched[0].originalCode).toBe('return user.name;');
+    expect(touched[0].change).toContain('+  return user?.name ?? "";');
+  });
+
+  it('skips comments whose line and neighbours are unchanged', () => {
+    expect(findTouchedComments([comment(40)], diffOf(fix), 'abc123')).toEqual([]);
+  });
+
+  it('skips comments on files the diff does not touch', () => {
+    expect(findTouchedComments([comment(12, { path: 'src/other.ts' })], diffOf(fix), 'abc123')).toEqual([]);
+  });
+
+  it('skips replies, other people\'s comments and comments without metadata', () => {
+    const touched = findTouchedComments([
+      comment(12, { inReplyToId: 1 }),
+      comment(12, { body: 'Looks wrong to me' }),
+      comment(12, { body: `Possible null dereference.\n\n${AGNUSAI_MARKER}` }),
+    ], diffOf(fix), 'abc123');
+
+    expect(touched).toEqual([]);
+  });
+
+  it('skips comments whose threads are already resolved', () => {
+    expect(findTouchedComments([comment(12, { resolved: true })], diffOf(fix), 'abc123')).toEqual([]);
+  });
+
+  it('only checks the comments made on the commit the diff starts from', () => {
+    // The first review flagged line 12 of aaa111; the next push inserted five lines above
+    // it, and the second review, on bbb222, flagged what is now line 12. `fix` changes
+    // line 12 of bbb222, which the first review's comment never pointed at.
+    const first = comment(17, { id: 1, originalLine: 12, body: bodyAt('aaa111') });
+    const second = comment(12, { id: 2, body: bodyAt('bbb222') });
+
+    const touched = findTouchedComments([first, second], diffOf(fix), 'bbb222');
+
+    expect(touched.map(t => t.comment.id)).toEqual([2]);
+  });
+
+  it('treats a deleted file as touching every comment on it', () => {
+    const deleted: FileDiff = { ...fix, status: 'deleted', hunks: [] };
+
+    expect(findTouchedComments([comment(40)], diffOf(deleted), 'abc123')[0].change).toBe('(file deleted)');
+  });
+});
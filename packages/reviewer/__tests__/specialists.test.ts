@@ -0,0 +1,83 @@
+// Tests for the specialist review pipeline
+
+import { aggregateSpecialistReviews, runSpecialists, SpecialistRole } from '../src/review/specialists';
+import { buildReviewPrompt } from '../src/llm/prompt';
+import { ReviewComment, ReviewContext, ReviewResult, Skill } from '../src/types';
+
+function skill(id: string): Skill {
+  return { id, name: `${id} Review`, description: '', triggers: ['**/*'], priority: 'medium', content: `Review for ${id}.`, specialistOnly: id !== 'security' };
+}
+
+function comment(line: number, severity: ReviewComment['severity'], confidence: number, body = 'issue'): ReviewComment {
+  return { path: 'src/a.ts', line, body, severity, confidence };
+}
+
+function review(verdict: ReviewResult['verdict'], comments: ReviewComment[] = [], summary = 'Looks fine.'): ReviewResult {
+  return { summary, comments, suggestions: [], verdict };
+}
+
+const context = {
+  pr: { title: 'Change', description: '', author: { username: 'dev' }, sourceBranch: 'feature', targetBranch: 'main' },
+  diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+  files: [],
+  tickets: [],
+  skills: [skill('default')],
+  config: { maxDiffSize: 10_000, focusAreas: [], ignorePaths: [] },
+} as unknown as ReviewContext;
+
+describe('runSpecialists', () => {
+  it('gives each specialist only its skill and focus, and reports failures', async () => {
+    const skills = new Map<SpecialistRole, Skill>([
+      ['performance', skill('performance')],
+      ['security', skill('security')],
+      ['correctness', skill('correctness')],
+    ]);
+    const prompts: string[] = [];
+    const { reviews, failed } = await runSpecialists(context, skills, async ctx => {
+      prompts.push(buildReviewPrompt(ctx));
+      if (ctx.skills[0].id === 'correctness') throw new Error('timeout');
+      return review('approve');
+    }, 2);
+
+    expect(reviews.map(r => r.role)).toEqual(['security', 'performance']);
+    expect(failed).toEqual(['correctness']);
+    const security = prompts.find(p => p.includes('Review for security.'))!;
+    expect(security).toContain('## Review Focus');
+    expect(security).toContain('- Security: injection');
+    expect(security).not.toContain('Review for default.');
+  });
+});
+
+describe('aggregateSpecialistReviews', () => {
+  it('keeps the most severe comment on a line, then the most confident', () => {
+    const result = aggregateSpecialistReviews([
+      { role: 'security', result: review('comment', [comment(1, 'warning', 0.9, 'sec'), comment(2, 'info', 0.7, 'low')]) },
+      { role: 'correctness', result: review('comment', [comment(1, 'error', 0.8, 'bug'), comment(2, 'info', 0.95, 'high')]) },
+    ]);
+
+    expect(result.comments.map(c => c.body)).toEqual(['bug', 'high']);
+    expect(result.verdict).toBe('request_changes');
+  });
+
+  it('approves only when every specialist ran and approved without comments', () => {
+    const approvals = [
+      { role: 'security' as const, result: review('approve') },
+      { role: 'performance' as const, result: review('approve') },
+    ];
+    expect(aggregateSpecialistReviews(approvals).verdict).toBe('approve');
+
+    const partial = aggregateSpecialistReviews(approvals, ['test-coverage']);
+    expect(partial.verdict).toBe('comment');
+    expect(partial.summary).toContain('_The test coverage review failed and is not included._');
+  });
+
+  it('lists each specialist summary and repeated partial-review notes once', () => {
+    const note = '> ⚠️ **Partial review:** to fit the model\'s context window, this review left out 1 changed file (`big.ts`).';
+    const result = aggregateSpecialistReviews([
+      { role: 'security', result: review('comment', [], `No injection risks.\n\n${note}`) },
+      { role: 'performance', result: review('comment', [], `Loop is quadratic.\n\n${note}`) },
+    ]);
+
+    expect(result.summary).toBe(`**Security:** No injection risks.\n\n**Performance:** Loop is quadratic.\n\n${note}`);
+  });
+});
@@ -0,0 +1,95 @@
+// Tests for streamed review generation
+
+import { createBackendFromEnv } from '../src/llm/unified';
+import { ReviewCommentStream } from '../src/llm/parser';
+import { ReviewComment, ReviewContext } from '../src/types';
+
+const context = {
+  pr: { title: 'Fix login', description: '', author: { username: 'dev' }, sourceBranch: 'feature', targetBranch: 'main' },
+  diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+  files: [],
+  tickets: [],
+  skills: [],
+  config: { maxDiffSize: 30000, focusAreas: [], ignorePaths: [] },
+} as unknown as ReviewContext;
+
+const response = `SUMMARY: Two problems.
+
+[File: src/auth.ts, Line: 12]
+**Issue:** Token is never checked.
+[Confidence: 0.9]
+
+[File: src/db.ts, Line: 40]
+**Issue:** Query is built from user input.
+
+VERDICT: request_changes`;
+
+describe('ReviewCommentStream', () => {
+  it('passes each comment on once the next marker or the verdict closes it', () => {
+    const seen: Array<{ at: number; comment: ReviewComment }> = [];
+    let at = 0;
+    const stream = new ReviewCommentStream(comment => seen.push({ at, comment }));
+
+    for (at = 1; at <= response.length; at++) stream.update(response.slice(0, at));
+
+    expect(seen.map(s => s.comment)).toEqual([
+      expect.objectContaining({ path: 'src/auth.ts', line: 12, body: '**Issue:** Token is never checked.', confidence: 0.9 }),
+      expect.objectContaining({ path: 'src/db.ts', line: 40, body: '**Issue:** Query is built from user input.' }),
+    ]);
+    expect(seen[0].at).toBe(response.indexOf('[File: src/db.ts, Line: 40') + '[File: src/db.ts, Line: 4'.length);
+    expect(seen[1].at).toBe(response.indexOf('VERDICT:') + 'VERDICT:'.length);
+  });
+});
+
+describe('UnifiedLLMBackend streaming', () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  function chunk(data: unknown): string {
+    return `data: ${JSON.stringify(data)}\n\n`;
+  }
+
+  it('streams text reviews and reports comments as they complete', async () => {
+    const bodies: any[] = [];
+    const deltas = response.match(/[\s\S]{1,20}/g)!;
+    global.fetch = jest.fn(async (_url: any, init?: any) => {
+      bodies.push(JSON.parse(init.body));
+      const sse = [
+        ...deltas.map(content => chunk({ id: 'c1', created: 0, model: 'qwen3.5', choices: [{ index: 0, delta: { content } }] })),
+        chunk({ id: 'c1', created: 0, model: 'qwen3.5', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 50, completion_tokens: 30 } }),
+        'data: [DONE]\n\n',
+      ].join('');
+      return new Response(sse, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+    }) as typeof fetch;
+    const backend = createBackendFromEnv({ LLM_PROVIDER: 'ollama', LLM_MODEL: 'qwen3.5' });
+    const streamed: ReviewComment[] = [];
+    backend.onReviewComment = comment => streamed.push(comment);
+
+    const result = await backend.generateReview(context);
+
+    expect(bodies[0].stream).toBe(true);
+    expect(streamed.map(c => `${c.path}:${c.line}`)).toEqual(['src/auth.ts:12', 'src/db.ts:40']);
+    expect(result.comments).toEqual(streamed);
+    expect(result.verdict).toBe('request_changes');
+    expect(backend.usage[0]).toEqual(expect.objectContaining({ provider: 'ollama', promptTokens: 50, completionTokens: 30 }));
+  });
+
+  it('does not stream when nothing listens for comments', async () => {
+    const bodies: any[] = [];
+    global.fetch = jest.fn(async (_url: any, init?: any) => {
+      bodies.push(JSON.parse(init.body));
+      return new Response(JSON.stringify({
+        id: 'c1', object: 'chat.completion', created: 0, model: 'qwen3.5',
+        choices: [{ index: 0, message: { role: 'assistant', content: response }, finish_reason: 'stop' }],
+      }), { status: 200, headers: { 'content-type': 'application/json' } });
+    }) as typeof fetch;
+    const backend = createBackendFromEnv({ LLM_PROVIDER: 'ollama', LLM_MODEL: 'qwen3.5' });
+
+    const result = await backend.generateReview(context);
+
+    expect(bodies[0].stream).toBeUndefined();
+    expect(result.comments).toHaveLength(2);
+  });
+});
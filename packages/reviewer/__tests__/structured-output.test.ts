@@ -0,0 +1,118 @@
+// Tests for structured (JSON) review output
+
+import { BaseLLMBackend } from '../src/llm/base';
+import { parseStructuredReview, ReviewParseError } from '../src/llm/parser';
+import { ReviewContext } from '../src/types';
+
+const validReview = {
+  summary: 'Adds token validation.',
+  comments: [
+    { path: '/src/auth.ts', line: 42, body: '**Suggestion:** Validate the token.', severity: 'warning', confidence: 0.92 },
+  ],
+  verdict: 'request_changes',
+};
+
+const context = {
+  pr: {
+    title: 'Validate tokens',
+    description: '',
+    author: { username: 'dev' },
+    sourceBranch: 'feature',
+    targetBranch: 'main',
+  },
+  diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+  files: [],
+  tickets: [],
+  skills: [],
+  config: { maxDiffSize: 30000, focusAreas: [], ignorePaths: [] },
+} as unknown as ReviewContext;
+
+class ScriptedBackend extends BaseLLMBackend {
+  readonly name = 'scripted';
+  prompts: string[] = [];
+
+  constructor(private responses: string[]) {
+    super();
+    this.outputFormat = 'json';
+  }
+
+  async generate(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    return this.responses.shift() ?? '';
+  }
+}
+
+describe('parseStructuredReview', () => {
+  it('accepts a review object returned by a native JSON mode', () => {
+    const result = parseStructuredReview(validReview);
+    expect(result.verdict).toBe('request_changes');
+    expect(result.suggestions).toEqual([]);
+    expect(result.comments).toEqual([
+      { path: '/src/auth.ts', line: 42, body: '**Suggestion:** Validate the token.', severity: 'warning', confidence: 0.92 },
+    ]);
+  });
+
+  it('extracts the object from fenced text without tripping on suggestion blocks', () => {
+    const body = '**Suggestion:** Use const.\n\n```suggestion\nconst x = 1;\n```';
+    const text = 'Here is the review:\n```json\n' +
+      JSON.stringify({ ...validReview, comments: [{ ...validReview.comments[0], body }] }) +
+      '\n```';
+    expect(parseStructuredReview(text).comments[0].body).toBe(body);
+  });
+
+  it('reports every invalid field instead of dropping comments', () => {
+    const broken = {
+      summary: 'x',
+      comments: [{ path: '/a.ts', line: 0, body: '', severity: 'critical' }],
+      verdict: 'lgtm',
+    };
+    try {
+      parseStructuredReview(JSON.stringify(broken));
+      throw new Error('expected a ReviewParseError');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ReviewParseError);
+      expect((err as ReviewParseError).issues).toEqual([
+        '`verdict` must be one of approve, request_changes, comment',
+        '`comments[0].line` must be a positive integer',
+        '`comments[0].body` must be a non-empty string',
+        '`comments[0].severity` must be one of info, warning, error',
+      ]);
+    }
+  });
+
+  it('rejects text without a JSON object', () => {
+    expect(() => parseStructuredReview('SUMMARY: looks fine\nVERDICT: approve')).toThrow(ReviewParseError);
+  });
+});
+
+describe('BaseLLMBackend json output', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('asks for JSON and parses the response', async () => {
+    const llm = new ScriptedBackend([JSON.stringify(validReview)]);
+    const result = await llm.generateReview(context);
+    expect(result.comments).toHaveLength(1);
+    expect(llm.prompts[0]).toContain('Respond with a single JSON object');
+  });
+
+  it('retries once with a repair prompt listing the problems', async () => {
+    const llm = new ScriptedBackend(['{"summary": "x", "comments": []}', JSON.stringify(validReview)]);
+    const result = await llm.generateReview(context);
+    expect(result.verdict).toBe('request_changes');
+    expect(llm.prompts).toHaveLength(2);
+    expect(llm.prompts[1]).toContain('- `verdict` must be one of approve, request_changes, comment');
+    expect(llm.prompts[1]).toContain('{"summary": "x", "comments": []}');
+  });
+
+  it('throws when the repaired response is still invalid', async () => {
+    const llm = new ScriptedBackend(['not json', 'still not json']);
+    await expect(llm.generateReview(context)).rejects.toThrow(ReviewParseError);
+    expect(llm.prompts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,109 @@
+// Tests for checking code suggestions against the diff and rendering them per platform
+
+import { attachSuggestion } from '../src/review/suggestions';
+import { parseCommentBlocks, parseStructuredReview } from '../src/llm/parser';
+import { FileDiff, ReviewComment } from '../src/types';
+
+// New lines 10-14: line 10 and 14 are context, 11-13 were added
+const file: FileDiff = {
+  path: 'src/model.ts',
+  status: 'modified',
+  additions: 3,
+  deletions: 1,
+  hunks: [{
+    oldStart: 10,
+    oldLines: 3,
+    newStart: 10,
+    newLines: 5,
+    content: ' type Result = Union<\n-  Old,\n+  ChangelogGeneratedResult,\n+  ChangelogGeneratedWithDiffResult,\n+>;\n const x = 1;'
+  }]
+};
+
+const swap = '```suggestion\n  ChangelogGeneratedWithDiffResult,\n  ChangelogGeneratedResult,\n```';
+
+const comment = (overrides: Partial<ReviewComment> = {}): ReviewComment => ({
+  path: 'src/model.ts',
+  line: 12,
+  startLine: 11,
+  body: `**Suggestion:** The variant with a diff must come first.\n\n${swap}\n\n<details><summary>Steps</summary>\n\n1. Call it\n\n</details>`,
+  severity: 'warning',
+  ...overrides
+});
+
+describe('attachSuggestion', () => {
+  it('keeps a multi-line suggestion that fits the added lines it replaces', () => {
+    const posted = attachSuggestion(comment(), file, 'github');
+
+    expect(posted.startLine).toBe(11);
+    expect(posted.body).toContain(swap);
+    expect(posted.body).toContain('<details>');
+  });
+
+  it('renders a patch of the replaced lines for platforms without suggestions', () => {
+    const posted = attachSuggestion(comment(), file, 'patch');
+
+    expect(posted.body).not.toContain('```suggestion');
+    expect(posted.body).toContain(
+      '```diff\n-  ChangelogGeneratedResult,\n-  ChangelogGeneratedWithDiffResult,\n' +
+      '+  ChangelogGeneratedWithDiffResult,\n+  ChangelogGeneratedResult,\n```'
+    );
+  });
+
+  it('counts the lines above the comment for GitLab', () => {
+    expect(attachSuggestion(comment(), file, 'gitlab').body).toContain('```suggestion:-1+0\n');
+  });
+
+  it('drops a suggestion whose range is too short, so applying it would repeat a line', () => {
+    const posted = attachSuggestion(comment({ startLine: undefined }), file, 'github');
+
+    expect(posted.body).not.toContain('```');
+    expect(posted.body).toContain('**Suggestion:** The variant with a diff must come first.\n\n<details>');
+    expect(posted.startLine).toBeUndefined();
+  });
+
+  it('drops suggestions that reach context lines or change nothing', () => {
+    const onContext = attachSuggestion(comment({ startLine: 10 }), file, 'github');
+    const noOp = attachSuggestion(comment({ line: 13, startLine: undefined, body: '**Suggestion:** Close it.\n\n```suggestion\n>;\n```' }), file, 'github');
+
+    expect(onContext.body).not.toContain('```suggestion');
+    expect(onContext.startLine).toBeUndefined();
+    expect(noOp.body).toBe('**Suggestion:** Close it.');
+  });
+
+  it('posts a CodeSuggestion from the review result only when its old code matches the diff', () => {
+    const suggestion = {
+      path: '/src/model.ts',
+      line: 13,
+      oldCode: '>;',
+      newCode: '> & Versioned;',
+      description: 'Version the result'
+    };
+    const body = '**Suggestion:** Version the result.';
+
+    const matching = attachSuggestion(comment({ line: 13, startLine: undefined, body }), file, 'github', [suggestion]);
+    const stale = attachSuggestion(comment({ line: 13, startLine: undefined, body }), file, 'github', [{ ...suggestion, oldCode: '> | null;' }]);
+
+    expect(matching.body).toBe(`${body}\n\n\`\`\`suggestion\n> & Versioned;\n\`\`\``);
+    expect(stale.body).toBe(body);
+  });
+});
+
+describe('suggestion line ranges', () => {
+  it('reads a [File:, Lines: M-N] marker as a range ending on its last line', () => {
+    const [parsed] = parseCommentBlocks(`[File: /src/model.ts, Lines: 11-12]\n**Suggestion:** Swap them.\n\n${swap}\n`);
+
+    expect(parsed).toMatchObject({ path: '/src/model.ts', line: 12, startLine: 11 });
+  });
+
+  it('reads startLine from a JSON review, leaving single-line comments without one', () => {
+    const review = (startLine: number) => ({
+      summary: 'ok',
+      comments: [{ path: 'src/model.ts', line: 12, startLine, body: swap, severity: 'info', confidence: 0.9 }],
+      verdict: 'comment'
+    });
+
+    expect(parseStructuredReview(review(11)).comments[0].startLine).toBe(11);
+    expect(parseStructuredReview(review(12)).comments[0]).not.toHaveProperty('startLine');
+    expect(() => parseStructuredReview(review(13))).toThrow('startLine');
+  });
+});
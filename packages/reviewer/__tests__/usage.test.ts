@@ -0,0 +1,78 @@
+// Tests for LLM usage and cost accounting
+
+import { BaseLLMBackend } from '../src/llm/base';
+import { LLMResponseCache } from '../src/llm/cache';
+import { DEFAULT_PRICES, estimateCost, parsePriceTable, summarizeUsage } from '../src/llm/usage';
+import { ReviewContext } from '../src/types';
+
+const context = {
+  pr: { title: 'Fix login', description: '', author: { username: 'dev' }, sourceBranch: 'feature', targetBranch: 'main' },
+  diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+  files: [],
+  tickets: [],
+  skills: [],
+  config: { maxDiffSize: 30000, focusAreas: [], ignorePaths: [] },
+} as unknown as ReviewContext;
+
+class MeteredBackend extends BaseLLMBackend {
+  readonly name = 'openai';
+
+  async generate(): Promise<string> {
+    this.recordUsage({ provider: 'openai', model: 'gpt-4o-mini-2024-07-18', promptTokens: 2_000_000, completionTokens: 1_000_000, latencyMs: 900 });
+    return 'SUMMARY: Fine.\n\nVERDICT: approve';
+  }
+}
+
+describe('estimateCost', () => {
+  it('prices a model by its longest matching prefix', () => {
+    expect(estimateCost('gpt-4o-mini-2024-07-18', 1_000_000, 1_000_000, DEFAULT_PRICES)).toBeCloseTo(0.75);
+    expect(estimateCost('gpt-4o-2024-08-06', 1_000_000, 0, DEFAULT_PRICES)).toBeCloseTo(2.5);
+  });
+
+  it('returns null for models without a price', () => {
+    expect(estimateCost('qwen3.5:397b-cloud', 1000, 1000, DEFAULT_PRICES)).toBeNull();
+  });
+});
+
+describe('parsePriceTable', () => {
+  it('accepts per-model input and output prices', () => {
+    expect(parsePriceTable('{"qwen3.5": {"input": 0.3, "output": 1.2}}')).toEqual({ 'qwen3.5': { input: 0.3, output: 1.2 } });
+  });
+
+  it('rejects malformed tables', () => {
+    expect(() => parsePriceTable('[1]')).toThrow('LLM_PRICES must be a JSON object');
+    expect(() => parsePriceTable('{"qwen": {"input": "cheap"}}')).toThrow("LLM_PRICES entry 'qwen' needs non-negative numeric input and output prices");
+  });
+});
+
+describe('BaseLLMBackend usage', () => {
+  it('records cost for provider calls and zero-cost entries for cache hits', async () => {
+    const backend = new MeteredBackend();
+    const entries = new Map<string, string>();
+    const cache: LLMResponseCache = {
+      get: async key => entries.get(key.promptHash) ?? null,
+      set: async (key, response) => { entries.set(key.promptHash, response); },
+    };
+    backend.cache = cache;
+
+    await backend.generateReview(context);
+    await backend.generateReview(context);
+
+    const [call, hit] = backend.usage;
+    expect(call).toEqual(expect.objectContaining({ model: 'gpt-4o-mini-2024-07-18', cached: false }));
+    expect(call.costUsd).toBeCloseTo(0.9);
+    expect(hit).toEqual(expect.objectContaining({ provider: 'openai', promptTokens: 0, costUsd: 0, cached: true }));
+    expect(summarizeUsage(backend.usage)).toEqual(expect.objectContaining({
+      calls: 2,
+      promptTokens: 2_000_000,
+      completionTokens: 1_000_000,
+    }));
+  });
+
+  it('leaves the total cost unknown when no call was priced', () => {
+    const totals = summarizeUsage([
+      { provider: 'ollama', model: 'qwen', promptTokens: 10, completionTokens: 5, latencyMs: 100, costUsd: null, cached: false },
+    ]);
+    expect(totals).toEqual({ calls: 1, promptTokens: 10, completionTokens: 5, latencyMs: 100, costUsd: null });
+  });
+});
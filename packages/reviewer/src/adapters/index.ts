@@ -3,6 +3,8 @@
 export { VCSAdapter } from './vcs/base';
 export { GitHubAdapter, createGitHubAdapter } from './vcs/github';
 export { AzureDevOpsAdapter } from './vcs/azure-devops';
+export { GitLabAdapter, createGitLabAdapter } from './vcs/gitlab';
+export { BitbucketAdapter, createBitbucketAdapter } from './vcs/bitbucket';
 
 export { TicketAdapter } from './ticket/base';
 export { JiraAdapter } from './ticket/jira';
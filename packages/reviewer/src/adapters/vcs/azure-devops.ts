@@ -17,6 +17,7 @@ import {
   ReviewCheckpoint,
   PRDescriptionResult
 } from '../../types';
+import { AGNUSAI_MARKER, addAgnusaiMarker } from '../../review/thread';
 
 interface AzureDevOpsConfig {
   organization: string;
@@ -26,6 +27,17 @@ interface AzureDevOpsConfig {
   baseUrl?: string;
 }
 
+/** Thread statuses that close a thread — anything else leaves it open (active or pending) */
+const CLOSED_THREAD_STATUSES = new Set(['fixed', 'wontFix', 'closed', 'byDesign']);
+
+/** One push to a PR, as the iterations API returns it */
+interface AzureIteration {
+  id: number;
+  sourceRefCommit?: { commitId: string };
+  targetRefCommit?: { commitId: string };
+  commonRefCommit?: { commitId: string };
+}
+
 export class AzureDevOpsAdapter implements VCSAdapter {
   readonly name = 'azure-devops';
   private organization: string;
@@ -45,13 +57,30 @@ export class AzureDevOpsAdapter implements VCSAdapter {
   }
 
   async getLatestIterationId(prId: string | number): Promise<number> {
+    const iterations = await this.getIterations(prId);
+    return iterations[iterations.length - 1]?.id ?? 0;
+  }
+
+  /** The source commit of the PR's latest iteration — the commit its reviews are made against */
+  async getHeadSha(prId: string | number): Promise<string> {
+    const iterations = await this.getIterations(prId);
+    return iterations[iterations.length - 1]?.sourceRefCommit?.commitId ?? '';
+  }
+
+  /** The source commit of iteration `iteration`, or '' if the PR has no such iteration */
+  async getIterationCommit(prId: string | number, iteration: number): Promise<string> {
+    const iterations = await this.getIterations(prId);
+    return iterations.find(it => it.id === iteration)?.sourceRefCommit?.commitId ?? '';
+  }
+
+  private async getIterations(prId: string | number): Promise<AzureIteration[]> {
     const url = this.getGitApiUrl(
       `/repositories/${this.repository}/pullrequests/${prId}/iterations?api-version=7.0`
     );
     const response = await fetch(url, { headers: this.getAuthHeaders() });
-    if (!response.ok) throw new Error(`Failed to fetch iterations: ${response.statusText}`);
-    const data = await response.json() as { value: Array<{ id: number }> };
-    return data.value[data.value.length - 1]?.id ?? 0;
+    if (!response.ok) throw new Error(`Failed to fetch PR iterations: ${response.statusText}`);
+    const data = await response.json() as { value?: AzureIteration[] };
+    return data.value ?? [];
   }
 
   private getAuthHeaders(): Record<string, string> {
@@ -71,6 +100,49 @@ export class AzureDevOpsAdapter implements VCSAdapter {
     return `${this.baseUrl}/${this.organization}/${this.project}/_apis/git${path}`;
   }
 
+  private getIdentitiesUrl(query: string): string {
+    // Azure DevOps Services serves identities from its vssps host; Server from the collection
+    const host = this.baseUrl === 'https://dev.azure.com' ? 'https://vssps.dev.azure.com' : this.baseUrl;
+    return `${host}/${this.organization}/_apis/identities?${query}&api-version=7.0`;
+  }
+
+  /** ID of the identity the token authenticates as — the author of every comment we post */
+  async getAuthenticatedIdentityId(): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/${this.organization}/_apis/connectionData`, {
+      headers: this.getAuthHeaders()
+    });
+    if (!response.ok) throw new Error(`Failed to fetch connection data: ${response.statusText}`);
+    const data = await response.json() as { authenticatedUser?: { id?: string } };
+    return data.authenticatedUser?.id ?? '';
+  }
+
+  /**
+   * Names of the groups an identity belongs to, directly or through other groups —
+   * e.g. `[Project]\Project Administrators` or `[Project]\Contributors`.
+   */
+  async getIdentityGroups(identityId: string): Promise<string[]> {
+    type Identity = { providerDisplayName?: string; memberOf?: Array<string | { identityType: string; identifier: string }> };
+    const fetchIdentities = async (query: string): Promise<Identity[]> => {
+      const response = await fetch(this.getIdentitiesUrl(query), { headers: this.getAuthHeaders() });
+      if (!response.ok) throw new Error(`Failed to fetch identities: ${response.statusText}`);
+      return ((await response.json()) as { value?: Identity[] }).value ?? [];
+    };
+
+    const [identity] = await fetchIdentities(`identityIds=${encodeURIComponent(identityId)}&queryMembership=Expanded`);
+    const descriptors = (identity?.memberOf ?? [])
+      .map(d => (typeof d === 'string' ? d : `${d.identityType};${d.identifier}`));
+
+    // Resolve the group descriptors to names, a batch at a time to keep URLs short
+    const groups: string[] = [];
+    for (let i = 0; i < descriptors.length; i += 50) {
+      const batch = descriptors.slice(i, i + 50).map(encodeURIComponent).join(',');
+      for (const group of await fetchIdentities(`descriptors=${batch}`)) {
+        if (group.providerDisplayName) groups.push(group.providerDisplayName);
+      }
+    }
+    return groups;
+  }
+
   async getPR(prId: string | number): Promise<PullRequest> {
     const url = this.getGitApiUrl(`/repositories/${this.repository}/pullrequests/${prId}?api-version=7.0`);
     
@@ -112,26 +184,18 @@ export class AzureDevOpsAdapter implements VCSAdapter {
   }
 
   async getDiff(prId: string | number): Promise<Diff> {
-    const url = this.getGitApiUrl(
-      `/repositories/${this.repository}/pullrequests/${prId}/iterations?api-version=7.0`
-    );
-
-    const response = await fetch(url, { headers: this.getAuthHeaders() });
-    if (!response.ok) {
-      throw new Error(`Failed to fetch PR iterations: ${response.statusText}`);
-    }
+    return this.getIterationDiff(prId, this.compareToIteration ?? 0);
+  }
 
-    const iterations = await response.json() as {
-      value: Array<{
-        id: number;
-        sourceRefCommit?: { commitId: string };
-        targetRefCommit?: { commitId: string };
-        commonRefCommit?: { commitId: string };
-      }>
-    };
+  /**
+   * The diff of the latest iteration against iteration `compareTo` — the changes pushed
+   * since that iteration was reviewed — or the full PR diff when `compareTo` is 0.
+   */
+  async getIterationDiff(prId: string | number, compareTo: number): Promise<Diff> {
+    const iterations = await this.getIterations(prId);
 
-    const first = iterations.value[0];
-    const latest = iterations.value[iterations.value.length - 1];
+    const first = iterations[0];
+    const latest = iterations[iterations.length - 1];
     const sourceCommit = latest?.sourceRefCommit?.commitId ?? '';
     // Use iteration 1's commonRefCommit as the merge base — stays stable across pushes
     const targetCommit = first?.commonRefCommit?.commitId
@@ -141,7 +205,6 @@ export class AzureDevOpsAdapter implements VCSAdapter {
 
     // compareTo=0: full cumulative diff (PR created / manual trigger)
     // compareTo=N: only the delta between iteration N and latest
-    const compareTo = this.compareToIteration ?? 0;
     const changesUrl = this.getGitApiUrl(
       `/repositories/${this.repository}/pullrequests/${prId}/iterations/${latest.id}/changes?$compareTo=${compareTo}&api-version=7.0`
     );
@@ -151,7 +214,7 @@ export class AzureDevOpsAdapter implements VCSAdapter {
     // base (targetCommit), producing a cumulative diff that causes the LLM to re-comment on
     // code already reviewed in earlier iterations.
     const prevIteration = compareTo > 0
-      ? iterations.value.find(it => it.id === compareTo)
+      ? iterations.find(it => it.id === compareTo)
       : undefined;
     const effectiveOldCommit = prevIteration?.sourceRefCommit?.commitId ?? targetCommit;
 
@@ -484,7 +547,8 @@ export class AzureDevOpsAdapter implements VCSAdapter {
     const requestBody: any = {
       comments: [{
         parentCommentId: 0,
-        content: body,
+        // The marker lets replies in the thread be recognised as replies to us
+        content: addAgnusaiMarker(body),
         commentType: 'text'
       }],
       status: 'active',
@@ -532,7 +596,7 @@ export class AzureDevOpsAdapter implements VCSAdapter {
       if (existing) {
         // Update the existing thread's comment with the new finding
         console.log(`[azure-adapter] Updating existing thread ${existing.threadId} at ${key}`);
-        await this.updateThreadComment(prId, existing.threadId, existing.commentId, comment.body);
+        await this.updateThreadComment(prId, existing.threadId, existing.commentId, addAgnusaiMarker(comment.body));
       } else {
         await this.addInlineComment(prId, comment.path, comment.line, comment.body, comment.severity);
       }
@@ -605,7 +669,7 @@ export class AzureDevOpsAdapter implements VCSAdapter {
         const firstComment = thread.comments?.[0];
         if (!firstComment) continue;
         const body = firstComment.content || '';
-        if (!body.includes('Was this helpful?') && !body.includes('**Suggestion:**')) continue;
+        if (!body.trim().endsWith(AGNUSAI_MARKER) && !body.includes('Was this helpful?') && !body.includes('**Suggestion:**')) continue;
 
         const key = `${ctx.filePath}:${ctx.rightFileStart.line}`;
         // Keep the most recent thread if multiple exist on the same line
@@ -617,6 +681,98 @@ export class AzureDevOpsAdapter implements VCSAdapter {
     return map;
   }
 
+  /**
+   * A thread's file position and comments, oldest first. Comment IDs are the plain
+   * per-thread IDs — the thread's first comment is 1.
+   */
+  async getThread(prId: string | number, threadId: number): Promise<{
+    id: number;
+    path: string;
+    line: number | null;
+    comments: Array<{ id: number; parentCommentId: number; content: string; author: string }>;
+  }> {
+    const url = this.getGitApiUrl(
+      `/repositories/${this.repository}/pullrequests/${prId}/threads/${threadId}?api-version=7.0`
+    );
+    const response = await fetch(url, { headers: this.getAuthHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch thread ${threadId}: ${response.statusText}`);
+    }
+
+    const thread = await response.json() as {
+      id: number;
+      threadContext?: { filePath?: string; rightFileStart?: { line: number } };
+      comments: Array<{
+        id: number;
+        parentCommentId?: number;
+        content?: string;
+        author: { displayName: string; uniqueName: string };
+        isDeleted?: boolean;
+      }>;
+    };
+
+    return {
+      id: thread.id,
+      path: thread.threadContext?.filePath?.replace(/^\//, '') || '',
+      line: thread.threadContext?.rightFileStart?.line ?? null,
+      comments: (thread.comments || [])
+        .filter(c => !c.isDeleted)
+        .sort((a, b) => a.id - b.id)
+        .map(c => ({
+          id: c.id,
+          parentCommentId: c.parentCommentId ?? 0,
+          content: c.content || '',
+          author: c.author.uniqueName || c.author.displayName,
+        })),
+    };
+  }
+
+  /**
+   * Reply in a thread. Azure DevOps threads are flat, so `threadId` identifies the
+   * conversation and the reply hangs off its first comment.
+   */
+  async createReply(prId: string | number, threadId: string | number, body: string): Promise<void> {
+    const url = this.getGitApiUrl(
+      `/repositories/${this.repository}/pullrequests/${prId}/threads/${threadId}/comments?api-version=7.0`
+    );
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({
+        parentCommentId: 1,
+        content: addAgnusaiMarker(body),
+        commentType: 'text'
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to reply in thread ${threadId}: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Set a thread's status to fixed
+   *
+   * @param prId PR number
+   * @param threadId The thread ID
+   */
+  async resolveThread(prId: string | number, threadId: string | number): Promise<void> {
+    const url = this.getGitApiUrl(
+      `/repositories/${this.repository}/pullrequests/${prId}/threads/${threadId}?api-version=7.0`
+    );
+
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ status: 'fixed' })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to resolve thread ${threadId}: ${response.statusText}`);
+    }
+  }
+
   /**
    * Update an existing thread comment's body (PATCH).
    */
@@ -832,6 +988,8 @@ export class AzureDevOpsAdapter implements VCSAdapter {
             path,
             line,
             inReplyToId: comment.parentCommentId ? Number(`${thread.id}-${comment.parentCommentId}`) : null,
+            threadId: thread.id,
+            resolved: CLOSED_THREAD_STATUSES.has(thread.status),
             createdAt: comment.publishedDate,
             updatedAt: comment.lastUpdatedDate,
             htmlUrl: `${this.baseUrl}/${this.organization}/${this.project}/_git/${this.repository}/pullrequest/${prId}?discussionId=${thread.id}`
@@ -256,6 +256,14 @@ export interface VCSAdapter {
    * @param body Reply body
    */
   createReply?(prId: string | number, commentId: string | number, body: string): Promise<void>;
+
+  /**
+   * Mark the thread of a review comment as resolved
+   *
+   * @param prId PR number
+   * @param commentId The thread's first comment, or the thread itself where threads have their own IDs
+   */
+  resolveThread?(prId: string | number, commentId: string | number): Promise<void>;
 }
 
 /**
@@ -284,7 +292,9 @@ export function hasCheckpointSupport(adapter: VCSAdapter): boolean {
 /**
  * Check if a VCS adapter supports incremental reviews
  */
-export function hasIncrementalSupport(adapter: VCSAdapter): boolean {
+export function hasIncrementalSupport(
+  adapter: VCSAdapter
+): adapter is VCSAdapter & Required<Pick<VCSAdapter, 'compareCommits' | 'getHeadSha' | 'getIncrementalDiff'>> {
   return !!(
     adapter.compareCommits &&
     adapter.getHeadSha &&
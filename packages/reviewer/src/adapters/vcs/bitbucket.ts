@@ -0,0 +1,1016 @@
+// Bitbucket VCS Adapter (Bitbucket Cloud and Bitbucket Data Center / Server)
+
+import fetch from 'node-fetch';
+import { VCSAdapter } from './base';
+import {
+  PullRequest,
+  Diff,
+  FileInfo,
+  ReviewComment,
+  Review,
+  Ticket,
+  Author,
+  DiffHunk,
+  FileDiff,
+  CommitComparison,
+  PRComment,
+  ReviewCheckpoint,
+  DetailedReviewComment,
+  PRDescriptionResult
+} from '../../types';
+import { AGNUSAI_MARKER } from '../../review/thread';
+
+const BITBUCKET_CLOUD_API = 'https://api.bitbucket.org/2.0';
+
+interface BitbucketConfig {
+  /**
+   * Access token (sent as Bearer), or `username:app-password` / `username:http-token`
+   * for Basic auth
+   */
+  token: string;
+  /** Cloud: workspace ID. Data Center: project key */
+  workspace: string;
+  /** Repository slug */
+  repoSlug: string;
+  /**
+   * Data Center instance root, e.g. https://bitbucket.example.com (including any context path).
+   * Omit for Bitbucket Cloud.
+   */
+  baseUrl?: string;
+}
+
+// ── Bitbucket Cloud (API 2.0) payloads ─────────────────────────────────────
+
+interface CloudPullRequest {
+  id: number;
+  title: string;
+  description: string;
+  author: { uuid: string; display_name: string; nickname?: string };
+  source: { branch: { name: string }; commit: { hash: string } };
+  destination: { branch: { name: string } };
+  links: { html: { href: string } };
+  created_on: string;
+  updated_on: string;
+  state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  draft?: boolean;
+}
+
+interface CloudComment {
+  id: number;
+  content: { raw: string };
+  user: { display_name: string; nickname?: string; type?: string };
+  inline?: { path: string; to: number | null; from: number | null };
+  parent?: { id: number };
+  created_on: string;
+  updated_on: string;
+  deleted?: boolean;
+  links?: { html?: { href: string } };
+}
+
+interface CloudPage<T> {
+  values: T[];
+  next?: string;
+}
+
+// ── Bitbucket Data Center (REST 1.0) payloads ──────────────────────────────
+
+interface DCPullRequest {
+  id: number;
+  version: number;
+  title: string;
+  description?: string;
+  author: { user: { id: number; name: string; displayName: string; emailAddress?: string } };
+  fromRef: { displayId: string; latestCommit: string };
+  toRef: { displayId: string };
+  links: { self: Array<{ href: string }> };
+  createdDate: number;
+  updatedDate: number;
+  state: 'OPEN' | 'MERGED' | 'DECLINED';
+  draft?: boolean;
+  locked?: boolean;
+}
+
+interface DCComment {
+  id: number;
+  version: number;
+  text: string;
+  author: { name: string; displayName: string };
+  createdDate: number;
+  updatedDate: number;
+  comments?: DCComment[];
+  anchor?: { path: string; line?: number; lineType?: string };
+}
+
+interface DCActivity {
+  action: string;
+  comment?: DCComment;
+  commentAnchor?: { path: string; line?: number; lineType?: string };
+}
+
+interface DCPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+export class BitbucketAdapter implements VCSAdapter {
+  readonly name = 'bitbucket';
+  private token: string;
+  private workspace: string;
+  private repoSlug: string;
+  private baseUrl?: string;
+  private isCloud: boolean;
+  /**
+   * Comments are addressed through their pull request, and Data Center also
+   * needs the comment version for optimistic locking — remember both for
+   * every comment seen by this adapter.
+   */
+  private commentRefs = new Map<number, { prId: string | number; version?: number }>();
+
+  constructor(config: BitbucketConfig) {
+    this.token = config.token;
+    this.workspace = config.workspace;
+    this.repoSlug = config.repoSlug;
+    const baseUrl = config.baseUrl?.replace(/\/+$/, '');
+    this.isCloud = !baseUrl || /(^|\.)bitbucket\.org$/i.test(new URL(baseUrl).hostname);
+    this.baseUrl = this.isCloud ? undefined : baseUrl;
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const authorization = this.token.includes(':')
+      ? `Basic ${Buffer.from(this.token).toString('base64')}`
+      : `Bearer ${this.token}`;
+    return {
+      'Authorization': authorization,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    };
+  }
+
+  private getRepoApiUrl(path: string): string {
+    if (this.isCloud) {
+      return `${BITBUCKET_CLOUD_API}/repositories/${this.workspace}/${this.repoSlug}${path}`;
+    }
+    return `${this.baseUrl}/rest/api/1.0/projects/${this.workspace}/repos/${this.repoSlug}${path}`;
+  }
+
+  private getPRApiUrl(prId: string | number, path = ''): string {
+    return this.getRepoApiUrl(this.isCloud ? `/pullrequests/${prId}${path}` : `/pull-requests/${prId}${path}`);
+  }
+
+  private async request<T>(url: string, init: { method?: string; body?: unknown; raw?: boolean } = {}): Promise<T> {
+    const response = await fetch(url, {
+      method: init.method ?? 'GET',
+      headers: this.getAuthHeaders(),
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      const error: Error & { status?: number } = new Error(
+        `Bitbucket API ${init.method ?? 'GET'} ${url} failed: ${response.status} ${response.statusText}${errorText ? ` - ${errorText.slice(0, 200)}` : ''}`
+      );
+      error.status = response.status;
+      throw error;
+    }
+
+    if (init.raw) return await response.text() as unknown as T;
+    if (response.status === 204) return undefined as T;
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /**
+   * Fetch every page of a paginated collection.
+   * Cloud follows `next` links; Data Center uses `start` + `nextPageStart`.
+   */
+  private async requestAll<T>(url: string, maxPages = 20): Promise<T[]> {
+    const items: T[] = [];
+    const separator = url.includes('?') ? '&' : '?';
+
+    if (this.isCloud) {
+      let next: string | undefined = `${url}${separator}pagelen=50`;
+      for (let page = 0; next && page < maxPages; page++) {
+        const data: CloudPage<T> = await this.request<CloudPage<T>>(next);
+        items.push(...data.values);
+        next = data.next;
+      }
+      return items;
+    }
+
+    let start = 0;
+    for (let page = 0; page < maxPages; page++) {
+      const data = await this.request<DCPage<T>>(`${url}${separator}limit=100&start=${start}`);
+      items.push(...data.values);
+      if (data.isLastPage || data.nextPageStart === undefined) return items;
+      start = data.nextPageStart;
+    }
+    console.warn(`Reached maximum pages fetching ${url}`);
+    return items;
+  }
+
+  private async getCloudPR(prId: string | number): Promise<CloudPullRequest> {
+    return this.request<CloudPullRequest>(this.getPRApiUrl(prId));
+  }
+
+  private async getDCPR(prId: string | number): Promise<DCPullRequest> {
+    return this.request<DCPullRequest>(this.getPRApiUrl(prId));
+  }
+
+  async getPR(prId: string | number): Promise<PullRequest> {
+    if (this.isCloud) {
+      const pr = await this.getCloudPR(prId);
+      return {
+        id: String(pr.id),
+        number: pr.id,
+        title: pr.title,
+        description: pr.description || '',
+        author: {
+          id: pr.author.uuid,
+          username: pr.author.nickname || pr.author.display_name
+        },
+        sourceBranch: pr.source.branch.name,
+        targetBranch: pr.destination.branch.name,
+        url: pr.links.html.href,
+        createdAt: new Date(pr.created_on),
+        updatedAt: new Date(pr.updated_on)
+      };
+    }
+
+    const pr = await this.getDCPR(prId);
+    return {
+      id: String(pr.id),
+      number: pr.id,
+      title: pr.title,
+      description: pr.description || '',
+      author: {
+        id: String(pr.author.user.id),
+        username: pr.author.user.name,
+        email: pr.author.user.emailAddress
+      },
+      sourceBranch: pr.fromRef.displayId,
+      targetBranch: pr.toRef.displayId,
+      url: pr.links.self[0]?.href ?? '',
+      createdAt: new Date(pr.createdDate),
+      updatedAt: new Date(pr.updatedDate)
+    };
+  }
+
+  async getDiff(prId: string | number): Promise<Diff> {
+    // Both flavors can stream the PR as a raw unified diff
+    const url = this.isCloud ? this.getPRApiUrl(prId, '/diff') : this.getPRApiUrl(prId, '.diff');
+    const raw = await this.request<string>(url, { raw: true });
+    return this.toDiff(this.parseUnifiedDiff(raw));
+  }
+
+  private toDiff(files: FileDiff[]): Diff {
+    return {
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+      changedFiles: files.length
+    };
+  }
+
+  /**
+   * Parse a multi-file git unified diff (`diff --git a/… b/…` sections)
+   */
+  private parseUnifiedDiff(raw: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    const sections = raw.split(/^diff --git /m).slice(1);
+
+    for (const section of sections) {
+      const lines = section.split('\n');
+      const header = lines[0];
+      const headerMatch = header.match(/^"?a\/(.+?)"? "?b\/(.+?)"?$/);
+      let oldPath = headerMatch?.[1] ?? '';
+      let newPath = headerMatch?.[2] ?? '';
+      let status: FileDiff['status'] = 'modified';
+
+      const hunkStart = lines.findIndex(l => l.startsWith('@@'));
+      const metaLines = hunkStart === -1 ? lines.slice(1) : lines.slice(1, hunkStart);
+      for (const line of metaLines) {
+        if (line.startsWith('new file mode')) status = 'added';
+        else if (line.startsWith('deleted file mode')) status = 'deleted';
+        else if (line.startsWith('rename from ')) {
+          status = 'renamed';
+          oldPath = line.slice('rename from '.length);
+        } else if (line.startsWith('rename to ')) {
+          newPath = line.slice('rename to '.length);
+        } else if (line.startsWith('--- a/')) {
+          oldPath = line.slice('--- a/'.length);
+        } else if (line.startsWith('+++ b/')) {
+          newPath = line.slice('+++ b/'.length);
+        }
+      }
+
+      const hunks = hunkStart === -1 ? [] : this.parseHunks(lines.slice(hunkStart).join('\n'));
+      let additions = 0;
+      let deletions = 0;
+      for (const hunk of hunks) {
+        for (const line of hunk.content.split('\n')) {
+          if (line.startsWith('+')) additions++;
+          else if (line.startsWith('-')) deletions++;
+        }
+      }
+
+      files.push({
+        path: status === 'deleted' ? oldPath : newPath,
+        oldPath: status === 'renamed' ? oldPath : undefined,
+        status,
+        additions,
+        deletions,
+        hunks
+      });
+    }
+
+    return files;
+  }
+
+  private parseHunks(diffText: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    const hunkRegex = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@.*$/gm;
+    const matches = [...diffText.matchAll(hunkRegex)];
+
+    for (let i = 0; i < matches.length; i++) {
+      const match = matches[i];
+      const [header, oldStart, oldLines, newStart, newLines] = match;
+      const startIndex = (match.index ?? 0) + header.length + 1;
+      const endIndex = i + 1 < matches.length ? matches[i + 1].index ?? diffText.length : diffText.length;
+      const content = diffText
+        .slice(startIndex, endIndex)
+        .split('\n')
+        .filter(line => !line.startsWith('\\ No newline'))
+        .join('\n')
+        .replace(/\n+$/, '');
+
+      hunks.push({
+        oldStart: parseInt(oldStart) || 1,
+        oldLines: oldLines === '' ? 1 : parseInt(oldLines),
+        newStart: parseInt(newStart) || 1,
+        newLines: newLines === '' ? 1 : parseInt(newLines),
+        content
+      });
+    }
+
+    return hunks;
+  }
+
+  async getFiles(prId: string | number): Promise<FileInfo[]> {
+    const diff = await this.getDiff(prId);
+    return diff.files.map(f => ({
+      path: f.path,
+      language: this.detectLanguage(f.path)
+    }));
+  }
+
+  private detectLanguage(filename: string): string {
+    const ext = filename.split('.').pop()?.toLowerCase() || '';
+    const langMap: Record<string, string> = {
+      ts: 'typescript',
+      tsx: 'typescript',
+      js: 'javascript',
+      jsx: 'javascript',
+      py: 'python',
+      rb: 'ruby',
+      go: 'go',
+      rs: 'rust',
+      java: 'java',
+      kt: 'kotlin',
+      cs: 'csharp',
+      cpp: 'cpp',
+      c: 'c',
+      h: 'c',
+      hpp: 'cpp',
+      php: 'php',
+      json: 'json',
+      yaml: 'yaml',
+      yml: 'yaml',
+      md: 'markdown',
+      css: 'css',
+      scss: 'scss',
+      html: 'html',
+      sql: 'sql',
+      sh: 'bash'
+    };
+    return langMap[ext] || 'text';
+  }
+
+  /**
+   * Add the AgnusAI marker to a comment body
+   * This identifies our comments for reply handling
+   */
+  private addAgnusaiMarker(body: string): string {
+    if (body.trim().endsWith(AGNUSAI_MARKER)) {
+      return body;
+    }
+    return `${body.trim()}\n\n${AGNUSAI_MARKER}`;
+  }
+
+  /**
+   * Post a comment and return its ID. Inline when `anchor` is given, a reply when `parentId` is.
+   */
+  private async postComment(
+    prId: string | number,
+    body: string,
+    options: { anchor?: { path: string; line: number }; parentId?: number } = {}
+  ): Promise<number> {
+    const url = this.getPRApiUrl(prId, '/comments');
+
+    if (this.isCloud) {
+      const payload: Record<string, unknown> = { content: { raw: body } };
+      if (options.anchor) payload.inline = { path: options.anchor.path.replace(/^\//, ''), to: options.anchor.line };
+      if (options.parentId !== undefined) payload.parent = { id: options.parentId };
+      const created = await this.request<CloudComment>(url, { method: 'POST', body: payload });
+      this.commentRefs.set(created.id, { prId });
+      return created.id;
+    }
+
+    const payload: Record<string, unknown> = { text: body };
+    if (options.anchor) {
+      payload.anchor = {
+        path: options.anchor.path.replace(/^\//, ''),
+        line: options.anchor.line,
+        lineType: 'ADDED',
+        fileType: 'TO',
+        diffType: 'EFFECTIVE'
+      };
+    }
+    if (options.parentId !== undefined) payload.parent = { id: options.parentId };
+    const created = await this.request<DCComment>(url, { method: 'POST', body: payload });
+    this.commentRefs.set(created.id, { prId, version: created.version });
+    return created.id;
+  }
+
+  async addComment(prId: string | number, comment: ReviewComment): Promise<void> {
+    await this.postComment(prId, comment.body);
+  }
+
+  async addInlineComment(
+    prId: string | number,
+    path: string,
+    line: number,
+    body: string,
+    severity: 'info' | 'warning' | 'error' = 'info'
+  ): Promise<void> {
+    const severityEmoji = {
+      info: '💡',
+      warning: '⚠️',
+      error: '🚨'
+    };
+
+    await this.postComment(prId, `${severityEmoji[severity]} ${body}`, { anchor: { path, line } });
+  }
+
+  async submitReview(prId: string | number, review: Review): Promise<void> {
+    // Bitbucket has no batched review API — post each inline comment individually.
+    // An anchor outside the diff should not sink the whole review.
+    for (const comment of review.comments) {
+      try {
+        await this.postComment(prId, this.addAgnusaiMarker(comment.body), {
+          anchor: { path: comment.path, line: comment.line }
+        });
+      } catch (error: any) {
+        console.warn(`[bitbucket-adapter] Skipping inline comment at ${comment.path}:${comment.line}: ${error.message}`);
+      }
+    }
+
+    const verdictEmoji = {
+      approve: '✅',
+      request_changes: '🔄',
+      comment: '💬'
+    };
+
+    await this.postComment(
+      prId,
+      `${verdictEmoji[review.verdict]} **Review Summary**\n\n${review.summary}\n\n**Verdict:** ${review.verdict}`
+    );
+
+    if (review.verdict === 'comment') return;
+
+    try {
+      if (review.verdict === 'approve') {
+        await this.request(this.getPRApiUrl(prId, '/approve'), { method: 'POST', body: {} });
+      } else if (this.isCloud) {
+        await this.request(this.getPRApiUrl(prId, '/request-changes'), { method: 'POST', body: {} });
+      }
+      // Data Center "Needs work" requires the reviewer's user slug — the summary comment carries the verdict instead
+    } catch (error: any) {
+      // 400/403 when reviewing your own PR or when the token user is not a reviewer
+      console.log(`⚠️  Could not set review status on PR #${prId}: ${error.message}`);
+    }
+  }
+
+  async getLinkedTickets(prId: string | number): Promise<Ticket[]> {
+    const pr = await this.getPR(prId);
+    const ticketPatterns = [
+      /\b([A-Z]+-\d+)\b/g,  // Jira: PROJ-123
+      /#(\d+)/g              // Bitbucket issues: #123
+    ];
+
+    const tickets: Ticket[] = [];
+    const text = `${pr.title} ${pr.description}`;
+
+    for (const pattern of ticketPatterns) {
+      const matches = text.match(pattern) || [];
+      for (const match of matches) {
+        tickets.push({
+          id: match.replace('#', ''),
+          key: match.replace('#', ''),
+          title: 'Linked ticket',
+          description: '',
+          status: 'unknown',
+          type: 'unknown',
+          labels: []
+        });
+      }
+    }
+
+    return tickets;
+  }
+
+  async getAuthor(prId: string | number): Promise<Author> {
+    const pr = await this.getPR(prId);
+    return pr.author;
+  }
+
+  /**
+   * Update PR title and description.
+   * Bitbucket has no PR labels, so `description.labels` is not published.
+   */
+  async updatePRDescription(prId: string | number, description: PRDescriptionResult): Promise<void> {
+    if (this.isCloud) {
+      await this.request(this.getPRApiUrl(prId), {
+        method: 'PUT',
+        body: { title: description.title, description: description.body }
+      });
+      return;
+    }
+
+    // Data Center requires the current version for optimistic locking
+    const pr = await this.getDCPR(prId);
+    await this.request(this.getPRApiUrl(prId), {
+      method: 'PUT',
+      body: { version: pr.version, title: description.title, description: description.body }
+    });
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string> {
+    const filePath = path.replace(/^\//, '').split('/').map(encodeURIComponent).join('/');
+    const url = this.isCloud
+      ? this.getRepoApiUrl(`/src/${encodeURIComponent(ref || 'main')}/${filePath}`)
+      : this.getRepoApiUrl(`/raw/${filePath}?at=${encodeURIComponent(ref || 'main')}`);
+    try {
+      return await this.request<string>(url, { raw: true });
+    } catch {
+      return '';
+    }
+  }
+
+  // ============================================
+  // Comments
+  // ============================================
+
+  /**
+   * Fetch all comments flattened, with parent IDs.
+   * Data Center nests replies under their parent and only exposes comments via activities.
+   */
+  private async getAllComments(prId: string | number): Promise<DetailedReviewComment[]> {
+    if (this.isCloud) {
+      const comments = await this.requestAll<CloudComment>(this.getPRApiUrl(prId, '/comments'));
+      return comments
+        .filter(c => !c.deleted)
+        .map(c => {
+          this.commentRefs.set(c.id, { prId });
+          return {
+            id: c.id,
+            body: c.content?.raw || '',
+            user: {
+              login: c.user?.nickname || c.user?.display_name || 'unknown',
+              type: c.user?.type === 'team' ? 'Bot' : 'User'
+            },
+            path: c.inline?.path ?? '',
+            line: c.inline?.to ?? c.inline?.from ?? null,
+            originalLine: c.inline?.to ?? null,
+            inReplyToId: c.parent?.id ?? null,
+            createdAt: c.created_on,
+            updatedAt: c.updated_on,
+            htmlUrl: c.links?.html?.href ?? ''
+          };
+        });
+    }
+
+    const activities = await this.requestAll<DCActivity>(this.getPRApiUrl(prId, '/activities'));
+    const flattened: DetailedReviewComment[] = [];
+    const pr = await this.getDCPR(prId);
+    const prUrl = pr.links.self[0]?.href ?? '';
+
+    const visit = (comment: DCComment, anchor: DCActivity['commentAnchor'], parentId: number | null) => {
+      this.commentRefs.set(comment.id, { prId, version: comment.version });
+      flattened.push({
+        id: comment.id,
+        body: comment.text || '',
+        user: {
+          login: comment.author?.name || 'unknown',
+          type: 'User'
+        },
+        path: anchor?.path ?? '',
+        line: anchor?.line ?? null,
+        originalLine: anchor?.line ?? null,
+        inReplyToId: parentId,
+        createdAt: new Date(comment.createdDate).toISOString(),
+        updatedAt: new Date(comment.updatedDate).toISOString(),
+        htmlUrl: prUrl ? `${prUrl}?commentId=${comment.id}` : ''
+      });
+      for (const reply of comment.comments ?? []) {
+        visit(reply, anchor, comment.id);
+      }
+    };
+
+    for (const activity of activities) {
+      if (activity.action !== 'COMMENTED' || !activity.comment) continue;
+      visit(activity.comment, activity.commentAnchor ?? activity.comment.anchor, null);
+    }
+
+    return flattened;
+  }
+
+  /**
+   * Get all inline comments (comments anchored to a file)
+   */
+  async getReviewComments(prId: string | number): Promise<DetailedReviewComment[]> {
+    const comments = await this.getAllComments(prId);
+    return comments.filter(c => c.path !== '');
+  }
+
+  /**
+   * Get a single inline comment by ID
+   * The comment must have been seen by this adapter (listed or created) beforehand.
+   */
+  async getReviewComment(commentId: string | number): Promise<DetailedReviewComment> {
+    const { prId } = this.resolveComment(commentId);
+    const comments = await this.getReviewComments(prId);
+    const match = comments.find(c => c.id === Number(commentId));
+    if (!match) throw new Error(`Comment ${commentId} not found on PR #${prId}`);
+    return match;
+  }
+
+  /**
+   * Get PR-level (not inline) top-level comments
+   * Used to find checkpoint comments
+   */
+  async getPRComments(prId: string | number): Promise<PRComment[]> {
+    const comments = await this.getAllComments(prId);
+    return comments
+      .filter(c => c.path === '' && !c.inReplyToId)
+      .map(c => ({
+        id: c.id,
+        body: c.body,
+        user: c.user,
+        createdAt: c.createdAt,
+        updatedAt: c.updatedAt
+      }));
+  }
+
+  private resolveComment(commentId: string | number): { prId: string | number; version?: number } {
+    const ref = this.commentRefs.get(Number(commentId));
+    if (!ref) {
+      throw new Error(`Unknown pull request for comment ${commentId} — fetch or create it through this adapter first`);
+    }
+    return ref;
+  }
+
+  async updateReviewComment(
+    prId: string | number,
+    commentId: string | number,
+    body: string
+  ): Promise<void> {
+    const url = this.getPRApiUrl(prId, `/comments/${commentId}`);
+
+    if (this.isCloud) {
+      await this.request(url, { method: 'PUT', body: { content: { raw: body } } });
+      return;
+    }
+
+    const current = await this.request<DCComment>(url);
+    const updated = await this.request<DCComment>(url, {
+      method: 'PUT',
+      body: { text: body, version: current.version }
+    });
+    this.commentRefs.set(updated.id, { prId, version: updated.version });
+  }
+
+  async deleteReviewComment(
+    prId: string | number,
+    commentId: string | number
+  ): Promise<void> {
+    const url = this.getPRApiUrl(prId, `/comments/${commentId}`);
+
+    if (this.isCloud) {
+      await this.request(url, { method: 'DELETE' });
+      return;
+    }
+
+    const current = await this.request<DCComment>(url);
+    await this.request(`${url}?version=${current.version}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Reply to an existing comment
+   *
+   * @param prId PR number
+   * @param commentId The comment being replied to
+   * @param body The reply body
+   */
+  async createReply(prId: string | number, commentId: string | number, body: string): Promise<void> {
+    await this.postComment(prId, this.addAgnusaiMarker(body), { parentId: Number(commentId) });
+  }
+
+  // ============================================
+  // Checkpoint Methods
+  // ============================================
+
+  /**
+   * Find existing checkpoint comment
+   */
+  async findCheckpointComment(prId: string | number): Promise<PRComment | null> {
+    const comments = await this.getPRComments(prId);
+
+    const checkpointComments = comments.filter(c =>
+      c.body.includes('AGNUSAI_CHECKPOINT') || c.body.includes('AgnusAI Review Checkpoint')
+    );
+
+    if (checkpointComments.length === 0) {
+      return null;
+    }
+
+    return checkpointComments.sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )[0];
+  }
+
+  /**
+   * Create a checkpoint comment on the PR
+   *
+   * @returns The created comment ID
+   */
+  async createCheckpointComment(
+    prId: string | number,
+    checkpoint: ReviewCheckpoint
+  ): Promise<number> {
+    return this.postComment(prId, this.generateCheckpointBody(checkpoint));
+  }
+
+  /**
+   * Update an existing checkpoint comment
+   */
+  async updateCheckpointComment(
+    commentId: string | number,
+    checkpoint: ReviewCheckpoint
+  ): Promise<void> {
+    const { prId } = this.resolveComment(commentId);
+    await this.updateReviewComment(prId, commentId, this.generateCheckpointBody(checkpoint));
+  }
+
+  /**
+   * Delete a checkpoint comment
+   */
+  async deleteCheckpointComment(commentId: string | number): Promise<void> {
+    const { prId } = this.resolveComment(commentId);
+    await this.deleteReviewComment(prId, commentId);
+  }
+
+  /**
+   * Generate the checkpoint comment body
+   */
+  private generateCheckpointBody(checkpoint: ReviewCheckpoint): string {
+    const dateStr = new Date(checkpoint.timestamp * 1000).toISOString();
+
+    return `<!-- AGNUSAI_CHECKPOINT: ${JSON.stringify({
+      sha: checkpoint.sha,
+      timestamp: checkpoint.timestamp,
+      filesReviewed: checkpoint.filesReviewed,
+      commentCount: checkpoint.commentCount,
+      verdict: checkpoint.verdict
+    })} -->
+
+## 🔍 AgnusAI Review Checkpoint
+
+**Last reviewed commit:** \`${checkpoint.sha.substring(0, 7)}\`
+**Reviewed at:** ${dateStr}
+**Files reviewed:** ${checkpoint.filesReviewed.length}
+**Comments:** ${checkpoint.commentCount}
+**Verdict:** ${checkpoint.verdict === 'approve' ? '✅ Approved' : checkpoint.verdict === 'request_changes' ? '🔄 Changes Requested' : '💬 Commented'}
+
+---
+*This checkpoint enables incremental reviews. New commits will only trigger review of new changes.*`;
+  }
+
+  // ============================================
+  // Incremental Review Methods
+  // ============================================
+
+  /**
+   * Count commits reachable from `include` but not from `exclude`
+   */
+  private async countCommitsBetween(include: string, exclude: string): Promise<number> {
+    if (this.isCloud) {
+      const commits = await this.requestAll<{ hash: string }>(
+        this.getRepoApiUrl(`/commits/${encodeURIComponent(include)}?exclude=${encodeURIComponent(exclude)}`),
+        5
+      );
+      return commits.length;
+    }
+
+    const commits = await this.requestAll<{ id: string }>(
+      this.getRepoApiUrl(`/commits?until=${encodeURIComponent(include)}&since=${encodeURIComponent(exclude)}`),
+      5
+    );
+    return commits.length;
+  }
+
+  /**
+   * Compare two commits
+   */
+  async compareCommits(baseSha: string, headSha: string): Promise<CommitComparison> {
+    const [aheadBy, behindBy] = await Promise.all([
+      this.countCommitsBetween(headSha, baseSha),
+      this.countCommitsBetween(baseSha, headSha)
+    ]);
+
+    let files: FileDiff[] = [];
+    if (aheadBy > 0) {
+      // Cloud: `diff/{head}..{base}` is head compared to its merge base with base.
+      // Data Center: a patch of the commits in `since..until`.
+      const raw = this.isCloud
+        ? await this.request<string>(this.getRepoApiUrl(`/diff/${headSha}..${baseSha}`), { raw: true })
+        : await this.request<string>(
+            this.getRepoApiUrl(`/patch?since=${encodeURIComponent(baseSha)}&until=${encodeURIComponent(headSha)}`),
+            { raw: true }
+          );
+      files = this.parseUnifiedDiff(raw);
+    }
+
+    let status: CommitComparison['status'] = 'identical';
+    if (aheadBy > 0 && behindBy > 0) {
+      status = 'diverged';
+    } else if (aheadBy > 0) {
+      status = 'ahead';
+    } else if (behindBy > 0) {
+      status = 'behind';
+    }
+
+    return {
+      baseSha,
+      headSha,
+      status,
+      aheadBy,
+      behindBy,
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0)
+    };
+  }
+
+  /**
+   * Get the current HEAD SHA of a PR's source branch
+   */
+  async getHeadSha(prId: string | number): Promise<string> {
+    if (this.isCloud) {
+      const pr = await this.getCloudPR(prId);
+      return pr.source.commit.hash;
+    }
+    const pr = await this.getDCPR(prId);
+    return pr.fromRef.latestCommit;
+  }
+
+  /**
+   * Get incremental diff for a PR since a checkpoint
+   *
+   * @returns Incremental diff or null if full review needed
+   */
+  async getIncrementalDiff(
+    prId: string | number,
+    checkpointSha: string
+  ): Promise<{ diff: Diff; isIncremental: true } | { diff: null; isIncremental: false; reason: string }> {
+    const headSha = await this.getHeadSha(prId);
+
+    // Cloud reports abbreviated (12-char) hashes for the PR source commit
+    if (headSha.startsWith(checkpointSha) || checkpointSha.startsWith(headSha)) {
+      console.log('✓ No new commits since checkpoint');
+      return {
+        diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+        isIncremental: true
+      };
+    }
+
+    console.log(`📊 Comparing commits: checkpoint=${checkpointSha.substring(0, 7)} HEAD=${headSha.substring(0, 7)}`);
+
+    try {
+      const comparison = await this.compareCommits(checkpointSha, headSha);
+
+      console.log(`📊 Comparison status: ${comparison.status}, ahead_by=${comparison.aheadBy}, files=${comparison.files.length}`);
+
+      if (comparison.status === 'diverged') {
+        return {
+          diff: null,
+          isIncremental: false,
+          reason: 'Commits have diverged (possible force push)'
+        };
+      }
+
+      if (comparison.status === 'behind') {
+        return {
+          diff: null,
+          isIncremental: false,
+          reason: 'Checkpoint SHA is ahead of current HEAD (unexpected)'
+        };
+      }
+
+      return {
+        diff: this.toDiff(comparison.files),
+        isIncremental: true
+      };
+    } catch (error: any) {
+      // Checkpoint SHA no longer exists (force push + GC)
+      if (error.status === 404) {
+        return {
+          diff: null,
+          isIncremental: false,
+          reason: 'Checkpoint SHA not found in repository'
+        };
+      }
+      throw error;
+    }
+  }
+
+  // ============================================
+  // PR State Methods
+  // ============================================
+
+  private async getPRState(prId: string | number): Promise<{ state: string; draft: boolean; locked: boolean }> {
+    if (this.isCloud) {
+      const pr = await this.getCloudPR(prId);
+      return { state: pr.state, draft: pr.draft ?? false, locked: false };
+    }
+    const pr = await this.getDCPR(prId);
+    return { state: pr.state, draft: pr.draft ?? false, locked: pr.locked ?? false };
+  }
+
+  /**
+   * Check if PR is a draft
+   */
+  async isDraft(prId: string | number): Promise<boolean> {
+    return (await this.getPRState(prId)).draft;
+  }
+
+  /**
+   * Check if PR is merged
+   */
+  async isMerged(prId: string | number): Promise<boolean> {
+    return (await this.getPRState(prId)).state === 'MERGED';
+  }
+
+  /**
+   * Check if PR is closed (declined, superseded or merged)
+   */
+  async isClosed(prId: string | number): Promise<boolean> {
+    return (await this.getPRState(prId)).state !== 'OPEN';
+  }
+
+  /**
+   * Check if PR is locked
+   */
+  async isLocked(prId: string | number): Promise<boolean> {
+    return (await this.getPRState(prId)).locked;
+  }
+
+  /**
+   * Get file renames in a PR
+   */
+  async getFileRenames(prId: string | number): Promise<Array<{ oldPath: string; newPath: string }>> {
+    const diff = await this.getDiff(prId);
+
+    return diff.files
+      .filter(f => f.status === 'renamed' && f.oldPath)
+      .map(f => ({
+        oldPath: f.oldPath!,
+        newPath: f.path
+      }));
+  }
+
+  // ============================================
+  // Rate Limiting
+  // ============================================
+
+  /**
+   * Get rate limit status (Bitbucket does not expose a rate limit endpoint)
+   */
+  async getRateLimit(): Promise<{ limit: number; remaining: number; resetAt: Date } | null> {
+    return null;
+  }
+}
+
+export function createBitbucketAdapter(config: BitbucketConfig): BitbucketAdapter {
+  return new BitbucketAdapter(config);
+}
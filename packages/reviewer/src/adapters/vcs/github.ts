@@ -26,6 +26,13 @@ interface GitHubConfig {
   repo: string;
 }
 
+/** A PR review thread, identified to the REST API by the comment that starts it */
+interface GitHubReviewThread {
+  id: string;
+  isResolved: boolean;
+  firstCommentId?: number;
+}
+
 export class GitHubAdapter implements VCSAdapter {
   readonly name = 'github';
   private octokit: Octokit;
@@ -232,6 +239,64 @@ export class GitHubAdapter implements VCSAdapter {
     });
   }
 
+  /**
+   * Resolve the review thread a comment starts; throws if no thread starts with it.
+   *
+   * @param prId PR number
+   * @param commentId The thread's first review comment ID
+   */
+  async resolveThread(prId: string | number, commentId: string | number): Promise<void> {
+    let thread: GitHubReviewThread | undefined;
+    for await (const t of this.reviewThreads(prId)) {
+      if (t.firstCommentId === Number(commentId)) {
+        thread = t;
+        break;
+      }
+    }
+    if (!thread) throw new Error(`No review thread starts with comment ${commentId} on PR #${prId}`);
+    if (thread.isResolved) return;
+
+    await this.octokit.graphql(
+      `mutation($threadId: ID!) {
+        resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+      }`,
+      { threadId: thread.id }
+    );
+  }
+
+  /**
+   * The PR's review threads. Threads are only addressable through GraphQL and come 100
+   * at a time, so each page is fetched as the caller reaches it.
+   */
+  private async *reviewThreads(prId: string | number): AsyncGenerator<GitHubReviewThread> {
+    type ThreadPage = {
+      nodes: Array<{ id: string; isResolved: boolean; comments: { nodes: Array<{ databaseId: number }> } }>;
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+
+    let after: string | null = null;
+    do {
+      const response = await this.octokit.graphql<{ repository: { pullRequest: { reviewThreads: ThreadPage } } }>(
+        `query($owner: String!, $repo: String!, $number: Int!, $after: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              reviewThreads(first: 100, after: $after) {
+                nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+                pageInfo { hasNextPage endCursor }
+              }
+            }
+          }
+        }`,
+        { owner: this.owner, repo: this.repo, number: Number(prId), after }
+      );
+      const page: ThreadPage = response.repository.pullRequest.reviewThreads;
+      for (const t of page.nodes) {
+        yield { id: t.id, isResolved: t.isResolved, firstCommentId: t.comments.nodes[0]?.databaseId };
+      }
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+  }
+
   /**
    * Get a specific review comment by ID
    * Useful for checking if a comment is from AgnusAI
@@ -355,8 +420,10 @@ export class GitHubAdapter implements VCSAdapter {
       .map(c => ({
         path: c.path,
         line: c.line,
-        body: this.addAgnusaiMarker(c.body),
-        side: 'RIGHT' as const
+        side: 'RIGHT' as const,
+        // Multi-line comments carry a suggestion replacing every line from start_line
+        ...(c.startLine && c.startLine < c.line ? { start_line: c.startLine, start_side: 'RIGHT' as const } : {}),
+        body: this.addAgnusaiMarker(c.body)
       }));
 
     const eventMap: Record<string, 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT'> = {
@@ -622,6 +689,18 @@ export class GitHubAdapter implements VCSAdapter {
       }
     }
 
+    // Resolution is a property of threads, which only GraphQL exposes; replies point at
+    // the comment that starts their thread
+    if (comments.length > 0) {
+      const resolved = new Set<number>();
+      for await (const thread of this.reviewThreads(prId)) {
+        if (thread.isResolved && thread.firstCommentId) resolved.add(thread.firstCommentId);
+      }
+      for (const comment of comments) {
+        comment.resolved = resolved.has(comment.inReplyToId ?? comment.id);
+      }
+    }
+
     return comments;
   }
 
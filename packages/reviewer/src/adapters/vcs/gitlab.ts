@@ -0,0 +1,904 @@
+// GitLab VCS Adapter (gitlab.com and self-managed)
+
+import fetch from 'node-fetch';
+import { VCSAdapter } from './base';
+import {
+  PullRequest,
+  Diff,
+  FileInfo,
+  ReviewComment,
+  Review,
+  Ticket,
+  Author,
+  DiffHunk,
+  FileDiff,
+  CommitComparison,
+  PRComment,
+  ReviewCheckpoint,
+  DetailedReviewComment,
+  PRDescriptionResult
+} from '../../types';
+import { AGNUSAI_MARKER } from '../../review/thread';
+
+interface GitLabConfig {
+  token: string;
+  /** Full project path, e.g. "group/subgroup/project" (or numeric project ID) */
+  projectPath: string;
+  /** Instance root, e.g. https://gitlab.example.com (default: https://gitlab.com) */
+  baseUrl?: string;
+}
+
+interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  author: { id: number; username: string; email?: string };
+  source_branch: string;
+  target_branch: string;
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  draft?: boolean;
+  work_in_progress?: boolean;
+  discussion_locked?: boolean | null;
+  sha: string;
+  labels: string[];
+  diff_refs?: { base_sha: string; head_sha: string; start_sha: string } | null;
+}
+
+interface GitLabDiffEntry {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  author: { id: number; username: string };
+  system: boolean;
+  type: string | null;
+  created_at: string;
+  updated_at: string;
+  position?: {
+    new_path?: string;
+    old_path?: string;
+    new_line?: number | null;
+    old_line?: number | null;
+    head_sha?: string;
+  } | null;
+}
+
+interface GitLabDiscussion {
+  id: string;
+  individual_note: boolean;
+  notes: GitLabNote[];
+}
+
+export class GitLabAdapter implements VCSAdapter {
+  readonly name = 'gitlab';
+  private token: string;
+  private projectPath: string;
+  private baseUrl: string;
+  /**
+   * Notes are addressed through their merge request in GitLab, but the
+   * checkpoint update/delete API only receives the note ID — remember which
+   * MR each note seen by this adapter belongs to.
+   */
+  private noteMergeRequests = new Map<number, string | number>();
+
+  constructor(config: GitLabConfig) {
+    this.token = config.token;
+    this.projectPath = config.projectPath.replace(/^\/+|\/+$/g, '');
+    this.baseUrl = (config.baseUrl || 'https://gitlab.com').replace(/\/+$/, '');
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    return {
+      'PRIVATE-TOKEN': this.token,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /** Project-scoped REST URL — the project path is URL-encoded as GitLab requires */
+  private getProjectApiUrl(path: string): string {
+    return `${this.baseUrl}/api/v4/projects/${encodeURIComponent(this.projectPath)}${path}`;
+  }
+
+  private getMRApiUrl(prId: string | number, path = ''): string {
+    return this.getProjectApiUrl(`/merge_requests/${prId}${path}`);
+  }
+
+  private async request<T>(url: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    const response = await fetch(url, {
+      method: init.method ?? 'GET',
+      headers: this.getAuthHeaders(),
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      const error: Error & { status?: number } = new Error(
+        `GitLab API ${init.method ?? 'GET'} ${url.replace(this.baseUrl, '')} failed: ${response.status} ${response.statusText}${errorText ? ` - ${errorText.slice(0, 200)}` : ''}`
+      );
+      error.status = response.status;
+      throw error;
+    }
+
+    if (response.status === 204) return undefined as T;
+    return await response.json() as T;
+  }
+
+  /**
+   * Fetch every page of a paginated collection (GitLab uses page/per_page + X-Next-Page)
+   */
+  private async requestAll<T>(url: string, maxPages = 10): Promise<T[]> {
+    const items: T[] = [];
+    const separator = url.includes('?') ? '&' : '?';
+
+    for (let page = 1; page <= maxPages; page++) {
+      const response = await fetch(`${url}${separator}per_page=100&page=${page}`, {
+        headers: this.getAuthHeaders()
+      });
+      if (!response.ok) {
+        throw new Error(`GitLab API GET ${url.replace(this.baseUrl, '')} failed: ${response.status} ${response.statusText}`);
+      }
+      const pageItems = await response.json() as T[];
+      items.push(...pageItems);
+
+      const nextPage = response.headers.get('x-next-page');
+      if (!nextPage || pageItems.length === 0) return items;
+    }
+
+    console.warn(`Reached maximum pages fetching ${url.replace(this.baseUrl, '')}`);
+    return items;
+  }
+
+  private async getMergeRequest(prId: string | number): Promise<GitLabMergeRequest> {
+    return this.request<GitLabMergeRequest>(this.getMRApiUrl(prId));
+  }
+
+  async getPR(prId: string | number): Promise<PullRequest> {
+    const mr = await this.getMergeRequest(prId);
+
+    return {
+      id: String(mr.id),
+      number: mr.iid,
+      title: mr.title,
+      description: mr.description || '',
+      author: {
+        id: String(mr.author.id),
+        username: mr.author.username,
+        email: mr.author.email
+      },
+      sourceBranch: mr.source_branch,
+      targetBranch: mr.target_branch,
+      url: mr.web_url,
+      createdAt: new Date(mr.created_at),
+      updatedAt: new Date(mr.updated_at)
+    };
+  }
+
+  async getDiff(prId: string | number): Promise<Diff> {
+    const entries = await this.requestAll<GitLabDiffEntry>(this.getMRApiUrl(prId, '/diffs'));
+    const files = entries.map(entry => this.toFileDiff(entry));
+
+    return {
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+      changedFiles: files.length
+    };
+  }
+
+  private toFileDiff(entry: GitLabDiffEntry): FileDiff {
+    let status: FileDiff['status'] = 'modified';
+    if (entry.new_file) status = 'added';
+    else if (entry.deleted_file) status = 'deleted';
+    else if (entry.renamed_file) status = 'renamed';
+
+    const hunks = this.parseHunks(entry.diff || '');
+    let additions = 0;
+    let deletions = 0;
+    for (const hunk of hunks) {
+      for (const line of hunk.content.split('\n')) {
+        if (line.startsWith('+')) additions++;
+        else if (line.startsWith('-')) deletions++;
+      }
+    }
+
+    return {
+      path: entry.new_path,
+      oldPath: entry.renamed_file ? entry.old_path : undefined,
+      status,
+      additions,
+      deletions,
+      hunks
+    };
+  }
+
+  private parseHunks(diffText: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    const hunkRegex = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@.*$/gm;
+    const matches = [...diffText.matchAll(hunkRegex)];
+
+    for (let i = 0; i < matches.length; i++) {
+      const match = matches[i];
+      const [header, oldStart, oldLines, newStart, newLines] = match;
+      const startIndex = (match.index ?? 0) + header.length + 1;
+      const endIndex = i + 1 < matches.length ? matches[i + 1].index ?? diffText.length : diffText.length;
+      const content = diffText
+        .slice(startIndex, endIndex)
+        .split('\n')
+        .filter(line => !line.startsWith('\\ No newline'))
+        .join('\n')
+        .replace(/\n+$/, '');
+
+      hunks.push({
+        oldStart: parseInt(oldStart) || 1,
+        oldLines: oldLines === '' ? 1 : parseInt(oldLines),
+        newStart: parseInt(newStart) || 1,
+        newLines: newLines === '' ? 1 : parseInt(newLines),
+        content
+      });
+    }
+
+    return hunks;
+  }
+
+  async getFiles(prId: string | number): Promise<FileInfo[]> {
+    const diff = await this.getDiff(prId);
+    return diff.files.map(f => ({
+      path: f.path,
+      language: this.detectLanguage(f.path)
+    }));
+  }
+
+  private detectLanguage(filename: string): string {
+    const ext = filename.split('.').pop()?.toLowerCase() || '';
+    const langMap: Record<string, string> = {
+      ts: 'typescript',
+      tsx: 'typescript',
+      js: 'javascript',
+      jsx: 'javascript',
+      py: 'python',
+      rb: 'ruby',
+      go: 'go',
+      rs: 'rust',
+      java: 'java',
+      kt: 'kotlin',
+      cs: 'csharp',
+      cpp: 'cpp',
+      c: 'c',
+      h: 'c',
+      hpp: 'cpp',
+      php: 'php',
+      json: 'json',
+      yaml: 'yaml',
+      yml: 'yaml',
+      md: 'markdown',
+      css: 'css',
+      scss: 'scss',
+      html: 'html',
+      sql: 'sql',
+      sh: 'bash'
+    };
+    return langMap[ext] || 'text';
+  }
+
+  /**
+   * Add the AgnusAI marker to a comment body
+   * This identifies our comments for reply handling
+   */
+  private addAgnusaiMarker(body: string): string {
+    if (body.trim().endsWith(AGNUSAI_MARKER)) {
+      return body;
+    }
+    return `${body.trim()}\n\n${AGNUSAI_MARKER}`;
+  }
+
+  async addComment(prId: string | number, comment: ReviewComment): Promise<void> {
+    await this.request(this.getMRApiUrl(prId, '/notes'), {
+      method: 'POST',
+      body: { body: comment.body }
+    });
+  }
+
+  async addInlineComment(
+    prId: string | number,
+    path: string,
+    line: number,
+    body: string,
+    severity: 'info' | 'warning' | 'error' = 'info'
+  ): Promise<void> {
+    const severityEmoji = {
+      info: '💡',
+      warning: '⚠️',
+      error: '🚨'
+    };
+
+    const [mr, diff] = await Promise.all([this.getMergeRequest(prId), this.getDiff(prId)]);
+    await this.createDiffDiscussion(prId, mr, diff, path, line, `${severityEmoji[severity]} ${body}`);
+  }
+
+  /**
+   * Open a diff discussion anchored to a new-file line.
+   * GitLab requires the MR's diff_refs (base/start/head SHAs) to position the note,
+   * the file's path before a rename, and the old line too when the line is unchanged.
+   */
+  private async createDiffDiscussion(
+    prId: string | number,
+    mr: GitLabMergeRequest,
+    diff: Diff,
+    path: string,
+    line: number,
+    body: string
+  ): Promise<void> {
+    const refs = mr.diff_refs;
+    if (!refs) {
+      throw new Error(`Merge request !${prId} has no diff_refs — cannot post inline comment`);
+    }
+
+    const filePath = path.replace(/^\//, '');
+    const file = diff.files.find(f => f.path === filePath);
+    const oldLine = file ? this.unchangedOldLine(file, line) : undefined;
+    await this.request(this.getMRApiUrl(prId, '/discussions'), {
+      method: 'POST',
+      body: {
+        body,
+        position: {
+          position_type: 'text',
+          base_sha: refs.base_sha,
+          start_sha: refs.start_sha,
+          head_sha: refs.head_sha,
+          old_path: file?.oldPath ?? filePath,
+          new_path: filePath,
+          new_line: line,
+          ...(oldLine !== undefined && { old_line: oldLine })
+        }
+      }
+    });
+  }
+
+  /** The old-file number of new-file line `line` if it is a context line of `file`'s hunks */
+  private unchangedOldLine(file: FileDiff, line: number): number | undefined {
+    for (const hunk of file.hunks) {
+      let oldLine = hunk.oldStart;
+      let newLine = hunk.newStart;
+      for (const text of hunk.content.split('\n')) {
+        if (text.startsWith('+')) {
+          newLine++;
+        } else if (text.startsWith('-')) {
+          oldLine++;
+        } else {
+          if (newLine === line) return oldLine;
+          oldLine++;
+          newLine++;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  async submitReview(prId: string | number, review: Review): Promise<void> {
+    const [mr, diff] = await Promise.all([this.getMergeRequest(prId), this.getDiff(prId)]);
+
+    // Inline comments — one discussion per comment. A rejected position (line outside
+    // the diff) should not sink the whole review, so failures are logged and skipped.
+    for (const comment of review.comments) {
+      try {
+        await this.createDiffDiscussion(prId, mr, diff, comment.path, comment.line, this.addAgnusaiMarker(comment.body));
+      } catch (error: any) {
+        console.warn(`[gitlab-adapter] Skipping inline comment at ${comment.path}:${comment.line}: ${error.message}`);
+      }
+    }
+
+    const verdictEmoji = {
+      approve: '✅',
+      request_changes: '🔄',
+      comment: '💬'
+    };
+
+    await this.request(this.getMRApiUrl(prId, '/notes'), {
+      method: 'POST',
+      body: {
+        body: `${verdictEmoji[review.verdict]} **Review Summary**\n\n${review.summary}\n\n**Verdict:** ${review.verdict}`
+      }
+    });
+
+    // GitLab has no "request changes" review state via the REST API — approve is the only vote
+    if (review.verdict === 'approve') {
+      try {
+        await this.request(this.getMRApiUrl(prId, '/approve'), { method: 'POST', body: {} });
+      } catch (error: any) {
+        // 401/403 when approving your own MR or when approvals are restricted
+        console.log(`⚠️  Could not approve merge request !${prId}: ${error.message}`);
+      }
+    }
+  }
+
+  async getLinkedTickets(prId: string | number): Promise<Ticket[]> {
+    const pr = await this.getPR(prId);
+    const ticketPatterns = [
+      /\b([A-Z]+-\d+)\b/g,  // Jira: PROJ-123
+      /#(\d+)/g              // GitLab issues: #123
+    ];
+
+    const tickets: Ticket[] = [];
+    const text = `${pr.title} ${pr.description}`;
+
+    for (const pattern of ticketPatterns) {
+      const matches = text.match(pattern) || [];
+      for (const match of matches) {
+        tickets.push({
+          id: match.replace('#', ''),
+          key: match.replace('#', ''),
+          title: 'Linked ticket',
+          description: '',
+          status: 'unknown',
+          type: 'unknown',
+          labels: []
+        });
+      }
+    }
+
+    return tickets;
+  }
+
+  async getAuthor(prId: string | number): Promise<Author> {
+    const pr = await this.getPR(prId);
+    return pr.author;
+  }
+
+  async updatePRDescription(prId: string | number, description: PRDescriptionResult): Promise<void> {
+    const labels = new Set<string>([
+      `type:${description.changeType}`,
+      ...description.labels.map(l => l.trim()).filter(Boolean)
+    ]);
+
+    // add_labels is additive — existing labels on the MR are preserved
+    await this.request(this.getMRApiUrl(prId), {
+      method: 'PUT',
+      body: {
+        title: description.title,
+        description: description.body,
+        add_labels: Array.from(labels).join(',')
+      }
+    });
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string> {
+    const url = this.getProjectApiUrl(
+      `/repository/files/${encodeURIComponent(path.replace(/^\//, ''))}/raw?ref=${encodeURIComponent(ref || 'main')}`
+    );
+    try {
+      const response = await fetch(url, { headers: this.getAuthHeaders() });
+      if (!response.ok) return '';
+      return await response.text();
+    } catch {
+      return '';
+    }
+  }
+
+  // ============================================
+  // Comments — notes and discussions
+  // ============================================
+
+  private async getDiscussions(prId: string | number): Promise<GitLabDiscussion[]> {
+    return this.requestAll<GitLabDiscussion>(this.getMRApiUrl(prId, '/discussions'));
+  }
+
+  private toDetailedComment(
+    prId: string | number,
+    discussion: GitLabDiscussion,
+    note: GitLabNote,
+    rootNoteId: number
+  ): DetailedReviewComment {
+    const position = note.position ?? discussion.notes[0]?.position ?? null;
+    return {
+      id: note.id,
+      body: note.body || '',
+      user: {
+        login: note.author.username,
+        type: 'User'
+      },
+      path: position?.new_path ?? position?.old_path ?? '',
+      line: position?.new_line ?? position?.old_line ?? null,
+      originalLine: position?.new_line ?? null,
+      commitId: position?.head_sha,
+      inReplyToId: note.id === rootNoteId ? null : rootNoteId,
+      createdAt: note.created_at,
+      updatedAt: note.updated_at,
+      htmlUrl: `${this.baseUrl}/${this.projectPath}/-/merge_requests/${prId}#note_${note.id}`
+    };
+  }
+
+  /**
+   * Get all diff discussion notes (inline comments on code)
+   * Replies carry inReplyToId = the discussion's first note ID
+   */
+  async getReviewComments(prId: string | number): Promise<DetailedReviewComment[]> {
+    const discussions = await this.getDiscussions(prId);
+    const comments: DetailedReviewComment[] = [];
+
+    for (const discussion of discussions) {
+      const notes = (discussion.notes || []).filter(n => !n.system);
+      if (notes.length === 0) continue;
+      if (notes[0].type !== 'DiffNote') continue;
+
+      for (const note of notes) {
+        this.noteMergeRequests.set(note.id, prId);
+        comments.push(this.toDetailedComment(prId, discussion, note, notes[0].id));
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * Get a single diff note by ID
+   * Notes are scoped to a merge request, so the note must have been seen
+   * by this adapter (via getReviewComments) beforehand.
+   */
+  async getReviewComment(commentId: string | number): Promise<DetailedReviewComment> {
+    const prId = this.resolveNoteMR(commentId);
+    const comments = await this.getReviewComments(prId);
+    const match = comments.find(c => c.id === Number(commentId));
+    if (!match) throw new Error(`Note ${commentId} not found on merge request !${prId}`);
+    return match;
+  }
+
+  /**
+   * Get MR-level (non-diff) notes
+   * Used to find checkpoint comments
+   */
+  async getPRComments(prId: string | number): Promise<PRComment[]> {
+    const notes = await this.requestAll<GitLabNote>(this.getMRApiUrl(prId, '/notes?sort=asc&order_by=created_at'));
+
+    const comments = notes.filter(n => !n.system && n.type !== 'DiffNote');
+    for (const note of comments) {
+      this.noteMergeRequests.set(note.id, prId);
+    }
+
+    return comments
+      .map(n => ({
+        id: n.id,
+        body: n.body || '',
+        user: {
+          login: n.author.username,
+          type: 'User'
+        },
+        createdAt: n.created_at,
+        updatedAt: n.updated_at
+      }));
+  }
+
+  async updateReviewComment(
+    prId: string | number,
+    commentId: string | number,
+    body: string
+  ): Promise<void> {
+    await this.request(this.getMRApiUrl(prId, `/notes/${commentId}`), {
+      method: 'PUT',
+      body: { body }
+    });
+  }
+
+  async deleteReviewComment(
+    prId: string | number,
+    commentId: string | number
+  ): Promise<void> {
+    await this.request(this.getMRApiUrl(prId, `/notes/${commentId}`), { method: 'DELETE' });
+  }
+
+  /**
+   * Reply to an existing diff discussion
+   * GitLab replies are added to the discussion that owns the root note
+   *
+   * @param prId MR IID
+   * @param commentId Any note ID in the discussion (usually the root)
+   * @param body The reply body
+   */
+  async createReply(prId: string | number, commentId: string | number, body: string): Promise<void> {
+    const discussions = await this.getDiscussions(prId);
+    const discussion = discussions.find(d => d.notes.some(n => n.id === Number(commentId)));
+    if (!discussion) {
+      throw new Error(`No discussion found for note ${commentId} on merge request !${prId}`);
+    }
+
+    await this.request(this.getMRApiUrl(prId, `/discussions/${discussion.id}/notes`), {
+      method: 'POST',
+      body: { body: this.addAgnusaiMarker(body) }
+    });
+  }
+
+  // ============================================
+  // Checkpoint Methods
+  // ============================================
+
+  /**
+   * Find existing checkpoint comment
+   */
+  async findCheckpointComment(prId: string | number): Promise<PRComment | null> {
+    const comments = await this.getPRComments(prId);
+
+    const checkpointComments = comments.filter(c =>
+      c.body.includes('AGNUSAI_CHECKPOINT') || c.body.includes('AgnusAI Review Checkpoint')
+    );
+
+    if (checkpointComments.length === 0) {
+      return null;
+    }
+
+    return checkpointComments.sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )[0];
+  }
+
+  /**
+   * Create a checkpoint note on the MR
+   *
+   * @returns The created note ID
+   */
+  async createCheckpointComment(
+    prId: string | number,
+    checkpoint: ReviewCheckpoint
+  ): Promise<number> {
+    const note = await this.request<GitLabNote>(this.getMRApiUrl(prId, '/notes'), {
+      method: 'POST',
+      body: { body: this.generateCheckpointBody(checkpoint) }
+    });
+    this.noteMergeRequests.set(note.id, prId);
+    return note.id;
+  }
+
+  private resolveNoteMR(commentId: string | number): string | number {
+    const prId = this.noteMergeRequests.get(Number(commentId));
+    if (prId === undefined) {
+      throw new Error(`Unknown merge request for note ${commentId} — fetch or create it through this adapter first`);
+    }
+    return prId;
+  }
+
+  /**
+   * Update an existing checkpoint note
+   */
+  async updateCheckpointComment(
+    commentId: string | number,
+    checkpoint: ReviewCheckpoint
+  ): Promise<void> {
+    const prId = this.resolveNoteMR(commentId);
+    await this.request(this.getMRApiUrl(prId, `/notes/${commentId}`), {
+      method: 'PUT',
+      body: { body: this.generateCheckpointBody(checkpoint) }
+    });
+  }
+
+  /**
+   * Delete a checkpoint note
+   */
+  async deleteCheckpointComment(commentId: string | number): Promise<void> {
+    const prId = this.resolveNoteMR(commentId);
+    await this.request(this.getMRApiUrl(prId, `/notes/${commentId}`), { method: 'DELETE' });
+  }
+
+  /**
+   * Generate the checkpoint comment body
+   */
+  private generateCheckpointBody(checkpoint: ReviewCheckpoint): string {
+    const dateStr = new Date(checkpoint.timestamp * 1000).toISOString();
+
+    return `<!-- AGNUSAI_CHECKPOINT: ${JSON.stringify({
+      sha: checkpoint.sha,
+      timestamp: checkpoint.timestamp,
+      filesReviewed: checkpoint.filesReviewed,
+      commentCount: checkpoint.commentCount,
+      verdict: checkpoint.verdict
+    })} -->
+
+## 🔍 AgnusAI Review Checkpoint
+
+**Last reviewed commit:** \`${checkpoint.sha.substring(0, 7)}\`
+**Reviewed at:** ${dateStr}
+**Files reviewed:** ${checkpoint.filesReviewed.length}
+**Comments:** ${checkpoint.commentCount}
+**Verdict:** ${checkpoint.verdict === 'approve' ? '✅ Approved' : checkpoint.verdict === 'request_changes' ? '🔄 Changes Requested' : '💬 Commented'}
+
+---
+*This checkpoint enables incremental reviews. New commits will only trigger review of new changes.*`;
+  }
+
+  // ============================================
+  // Incremental Review Methods
+  // ============================================
+
+  /**
+   * Compare two commits using GitLab's repository compare API.
+   * The API only reports commits reachable from `to` but not `from`, so the
+   * reverse comparison is used to detect diverged/behind histories.
+   */
+  async compareCommits(baseSha: string, headSha: string): Promise<CommitComparison> {
+    const compareUrl = (from: string, to: string) => this.getProjectApiUrl(
+      `/repository/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+    );
+
+    const [forward, reverse] = await Promise.all([
+      this.request<{ commits: Array<{ id: string }>; diffs: GitLabDiffEntry[] }>(compareUrl(baseSha, headSha)),
+      this.request<{ commits: Array<{ id: string }> }>(compareUrl(headSha, baseSha))
+    ]);
+
+    const files = (forward.diffs || []).map(entry => this.toFileDiff(entry));
+    const aheadBy = forward.commits?.length ?? 0;
+    const behindBy = reverse.commits?.length ?? 0;
+
+    let status: CommitComparison['status'] = 'identical';
+    if (aheadBy > 0 && behindBy > 0) {
+      status = 'diverged';
+    } else if (aheadBy > 0) {
+      status = 'ahead';
+    } else if (behindBy > 0) {
+      status = 'behind';
+    }
+
+    return {
+      baseSha,
+      headSha,
+      status,
+      aheadBy,
+      behindBy,
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0)
+    };
+  }
+
+  /**
+   * Get the current HEAD SHA of a merge request
+   */
+  async getHeadSha(prId: string | number): Promise<string> {
+    const mr = await this.getMergeRequest(prId);
+    return mr.diff_refs?.head_sha ?? mr.sha;
+  }
+
+  /**
+   * Get incremental diff for a merge request since a checkpoint
+   *
+   * @returns Incremental diff or null if full review needed
+   */
+  async getIncrementalDiff(
+    prId: string | number,
+    checkpointSha: string
+  ): Promise<{ diff: Diff; isIncremental: true } | { diff: null; isIncremental: false; reason: string }> {
+    const headSha = await this.getHeadSha(prId);
+
+    console.log(`📊 Comparing commits: checkpoint=${checkpointSha.substring(0, 7)} HEAD=${headSha.substring(0, 7)}`);
+
+    if (headSha === checkpointSha) {
+      console.log('✓ No new commits since checkpoint');
+      return {
+        diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+        isIncremental: true
+      };
+    }
+
+    try {
+      const comparison = await this.compareCommits(checkpointSha, headSha);
+
+      console.log(`📊 Comparison status: ${comparison.status}, ahead_by=${comparison.aheadBy}, files=${comparison.files.length}`);
+
+      if (comparison.status === 'diverged') {
+        return {
+          diff: null,
+          isIncremental: false,
+          reason: 'Commits have diverged (possible force push)'
+        };
+      }
+
+      if (comparison.status === 'behind') {
+        return {
+          diff: null,
+          isIncremental: false,
+          reason: 'Checkpoint SHA is ahead of current HEAD (unexpected)'
+        };
+      }
+
+      if (comparison.status === 'identical') {
+        console.log('✓ Commits are identical, no changes');
+        return {
+          diff: { files: [], additions: 0, deletions: 0, changedFiles: 0 },
+          isIncremental: true
+        };
+      }
+
+      return {
+        diff: {
+          files: comparison.files,
+          additions: comparison.additions,
+          deletions: comparison.deletions,
+          changedFiles: comparison.files.length
+        },
+        isIncremental: true
+      };
+    } catch (error: any) {
+      // Checkpoint SHA no longer exists (force push + GC)
+      if (error.status === 404) {
+        return {
+          diff: null,
+          isIncremental: false,
+          reason: 'Checkpoint SHA not found in repository'
+        };
+      }
+      throw error;
+    }
+  }
+
+  // ============================================
+  // PR State Methods
+  // ============================================
+
+  /**
+   * Check if MR is a draft
+   */
+  async isDraft(prId: string | number): Promise<boolean> {
+    const mr = await this.getMergeRequest(prId);
+    return mr.draft ?? mr.work_in_progress ?? false;
+  }
+
+  /**
+   * Check if MR is merged
+   */
+  async isMerged(prId: string | number): Promise<boolean> {
+    const mr = await this.getMergeRequest(prId);
+    return mr.state === 'merged';
+  }
+
+  /**
+   * Check if MR is closed
+   */
+  async isClosed(prId: string | number): Promise<boolean> {
+    const mr = await this.getMergeRequest(prId);
+    return mr.state === 'closed' || mr.state === 'merged';
+  }
+
+  /**
+   * Check if discussion is locked
+   */
+  async isLocked(prId: string | number): Promise<boolean> {
+    const mr = await this.getMergeRequest(prId);
+    return mr.discussion_locked ?? false;
+  }
+
+  /**
+   * Get file renames in a MR
+   */
+  async getFileRenames(prId: string | number): Promise<Array<{ oldPath: string; newPath: string }>> {
+    const diff = await this.getDiff(prId);
+
+    return diff.files
+      .filter(f => f.status === 'renamed' && f.oldPath)
+      .map(f => ({
+        oldPath: f.oldPath!,
+        newPath: f.path
+      }));
+  }
+
+  // ============================================
+  // Rate Limiting
+  // ============================================
+
+  /**
+   * Get rate limit status (GitLab only reports limits in response headers)
+   */
+  async getRateLimit(): Promise<{ limit: number; remaining: number; resetAt: Date } | null> {
+    return null;
+  }
+}
+
+export function createGitLabAdapter(config: GitLabConfig): GitLabAdapter {
+  return new GitLabAdapter(config);
+}
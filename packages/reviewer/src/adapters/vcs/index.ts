@@ -2,3 +2,5 @@
 export { VCSAdapter } from './base';
 export { GitHubAdapter, createGitHubAdapter } from './github';
 export { AzureDevOpsAdapter, createAzureDevOpsAdapter } from './azure-devops';
+export { GitLabAdapter, createGitLabAdapter } from './gitlab';
+export { BitbucketAdapter, createBitbucketAdapter } from './bitbucket';
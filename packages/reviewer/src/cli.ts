@@ -8,10 +8,13 @@ import os from 'os';
 
 import { GitHubAdapter } from './adapters/vcs/github';
 import { AzureDevOpsAdapter } from './adapters/vcs/azure-devops';
+import { GitLabAdapter } from './adapters/vcs/gitlab';
+import { BitbucketAdapter } from './adapters/vcs/bitbucket';
 import { createBackendFromEnv } from './llm/unified';
 import { SkillLoader } from './skills/loader';
 import { PRReviewAgent } from './index';
 import { Config, LLMConfig } from './types';
+import type { VCSAdapter } from './adapters/vcs/base';
 
 const program = new Command();
 
@@ -34,13 +37,13 @@ program
   .option('--api-key <key>', 'API key for the AgnusAI server (set API_KEY in server .env)')
   .option('--repo-id <id>', 'Repository ID from the dashboard (required with --server)')
   // ── Standalone mode ──────────────────────────────────────────────────────
-  .option('--vcs <vcs>', 'VCS platform: github | azure (standalone only)', 'github')
+  .option('--vcs <vcs>', 'VCS platform: github | azure | gitlab | bitbucket (standalone only)', 'github')
   .option('--provider <provider>', 'LLM provider: ollama | openai | claude | azure (standalone only)', 'ollama')
   .option('--model <model>', 'Override LLM model name (standalone only)')
   .option('--dry-run', 'Print review without posting comments', false)
   .option('--output <format>', 'Output format: json | markdown', 'markdown')
   .option('--config <path>', 'Path to config file', DEFAULT_CONFIG_PATH)
-  .option('--incremental', 'Only review new commits since last checkpoint (GitHub standalone only)', false)
+  .option('--incremental', 'Only review new commits since last checkpoint (GitHub/GitLab/Bitbucket standalone only)', false)
   .option('--force-full', 'Force full review, ignoring checkpoint', false)
   .option('--skill <skill>', 'Review skill to use', 'default')
   .action(async (options) => {
@@ -96,56 +99,23 @@ program
       if (options.provider) config.llm.provider = options.provider;
       if (options.model)    config.llm.model    = options.model;
 
-      // Parse repo
-      const [owner, repo] = options.repo.split('/');
-      if (!owner || !repo) {
-        console.error('Invalid --repo format. Use: owner/repo');
-        process.exit(1);
-      }
-
-      // Initialize VCS adapter
-      let vcs;
-      if (options.vcs === 'github') {
-        const token = process.env.GITHUB_TOKEN || config.vcs.github?.token;
-        if (!token) {
-          console.error('GitHub token required. Set GITHUB_TOKEN env var or config.');
-          process.exit(1);
-        }
-        vcs = new GitHubAdapter({ token, owner, repo });
-      } else if (options.vcs === 'azure') {
-        const azureConfig = config.vcs.azure;
-        const organization = process.env.AZURE_DEVOPS_ORG ?? azureConfig?.organization;
-        const project      = process.env.AZURE_DEVOPS_PROJECT ?? azureConfig?.project;
-        const token        = process.env.AZURE_DEVOPS_TOKEN ?? azureConfig?.token;
-        if (!organization || !project || !token) {
-          console.error(
-            'Azure DevOps config required.\n' +
-            'Set AZURE_DEVOPS_ORG, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_TOKEN env vars\n' +
-            'or add vcs.azure to ~/.pr-review/config.yaml'
-          );
-          process.exit(1);
-        }
-        vcs = new AzureDevOpsAdapter({ organization, project, repository: repo, token });
-      } else {
-        console.error(`Unknown --vcs value: ${options.vcs}`);
-        process.exit(1);
-      }
+      const vcs = createVcsAdapter(options.vcs, options.repo, config);
 
       const llm   = createBackendFromEnv(process.env);
       const agent = new PRReviewAgent(config);
       agent.setVCS(vcs);
       agent.setLLM(llm);
 
-      console.log(`\nReviewing PR #${options.pr} in ${owner}/${repo}...\n`);
+      console.log(`\nReviewing PR #${options.pr} in ${options.repo}...\n`);
 
       let result;
-      if (options.incremental && options.vcs === 'github') {
+      if (options.incremental && options.vcs !== 'azure') {
         result = await agent.incrementalReview(Number(options.pr), {
           forceFull: options.forceFull,
           skipCheckpoint: options.dryRun,
         });
       } else {
-        if (options.incremental) console.log('Incremental mode only supported for GitHub — running full review.');
+        if (options.incremental) console.log('Incremental mode not supported for Azure DevOps — running full review.');
         result = await agent.review(Number(options.pr));
       }
 
@@ -169,6 +139,87 @@ program
     }
   });
 
+program
+  .command('ask')
+  .description('Answer a question about a pull request and post the answer as a PR comment')
+  .argument('<question>', 'Question about the PR, e.g. "what else calls this?"')
+  .requiredOption('--pr <number>', 'Pull request number')
+  .option('--repo <repo>', 'Repository in owner/repo format (standalone mode)')
+  .option('--base-branch <branch>', 'Base branch the PR targets (default: main)', 'main')
+  // ── Hosted service mode ──────────────────────────────────────────────────
+  .option('--server <url>', 'AgnusAI server URL — answers from the indexed symbol graph')
+  .option('--api-key <key>', 'API key for the AgnusAI server (set API_KEY in server .env)')
+  .option('--repo-id <id>', 'Repository ID from the dashboard (required with --server)')
+  // ── Standalone mode ──────────────────────────────────────────────────────
+  .option('--vcs <vcs>', 'VCS platform: github | azure | gitlab | bitbucket (standalone only)', 'github')
+  .option('--provider <provider>', 'LLM provider: ollama | openai | claude | azure (standalone only)', 'ollama')
+  .option('--model <model>', 'Override LLM model name (standalone only)')
+  .option('--dry-run', 'Print the answer without posting it', false)
+  .option('--config <path>', 'Path to config file', DEFAULT_CONFIG_PATH)
+  .action(async (question: string, options) => {
+    try {
+
+      // ── Hosted service mode ─────────────────────────────────────────────
+      if (options.server) {
+        if (!options.repoId) {
+          console.error('--repo-id is required when using --server mode.\nFind it in the dashboard URL: /app/ready/<repoId>');
+          process.exit(1);
+        }
+
+        const serverUrl = options.server.replace(/\/$/, '');
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (options.apiKey) headers['Authorization'] = `Bearer ${options.apiKey}`;
+
+        const res = await fetch(`${serverUrl}/api/repos/${options.repoId}/ask`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            prNumber: Number(options.pr),
+            question,
+            baseBranch: options.baseBranch,
+            dryRun: options.dryRun,
+          }),
+        });
+
+        const body = await res.json() as Record<string, unknown>;
+
+        if (!res.ok) {
+          console.error(`Question failed (HTTP ${res.status}): ${body.error ?? JSON.stringify(body)}`);
+          process.exit(1);
+        }
+
+        console.log(`\n${body.answer}\n`);
+        if (!options.dryRun) console.log(`Answer posted to PR #${options.pr}.`);
+        return;
+      }
+
+      // ── Standalone mode — no symbol graph, so the answer rests on the diff alone ──
+      if (!options.repo) {
+        console.error('--repo is required in standalone mode (use --server for hosted service mode).');
+        process.exit(1);
+      }
+
+      const config = loadConfig(options.config);
+      if (options.provider) config.llm.provider = options.provider;
+      if (options.model)    config.llm.model    = options.model;
+
+      const agent = new PRReviewAgent(config);
+      agent.setVCS(createVcsAdapter(options.vcs, options.repo, config));
+      agent.setLLM(createBackendFromEnv(process.env));
+
+      const answer = options.dryRun
+        ? await agent.answer(Number(options.pr), question)
+        : await agent.ask(Number(options.pr), question);
+
+      console.log(`\n${answer}\n`);
+      if (!options.dryRun) console.log(`Answer posted to PR #${options.pr}.`);
+
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('skills')
   .description('List available review skills')
@@ -200,6 +251,60 @@ program
     console.log(yaml.dump(config, { indent: 2 }));
   });
 
+/** VCS adapter for `--vcs` and `--repo`, with tokens from the env or the config file; exits on bad input */
+function createVcsAdapter(vcsName: string, repoArg: string, config: Config): VCSAdapter {
+  // Parse repo
+  const [owner, repo] = repoArg.split('/');
+  if (!owner || !repo) {
+    console.error('Invalid --repo format. Use: owner/repo');
+    process.exit(1);
+  }
+
+  if (vcsName === 'github') {
+    const token = process.env.GITHUB_TOKEN || config.vcs.github?.token;
+    if (!token) {
+      console.error('GitHub token required. Set GITHUB_TOKEN env var or config.');
+      process.exit(1);
+    }
+    return new GitHubAdapter({ token, owner, repo });
+  } else if (vcsName === 'azure') {
+    const azureConfig = config.vcs.azure;
+    const organization = process.env.AZURE_DEVOPS_ORG ?? azureConfig?.organization;
+    const project      = process.env.AZURE_DEVOPS_PROJECT ?? azureConfig?.project;
+    const token        = process.env.AZURE_DEVOPS_TOKEN ?? azureConfig?.token;
+    if (!organization || !project || !token) {
+      console.error(
+        'Azure DevOps config required.\n' +
+        'Set AZURE_DEVOPS_ORG, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_TOKEN env vars\n' +
+        'or add vcs.azure to ~/.pr-review/config.yaml'
+      );
+      process.exit(1);
+    }
+    return new AzureDevOpsAdapter({ organization, project, repository: repo, token });
+  } else if (vcsName === 'gitlab') {
+    const token   = process.env.GITLAB_TOKEN ?? config.vcs.gitlab?.token;
+    const baseUrl = process.env.GITLAB_URL ?? config.vcs.gitlab?.baseUrl;
+    if (!token) {
+      console.error('GitLab token required. Set GITLAB_TOKEN env var or vcs.gitlab.token in config.');
+      process.exit(1);
+    }
+    // --repo carries the full project path so nested groups (group/sub/project) work
+    return new GitLabAdapter({ token, projectPath: repoArg, baseUrl });
+  } else if (vcsName === 'bitbucket') {
+    const token   = process.env.BITBUCKET_TOKEN ?? config.vcs.bitbucket?.token;
+    const baseUrl = process.env.BITBUCKET_URL ?? config.vcs.bitbucket?.baseUrl;
+    if (!token) {
+      console.error('Bitbucket token required. Set BITBUCKET_TOKEN env var or vcs.bitbucket.token in config.');
+      process.exit(1);
+    }
+    // --repo is workspace/repo (Cloud) or PROJECT_KEY/repo (Data Center)
+    return new BitbucketAdapter({ token, workspace: owner, repoSlug: repo, baseUrl });
+  } else {
+    console.error(`Unknown --vcs value: ${vcsName}`);
+    process.exit(1);
+  }
+}
+
 function loadConfig(configPath: string): Config {
   const defaultConfig: Config = {
     vcs: {
@@ -109,6 +109,7 @@ export class ContextBuilder {
 
   /**
    * Truncate diff if it exceeds configured size limit
+   * @deprecated Files past the limit are never reviewed — use `planChunks` from '../review/chunking'
    */
   truncateDiff(diff: Diff): Diff {
     let currentSize = 0;
@@ -2,6 +2,8 @@
 
 export { GitHubAdapter, createGitHubAdapter } from './adapters/vcs/github';
 export { AzureDevOpsAdapter, createAzureDevOpsAdapter } from './adapters/vcs/azure-devops';
+export { GitLabAdapter, createGitLabAdapter } from './adapters/vcs/gitlab';
+export { BitbucketAdapter, createBitbucketAdapter } from './adapters/vcs/bitbucket';
 export { VCSAdapter } from './adapters/vcs/base';
 
 export { JiraAdapter } from './adapters/ticket/jira';
@@ -11,8 +13,16 @@ export { TicketAdapter } from './adapters/ticket/base';
 export { OllamaBackend, createOllamaBackend } from './llm/ollama';
 export { ClaudeBackend, createClaudeBackend } from './llm/claude';
 export { OpenAIBackend, createOpenAIBackend } from './llm/openai';
-export { UnifiedLLMBackend, UnifiedLLMConfig, ProviderName, createBackendFromEnv } from './llm/unified';
+export { UnifiedLLMBackend, UnifiedLLMConfig, ProviderConfig, ProviderName, LLMOverrides, PROVIDER_NAMES, BASE_URL_OVERRIDE_PROVIDERS, createBackendFromEnv } from './llm/unified';
+export { ProviderChainError } from './llm/failover';
+export type { RetryOptions } from './llm/failover';
+export { hashPrompt } from './llm/cache';
+export type { CacheKey, LLMResponseCache } from './llm/cache';
+export { DEFAULT_PRICES, estimateCost, parsePriceTable, summarizeUsage } from './llm/usage';
+export type { LLMUsage, ModelPrice, PriceTable, UsageTotals } from './llm/usage';
 export { LLMBackend } from './llm/base';
+export { ReviewParseError } from './llm/parser';
+export type { ReviewOutputFormat } from './llm/prompt';
 
 export { SkillLoader } from './skills/loader';
 
@@ -32,21 +42,33 @@ export {
 
 export * from './types';
 export { filterByConfidence, DEFAULT_PRECISION_CONFIG } from './review/precision-filter';
+export { parseCommand, isIgnoredPath, COMMAND_PREFIX } from './review/commands';
+export type { PRCommand } from './review/commands';
+export { AGNUSAI_MARKER, AGNUSAI_META_MARKER_START } from './review/thread';
+export type { CommentThread } from './review/thread';
+export { isDismissal } from './review/reply';
 export type { PrecisionFilterConfig, FilteredByConfidence } from './review/precision-filter';
 
-import { VCSAdapter } from './adapters/vcs/base';
+import { VCSAdapter, hasCheckpointSupport, hasIncrementalSupport } from './adapters/vcs/base';
 import { TicketAdapter } from './adapters/ticket/base';
 import { LLMBackend } from './llm/base';
 import { SkillLoader } from './skills/loader';
-import { ReviewContext, ReviewResult, ReviewComment, Diff, Config, ReviewCheckpoint, IncrementalReviewOptions } from './types';
+import { ReviewContext, ReviewResult, ReviewComment, DetailedReviewComment, Diff, FileDiff, Config, ReviewCheckpoint, IncrementalReviewOptions, Skill, ReviewProgressEvent, ReviewProgressListener } from './types';
 import type { GraphReviewContext } from '@agnus-ai/shared';
-import { GitHubAdapter } from './adapters/vcs/github';
 import {
   findCheckpointComment,
   createCheckpoint,
   generateCheckpointComment,
 } from './review/checkpoint';
 import { filterByConfidence } from './review/precision-filter';
+import { planChunks } from './review/chunking';
+import { isIgnoredPath } from './review/commands';
+import { AGNUSAI_META_MARKER_START, CommentThread } from './review/thread';
+import { generateCommentMetadata, generateIssueId } from './review/deduplication';
+import { findTouchedComments } from './review/resolution';
+import { attachSuggestion, suggestionFormat } from './review/suggestions';
+import { generateReply, generateAcknowledgment, isDismissal, generateDismissalResponse } from './review/reply';
+import { SPECIALISTS, SpecialistRole, runSpecialists, aggregateSpecialistReviews } from './review/specialists';
 
 /**
  * Result of an incremental review check
@@ -78,6 +100,7 @@ export class PRReviewAgent {
   private config: Config;
   private lastDiff: Diff | null = null;
   private checkpointHandled: boolean = false;
+  private progress: ReviewProgressListener | null = null;
 
   constructor(config: Config) {
     this.config = config;
@@ -100,19 +123,32 @@ export class PRReviewAgent {
     this.tickets.push(adapter);
   }
 
+  /** Receives each phase of review() / incrementalReview() / postReview() and comments as they are generated */
+  setProgressListener(listener: ReviewProgressListener | null): void {
+    this.progress = listener;
+  }
+
+  private emit(event: ReviewProgressEvent): void {
+    try {
+      this.progress?.(event);
+    } catch (error: any) {
+      console.warn(`⚠️  Review progress listener failed: ${error.message}`);
+    }
+  }
+
   /**
    * Check if an incremental review is possible
    */
   async checkIncremental(prId: string | number): Promise<IncrementalCheckResult> {
-    // Only GitHub adapter supports incremental reviews
-    if (!(this.vcs instanceof GitHubAdapter)) {
-      return { isIncremental: false, reason: 'Incremental reviews only supported for GitHub' };
+    // Incremental reviews need both commit comparison and checkpoint comments
+    if (!this.supportsIncremental()) {
+      return { isIncremental: false, reason: `Incremental reviews not supported for ${this.vcs.name}` };
     }
 
-    const github = this.vcs as GitHubAdapter;
+    const vcs = this.vcs as Required<VCSAdapter>;
 
     // Get all issue comments on the PR
-    const comments = await github.getPRComments(prId);
+    const comments = await vcs.getPRComments(prId);
 
     // Find checkpoint comment
     const found = findCheckpointComment(comments);
@@ -138,6 +174,7 @@ export class PRReviewAgent {
   ): Promise<ReviewResult> {
     // Reset checkpoint flag for new review
     this.checkpointHandled = false;
+    this.emit({ type: 'phase', phase: 'context' });
 
     // Check for checkpoint
     const checkResult = await this.checkIncremental(prId);
@@ -147,20 +184,22 @@ export class PRReviewAgent {
       return this.review(prId, graphContext);
     }
 
-    const github = this.vcs as GitHubAdapter;
+    const vcs = this.vcs as Required<VCSAdapter>;
     const checkpoint = checkResult.checkpoint;
 
     console.log(`🔄 Incremental review from checkpoint: ${checkpoint.sha.substring(0, 7)}`);
     console.log(`📁 Previously reviewed files (${checkpoint.filesReviewed.length}): ${checkpoint.filesReviewed.join(', ')}`);
 
     // Get incremental diff
-    const incrementalResult = await github.getIncrementalDiff(prId, checkpoint.sha);
+    const incrementalResult = await vcs.getIncrementalDiff(prId, checkpoint.sha);
 
-    if (!incrementalResult.isIncremental) {
+    if (!incrementalResult.isIncremental || !incrementalResult.diff) {
       console.log(`⚠️  Cannot do incremental review: ${incrementalResult.reason}`);
       return this.review(prId);
     }
 
+    incrementalResult.diff = this.withoutIgnoredFiles(incrementalResult.diff);
+
     // If no changes, return empty result
     if (incrementalResult.diff.files.length === 0) {
       console.log('📋 No new changes since last checkpoint');
@@ -216,15 +255,10 @@ export class PRReviewAgent {
     };
 
     // Run review
-    const result = await this.llm.generateReview(context);
+    const result = await this.generateReview(context);
 
     // Precision filter
-    const threshold = this.config.review?.precisionThreshold ?? 0.7;
-    const { kept, filtered } = filterByConfidence(result.comments, { minConfidence: threshold });
-    if (filtered.length > 0) {
-      console.log(`🎯 Precision filter: ${kept.length}/${result.comments.length} comments kept (threshold ${threshold})`);
-    }
-    result.comments = kept.length > 0 ? kept : result.comments.filter(c => c.confidence === undefined);
+    this.applyPrecisionFilter(result);
 
     // Add checkpoint marker to summary
     result.summary = `[Incremental Review: ${incrementalResult.diff.files.length} new files]\n\n${result.summary}`;
@@ -255,8 +289,8 @@ export class PRReviewAgent {
     existingCommentId?: number,
     previousCheckpoint?: ReviewCheckpoint
   ): Promise<void> {
-    const github = this.vcs as GitHubAdapter;
-    const headSha = await github.getHeadSha(prId);
+    const vcs = this.vcs as Required<VCSAdapter>;
+    const headSha = await vcs.getHeadSha(prId);
 
     // Get files reviewed - use extended result if available, otherwise fall back to comment files
     const extendedResult = result as ExtendedReviewResult;
@@ -277,21 +311,22 @@ export class PRReviewAgent {
 
     if (existingCommentId) {
       console.log('📝 Updating checkpoint comment...');
-      await github.updateCheckpointComment(existingCommentId, checkpoint);
+      await vcs.updateCheckpointComment(existingCommentId, checkpoint);
     } else {
       console.log('📝 Creating checkpoint comment...');
-      await github.createCheckpointComment(prId, checkpoint);
+      await vcs.createCheckpointComment(prId, checkpoint);
     }
   }
 
   async review(prId: string | number, graphContext?: GraphReviewContext): Promise<ReviewResult> {
     // Reset checkpoint flag for new review
     this.checkpointHandled = false;
+    this.emit({ type: 'phase', phase: 'context' });
 
     // 1. Fetch PR data
     const pr = await this.vcs.getPR(prId);
-    const diff = await this.vcs.getDiff(prId);
-    const files = await this.vcs.getFiles(prId);
+    const diff = this.withoutIgnoredFiles(await this.vcs.getDiff(prId));
+    const files = (await this.vcs.getFiles(prId)).filter(f => !isIgnoredPath(f.path, this.config.review?.ignorePaths ?? []));
 
     // 2. Get linked tickets
     const linkedTicketIds = await this.vcs.getLinkedTickets(prId);
@@ -324,20 +359,97 @@ export class PRReviewAgent {
     };
 
     // 5. Run review
-    const result = await this.llm.generateReview(context);
+    const result = await this.generateReview(context);
 
     // 6. Precision filter — drop low-confidence comments
+    this.applyPrecisionFilter(result);
+
+    // Cache diff for use in postReview path validation
+    this.lastDiff = diff;
+
+    return result;
+  }
+
+  private async generateReview(context: ReviewContext): Promise<ReviewResult> {
+    this.emit({ type: 'phase', phase: 'generation' });
+    this.llm.onReviewComment = this.progress && (comment => this.emit({ type: 'comment', comment }));
+    try {
+      return await this.generateMergedReview(context);
+    } finally {
+      this.llm.onReviewComment = null;
+    }
+  }
+
+  /** The diff minus files matching `review.ignorePaths` */
+  private withoutIgnoredFiles(diff: Diff): Diff {
+    const ignorePaths = this.config.review?.ignorePaths ?? [];
+    if (ignorePaths.length === 0) return diff;
+    const files = diff.files.filter(f => !isIgnoredPath(f.path, ignorePaths));
+    if (files.length === diff.files.length) return diff;
+    console.log(`🙈 Ignoring ${diff.files.length - files.length} file(s) matching ${ignorePaths.join(', ')}`);
+    return {
+      ...diff,
+      files,
+      additions: files.reduce((n, f) => n + f.additions, 0),
+      deletions: files.reduce((n, f) => n + f.deletions, 0),
+      changedFiles: files.length,
+    };
+  }
+
+  /** Drop comments below `review.precisionThreshold`, keeping unscored ones if nothing passes */
+  private applyPrecisionFilter(result: ReviewResult): void {
+    this.emit({ type: 'phase', phase: 'filtering' });
     const threshold = this.config.review?.precisionThreshold ?? 0.7;
     const { kept, filtered } = filterByConfidence(result.comments, { minConfidence: threshold });
     if (filtered.length > 0) {
       console.log(`🎯 Precision filter: ${kept.length}/${result.comments.length} comments kept (threshold ${threshold})`);
     }
     result.comments = kept.length > 0 ? kept : result.comments.filter(c => c.confidence === undefined);
+    this.emit({ type: 'filtered', comments: result.comments });
+  }
 
-    // Cache diff for use in postReview path validation
-    this.lastDiff = diff;
+  /**
+   * Specialist reviews merged into one when `review.specialistReview` is on and any
+   * specialist skill matches the diff; a single review otherwise
+   */
+  private async generateMergedReview(context: ReviewContext): Promise<ReviewResult> {
+    if (!this.config.review?.specialistReview) return this.generateSingleReview(context);
 
-    return result;
+    const matched = await this.skills.matchSkills(
+      context.diff.files.map(f => f.path),
+      { includeSpecialistOnly: true }
+    );
+    const specialists = new Map<SpecialistRole, Skill>();
+    for (const { role } of SPECIALISTS) {
+      const skill = matched.find(s => s.id === role);
+      if (skill) specialists.set(role, skill);
+    }
+    if (specialists.size === 0) return this.generateSingleReview(context);
+
+    console.log(`👥 Specialist review: ${[...specialists.keys()].join(', ')}`);
+    const { reviews, failed } = await runSpecialists(
+      context,
+      specialists,
+      specialistContext => this.generateSingleReview(specialistContext),
+      this.config.review.specialistConcurrency ?? 4
+    );
+    if (reviews.length === 0) throw new Error('Every specialist review failed');
+    return aggregateSpecialistReviews(reviews, failed);
+  }
+
+  /** One LLM call, or a map-reduce review when the diff does not fit the model's context window */
+  private async generateSingleReview(context: ReviewContext): Promise<ReviewResult> {
+    if (this.config.review?.chunkedReview === false) return this.llm.generateReview(context);
+
+    const { chunks, skipped } = planChunks(context, {
+      contextWindow: this.llm.contextWindow,
+      format: this.llm.outputFormat,
+      maxChunks: this.config.review?.maxReviewChunks,
+    });
+    if (chunks.length === 1 && skipped.length === 0) return this.llm.generateReview(context);
+
+    console.log(`🧩 Diff exceeds the context window — reviewing ${context.diff.files.length} files in ${chunks.length} parts`);
+    return this.llm.generateChunkedReview(context, chunks, skipped);
   }
 
   async postReview(
@@ -354,21 +466,22 @@ export class PRReviewAgent {
     } = {}
   ): Promise<void> {
     const { summary, verdict } = result;
+    this.emit({ type: 'phase', phase: 'posting' });
 
     // Build a set of canonical diff paths (normalised: no leading slash) for matching
     const diff = this.lastDiff ?? await this.vcs.getDiff(prId);
-    const diffPathMap = new Map<string, string>(); // normalised → original
-    // Build per-file set of added (+) line numbers for validation
-    const changedLinesMap = new Map<string, Set<number>>(); // normalised path → Set of new-file line numbers
+    const diffPathMap = new Map<string, FileDiff>(); // normalised → file, with its original path
+    // Build per-file map of added (+) line numbers to their code, for validation
+    const changedLinesMap = new Map<string, Map<number, string>>(); // normalised path → new-file line number → code
     for (const f of diff.files) {
       const key = f.path.replace(/^\//, '');
-      diffPathMap.set(key, f.path);
-      const addedLines = new Set<number>();
+      diffPathMap.set(key, f);
+      const addedLines = new Map<number, string>();
       for (const hunk of f.hunks) {
         let lineNo = hunk.newStart;
         for (const line of hunk.content.split('\n')) {
           if (line.startsWith('+')) {
-            addedLines.add(lineNo++);
+            addedLines.set(lineNo++, line.slice(1));
           } else if (!line.startsWith('-')) {
             lineNo++; // context line — advance new-file counter
           }
@@ -378,12 +491,16 @@ export class PRReviewAgent {
       changedLinesMap.set(key, addedLines);
     }
 
+    // Metadata records the flagged code, so a later push that changes it can resolve the comment
+    const headSha = await this.vcs.getHeadSha?.(prId).catch(() => '') ?? '';
+
     // Resolve each comment's path against actual diff paths and validate line is a + line
     const validComments: ReviewComment[] = [];
+    const format = suggestionFormat(this.vcs.name);
     for (const comment of result.comments) {
       const normalised = comment.path.replace(/^\//, '');
-      const resolvedPath = diffPathMap.get(normalised);
-      if (!resolvedPath) {
+      const file = diffPathMap.get(normalised);
+      if (!file) {
         console.warn(`⚠️  Skipping comment — path not in diff: ${comment.path}`);
         continue;
       }
@@ -392,7 +509,10 @@ export class PRReviewAgent {
         console.warn(`⚠️  Skipping comment at ${comment.path}:${comment.line} — line is not a changed (+) line in this PR`);
         continue;
       }
-      validComments.push({ ...comment, path: resolvedPath });
+      const metadata = generateCommentMetadata(headSha, generateIssueId(comment), addedLines?.get(comment.line));
+      // Suggestions that would not apply to the head's lines are dropped, keeping the comment
+      const posted = attachSuggestion({ ...comment, path: file.path }, file, format, result.suggestions);
+      validComments.push({ ...posted, body: `${posted.body}\n\n${metadata}` });
     }
 
     // Submit overall review — body is the model-generated markdown, used as-is
@@ -415,14 +535,139 @@ export class PRReviewAgent {
     }
 
     // Create checkpoint after successful review (only if not already handled by incrementalReview)
-    if (!this.checkpointHandled && this.vcs instanceof GitHubAdapter) {
+    if (!this.checkpointHandled && this.supportsIncremental()) {
       await this.createCheckpointAfterReview(prId, result);
     }
   }
 
+  /**
+   * Generate and publish a PR description on its own, without a review — e.g. for a
+   * `/agnus describe` command. `behavior` is the same as postReview()'s `prDescription`.
+   */
+  async describe(
+    prId: string | number,
+    behavior: {
+      publishMode?: 'replace_pr' | 'comment'
+      preserveOriginal?: boolean
+      useMarkers?: boolean
+      publishLabels?: boolean
+    } = {}
+  ): Promise<void> {
+    if (behavior.publishMode !== 'comment' && !this.vcs.updatePRDescription) {
+      throw new Error(`${this.vcs.name} cannot update PR descriptions — use publishMode 'comment'`);
+    }
+    await this.generateAndUpdatePRDescription(prId, undefined, behavior);
+  }
+
+  /** Answer a question about the PR and post the answer as a PR comment, quoting the question */
+  async ask(prId: string | number, question: string, graphContext?: GraphReviewContext): Promise<string> {
+    const answer = await this.answer(prId, question, graphContext);
+    const quoted = question.split('\n').map(line => `> ${line}`).join('\n');
+    await this.vcs.addComment(prId, { path: '', line: 1, severity: 'info', body: `${quoted}\n\n${answer}` });
+    return answer;
+  }
+
+  /**
+   * Answer a question about the PR without posting it. `graphContext` from
+   * `Retriever.getAskContext` grounds the answer in the callers and callees of the
+   * symbols the question names.
+   */
+  async answer(prId: string | number, question: string, graphContext?: GraphReviewContext): Promise<string> {
+    const [pr, diff, files] = await Promise.all([
+      this.vcs.getPR(prId),
+      this.vcs.getDiff(prId),
+      this.vcs.getFiles(prId),
+    ]);
+    const context: ReviewContext = {
+      pr,
+      diff,
+      files,
+      tickets: [],
+      skills: [],
+      config: this.config.review,
+      graphContext,
+    };
+    return this.llm.generateAnswer(context, question);
+  }
+
+  /**
+   * Answer a developer's reply to one of our review comments, in the comment's thread.
+   * Dismissals and short acknowledgments get a canned response; anything else is
+   * answered by the LLM with the PR for context. Returns the reply posted.
+   */
+  async reply(prId: string | number, replyTo: string | number, thread: CommentThread): Promise<string> {
+    if (!this.vcs.createReply) {
+      throw new Error(`${this.vcs.name} cannot reply to review comments`);
+    }
+    let body = isDismissal(thread) ? generateDismissalResponse(thread) : generateAcknowledgment(thread);
+    if (!body) {
+      const pr = await this.vcs.getPR(prId);
+      body = await generateReply(thread, {
+        prTitle: pr.title,
+        prDescription: pr.description || undefined,
+        prAuthor: pr.author.username,
+      }, this.llm);
+    }
+    await this.vcs.createReply(prId, replyTo, body.trim());
+    return body.trim();
+  }
+
+  /**
+   * Resolve our earlier review comments whose flagged code has changed, when the LLM
+   * agrees the change fixes the issue: GitHub threads are resolved and Azure DevOps
+   * threads set to fixed. `since` holds the changes pushed since the last review and the
+   * commit that review was made on; only the comments it made are checked. Without it,
+   * the changes since the review checkpoint are used, so call it before incrementalReview()
+   * or postReview() move the checkpoint. Returns the comments resolved.
+   */
+  async resolveFixedComments(
+    prId: string | number,
+    since?: { diff: Diff; sha: string }
+  ): Promise<DetailedReviewComment[]> {
+    if (!this.vcs.getReviewComments || !this.vcs.resolveThread) return [];
+
+    let changes = since;
+    if (!changes) {
+      if (!hasIncrementalSupport(this.vcs)) return [];
+      const check = await this.checkIncremental(prId);
+      if (!check.checkpoint) return [];
+      const incremental = await this.vcs.getIncrementalDiff(prId, check.checkpoint.sha);
+      if (!incremental.diff) return [];
+      changes = { diff: incremental.diff, sha: check.checkpoint.sha };
+    }
+    if (!changes.sha || changes.diff.files.length === 0) return [];
+
+    const touched = findTouchedComments(await this.vcs.getReviewComments(prId), changes.diff, changes.sha);
+    if (touched.length === 0) return [];
+
+    const context: ReviewContext = {
+      pr: await this.vcs.getPR(prId),
+      diff: changes.diff,
+      files: [],
+      tickets: [],
+      skills: [],
+      config: this.config.review,
+    };
+    const resolved: DetailedReviewComment[] = [];
+    for (const { comment, originalCode, change } of touched) {
+      try {
+        const issue = comment.body.split(AGNUSAI_META_MARKER_START)[0].trim();
+        if (!await this.llm.isIssueResolved(context, issue, originalCode, change)) continue;
+        await this.vcs.resolveThread(prId, comment.threadId ?? comment.id);
+        resolved.push(comment);
+      } catch (error: any) {
+        console.warn(`⚠️  Could not check whether ${comment.path}:${comment.line} is fixed: ${error.message}`);
+      }
+    }
+    if (resolved.length > 0) {
+      console.log(`✅ Resolved ${resolved.length} fixed comment(s)`);
+    }
+    return resolved;
+  }
+
   private async generateAndUpdatePRDescription(
     prId: string | number,
-    result: ReviewResult,
+    result: ReviewResult | undefined,
     behavior: {
       publishMode?: 'replace_pr' | 'comment'
       preserveOriginal?: boolean
@@ -499,11 +744,11 @@ export class PRReviewAgent {
    * Also deletes any duplicate checkpoint comments
    */
   private async createCheckpointAfterReview(prId: string | number, result: ReviewResult): Promise<void> {
-    const github = this.vcs as GitHubAdapter;
-    const headSha = await github.getHeadSha(prId);
+    const vcs = this.vcs as Required<VCSAdapter>;
+    const headSha = await vcs.getHeadSha(prId);
 
     // Check for existing checkpoint
-    const comments = await github.getPRComments(prId);
+    const comments = await vcs.getPRComments(prId);
     const found = findCheckpointComment(comments);
 
     // Get files reviewed - use extended result if available, otherwise use diff files or fall back to comment files
@@ -537,7 +782,7 @@ export class PRReviewAgent {
     if (found) {
       // Update existing checkpoint
       console.log('📝 Updating existing checkpoint comment...');
-      await github.updateCheckpointComment(found.comment.id, checkpoint);
+      await vcs.updateCheckpointComment(found.comment.id, checkpoint);
 
       // Delete any other duplicate checkpoint comments
       const allCheckpointComments = comments.filter(c =>
@@ -547,7 +792,7 @@ export class PRReviewAgent {
       for (const duplicate of allCheckpointComments) {
         console.log(`🗑️  Deleting duplicate checkpoint comment ${duplicate.id}`);
         try {
-          await github.deleteCheckpointComment(duplicate.id);
+          await vcs.deleteCheckpointComment(duplicate.id);
         } catch (error: any) {
           console.warn(`Failed to delete duplicate checkpoint: ${error.message}`);
         }
@@ -555,7 +800,18 @@ export class PRReviewAgent {
     } else {
       // Create new checkpoint
       console.log('📝 Creating checkpoint comment...');
-      await github.createCheckpointComment(prId, checkpoint);
+      await vcs.createCheckpointComment(prId, checkpoint);
     }
   }
+
+  /**
+   * Whether the VCS adapter can compare commits and persist checkpoint comments
+   * (GitHub, GitLab and Bitbucket; Azure DevOps uses iteration tracking in the API instead)
+   */
+  private supportsIncremental(): boolean {
+    return hasIncrementalSupport(this.vcs) &&
+      hasCheckpointSupport(this.vcs) &&
+      !!this.vcs.getPRComments &&
+      !!this.vcs.deleteCheckpointComment;
+  }
 }
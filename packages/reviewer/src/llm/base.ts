@@ -3,28 +3,232 @@
 // parsing are handled here using the shared prompt/parser modules so all
 // providers behave identically.
 
-import { PRDescriptionResult, ReviewContext, ReviewResult } from '../types';
-import { buildPRDescriptionPrompt, buildReviewPrompt } from './prompt';
-import { parsePRDescriptionResponse, parseReviewResponse } from './parser';
+import { PRDescriptionResult, ReviewComment, ReviewContext, ReviewResult } from '../types';
+import { assembleReviewPrompt, buildAskPrompt, buildPRDescriptionPrompt, buildReducePrompt, buildResolutionPrompt, buildReviewRepairPrompt, ReviewOutputFormat } from './prompt';
+import { DEFAULT_CONTEXT_WINDOW, describeOmitted, mergeOmitted, OmittedContent } from './budget';
+import { parsePRDescriptionResponse, parseReduceResponse, parseReviewResponse, parseStructuredReview, ReviewCommentStream, ReviewParseError } from './parser';
+import { CacheKey, CacheScope, hashPrompt, LLMResponseCache } from './cache';
+import { DEFAULT_PRICES, estimateCost, LLMUsage, PriceTable } from './usage';
+import { mergeChunkComments } from '../review/chunking';
 
 export abstract class BaseLLMBackend {
   abstract readonly name: string;
 
+  /**
+   * `text` scrapes [File:, Line:] markers from free text. `json` asks for a review
+   * object, validates it, retries once with a repair prompt, and throws a
+   * `ReviewParseError` if the output is still invalid.
+   */
+  outputFormat: ReviewOutputFormat = 'text';
+
+  /** Model context size in tokens — review prompts are trimmed to fit it */
+  contextWindow: number = DEFAULT_CONTEXT_WINDOW;
+
+  /** Review calls check this before reaching the provider; results say whether they were served from it */
+  cache: LLMResponseCache | null = null;
+
+  /** Model prices used to estimate the cost of each call */
+  prices: PriceTable = DEFAULT_PRICES;
+
+  /**
+   * Called with each review comment as it is generated. Text reviews are streamed
+   * and their comments arrive one by one; JSON reviews pass them all once parsed.
+   */
+  onReviewComment: ((comment: ReviewComment) => void) | null = null;
+
+  private usageLog: LLMUsage[] = [];
+
+  /** Every call this backend has made, in order, including ones answered from the cache */
+  get usage(): LLMUsage[] {
+    return [...this.usageLog];
+  }
+
+  /** Providers call this once per successful request */
+  protected recordUsage(call: Omit<LLMUsage, 'costUsd' | 'cached'>): void {
+    const costUsd = estimateCost(call.model, call.promptTokens, call.completionTokens, this.prices);
+    this.usageLog.push({ ...call, costUsd, cached: false });
+  }
+
+  /** Provider, model and settings cached responses are looked up and filed under */
+  protected get cacheScope(): CacheScope {
+    return { provider: this.name, model: '' };
+  }
+
+  /**
+   * Whether the last generate call was answered under `cacheScope`. Backends that fail
+   * over return false when a fallback answered, so its response is not cached as the
+   * primary's.
+   */
+  protected get answeredInScope(): boolean {
+    return true;
+  }
+
   /** Send a raw prompt to the provider and return the raw text response. */
   abstract generate(prompt: string, context: ReviewContext): Promise<string>;
 
-  /** Build the structured prompt, call generate(), then parse the response. */
+  /**
+   * Return a review object for a `json` format prompt — either already parsed, or as
+   * text containing one. Providers with native JSON schema / tool-call output override
+   * this; by default the schema is enforced by the prompt alone.
+   */
+  protected async generateJson(prompt: string, context: ReviewContext): Promise<unknown> {
+    return this.generate(prompt, context);
+  }
+
+  /**
+   * generate(), reporting the response text so far to `onText` as it arrives. Providers
+   * that can stream override this; by default the whole response is reported once.
+   */
+  protected async generateStream(prompt: string, context: ReviewContext, onText: (text: string) => void): Promise<string> {
+    const text = await this.generate(prompt, context);
+    onText(text);
+    return text;
+  }
+
+  /**
+   * Build the structured prompt, call generate(), then parse the response. Anything
+   * left out of the prompt to fit the context window is noted in the summary.
+   */
   async generateReview(context: ReviewContext): Promise<ReviewResult> {
-    const prompt = buildReviewPrompt(context);
-    const response = await this.generate(prompt, context);
-    return parseReviewResponse(response);
+    const { result, omitted, cached } = await this.reviewWithinBudget(context);
+    return withOmissions({ ...result, cached }, omitted);
+  }
+
+  /**
+   * Map-reduce review of a PR split by `planChunks`: each chunk is reviewed on its
+   * own, then a reduce call merges the chunk summaries and verdicts into one.
+   * `skippedFiles` were left out of every chunk and are reported as not reviewed.
+   */
+  async generateChunkedReview(context: ReviewContext, chunks: ReviewContext[], skippedFiles: string[] = []): Promise<ReviewResult> {
+    const parts: Array<{ files: string[]; result: ReviewResult }> = [];
+    const omitted: OmittedContent[][] = [skippedFiles.length > 0 ? [{ section: 'diff', items: skippedFiles }] : []];
+    let cached = true;
+    for (const [i, chunk] of chunks.entries()) {
+      const files = chunk.diff.files.map(f => f.path);
+      console.log(`🧩 Reviewing part ${i + 1}/${chunks.length} (${files.length} files)`);
+      const review = await this.reviewWithinBudget(chunk);
+      parts.push({ files, result: review.result });
+      omitted.push(review.omitted);
+      cached &&= review.cached;
+    }
+
+    const verdicts = parts.map(p => p.result.verdict);
+    const fallbackVerdict = verdicts.includes('request_changes') ? 'request_changes'
+      : verdicts.every(v => v === 'approve') ? 'approve' : 'comment';
+    const reduce = await this.complete(buildReducePrompt(context, parts), context, 'text', output => parseReduceResponse(output as string, fallbackVerdict));
+    const { summary, verdict } = reduce.output;
+
+    return withOmissions({
+      summary,
+      verdict,
+      comments: mergeChunkComments(parts.flatMap(p => p.result.comments)),
+      suggestions: parts.flatMap(p => p.result.suggestions),
+      cached: cached && reduce.cached,
+    }, mergeOmitted(omitted));
   }
 
-  async generatePRDescription(context: ReviewContext, review: ReviewResult): Promise<PRDescriptionResult> {
+  async generatePRDescription(context: ReviewContext, review?: ReviewResult): Promise<PRDescriptionResult> {
     const prompt = buildPRDescriptionPrompt(context, review);
-    const response = await this.generate(prompt, context);
-    return parsePRDescriptionResponse(response);
+    const { output } = await this.complete(prompt, context, 'text', output => parsePRDescriptionResponse(output as string));
+    return output;
+  }
+
+  /** Markdown answer to a question about the PR in `context` */
+  async generateAnswer(context: ReviewContext, question: string): Promise<string> {
+    const { output } = await this.complete(buildAskPrompt(context, question), context, 'text', output => (output as string).trim());
+    return output;
   }
+
+  /** Whether `change` fixed the issue a review comment raised about `originalCode` */
+  async isIssueResolved(context: ReviewContext, issue: string, originalCode: string, change: string): Promise<boolean> {
+    const { output } = await this.complete(buildResolutionPrompt(issue, originalCode, change), context, 'text', output => /RESOLVED:\s*yes/i.test(output as string));
+    return output;
+  }
+
+  private async reviewWithinBudget(context: ReviewContext): Promise<{ result: ReviewResult; omitted: OmittedContent[]; cached: boolean }> {
+    const { prompt, omitted } = assembleReviewPrompt(context, this.outputFormat, this.contextWindow);
+    const onComment = this.onReviewComment;
+    if (this.outputFormat === 'json') {
+      const review = await this.generateStructuredReview(prompt, context);
+      if (onComment) review.result.comments.forEach(comment => onComment(comment));
+      return { ...review, omitted };
+    }
+    const stream = onComment && new ReviewCommentStream(onComment);
+    const { output, cached } = await this.complete(prompt, context, 'text', output => parseReviewResponse(output as string), stream ? text => stream.update(text) : undefined);
+    return { result: output, omitted, cached };
+  }
+
+  private async generateStructuredReview(prompt: string, context: ReviewContext): Promise<{ result: ReviewResult; cached: boolean }> {
+    try {
+      const first = await this.complete(prompt, context, 'json', parseStructuredReview);
+      return { result: first.output, cached: first.cached };
+    } catch (err) {
+      if (!(err instanceof ReviewParseError)) throw err;
+      console.warn(`[AgnusAI] ${this.name} returned an invalid review (${err.issues.length} issue(s)) — retrying with a repair prompt`);
+      const repaired = await this.complete(buildReviewRepairPrompt(err.response, err.issues), context, 'json', parseStructuredReview);
+      return { result: repaired.output, cached: false };
+    }
+  }
+
+  /**
+   * generate() or generateJson(), passed through `parse`, and answered from the cache
+   * when it holds the same prompt. A response is cached only once `parse` accepts it
+   * and only when the primary provider answered, so a failed parse is retried rather
+   * than replayed. Cache errors are logged and never fail the review. With `onText`, a
+   * text response is streamed to it — a cached one in one piece.
+   */
+  private async complete<T>(
+    prompt: string,
+    context: ReviewContext,
+    format: ReviewOutputFormat,
+    parse: (output: unknown) => T,
+    onText?: (text: string) => void,
+  ): Promise<{ output: T; cached: boolean }> {
+    const cache = this.cache;
+    const { provider, model, settings } = this.cacheScope;
+    const key: CacheKey | null = cache && { provider, model, promptHash: hashPrompt(format, prompt, settings) };
+    if (cache && key) {
+      const started = Date.now();
+      const hit = await cache.get(key).catch(err => {
+        console.warn(`[AgnusAI] LLM cache read failed: ${err.message}`);
+        return null;
+      });
+      const parsed = hit === null ? null : parseCached(hit, parse);
+      if (parsed) {
+        this.usageLog.push({ provider, model, promptTokens: 0, completionTokens: 0, latencyMs: Date.now() - started, costUsd: 0, cached: true });
+        onText?.(hit!);
+        return { output: parsed.output, cached: true };
+      }
+    }
+
+    const response = format === 'json' ? await this.generateJson(prompt, context)
+      : onText ? await this.generateStream(prompt, context, onText)
+      : await this.generate(prompt, context);
+    const output = parse(response);
+    if (cache && key && this.answeredInScope) {
+      await cache.set(key, typeof response === 'string' ? response : JSON.stringify(response)).catch(err => {
+        console.warn(`[AgnusAI] LLM cache write failed: ${err.message}`);
+      });
+    }
+    return { output, cached: false };
+  }
+}
+
+/** A cached response passed through `parse`, or null if it no longer parses */
+function parseCached<T>(hit: string, parse: (output: unknown) => T): { output: T } | null {
+  try {
+    return { output: parse(hit) };
+  } catch (err) {
+    console.warn(`[AgnusAI] Ignoring a cached response that does not parse: ${(err as Error).message}`);
+    return null;
+  }
+}
+
+/** Append a note on content left out of the prompt to the summary */
+function withOmissions(result: ReviewResult, omitted: OmittedContent[]): ReviewResult {
+  const note = describeOmitted(omitted);
+  if (note) result.summary = `${result.summary}\n\n${note}`;
+  return result;
 }
 
 // Keep the interface alias so existing imports of LLMBackend still compile
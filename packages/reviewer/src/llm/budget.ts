@@ -0,0 +1,135 @@
+// Token budget for review prompts — provider-agnostic
+// Sizes the optional prompt sections (diff, codebase context, skills, tickets,
+// feedback examples) to the model's context window and records what was left out.
+
+export const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+/** Context windows by model name, checked in order. LLM_CONTEXT_TOKENS overrides these. */
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude/i, 200_000],
+  [/gemini/i, 1_000_000],
+  [/^gpt-4\.1/i, 1_000_000],
+  [/^gpt-5/i, 400_000],
+  [/^(gpt-4o|gpt-4-turbo|o1|o3|o4)/i, 128_000],
+  [/deepseek/i, 64_000],
+  [/qwen/i, 32_768],
+  [/codellama/i, 16_384],
+];
+
+export function contextWindowFor(model: string): number {
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Rough token count: ~4 characters per token for English and code. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Tokens held back for the model's answer */
+export function outputReserve(contextWindow: number): number {
+  return Math.min(8192, Math.floor(contextWindow / 4));
+}
+
+export type PromptSection = 'diff' | 'graph' | 'skills' | 'tickets' | 'examples';
+
+/** A unit of prompt content that is kept or dropped whole */
+export interface BudgetItem {
+  label: string;
+  text: string;
+}
+
+export interface OmittedContent {
+  section: PromptSection;
+  /** Labels of the dropped items: file paths, context headings, skill names, ticket keys */
+  items: string[];
+}
+
+/** Sections in priority order, with the share of the budget each is guaranteed */
+const SECTION_SHARES: Array<[PromptSection, number]> = [
+  ['diff', 0.6],
+  ['graph', 0.15],
+  ['skills', 0.1],
+  ['tickets', 0.05],
+  ['examples', 0.1],
+];
+
+/**
+ * Choose which items fit in `budget` tokens. Each section is guaranteed its share
+ * (or less, if it needs less); the rest goes to sections in priority order. Items are
+ * considered in the order given, and a large item that does not fit does not stop
+ * smaller ones after it from being kept.
+ */
+export function allocateBudget(
+  sections: Partial<Record<PromptSection, BudgetItem[]>>,
+  budget: number,
+): { kept: Set<BudgetItem>; omitted: OmittedContent[] } {
+  const kept = new Set<BudgetItem>();
+  const sizeOf = (items: BudgetItem[] = []) => items.reduce((n, i) => n + estimateTokens(i.text), 0);
+  const reserved = SECTION_SHARES.map(([section, share]) => Math.min(sizeOf(sections[section]), Math.floor(budget * share)));
+  let remaining = Math.max(0, budget);
+
+  SECTION_SHARES.forEach(([section], i) => {
+    let allowance = remaining - reserved.slice(i + 1).reduce((n, r) => n + r, 0);
+    for (const item of sections[section] ?? []) {
+      const tokens = estimateTokens(item.text);
+      if (tokens > allowance) continue;
+      kept.add(item);
+      allowance -= tokens;
+      remaining -= tokens;
+    }
+  });
+
+  // Space a later section reserved but could not use goes back to earlier ones
+  const omitted: OmittedContent[] = [];
+  for (const [section] of SECTION_SHARES) {
+    const dropped: string[] = [];
+    for (const item of sections[section] ?? []) {
+      if (kept.has(item)) continue;
+      const tokens = estimateTokens(item.text);
+      if (tokens <= remaining) {
+        kept.add(item);
+        remaining -= tokens;
+      } else {
+        dropped.push(item.label);
+      }
+    }
+    if (dropped.length > 0) omitted.push({ section, items: dropped });
+  }
+
+  return { kept, omitted };
+}
+
+/** Combine omission lists, e.g. from the chunks of a chunked review */
+export function mergeOmitted(lists: OmittedContent[][]): OmittedContent[] {
+  const merged = new Map<PromptSection, Set<string>>();
+  for (const { section, items } of lists.flat()) {
+    const set = merged.get(section) ?? new Set<string>();
+    items.forEach(i => set.add(i));
+    merged.set(section, set);
+  }
+  return SECTION_SHARES
+    .filter(([section]) => merged.has(section))
+    .map(([section]) => ({ section, items: [...merged.get(section)!] }));
+}
+
+const SECTION_NOUNS: Record<PromptSection, [string, string]> = {
+  diff: ['changed file', 'changed files'],
+  graph: ['codebase context section', 'codebase context sections'],
+  skills: ['review skill', 'review skills'],
+  tickets: ['linked ticket', 'linked tickets'],
+  examples: ['feedback example', 'feedback examples'],
+};
+
+/** Markdown note for the review summary, or '' when nothing was dropped */
+export function describeOmitted(omitted: OmittedContent[]): string {
+  if (omitted.length === 0) return '';
+  const parts = omitted.map(({ section, items }) => {
+    const [one, many] = SECTION_NOUNS[section];
+    const noun = `${items.length} ${items.length === 1 ? one : many}`;
+    // Example labels carry no useful detail
+    if (section === 'examples') return noun;
+    const shown = items.slice(0, 5).map(i => `\`${i}\``).join(', ');
+    return `${noun} (${shown}${items.length > 5 ? `, +${items.length - 5} more` : ''})`;
+  });
+  return `> ⚠️ **Partial review:** to fit the model's context window, this review left out ${parts.join('; ')}.`;
+}
@@ -0,0 +1,31 @@
+// LLM response cache — storage-agnostic
+// Identical prompts to the same provider and model are answered from the cache,
+// so re-running a review on an unchanged commit costs no LLM calls.
+
+import { createHash } from 'crypto';
+
+export interface CacheKey {
+  provider: string;
+  model: string;
+  /** sha256 of the output format, the call settings and the prompt */
+  promptHash: string;
+}
+
+/** Provider and model responses are filed under, and settings that change them (endpoint, temperature) */
+export interface CacheScope {
+  provider: string;
+  model: string;
+  settings?: string;
+}
+
+/** Where cached responses live — the hosted API backs this with Postgres */
+export interface LLMResponseCache {
+  /** The cached response, or null on a miss or when it has expired */
+  get(key: CacheKey): Promise<string | null>;
+  set(key: CacheKey, response: string): Promise<void>;
+}
+
+export function hashPrompt(format: string, prompt: string, settings = ''): string {
+  const input = settings ? `${format}\n${settings}\n${prompt}` : `${format}\n${prompt}`;
+  return createHash('sha256').update(input).digest('hex');
+}
@@ -1,15 +1,15 @@
 // Claude LLM Backend — DEPRECATED
 // This backend is deprecated. Use UnifiedLLMBackend from './unified' instead.
-// Note: Claude is no longer directly supported. Use OpenAI or a custom endpoint
-// that provides Claude via OpenAI-compatible API (e.g., OpenRouter, AWS Bedrock).
+// The unified backend talks to the Anthropic Messages API natively — LLM_PROVIDER=claude,
+// or LLM_PROVIDER=bedrock for Claude on AWS Bedrock.
 
 import fetch from 'node-fetch';
 import { BaseLLMBackend } from './base';
+import { estimateTokens } from './budget';
 import { ReviewContext } from '../types';
 
 /**
  * @deprecated Use UnifiedLLMBackend from './unified' instead
- * Claude is no longer directly supported. Use OpenAI-compatible endpoints like OpenRouter.
  */
 interface ClaudeConfig {
   apiKey: string;
@@ -34,6 +34,7 @@ export class ClaudeBackend extends BaseLLMBackend {
   }
 
   async generate(prompt: string, _context: ReviewContext): Promise<string> {
+    const started = Date.now();
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
       headers: {
@@ -53,8 +54,19 @@ export class ClaudeBackend extends BaseLLMBackend {
       throw new Error(`Claude API error: ${response.status} - ${error}`);
     }
 
-    const data = await response.json() as { content: Array<{ type: string; text: string }> };
-    return data.content[0].text;
+    const data = await response.json() as {
+      content: Array<{ type: string; text: string }>;
+      usage?: { input_tokens: number; output_tokens: number };
+    };
+    const text = data.content[0].text;
+    this.recordUsage({
+      provider: this.name,
+      model: this.model,
+      promptTokens: data.usage?.input_tokens ?? estimateTokens(prompt),
+      completionTokens: data.usage?.output_tokens ?? estimateTokens(text),
+      latencyMs: Date.now() - started,
+    });
+    return text;
   }
 }
 
@@ -0,0 +1,80 @@
+// Provider failover — provider-agnostic
+// Runs an LLM call against an ordered list of providers: transient failures
+// (rate limits, server errors, timeouts) are retried with backoff, then the call
+// moves on to the next provider.
+
+import { APICallError } from 'ai';
+
+export interface RetryOptions {
+  /** Retries per provider after the first attempt (default: 2) */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on each one (default: 1000) */
+  baseDelayMs?: number;
+  /** Longest wait, including a server's Retry-After (default: 30000) */
+  maxDelayMs?: number;
+}
+
+/** Every provider in the chain failed. `failures` holds the last error from each, in order. */
+export class ProviderChainError extends Error {
+  constructor(readonly failures: Array<{ provider: string; error: Error }>) {
+    super(`All LLM providers failed: ${failures.map(f => `${f.provider} (${f.error.message})`).join('; ')}`);
+    this.name = 'ProviderChainError';
+  }
+}
+
+/** Rate limits, server errors, timeouts and dropped connections are worth retrying */
+export function isTransientError(err: unknown): boolean {
+  if (APICallError.isInstance(err)) {
+    const status = err.statusCode;
+    return status === undefined ? err.isRetryable : status === 408 || status === 429 || status >= 500;
+  }
+  const name = (err as Error | undefined)?.name;
+  const code = (err as { cause?: { code?: string } } | undefined)?.cause?.code;
+  return name === 'TimeoutError' || name === 'AbortError'
+    || code === 'ECONNRESET' || code === 'ETIMEDOUT' || code === 'UND_ERR_SOCKET';
+}
+
+/** Backoff for retry number `attempt` (0-based), or the server's Retry-After when it sends one */
+export function retryDelay(err: unknown, attempt: number, options: RetryOptions = {}): number {
+  const { baseDelayMs = 1000, maxDelayMs = 30_000 } = options;
+  const retryAfter = APICallError.isInstance(err) ? Number(err.responseHeaders?.['retry-after']) : NaN;
+  const delay = retryAfter >= 0 ? retryAfter * 1000 : baseDelayMs * 2 ** attempt;
+  return Math.min(delay, maxDelayMs);
+}
+
+/**
+ * Call `attempt` with each provider in turn until one succeeds. A transient error is
+ * retried on the same provider up to `maxRetries` times; any other error, or running
+ * out of retries, fails over to the next provider.
+ */
+export async function withFailover<P extends { label: string }, T>(
+  providers: P[],
+  attempt: (provider: P) => Promise<T>,
+  options: RetryOptions = {},
+  sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms)),
+): Promise<{ value: T; provider: P }> {
+  const { maxRetries = 2 } = options;
+  const failures: Array<{ provider: string; error: Error }> = [];
+
+  for (const [i, provider] of providers.entries()) {
+    for (let retry = 0; ; retry++) {
+      try {
+        return { value: await attempt(provider), provider };
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        if (isTransientError(err) && retry < maxRetries) {
+          const delay = retryDelay(err, retry, options);
+          console.warn(`[AgnusAI] ${provider.label} failed (${error.message}) — retrying in ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+        failures.push({ provider: provider.label, error });
+        if (i < providers.length - 1) {
+          console.warn(`[AgnusAI] ${provider.label} failed (${error.message}) — falling back to ${providers[i + 1].label}`);
+        }
+        break;
+      }
+    }
+  }
+  throw new ProviderChainError(failures);
+}
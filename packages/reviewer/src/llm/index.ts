@@ -4,9 +4,25 @@ export { LLMBackend } from './base';
 export {
   UnifiedLLMBackend,
   createBackendFromEnv,
+  PROVIDER_NAMES,
+  BASE_URL_OVERRIDE_PROVIDERS,
   type ProviderName,
+  type ProviderConfig,
+  type LLMOverrides,
   type UnifiedLLMConfig,
 } from './unified';
+export { ProviderChainError, type RetryOptions } from './failover';
+export { hashPrompt, type CacheKey, type LLMResponseCache } from './cache';
+export {
+  DEFAULT_PRICES,
+  estimateCost,
+  parsePriceTable,
+  summarizeUsage,
+  type LLMUsage,
+  type ModelPrice,
+  type PriceTable,
+  type UsageTotals,
+} from './usage';
 
 // Legacy exports for backward compatibility (deprecated)
 export { OllamaBackend, createOllamaBackend } from './ollama';
@@ -4,6 +4,7 @@
 
 import fetch from 'node-fetch';
 import { BaseLLMBackend } from './base';
+import { estimateTokens } from './budget';
 import { ReviewContext } from '../types';
 
 /**
@@ -29,6 +30,7 @@ export class OllamaBackend extends BaseLLMBackend {
   }
 
   async generate(prompt: string, _context: ReviewContext): Promise<string> {
+    const started = Date.now();
     const response = await fetch(`${this.baseUrl}/api/generate`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -39,7 +41,14 @@ export class OllamaBackend extends BaseLLMBackend {
       throw new Error(`Ollama API error: ${response.statusText}`);
     }
 
-    const data = await response.json() as { response: string };
+    const data = await response.json() as { response: string; prompt_eval_count?: number; eval_count?: number };
+    this.recordUsage({
+      provider: this.name,
+      model: this.model,
+      promptTokens: data.prompt_eval_count ?? estimateTokens(prompt),
+      completionTokens: data.eval_count ?? estimateTokens(data.response),
+      latencyMs: Date.now() - started,
+    });
     return data.response;
   }
 }
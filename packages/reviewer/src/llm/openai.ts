@@ -4,6 +4,7 @@
 
 import fetch from 'node-fetch';
 import { BaseLLMBackend } from './base';
+import { estimateTokens } from './budget';
 import { ReviewContext } from '../types';
 
 /**
@@ -35,6 +36,7 @@ export class OpenAIBackend extends BaseLLMBackend {
   }
 
   async generate(prompt: string, _context: ReviewContext): Promise<string> {
+    const started = Date.now();
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
@@ -53,8 +55,19 @@ export class OpenAIBackend extends BaseLLMBackend {
       throw new Error(`OpenAI API error: ${response.status} - ${error}`);
     }
 
-    const data = await response.json() as { choices: Array<{ message: { content: string } }> };
-    return data.choices[0].message.content;
+    const data = await response.json() as {
+      choices: Array<{ message: { content: string } }>;
+      usage?: { prompt_tokens: number; completion_tokens: number };
+    };
+    const text = data.choices[0].message.content;
+    this.recordUsage({
+      provider: this.name,
+      model: this.model,
+      promptTokens: data.usage?.prompt_tokens ?? estimateTokens(prompt),
+      completionTokens: data.usage?.completion_tokens ?? estimateTokens(text),
+      latencyMs: Date.now() - started,
+    });
+    return text;
   }
 }
 
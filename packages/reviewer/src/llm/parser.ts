@@ -27,6 +27,22 @@ export function parseReviewResponse(response: string): ReviewResult {
   return { summary, comments, suggestions: [], verdict };
 }
 
+/** Summary and verdict of a reduce pass; `fallbackVerdict` is used when VERDICT is missing */
+export function parseReduceResponse(
+  response: string,
+  fallbackVerdict: ReviewResult['verdict'],
+): Pick<ReviewResult, 'summary' | 'verdict'> {
+  const summaryMatch = response.match(/SUMMARY:\s*([\s\S]*?)(?=VERDICT:|$)/i);
+  const verdictMatch = response.match(/VERDICT:\s*(approve|request_changes|comment)/i);
+  if (!verdictMatch) {
+    console.warn(`[AgnusAI] No VERDICT in reduce response, using ${fallbackVerdict} from the part reviews`);
+  }
+  return {
+    summary: (summaryMatch ? summaryMatch[1] : response).trim(),
+    verdict: verdictMatch ? (verdictMatch[1].toLowerCase() as ReviewResult['verdict']) : fallbackVerdict,
+  };
+}
+
 export function parseCommentBlocks(response: string): ReviewComment[] {
   const comments: ReviewComment[] = [];
 
@@ -35,23 +51,26 @@ export function parseCommentBlocks(response: string): ReviewComment[] {
   //   [File: path Line: N]    — no comma
   //   File: path, Line: N     — no brackets, comma
   //   File: path Line: N      — no brackets, no comma (e.g. codellama output)
-  const FILE_MARKER = /\[?File:\s*([^\],\n]+?)[\s,]+Line:\s*(\d+)\]?/gi;
+  //   [File: path, Lines: M-N] — a suggestion replacing lines M to N
+  const FILE_MARKER = /\[?File:\s*([^\],\n]+?)[\s,]+Lines?:\s*(\d+)(?:\s*-\s*(\d+))?\]?/gi;
 
   // Collect all marker positions: markerStart = where "[File:" text begins,
   // contentStart = where the body begins (right after the closing "]" or last digit)
-  type MarkerEntry = { path: string; line: number; markerStart: number; contentStart: number }
+  type MarkerEntry = { path: string; line: number; startLine?: number; markerStart: number; contentStart: number }
   const markers: MarkerEntry[] = []
   let m: RegExpExecArray | null
   FILE_MARKER.lastIndex = 0
   while ((m = FILE_MARKER.exec(response)) !== null) {
-    const lineNum = parseInt(m[2], 10)
-    if (!isFinite(lineNum) || lineNum < 1) {
-      console.warn(`[AgnusAI] Skipping comment with invalid line number "${m[2]}" in file "${m[1].trim()}"`)
+    const startNum = parseInt(m[2], 10)
+    const lineNum = m[3] ? parseInt(m[3], 10) : startNum
+    if (!isFinite(lineNum) || startNum < 1 || startNum > lineNum) {
+      console.warn(`[AgnusAI] Skipping comment with invalid line number "${m[3] ? `${m[2]}-${m[3]}` : m[2]}" in file "${m[1].trim()}"`)
       continue
     }
     markers.push({
       path: m[1].trim(),
       line: lineNum,
+      startLine: startNum < lineNum ? startNum : undefined,
       markerStart: m.index,
       contentStart: m.index + m[0].length,
     })
@@ -74,6 +93,7 @@ export function parseCommentBlocks(response: string): ReviewComment[] {
     comments.push({
       path: markers[i].path,
       line: markers[i].line,
+      ...(markers[i].startLine ? { startLine: markers[i].startLine } : {}),
       body: cleanBody,
       severity: detectSeverity(body),
       confidence: confidence,
@@ -83,6 +103,34 @@ export function parseCommentBlocks(response: string): ReviewComment[] {
   return comments;
 }
 
+/**
+ * Picks comments out of a text review while it is still being generated. Feed it the
+ * response so far; a comment is passed on once the next marker or the VERDICT line
+ * shows its body is complete, and never twice.
+ */
+export class ReviewCommentStream {
+  private parsedUpTo = 0;
+  private emitted = 0;
+
+  constructor(private readonly onComment: (comment: ReviewComment) => void) {}
+
+  update(response: string): void {
+    const complete = /VERDICT:/i.exec(response)?.index ?? lastMarkerStart(response);
+    // Also skips a response that restarted shorter, e.g. after failing over to another provider
+    if (complete <= this.parsedUpTo) return;
+    this.parsedUpTo = complete;
+    const comments = parseCommentBlocks(response.slice(0, complete));
+    for (const comment of comments.slice(this.emitted)) this.onComment(comment);
+    this.emitted = Math.max(this.emitted, comments.length);
+  }
+}
+
+function lastMarkerStart(response: string): number {
+  let start = 0;
+  for (const m of response.matchAll(/\[?File:\s*[^\],\n]+?[\s,]+Lines?:\s*\d+/gi)) start = m.index ?? start;
+  return start;
+}
+
 function detectSeverity(body: string): 'info' | 'warning' | 'error' {
   if (/Critical\s*🔴|severity.*critical/i.test(body)) return 'error';
   if (/Major\s*⚠️|severity.*major/i.test(body)) return 'warning';
@@ -129,3 +177,139 @@ export function parsePRDescriptionResponse(response: string): PRDescriptionResul
     labels
   };
 }
+
+// ─── Structured (JSON) output ────────────────────────────────────────────────
+
+/**
+ * JSON schema for the review object requested in `json` output mode. Every field is
+ * required so providers with strict schema enforcement (OpenAI, Azure) accept it.
+ */
+export const REVIEW_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['summary', 'comments', 'verdict'],
+  properties: {
+    summary: { type: 'string', description: '2-3 sentence overall assessment' },
+    comments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['path', 'line', 'startLine', 'body', 'severity', 'confidence'],
+        properties: {
+          path: { type: 'string', description: 'Exact file path from the diff' },
+          line: { type: 'integer', minimum: 1, description: 'A [Line N] number of an added line' },
+          startLine: { type: 'integer', minimum: 1, description: 'First line the suggestion replaces — equal to line unless it replaces several' },
+          body: { type: 'string', description: 'Full markdown comment body' },
+          severity: { type: 'string', enum: ['info', 'warning', 'error'] },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+        },
+      },
+    },
+    verdict: { type: 'string', enum: ['approve', 'request_changes', 'comment'] },
+  },
+};
+
+/** A structured review response that failed validation. `issues` lists every problem found. */
+export class ReviewParseError extends Error {
+  constructor(readonly issues: string[], readonly response: string) {
+    super(`Invalid LLM review output: ${issues.join('; ')}`);
+    this.name = 'ReviewParseError';
+  }
+}
+
+/**
+ * Validate a structured review — either the object a provider returned through its
+ * native JSON mode, or raw text expected to contain one. Unlike `parseReviewResponse`
+ * nothing is dropped or defaulted: any invalid field throws a `ReviewParseError`.
+ */
+export function parseStructuredReview(output: unknown): ReviewResult {
+  const response = typeof output === 'string' ? output : JSON.stringify(output);
+  let value = output;
+  if (typeof output === 'string') {
+    const json = extractJsonObject(output);
+    if (json === null) throw new ReviewParseError(['response contains no JSON object'], response);
+    try {
+      value = JSON.parse(json);
+    } catch (err) {
+      throw new ReviewParseError([`response is not valid JSON: ${(err as Error).message}`], response);
+    }
+  }
+
+  const issues: string[] = [];
+  const review = isRecord(value) ? value : {};
+  if (!isRecord(value)) issues.push('response is not a JSON object');
+
+  if (typeof review.summary !== 'string' || !review.summary.trim()) {
+    issues.push('`summary` must be a non-empty string');
+  }
+  const verdicts: ReviewResult['verdict'][] = ['approve', 'request_changes', 'comment'];
+  if (!verdicts.includes(review.verdict as ReviewResult['verdict'])) {
+    issues.push(`\`verdict\` must be one of ${verdicts.join(', ')}`);
+  }
+
+  const comments: ReviewComment[] = [];
+  if (!Array.isArray(review.comments)) {
+    issues.push('`comments` must be an array');
+  } else {
+    review.comments.forEach((raw, i) => {
+      const comment = validateComment(raw, `comments[${i}]`, issues);
+      if (comment) comments.push(comment);
+    });
+  }
+
+  if (issues.length > 0) throw new ReviewParseError(issues, response);
+  return {
+    summary: (review.summary as string).trim(),
+    comments,
+    suggestions: [],
+    verdict: review.verdict as ReviewResult['verdict'],
+  };
+}
+
+function validateComment(raw: unknown, at: string, issues: string[]): ReviewComment | null {
+  if (!isRecord(raw)) {
+    issues.push(`\`${at}\` must be an object`);
+    return null;
+  }
+  const before = issues.length;
+  if (typeof raw.path !== 'string' || !raw.path.trim()) issues.push(`\`${at}.path\` must be a non-empty string`);
+  if (!Number.isInteger(raw.line) || (raw.line as number) < 1) issues.push(`\`${at}.line\` must be a positive integer`);
+  if (typeof raw.body !== 'string' || !raw.body.trim()) issues.push(`\`${at}.body\` must be a non-empty string`);
+  if (!['info', 'warning', 'error'].includes(raw.severity as string)) {
+    issues.push(`\`${at}.severity\` must be one of info, warning, error`);
+  }
+  // Confidence is optional metadata — only a present-but-invalid value is an error
+  const confidence = raw.confidence ?? undefined;
+  if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+    issues.push(`\`${at}.confidence\` must be a number between 0 and 1`);
+  }
+  const startLine = raw.startLine ?? undefined;
+  if (startLine !== undefined && (!Number.isInteger(startLine) || (startLine as number) < 1 || (startLine as number) > (raw.line as number))) {
+    issues.push(`\`${at}.startLine\` must be a positive integer no greater than \`line\``);
+  }
+  if (issues.length > before) return null;
+
+  return {
+    path: (raw.path as string).trim(),
+    line: raw.line as number,
+    ...(startLine !== undefined && (startLine as number) < (raw.line as number) ? { startLine: startLine as number } : {}),
+    body: (raw.body as string).trim(),
+    severity: raw.severity as ReviewComment['severity'],
+    confidence: confidence as number | undefined,
+  };
+}
+
+/**
+ * The JSON object in a text response, tolerating code fences and chatter around it.
+ * Fences are not matched directly: comment bodies contain ```suggestion blocks.
+ */
+function extractJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
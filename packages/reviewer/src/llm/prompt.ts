@@ -1,39 +1,137 @@
 // Shared prompt builder — provider-agnostic
 
 import type { GraphReviewContext } from '@agnus-ai/shared';
-import { ReviewContext, Diff, ReviewResult } from '../types';
+import { ReviewContext, Diff, ReviewResult, Ticket } from '../types';
+import { REVIEW_JSON_SCHEMA } from './parser';
+import { allocateBudget, BudgetItem, DEFAULT_CONTEXT_WINDOW, estimateTokens, OmittedContent, outputReserve } from './budget';
 
-export function buildReviewPrompt(context: ReviewContext): string {
-  const { pr, diff, skills, config, graphContext } = context;
+export type ReviewOutputFormat = 'text' | 'json';
 
-  const skillContext = skills.length > 0
-    ? `\n## Review Skills Applied\n${skills.map(s => s.content).join('\n\n')}`
-    : '';
+export interface AssembledPrompt {
+  prompt: string;
+  /** Content left out to fit the context window — reported in the review summary */
+  omitted: OmittedContent[];
+}
+
+/** Approximate tokens for the headers of the optional sections */
+const SECTION_HEADER_TOKENS = 300;
+
+/**
+ * Build the review prompt within `contextWindow` tokens. The PR details, file list and
+ * instructions are always included; the diff, codebase context, skills, tickets and
+ * feedback examples share what is left (see `allocateBudget`).
+ */
+export function assembleReviewPrompt(
+  context: ReviewContext,
+  format: ReviewOutputFormat = 'text',
+  contextWindow: number = DEFAULT_CONTEXT_WINDOW,
+): AssembledPrompt {
+  const { diff, skills, tickets, config, graphContext } = context;
+
+  // maxDiffSize still caps the diff in characters, independent of the token budget
+  const diffItems: BudgetItem[] = [];
+  const oversized: string[] = [];
+  let diffChars = 0;
+  for (const file of diffFileSections(diff)) {
+    if (diffChars + file.text.length > (config?.maxDiffSize ?? 30000)) {
+      oversized.push(file.label);
+      continue;
+    }
+    diffItems.push(file);
+    diffChars += file.text.length;
+  }
 
-  const graphSection = graphContext ? serializeGraphContext(graphContext) : '';
+  const priorityRank = { high: 0, medium: 1, low: 2 };
+  const skillItems = [...skills]
+    .sort((a, b) => priorityRank[a.priority] - priorityRank[b.priority])
+    .map(s => ({ label: s.name, text: s.content }));
+  const ticketItems = (tickets ?? []).map(t => ({ label: t.key, text: serializeTicket(t) }));
+  const graphItems = graphContext ? graphContextSections(graphContext) : [];
+  const acceptedItems = (graphContext?.priorExamples ?? []).map((e, i) => ({ label: `helpful ${i + 1}`, text: `---\n${e}` }));
+  const rejectedItems = (graphContext?.rejectedExamples ?? []).map((e, i) => ({ label: `not helpful ${i + 1}`, text: `---\n${e}` }));
+
+  const render = (kept: Set<BudgetItem>, omittedFiles: string[]): string => {
+    const pick = (items: BudgetItem[]) => items.filter(i => kept.has(i));
+    const graph = pick(graphItems);
+    const accepted = pick(acceptedItems);
+    const rejected = pick(rejectedItems);
+    const keptSkills = pick(skillItems);
+    const keptTickets = pick(ticketItems);
+
+    const graphSection = graph.length > 0
+      ? GRAPH_CONTEXT_HEADER + graph.map(s => s.text).join('\n') + '\n'
+      : '';
+
+    const skillContext = keptSkills.length > 0
+      ? `\n## Review Skills Applied\n${keptSkills.map(s => s.text).join('\n\n')}`
+      : '';
+
+    const ticketSection = keptTickets.length > 0
+      ? `\n## Linked Tickets\nCheck the changes against these requirements.\n\n${keptTickets.map(t => t.text).join('\n\n')}\n`
+      : '';
+
+    const examplesSection = accepted.length > 0
+      ? `\n## Examples of feedback your team found helpful\n` +
+        `These are past review comments on this repo that developers marked as useful. ` +
+        `Use them as a guide for the style and depth of feedback that resonates with this team.\n\n` +
+        accepted.map(e => e.text).join('\n\n') + '\n'
+      : '';
+
+    const rejectedSection = rejected.length > 0
+      ? `\n## Examples of feedback this team found NOT helpful\n` +
+        `Avoid writing comments similar to these — developers on this repo have explicitly marked them as unhelpful.\n\n` +
+        rejected.map(e => e.text).join('\n\n') + '\n'
+      : '';
+
+    const diffContent = pick(diffItems).map(f => f.text).join('');
+    const truncationWarning = omittedFiles.length > 0
+      ? `\n⚠️ IMPORTANT: This diff was truncated. ${omittedFiles.length} changed files are not shown: ${omittedFiles.join(', ')}.\nDo NOT reference, guess, or comment on files not shown above.\nReview ONLY what is shown in the diff.\n`
+      : '';
+
+    return buildPromptText(context, format, {
+      diff: diffContent,
+      optional: `${graphSection}${skillContext}${ticketSection}${examplesSection}${rejectedSection}`,
+      truncationWarning,
+    });
+  };
+
+  const fixedTokens = estimateTokens(render(new Set(), [...oversized, ...diffItems.map(f => f.label)]));
+  const budget = contextWindow - outputReserve(contextWindow) - fixedTokens - SECTION_HEADER_TOKENS;
+  const { kept, omitted } = allocateBudget({
+    diff: diffItems,
+    graph: graphItems,
+    skills: skillItems,
+    tickets: ticketItems,
+    examples: [...acceptedItems, ...rejectedItems],
+  }, budget);
+
+  if (oversized.length > 0) {
+    const diffOmission = omitted.find(o => o.section === 'diff');
+    if (diffOmission) diffOmission.items.unshift(...oversized);
+    else omitted.unshift({ section: 'diff', items: oversized });
+  }
 
-  const examplesSection = (graphContext?.priorExamples?.length)
-    ? `\n## Examples of feedback your team found helpful\n` +
-      `These are past review comments on this repo that developers marked as useful. ` +
-      `Use them as a guide for the style and depth of feedback that resonates with this team.\n\n` +
-      graphContext.priorExamples.map(e => `---\n${e}`).join('\n\n') + '\n'
-    : ''
+  const omittedFiles = omitted.find(o => o.section === 'diff')?.items ?? [];
+  return { prompt: render(kept, omittedFiles), omitted };
+}
 
-  const rejectedSection = (graphContext?.rejectedExamples?.length)
-    ? `\n## Examples of feedback this team found NOT helpful\n` +
-      `Avoid writing comments similar to these — developers on this repo have explicitly marked them as unhelpful.\n\n` +
-      graphContext.rejectedExamples.map(e => `---\n${e}`).join('\n\n') + '\n'
-    : ''
+export function buildReviewPrompt(context: ReviewContext, format: ReviewOutputFormat = 'text', contextWindow?: number): string {
+  return assembleReviewPrompt(context, format, contextWindow).prompt;
+}
+
+function buildPromptText(
+  context: ReviewContext,
+  format: ReviewOutputFormat,
+  sections: { diff: string; optional: string; truncationWarning: string },
+): string {
+  const { pr, diff, config } = context;
 
   const fileList = diff.files
     .map(f => `- ${f.path} (${f.status}, +${f.additions}/-${f.deletions})`)
     .join('\n');
 
-  const maxChars = config?.maxDiffSize ?? 30000;
-  const diffResult = buildDiffSummary(diff, maxChars);
-
-  const truncationWarning = diffResult.truncated
-    ? `\n⚠️ IMPORTANT: This diff was truncated. You have only seen the first portion (${diffResult.truncatedCount} more files not shown).\nDo NOT reference, guess, or comment on files not shown above.\nReview ONLY what is shown in the diff.\n`
+  const focusSection = config?.focusAreas?.length
+    ? `\n## Review Focus\nConcentrate on the areas below and leave other concerns out of your comments:\n${config.focusAreas.map(a => `- ${a}`).join('\n')}\n`
     : '';
 
   return `You are an expert code reviewer. Review this pull request and provide detailed, actionable feedback.
@@ -50,24 +148,43 @@ ${pr.description || 'No description provided.'}
 ${fileList}
 
 ## Diff
-${diffResult.content}
-${graphSection}${skillContext}${examplesSection}${rejectedSection}
-${truncationWarning}
+${sections.diff}
+${sections.optional}
+${sections.truncationWarning}
 
 ## Review Instructions
 1. Analyse the diff for issues: correctness, security, performance, maintainability
 2. Reference exact file paths and line numbers from the diff
 3. Focus on real issues, not nitpicks
 4. For each issue provide: severity, concrete impacts, a code suggestion, reproduction steps
+${focusSection}
+${format === 'json' ? jsonOutputInstructions() : textOutputInstructions()}
+${SHARED_RULES}`;
+}
 
-## Output Format
+function serializeTicket(ticket: Ticket): string {
+  const lines = [`### ${ticket.key}: ${ticket.title}`, `Type: ${ticket.type} · Status: ${ticket.status}`];
+  if (ticket.description) lines.push('', ticket.description);
+  if (ticket.acceptanceCriteria?.length) {
+    lines.push('', 'Acceptance criteria:', ...ticket.acceptanceCriteria.map(c => `- ${c}`));
+  }
+  return lines.join('\n');
+}
+
+/** Rules that apply to every output format */
+const SHARED_RULES = `- NEVER comment on whether a specific package/library version number is valid, exists, or is outdated. Your training data has a knowledge cutoff and package versions change constantly — you will be wrong. Skip ALL observations about version numbers, semver ranges, or whether a version is "the latest". Focus only on code logic, patterns, and correctness.
+- NEVER mention "blast radius", "graph context", "codebase context", or any internal tooling concepts in your review comments. Use the codebase context section only to understand impact — your comments must read as if written by a human reviewer who knows the codebase.`;
+
+/** Free-text format: SUMMARY, then [File:, Line:] markers, then VERDICT — see `parseReviewResponse` */
+function textOutputInstructions(): string {
+  return `## Output Format
 
 SUMMARY:
 [2-3 sentence overall assessment]
 
 Then for each issue, output a [File:, Line:] marker followed immediately by the comment body. Use the EXACT file path from the diff.
 
-[File: /src/api/services/publish_workflow/model.py, Line: 103]
+[File: /src/api/services/publish_workflow/model.py, Lines: 102-103]
 **Suggestion:** With the current union type ordering, responses that include a \`diff\` field will always be parsed as the variant without \`diff\`, causing the diff payload to be silently dropped in FastAPI's response validation.
 
 <details>
@@ -120,23 +237,134 @@ RULES:
 - The [File:, Line:] marker must use the EXACT path from the diff (including any leading slash)
 - Every added line in the diff is prefixed with \`[Line N]\` showing its exact file line number. Use ONLY those numbers in your [File:, Line:] markers.
 - ONLY comment on \`[Line N] +\` lines (added lines). Lines starting with \`-\` are removals shown for context — do NOT place a comment on them.
+- A \`\`\`suggestion block replaces the marker's line. When it replaces several consecutive added lines, use a [File: path, Lines: M-N] marker covering exactly those lines; suggestions that do not fit the lines they replace are dropped.
 - You may use <details>/<summary> for collapsible sections. Inside <details> blocks, use only plain text and bullet lists — never triple-backtick code fences inside <details> as they break rendering on Azure DevOps and other platforms.
-- If the PR looks good output VERDICT: approve with no comments
-- NEVER comment on whether a specific package/library version number is valid, exists, or is outdated. Your training data has a knowledge cutoff and package versions change constantly — you will be wrong. Skip ALL observations about version numbers, semver ranges, or whether a version is "the latest". Focus only on code logic, patterns, and correctness.
-- NEVER mention "blast radius", "graph context", "codebase context", or any internal tooling concepts in your review comments. Use the codebase context section only to understand impact — your comments must read as if written by a human reviewer who knows the codebase.`;
+- If the PR looks good output VERDICT: approve with no comments`;
 }
 
+/** JSON format validated by `parseStructuredReview` */
+function jsonOutputInstructions(): string {
+  return `## Output Format
+
+Respond with a single JSON object and nothing else — no prose before or after it and no code fence around it. It must match this JSON schema:
+
+${JSON.stringify(REVIEW_JSON_SCHEMA, null, 2)}
+
+- \`summary\`: 2-3 sentence overall assessment
+- \`comments\`: one entry per issue. \`body\` is the full markdown comment — a **Suggestion:** line, a <details> block with the severity level and concrete impacts, a \`\`\`suggestion block with the fix, and a <details> block with steps to reproduce
+- \`severity\`: \`error\` for critical issues, \`warning\` for major ones, \`info\` for everything else
+- \`confidence\`: your self-assessed confidence in the comment, from 0.0 to 1.0
+- \`startLine\`: the first line the \`\`\`suggestion block replaces. It equals \`line\` unless the block replaces several consecutive added lines, from \`startLine\` to \`line\`; suggestions that do not fit the lines they replace are dropped
+- \`verdict\`: approve, request_changes or comment
+
+Example comment:
+{"path": "/src/auth.ts", "line": 42, "startLine": 42, "body": "**Suggestion:** The token is not validated before use.", "severity": "warning", "confidence": 0.92}
+
+## Confidence Scoring (REQUIRED)
+Scoring guide:
+- 0.9-1.0: Definite bug, security issue, or clear correctness problem
+- 0.7-0.9: Likely issue with clear impact
+- 0.5-0.7: Potential issue, may be stylistic
+- 0.0-0.5: Speculative — omit these entirely unless critical
+
+RULES:
+- \`path\` must be the EXACT path from the diff (including any leading slash)
+- Every added line in the diff is prefixed with \`[Line N]\` showing its exact file line number. Use ONLY those numbers for \`line\`.
+- ONLY comment on \`[Line N] +\` lines (added lines). Lines starting with \`-\` are removals shown for context — do NOT place a comment on them.
+- Comment bodies may use <details>/<summary> for collapsible sections. Inside <details> blocks, use only plain text and bullet lists — never triple-backtick code fences inside <details> as they break rendering on Azure DevOps and other platforms.
+- If the PR looks good return "verdict": "approve" with an empty comments array`;
+}
+
+/**
+ * Ask the model to fix a JSON review that failed validation. Only the broken response
+ * and the problems found are sent back, not the diff.
+ */
+export function buildReviewRepairPrompt(response: string, issues: string[]): string {
+  return `Your previous code review response could not be used because it does not match the required JSON format.
+
+## Problems
+${issues.map(i => `- ${i}`).join('\n')}
+
+## Required JSON schema
+${JSON.stringify(REVIEW_JSON_SCHEMA, null, 2)}
+
+## Previous response
+${response}
+
+Return the corrected review as a single JSON object and nothing else. Keep every comment that can be fixed, fix only the problems listed, and drop a comment only if it cannot be fixed.`;
+}
+
+/**
+ * Reduce pass of a chunked review: merge the per-chunk summaries and verdicts into
+ * one. Comments are merged in code — the model only sees their first lines.
+ */
+export function buildReducePrompt(context: ReviewContext, parts: Array<{ files: string[]; result: ReviewResult }>): string {
+  const { pr, diff } = context;
+
+  const partSections = parts.map(({ files, result }, i) => {
+    const comments = result.comments.length > 0
+      ? result.comments.map(c => `- [${c.severity}] ${c.path}:${c.line} — ${c.body.split('\n')[0].slice(0, 200)}`).join('\n')
+      : '- (no comments)';
+    return `### Part ${i + 1} of ${parts.length} (${files.length} files: ${files.join(', ')})
+Summary: ${result.summary}
+Verdict: ${result.verdict}
+Comments:
+${comments}`;
+  }).join('\n\n');
+
+  return `You are an expert code reviewer. This pull request was too large to review at once, so it was reviewed in ${parts.length} parts. Combine the part reviews below into one review of the whole pull request.
+
+## PR Information
+Title: ${pr.title}
+Author: ${pr.author.username}
+Branch: ${pr.sourceBranch} → ${pr.targetBranch}
+Changed files: ${diff.files.length} (+${diff.additions}/-${diff.deletions})
+
+## Description
+${pr.description || 'No description provided.'}
+
+## Part Reviews
+${partSections}
+
+## Task
+1. Write one 2-4 sentence assessment of the whole pull request — what it does and its most important problems
+2. Mention issues that span several parts once, not per part
+3. Do not list individual comments — they are posted inline separately
+4. Choose one verdict for the whole pull request: request_changes if any part found a real defect, approve only if no part found anything worth fixing
+
+## Output Format (STRICT)
+SUMMARY:
+[2-4 sentence overall assessment]
+
+VERDICT: approve|request_changes|comment`;
+}
+
+const GRAPH_CONTEXT_HEADER = [
+  '\n## Codebase Context (internal — do NOT mention this section or any tooling names in your review output)',
+  'Use this context silently to understand the impact of the changes. Do not reference "blast radius", "graph", or any internal tool terminology in your comments.\n',
+].join('\n') + '\n';
+
 export function serializeGraphContext(ctx: GraphReviewContext): string {
-  const lines: string[] = [
-    '\n## Codebase Context (internal — do NOT mention this section or any tooling names in your review output)',
-    'Use this context silently to understand the impact of the changes. Do not reference "blast radius", "graph", or any internal tool terminology in your comments.\n',
-  ];
+  return GRAPH_CONTEXT_HEADER + graphContextSections(ctx).map(s => s.text).join('\n') + '\n';
+}
+
+/** Codebase context subsections, most important first, labelled by heading */
+function graphContextSections(ctx: GraphReviewContext): BudgetItem[] {
+  const sections: BudgetItem[] = [];
+  const add = (label: string, lines: string[]) => {
+    sections.push({ label, text: [`${sections.length > 0 ? '\n' : ''}### ${label}`, ...lines].join('\n') });
+  };
+
+  for (const { symbol: s, callers, callees } of ctx.mentionedSymbols ?? []) {
+    add(`\`${s.qualifiedName}\` (named in the question)`, [
+      `- ${s.kind} in \`${s.filePath}\`: \`${s.signature}\``,
+      `- Called by: ${callers.length > 0 ? callers.map(c => `\`${c.qualifiedName}\` in \`${c.filePath}\``).join(', ') : 'nothing in the indexed codebase'}`,
+      `- Calls: ${callees.length > 0 ? callees.map(c => `\`${c.qualifiedName}\``).join(', ') : 'nothing in the indexed codebase'}`,
+    ]);
+  }
 
   if (ctx.changedSymbols.length > 0) {
-    lines.push('### Symbols changed in this PR');
-    for (const s of ctx.changedSymbols) {
-      lines.push(`- \`${s.qualifiedName}\` (${s.kind}): \`${s.signature}\``);
-    }
+    add('Symbols changed in this PR', ctx.changedSymbols.map(s => `- \`${s.qualifiedName}\` (${s.kind}): \`${s.signature}\``));
   }
 
   const allCallers = [
@@ -145,46 +373,41 @@ export function serializeGraphContext(ctx: GraphReviewContext): string {
   ];
 
   if (allCallers.length > 0) {
-    lines.push('\n### Known callers of changed symbols');
-    lines.push('These symbols in the existing codebase depend on what was changed. If the change is breaking, they will be affected:');
-    for (const s of allCallers) {
-      lines.push(`- \`${s.qualifiedName}\` in \`${s.filePath}\`: \`${s.signature}\``);
-    }
+    add('Known callers of changed symbols', [
+      'These symbols in the existing codebase depend on what was changed. If the change is breaking, they will be affected:',
+      ...allCallers.map(s => `- \`${s.qualifiedName}\` in \`${s.filePath}\`: \`${s.signature}\``),
+    ]);
+  }
+
+  const possibleCallers = ctx.blastRadius.possibleCallers ?? [];
+  if (possibleCallers.length > 0) {
+    add('Possible callers', [
+      'These call a symbol with the same name, but the exact target could not be determined. Treat them as hints, not confirmed dependents:',
+      ...possibleCallers.map(s => `- \`${s.qualifiedName}\` in \`${s.filePath}\`: \`${s.signature}\``),
+    ]);
   }
 
   const otherFiles = ctx.blastRadius.affectedFiles.filter(
     f => !ctx.changedSymbols.some(s => s.filePath === f)
   );
   if (otherFiles.length > 0) {
-    lines.push('\n### Other files likely affected');
-    for (const f of otherFiles) {
-      lines.push(`- \`${f}\``);
-    }
+    add('Other files likely affected', otherFiles.map(f => `- \`${f}\``));
   }
 
   if (ctx.callees.length > 0) {
-    lines.push('\n### Dependencies of changed symbols');
-    for (const s of ctx.callees) {
-      lines.push(`- \`${s.qualifiedName}\`: \`${s.signature}\``);
-    }
+    add('Dependencies of changed symbols', ctx.callees.map(s => `- \`${s.qualifiedName}\`: \`${s.signature}\``));
   }
 
   if (ctx.semanticNeighbors.length > 0) {
-    lines.push('\n### Semantically related symbols');
-    for (const s of ctx.semanticNeighbors) {
-      lines.push(`- \`${s.qualifiedName}\` (${s.kind}): \`${s.signature}\``);
-    }
+    add('Semantically related symbols', ctx.semanticNeighbors.map(s => `- \`${s.qualifiedName}\` (${s.kind}): \`${s.signature}\``));
   }
 
-  return lines.join('\n') + '\n';
+  return sections;
 }
 
-export function buildDiffSummary(diff: Diff, maxChars: number = 30000): { content: string; truncated: boolean; truncatedCount: number } {
-  let content = '';
-  let currentSize = 0;
-
-  for (let i = 0; i < diff.files.length; i++) {
-    const file = diff.files[i];
+/** One item per file, each + line annotated with its new-file line number */
+function diffFileSections(diff: Diff): BudgetItem[] {
+  return diff.files.map(file => {
     const hunksWithHeaders = file.hunks
       .map(h => {
         // Annotate each + line with its explicit new-file line number.
@@ -205,22 +428,28 @@ export function buildDiffSummary(diff: Diff, maxChars: number = 30000): { conten
         return `@@ -${h.oldStart},${h.oldLines} +${h.newStart},${h.newLines} @@\n${annotated.join('\n')}`;
       })
       .join('\n');
-    const fileDiff = `--- ${file.path}\n+++ ${file.path}\n${hunksWithHeaders}\n`;
+    return { label: file.path, text: `--- ${file.path}\n+++ ${file.path}\n${hunksWithHeaders}\n` };
+  });
+}
 
-    if (currentSize + fileDiff.length > maxChars) {
-      const truncatedCount = diff.files.length - i;
+export function buildDiffSummary(diff: Diff, maxChars: number = 30000): { content: string; truncated: boolean; truncatedCount: number } {
+  const files = diffFileSections(diff);
+  let content = '';
+
+  for (let i = 0; i < files.length; i++) {
+    if (content.length + files[i].text.length > maxChars) {
+      const truncatedCount = files.length - i;
       content += `\n... [Diff truncated — ${truncatedCount} more files]`;
       return { content, truncated: true, truncatedCount };
     }
-
-    content += fileDiff;
-    currentSize += fileDiff.length;
+    content += files[i].text;
   }
 
   return { content, truncated: false, truncatedCount: 0 };
 }
 
-export function buildPRDescriptionPrompt(context: ReviewContext, review: ReviewResult): string {
+/** Without `review` — a description asked for on its own — the review signal is left out */
+export function buildPRDescriptionPrompt(context: ReviewContext, review?: ReviewResult): string {
   const { pr, diff, config } = context;
   const maxChars = config?.maxDiffSize ?? 30000;
   const diffResult = buildDiffSummary(diff, maxChars);
@@ -244,12 +473,12 @@ ${fileList}
 
 ## Diff
 ${diffResult.content}
-
+${review ? `
 ## Review Signal (for context)
 Summary: ${review.summary}
 Verdict: ${review.verdict}
 Comment Count: ${review.comments.length}
-
+` : ''}
 ## Task
 Generate:
 1) An improved PR title
@@ -277,3 +506,78 @@ Rules:
 - The markdown body must be valid and reviewer-friendly.
 - Avoid generic filler text.`;
 }
+
+/** A developer's question about a PR, answered from the diff and any codebase context */
+export function buildAskPrompt(context: ReviewContext, question: string): string {
+  const { pr, diff, config, graphContext } = context;
+  const diffResult = buildDiffSummary(diff, config?.maxDiffSize ?? 30000);
+  const fileList = diff.files
+    .map(f => `- ${f.path} (${f.status}, +${f.additions}/-${f.deletions})`)
+    .join('\n');
+
+  return `You are an expert code reviewer answering a developer's question about a pull request.
+
+## PR Information
+Title: ${pr.title}
+Author: ${pr.author.username}
+Branch: ${pr.sourceBranch} -> ${pr.targetBranch}
+
+## Description
+${pr.description || 'No description provided.'}
+
+## Changed Files (${diff.files.length} files)
+${fileList}
+
+## Diff
+${diffResult.content}
+${graphContext ? serializeGraphContext(graphContext) : ''}
+## Question
+${question}
+
+## Output Format
+Answer in markdown, in a few short paragraphs or bullet points.
+- Ground every claim in the diff or the codebase context above, naming the files and symbols involved.
+- If they do not hold the answer, say what is missing instead of guessing.
+- Do not mention the codebase context section or any internal tooling.`;
+}
+
+/**
+ * Whether a pushed change fixed the issue an earlier review comment raised. `change` is
+ * the diff hunks that touched the flagged code.
+ */
+export function buildResolutionPrompt(issue: string, originalCode: string, change: string): string {
+  return `You are an expert code reviewer checking whether a new commit fixed an issue you raised in an earlier review.
+
+## Your Comment
+${issue}
+
+## Code You Flagged
+\`\`\`
+${originalCode}
+\`\`\`
+
+## Change Since Your Comment
+\`\`\`diff
+${change}
+\`\`\`
+
+## Output Format
+Reply with exactly one line: RESOLVED: yes or RESOLVED: no
+- Answer yes only if the change fixes the issue, or removes the flagged code along with the problem.
+- Answer no if the change is unrelated, only partly fixes it, or just moves the code.`;
+}
+
+/**
+ * Split a prompt for providers that take a separate system message. The opening role
+ * line and the trailing `## Output Format` section move to the system message — for a
+ * review they are the same on every PR, so a provider-side prompt cache can reuse them —
+ * and the PR-specific middle stays in the user message.
+ */
+export function splitSystemPrompt(prompt: string): { system: string; prompt: string } {
+  const roleEnd = prompt.startsWith('You are') ? prompt.indexOf('\n\n') : -1;
+  const formatStart = prompt.lastIndexOf('\n## Output Format');
+  const role = roleEnd > 0 ? prompt.slice(0, roleEnd) : '';
+  const format = formatStart > roleEnd ? prompt.slice(formatStart + 1) : '';
+  const rest = prompt.slice(roleEnd > 0 ? roleEnd + 2 : 0, format ? formatStart : undefined);
+  return { system: [role, format].filter(Boolean).join('\n\n'), prompt: rest.trim() };
+}
@@ -1,26 +1,56 @@
 // Unified LLM Backend — routes to the right native AI SDK provider.
 //
-// Set LLM_PROVIDER to one of: ollama | openai | azure | claude | custom
+// Set LLM_PROVIDER to one of: ollama | openai | azure | claude | gemini | bedrock | custom
 //
 // Provider-specific env vars:
 //   ollama  → OLLAMA_BASE_URL (default http://localhost:11434/v1)
 //   openai  → OPENAI_API_KEY
 //   azure   → AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_API_VERSION
-//   claude  → ANTHROPIC_API_KEY
+//   claude  → ANTHROPIC_API_KEY, ANTHROPIC_BASE_URL (Anthropic-compatible gateways),
+//             ANTHROPIC_PROMPT_CACHE (default true)
+//   gemini  → GOOGLE_GENERATIVE_AI_API_KEY
+//   bedrock → AWS_REGION, then AWS_BEARER_TOKEN_BEDROCK or AWS_ACCESS_KEY_ID /
+//             AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN, BEDROCK_PROMPT_CACHE (default false)
 //   custom  → CUSTOM_LLM_URL, CUSTOM_LLM_API_KEY
 //
-// All providers use LLM_MODEL for the model/deployment name.
+// All providers use LLM_MODEL for the model/deployment name. <PROVIDER>_MAX_TOKENS
+// (falling back to LLM_MAX_TOKENS) caps the tokens generated per call.
+// LLM_OUTPUT_FORMAT=json switches reviews to schema-validated JSON output (default: text).
+// LLM_CONTEXT_TOKENS sets the model's context size when the built-in table is wrong for it.
+//
+// Failover: LLM_FALLBACKS lists further `provider:model` pairs to try in order, e.g.
+// `openai:gpt-4o-mini,claude:claude-sonnet-4-5`. Each call times out after
+// <PROVIDER>_TIMEOUT_MS (e.g. OLLAMA_TIMEOUT_MS), falling back to LLM_TIMEOUT_MS;
+// rate limits and server errors are retried LLM_MAX_RETRIES times per provider.
+// LLM_PRICES adds or overrides per-model prices used for cost accounting.
 
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createAmazonBedrock } from '@ai-sdk/amazon-bedrock';
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
-import { generateText } from 'ai';
+import { generateText, jsonSchema, LanguageModelUsage, ModelMessage, NoObjectGeneratedError, Output, streamText } from 'ai';
 import { BaseLLMBackend } from './base';
+import { CacheScope } from './cache';
+import { contextWindowFor, estimateTokens } from './budget';
+import { RetryOptions, withFailover } from './failover';
+import { DEFAULT_PRICES, parsePriceTable, PriceTable } from './usage';
+import { REVIEW_JSON_SCHEMA } from './parser';
+import { ReviewOutputFormat, splitSystemPrompt } from './prompt';
 import { ReviewContext } from '../types';
 
-export type ProviderName = 'ollama' | 'openai' | 'azure' | 'claude' | 'custom';
+export const PROVIDER_NAMES = ['ollama', 'openai', 'azure', 'claude', 'gemini', 'bedrock', 'custom'] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
 
-export interface UnifiedLLMConfig {
+/**
+ * Providers whose endpoint an org or repo may override. The others call hosted APIs with
+ * the server's API keys, which must not be sent to a host an org admin picked.
+ */
+export const BASE_URL_OVERRIDE_PROVIDERS: readonly ProviderName[] = ['ollama', 'custom'];
+
+/** One provider and model to send calls to */
+export interface ProviderConfig {
   provider: ProviderName;
   model: string;
   // openai
@@ -29,38 +59,232 @@ export interface UnifiedLLMConfig {
   azureEndpoint?: string;      // full deployment URL: https://<resource>.cognitiveservices.azure.com/openai/deployments/<deployment>
   azureApiKey?: string;
   azureApiVersion?: string;
-  // claude
+  // claude — baseURL, when set, points at an Anthropic-compatible gateway
   anthropicApiKey?: string;
+  // gemini
+  googleApiKey?: string;
+  // bedrock — unset credentials fall back to the AWS_* env vars
+  awsRegion?: string;
+  bedrockApiKey?: string;
+  awsAccessKeyId?: string;
+  awsSecretAccessKey?: string;
+  awsSessionToken?: string;
   // ollama / custom
   baseURL?: string;
   customApiKey?: string;
+  /** Per-call timeout in ms (default: 300000) */
+  timeoutMs?: number;
+  /** Cap on generated tokens per call; the provider's default when unset */
+  maxOutputTokens?: number;
+  /** Mark the system message as a prompt cache breakpoint (claude and bedrock only) */
+  promptCaching?: boolean;
+}
+
+export interface UnifiedLLMConfig extends ProviderConfig {
+  outputFormat?: ReviewOutputFormat;
+  /** Context size in tokens; defaults to a lookup by model name, the smallest across the chain */
+  contextWindow?: number;
+  /** Providers tried in order when this one fails */
+  fallbacks?: ProviderConfig[];
+  retry?: RetryOptions;
+  /** Merged over the built-in price table */
+  prices?: PriceTable;
+  /** Sampling temperature for every call; the provider's default when unset */
+  temperature?: number;
+}
+
+/** Per-org or per-repo settings layered over the LLM_* env vars */
+export interface LLMOverrides {
+  /** With `model`, replaces LLM_PROVIDER and LLM_MODEL and drops LLM_FALLBACKS */
+  provider?: ProviderName;
+  model?: string;
+  /** Replaces OLLAMA_BASE_URL or CUSTOM_LLM_URL — only for the `BASE_URL_OVERRIDE_PROVIDERS` */
+  baseURL?: string;
+  temperature?: number;
 }
 
+interface ChainEntry {
+  /** `provider/model` */
+  label: string;
+  provider: ProviderName;
+  model: string;
+  baseURL?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  languageModel: any;
+  timeoutMs: number;
+  maxOutputTokens?: number;
+  promptCaching: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 300_000;
+
 export class UnifiedLLMBackend extends BaseLLMBackend {
   readonly name: string;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private languageModel: any;
+  private chain: ChainEntry[];
+  private retry: RetryOptions;
+  private served = new Set<string>();
+  private lastAnswered: ChainEntry | null = null;
+  private temperature?: number;
 
   constructor(config: UnifiedLLMConfig) {
     super();
     this.name = config.provider;
-    this.languageModel = buildLanguageModel(config);
+    const providers = [config, ...(config.fallbacks ?? [])];
+    this.chain = providers.map(p => ({
+      label: `${p.provider}/${p.model}`,
+      provider: p.provider,
+      model: p.model,
+      baseURL: p.baseURL,
+      languageModel: buildLanguageModel(p),
+      timeoutMs: p.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      maxOutputTokens: p.maxOutputTokens,
+      promptCaching: p.promptCaching ?? false,
+    }));
+    this.retry = config.retry ?? {};
+    this.temperature = config.temperature;
+    this.prices = { ...DEFAULT_PRICES, ...config.prices };
+    this.outputFormat = config.outputFormat ?? 'text';
+    // A prompt has to fit whichever provider ends up answering it
+    this.contextWindow = config.contextWindow ?? Math.min(...providers.map(p => contextWindowFor(p.model)));
+  }
+
+  /** The primary provider — a fallback's answers are not cached, see `answeredInScope` */
+  protected get cacheScope(): CacheScope {
+    const { provider, model, baseURL } = this.chain[0];
+    const settings = baseURL !== undefined || this.temperature !== undefined
+      ? JSON.stringify({ baseURL, temperature: this.temperature })
+      : undefined;
+    return { provider, model, settings };
+  }
+
+  protected get answeredInScope(): boolean {
+    return this.lastAnswered === this.chain[0];
+  }
+
+  /** `provider/model` of each provider that has answered a call, in the order first used */
+  get servedBy(): string[] {
+    return [...this.served];
   }
 
   async generate(prompt: string, _context: ReviewContext): Promise<string> {
-    const { text } = await generateText({
-      model: this.languageModel,
-      prompt,
+    return this.call(prompt, async request => {
+      const { text, usage } = await generateText(request);
+      return { value: text, usage };
     });
-    return text;
   }
+
+  /** A retry or failover starts the text over, so `onText` always gets the current attempt's response */
+  protected async generateStream(prompt: string, _context: ReviewContext, onText: (text: string) => void): Promise<string> {
+    return this.call(prompt, async request => {
+      // Errors come through the stream and are thrown to the failover below, not logged here
+      const result = streamText({ ...request, onError: () => {} });
+      let text = '';
+      for await (const part of result.fullStream) {
+        if (part.type === 'error') throw part.error;
+        if (part.type === 'abort') throw request.abortSignal.reason;
+        if (part.type === 'text-delta') {
+          text += part.text;
+          onText(text);
+        }
+      }
+      return { value: text, usage: await result.totalUsage };
+    });
+  }
+
+  /**
+   * Uses the SDK's object output, which maps to each provider's native mode (JSON
+   * schema response format, or a forced tool call where a model lacks one).
+   */
+  protected async generateJson(prompt: string, _context: ReviewContext): Promise<unknown> {
+    return this.call(prompt, async request => {
+      try {
+        const { output, usage } = await generateText({
+          ...request,
+          output: Output.object({
+            schema: jsonSchema(REVIEW_JSON_SCHEMA as Parameters<typeof jsonSchema>[0]),
+            name: 'review',
+          }),
+        });
+        return { value: output as unknown, usage };
+      } catch (err) {
+        // Unparseable output still goes through validation and the repair retry
+        if (NoObjectGeneratedError.isInstance(err) && err.text) return { value: err.text as unknown, usage: err.usage };
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * Send the prompt down the provider chain, as a system and a user message.
+   * Usage is recorded for the provider that answered, with latency including any
+   * retries and failover before it.
+   */
+  private async call<T>(
+    prompt: string,
+    send: (request: ChainRequest) => Promise<{ value: T; usage?: LanguageModelUsage }>,
+  ): Promise<T> {
+    const started = Date.now();
+    const { value: { value, usage }, provider } = await withFailover(
+      this.chain,
+      entry => send(buildRequest(entry, prompt, this.temperature)),
+      this.retry,
+    );
+    this.served.add(provider.label);
+    this.lastAnswered = provider;
+    this.recordUsage({
+      provider: provider.provider,
+      model: provider.model,
+      promptTokens: usage?.inputTokens ?? estimateTokens(prompt),
+      completionTokens: usage?.outputTokens ?? estimateTokens(typeof value === 'string' ? value : JSON.stringify(value)),
+      latencyMs: Date.now() - started,
+    });
+    return value;
+  }
+}
+
+interface ChainRequest {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  model: any;
+  messages: ModelMessage[];
+  maxOutputTokens?: number;
+  temperature?: number;
+  abortSignal: AbortSignal;
+  maxRetries: 0;
+}
+
+/** Per-provider cache breakpoint on the system message */
+const CACHE_POINTS: Partial<Record<ProviderName, ModelMessage['providerOptions']>> = {
+  claude: { anthropic: { cacheControl: { type: 'ephemeral' } } },
+  bedrock: { bedrock: { cachePoint: { type: 'default' } } },
+};
+
+/** Call options for one chain entry — retries are ours, so the SDK's are off */
+function buildRequest(entry: ChainEntry, prompt: string, temperature?: number): ChainRequest {
+  const { system, prompt: user } = splitSystemPrompt(prompt);
+  const messages: ModelMessage[] = [];
+  if (system) {
+    messages.push({
+      role: 'system',
+      content: system,
+      providerOptions: entry.promptCaching ? CACHE_POINTS[entry.provider] : undefined,
+    });
+  }
+  messages.push({ role: 'user', content: user });
+  return {
+    model: entry.languageModel,
+    messages,
+    maxOutputTokens: entry.maxOutputTokens,
+    temperature,
+    abortSignal: AbortSignal.timeout(entry.timeoutMs),
+    maxRetries: 0,
+  };
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function buildLanguageModel(config: UnifiedLLMConfig): any {
+function buildLanguageModel(config: ProviderConfig): any {
   switch (config.provider) {
     case 'openai': {
-      const openai = createOpenAI({ apiKey: config.openAiApiKey });
+      const openai = createOpenAI({ apiKey: config.openAiApiKey, baseURL: config.baseURL });
       return openai(config.model);
     }
 
@@ -81,10 +305,27 @@ function buildLanguageModel(config: UnifiedLLMConfig): any {
     }
 
     case 'claude': {
-      const anthropic = createAnthropic({ apiKey: config.anthropicApiKey });
+      const anthropic = createAnthropic({ apiKey: config.anthropicApiKey, baseURL: config.baseURL });
       return anthropic(config.model);
     }
 
+    case 'gemini': {
+      const google = createGoogleGenerativeAI({ apiKey: config.googleApiKey, baseURL: config.baseURL });
+      return google(config.model);
+    }
+
+    case 'bedrock': {
+      const bedrock = createAmazonBedrock({
+        region: config.awsRegion,
+        apiKey: config.bedrockApiKey,
+        accessKeyId: config.awsAccessKeyId,
+        secretAccessKey: config.awsSecretAccessKey,
+        sessionToken: config.awsSessionToken,
+        baseURL: config.baseURL,
+      });
+      return bedrock(config.model);
+    }
+
     case 'ollama':
     case 'custom':
     default: {
@@ -101,36 +342,115 @@ function buildLanguageModel(config: UnifiedLLMConfig): any {
   }
 }
 
-/** Build backend from typed env vars */
-export function createBackendFromEnv(env: NodeJS.ProcessEnv): UnifiedLLMBackend {
-  const provider = (env.LLM_PROVIDER ?? 'ollama') as ProviderName;
-  const model = env.LLM_MODEL ?? 'qwen3.5:cloud';
+/**
+ * Build backend from typed env vars, with an org's or repo's `overrides` on top.
+ * Credentials always come from `env`. A provider chosen in `overrides` is used on its
+ * own: a repo pinned to a local model must not fail over to a hosted one.
+ */
+export function createBackendFromEnv(env: NodeJS.ProcessEnv, overrides: LLMOverrides = {}): UnifiedLLMBackend {
+  const selected = overrides.provider !== undefined && overrides.model !== undefined;
+  const provider = selected ? overrides.provider! : (env.LLM_PROVIDER ?? 'ollama') as ProviderName;
+  const model = selected ? overrides.model! : env.LLM_MODEL ?? 'qwen3.5:cloud';
+  const contextTokens = parseInt(env.LLM_CONTEXT_TOKENS ?? '', 10);
+  const maxRetries = parseInt(env.LLM_MAX_RETRIES ?? '', 10);
+  const primary = providerFromEnv(provider, model, env);
+  if (overrides.baseURL && !BASE_URL_OVERRIDE_PROVIDERS.includes(primary.provider)) {
+    console.warn(`[AgnusAI] Ignoring base URL override for ${primary.provider}: only ${BASE_URL_OVERRIDE_PROVIDERS.join(' and ')} endpoints can be overridden`);
+  } else if (overrides.baseURL) {
+    // CUSTOM_LLM_API_KEY is for CUSTOM_LLM_URL only — another endpoint gets no key
+    if (primary.provider === 'custom' && overrides.baseURL !== env.CUSTOM_LLM_URL) primary.customApiKey = undefined;
+    primary.baseURL = overrides.baseURL;
+  }
+  return new UnifiedLLMBackend({
+    prices: env.LLM_PRICES ? parsePriceTable(env.LLM_PRICES) : undefined,
+    ...primary,
+    fallbacks: selected ? [] : parseFallbacks(env.LLM_FALLBACKS).map(f => providerFromEnv(f.provider, f.model, env)),
+    retry: maxRetries >= 0 ? { maxRetries } : undefined,
+    outputFormat: env.LLM_OUTPUT_FORMAT === 'json' ? 'json' : 'text',
+    contextWindow: contextTokens > 0 ? contextTokens : undefined,
+    temperature: overrides.temperature,
+  });
+}
+
+/**
+ * `provider:model` pairs, comma-separated. Only the first colon splits, so Ollama
+ * tags such as `ollama:qwen3.5:cloud` keep theirs.
+ */
+export function parseFallbacks(value: string | undefined): Array<{ provider: ProviderName; model: string }> {
+  return (value ?? '').split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const sep = entry.indexOf(':');
+    if (sep <= 0 || sep === entry.length - 1) {
+      throw new Error(`LLM_FALLBACKS entry '${entry}' must be provider:model`);
+    }
+    const provider = entry.slice(0, sep);
+    if (!(PROVIDER_NAMES as readonly string[]).includes(provider)) {
+      throw new Error(`LLM_FALLBACKS entry '${entry}' names unknown provider '${provider}' — expected one of ${PROVIDER_NAMES.join(', ')}`);
+    }
+    return { provider: provider as ProviderName, model: entry.slice(sep + 1) };
+  });
+}
 
+function providerFromEnv(provider: ProviderName, model: string, env: NodeJS.ProcessEnv): ProviderConfig {
+  const timeout = parseInt(env[`${provider.toUpperCase()}_TIMEOUT_MS`] ?? env.LLM_TIMEOUT_MS ?? '', 10);
+  const timeoutMs = timeout > 0 ? timeout : undefined;
+  const maxTokens = parseInt(env[`${provider.toUpperCase()}_MAX_TOKENS`] ?? env.LLM_MAX_TOKENS ?? '', 10);
+  const maxOutputTokens = maxTokens > 0 ? maxTokens : undefined;
   switch (provider) {
     case 'openai':
-      return new UnifiedLLMBackend({ provider, model, openAiApiKey: env.OPENAI_API_KEY });
+      return { provider, model, timeoutMs, maxOutputTokens, openAiApiKey: env.OPENAI_API_KEY };
 
     case 'azure':
-      return new UnifiedLLMBackend({
+      return {
         provider,
         model,
+        timeoutMs,
+        maxOutputTokens,
         azureEndpoint: env.AZURE_OPENAI_ENDPOINT,
         azureApiKey: env.AZURE_OPENAI_API_KEY,
         azureApiVersion: env.AZURE_API_VERSION ?? '2025-01-01-preview',
-      });
+      };
 
     case 'claude':
-      return new UnifiedLLMBackend({ provider, model, anthropicApiKey: env.ANTHROPIC_API_KEY });
+      return {
+        provider,
+        model,
+        timeoutMs,
+        maxOutputTokens,
+        anthropicApiKey: env.ANTHROPIC_API_KEY,
+        baseURL: env.ANTHROPIC_BASE_URL || undefined,
+        promptCaching: env.ANTHROPIC_PROMPT_CACHE !== 'false',
+      };
+
+    case 'gemini':
+      return { provider, model, timeoutMs, maxOutputTokens, googleApiKey: env.GOOGLE_GENERATIVE_AI_API_KEY || undefined };
+
+    case 'bedrock':
+      // Not every Bedrock model accepts cache points, so caching is opt-in here.
+      // Blank values (e.g. from docker-compose defaults) are left to the SDK's own lookup.
+      return {
+        provider,
+        model,
+        timeoutMs,
+        maxOutputTokens,
+        awsRegion: env.AWS_REGION || undefined,
+        bedrockApiKey: env.AWS_BEARER_TOKEN_BEDROCK || undefined,
+        awsAccessKeyId: env.AWS_ACCESS_KEY_ID || undefined,
+        awsSecretAccessKey: env.AWS_SECRET_ACCESS_KEY || undefined,
+        awsSessionToken: env.AWS_SESSION_TOKEN || undefined,
+        promptCaching: env.BEDROCK_PROMPT_CACHE === 'true',
+      };
 
     case 'custom':
-      return new UnifiedLLMBackend({ provider, model, baseURL: env.CUSTOM_LLM_URL, customApiKey: env.CUSTOM_LLM_API_KEY });
+      return { provider, model, timeoutMs, maxOutputTokens, baseURL: env.CUSTOM_LLM_URL, customApiKey: env.CUSTOM_LLM_API_KEY };
 
     case 'ollama':
     default:
-      return new UnifiedLLMBackend({
+      return {
         provider: 'ollama',
         model,
+        timeoutMs,
+        maxOutputTokens,
         baseURL: env.OLLAMA_BASE_URL ?? 'http://localhost:11434/v1',
-      });
+      };
   }
 }
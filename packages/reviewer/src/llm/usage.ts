@@ -0,0 +1,103 @@
+// LLM usage accounting — provider-agnostic
+// Token counts, latency and estimated cost of each call a backend makes.
+
+export interface LLMUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  /** USD, or null when the model has no price in the table */
+  costUsd: number | null;
+  /** Answered from the response cache — no tokens were billed */
+  cached: boolean;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Prices by model name. A key also matches model names it is a prefix of; the longest match wins. */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'o3': { input: 2, output: 8 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+export function priceFor(model: string, prices: PriceTable): ModelPrice | null {
+  // Bedrock ids carry a region and vendor prefix: `us.anthropic.claude-sonnet-4-…`
+  const names = [model, model.replace(/^([a-z]+\.)+/, '')];
+  for (const name of names) {
+    const key = Object.keys(prices)
+      .filter(k => name === k || name.startsWith(k))
+      .sort((a, b) => b.length - a.length)[0];
+    if (key) return prices[key];
+  }
+  return null;
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number, prices: PriceTable): number | null {
+  const price = priceFor(model, prices);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/** Parse `LLM_PRICES`: `{"<model>": {"input": <usd/1M>, "output": <usd/1M>}, …}` */
+export function parsePriceTable(json: string): PriceTable {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('LLM_PRICES must be a JSON object');
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('LLM_PRICES must be a JSON object');
+  }
+  for (const [model, price] of Object.entries(value)) {
+    const { input, output } = (price ?? {}) as Partial<ModelPrice>;
+    if (typeof input !== 'number' || typeof output !== 'number' || input < 0 || output < 0) {
+      throw new Error(`LLM_PRICES entry '${model}' needs non-negative numeric input and output prices`);
+    }
+  }
+  return value as PriceTable;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  /** Sum over priced calls; null if no call had a price */
+  costUsd: number | null;
+}
+
+export function summarizeUsage(usage: LLMUsage[]): UsageTotals {
+  const priced = usage.filter(u => u.costUsd !== null);
+  return {
+    calls: usage.length,
+    promptTokens: usage.reduce((n, u) => n + u.promptTokens, 0),
+    completionTokens: usage.reduce((n, u) => n + u.completionTokens, 0),
+    latencyMs: usage.reduce((n, u) => n + u.latencyMs, 0),
+    costUsd: priced.length > 0 ? priced.reduce((n, u) => n + u.costUsd!, 0) : null,
+  };
+}
@@ -0,0 +1,116 @@
+// Chunked review planning — splits a PR that does not fit the model's context
+// window into file groups that each do, keeping graph-linked files together.
+
+import { assembleReviewPrompt, ReviewOutputFormat } from '../llm/prompt';
+import { FileDiff, ReviewComment, ReviewContext } from '../types';
+
+export interface ChunkPlan {
+  chunks: ReviewContext[];
+  /** Files beyond `maxChunks` — reported as not reviewed */
+  skipped: string[];
+}
+
+const normalise = (path: string) => path.replace(/^\//, '');
+
+/**
+ * Group diff files connected by `links` (pairs of paths), preserving diff order:
+ * each group sits where its first file appeared.
+ */
+export function groupRelatedFiles(files: FileDiff[], links: Array<[string, string]> = []): FileDiff[][] {
+  const parent = new Map<string, string>();
+  const find = (p: string): string => {
+    const up = parent.get(p) ?? p;
+    if (up === p) return p;
+    const root = find(up);
+    parent.set(p, root);
+    return root;
+  };
+  const inDiff = new Set(files.map(f => normalise(f.path)));
+  for (const [a, b] of links) {
+    const [x, y] = [normalise(a), normalise(b)];
+    if (inDiff.has(x) && inDiff.has(y)) parent.set(find(x), find(y));
+  }
+
+  const groups = new Map<string, FileDiff[]>();
+  for (const file of files) {
+    const root = find(normalise(file.path));
+    const group = groups.get(root);
+    if (group) group.push(file);
+    else groups.set(root, [file]);
+  }
+  return [...groups.values()];
+}
+
+/** `context` narrowed to `files` */
+export function chunkContext(context: ReviewContext, files: FileDiff[]): ReviewContext {
+  const paths = new Set(files.map(f => normalise(f.path)));
+  const { graphContext } = context;
+  return {
+    ...context,
+    diff: {
+      ...context.diff,
+      files,
+      additions: files.reduce((n, f) => n + f.additions, 0),
+      deletions: files.reduce((n, f) => n + f.deletions, 0),
+      changedFiles: files.length,
+    },
+    files: context.files.filter(f => paths.has(normalise(f.path))),
+    graphContext: graphContext && {
+      ...graphContext,
+      changedSymbols: graphContext.changedSymbols.filter(s => paths.has(normalise(s.filePath))),
+    },
+  };
+}
+
+/**
+ * Split `context` into chunks whose diffs fit the prompt budget. Returns a single
+ * chunk when the whole diff already fits. Linked file groups are packed whole where
+ * possible; a group too large for one chunk is split file by file, and a file too
+ * large on its own gets a chunk to itself (its prompt then reports it as omitted).
+ */
+export function planChunks(
+  context: ReviewContext,
+  options: { contextWindow: number; format?: ReviewOutputFormat; maxChunks?: number },
+): ChunkPlan {
+  const { contextWindow, format = 'text', maxChunks = 10 } = options;
+  const fits = (files: FileDiff[]) =>
+    !assembleReviewPrompt(chunkContext(context, files), format, contextWindow)
+      .omitted.some(o => o.section === 'diff');
+
+  if (fits(context.diff.files)) return { chunks: [context], skipped: [] };
+
+  const packed: FileDiff[][] = [];
+  let current: FileDiff[] = [];
+  const add = (files: FileDiff[]) => {
+    if (current.length > 0 && !fits([...current, ...files])) {
+      packed.push(current);
+      current = [];
+    }
+    current = [...current, ...files];
+  };
+
+  for (const group of groupRelatedFiles(context.diff.files, context.graphContext?.fileLinks)) {
+    if (fits(group)) add(group);
+    else for (const file of group) add([file]);
+  }
+  if (current.length > 0) packed.push(current);
+
+  return {
+    chunks: packed.slice(0, maxChunks).map(files => chunkContext(context, files)),
+    skipped: packed.slice(maxChunks).flat().map(f => f.path),
+  };
+}
+
+/**
+ * Comments from all chunks, without duplicates: of comments on the same line of the
+ * same file, the most confident is kept.
+ */
+export function mergeChunkComments(comments: ReviewComment[]): ReviewComment[] {
+  const byLine = new Map<string, ReviewComment>();
+  for (const comment of comments) {
+    const key = `${normalise(comment.path)}:${comment.line}`;
+    const existing = byLine.get(key);
+    if (!existing || (comment.confidence ?? 0) > (existing.confidence ?? 0)) byLine.set(key, comment);
+  }
+  return [...byLine.values()];
+}
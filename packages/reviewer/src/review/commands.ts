@@ -0,0 +1,69 @@
+// PR comment commands — `/agnus <command>` lines in a pull request comment
+
+/**
+ * - `review` — incremental review of the commits since the last one
+ * - `full-review` — review the whole PR again
+ * - `describe` — regenerate the PR description
+ * - `ask <question>` — answer a question about the PR in a comment
+ * - `ignore <path>` — leave matching files out of this PR's reviews
+ */
+export type PRCommand =
+  | { name: 'review' }
+  | { name: 'full-review' }
+  | { name: 'describe' }
+  | { name: 'ask'; question: string }
+  | { name: 'ignore'; path: string };
+
+export const COMMAND_PREFIX = '/agnus';
+
+/**
+ * The first `/agnus` command in a comment, or null if it has none. The command must
+ * start a line; an `ask` question runs to the end of the comment.
+ */
+export function parseCommand(body: string): PRCommand | null {
+  const lines = body.replace(/\r\n/g, '\n').split('\n');
+  for (const [i, line] of lines.entries()) {
+    const match = line.trim().match(/^\/agnus\s+([a-z-]+)\s*(.*)$/i);
+    if (!match) continue;
+    const name = match[1].toLowerCase();
+    const arg = match[2].trim();
+    switch (name) {
+      case 'review':
+      case 'full-review':
+      case 'describe':
+        return { name };
+      case 'ask': {
+        const question = [arg, ...lines.slice(i + 1)].join('\n').trim();
+        return question ? { name, question } : null;
+      }
+      case 'ignore':
+        return arg ? { name, path: arg.replace(/^`|`$/g, '').replace(/^\/+/, '') } : null;
+      default:
+        return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether `path` matches an ignore pattern: a glob (`docs/**`, `*.snap`) when it has
+ * a wildcard, otherwise the file itself or anything under it as a directory.
+ */
+export function isIgnoredPath(path: string, patterns: string[]): boolean {
+  const file = path.replace(/^\/+/, '');
+  return patterns.some(pattern => {
+    const p = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+    if (!p) return false;
+    if (!/[*?]/.test(p)) return file === p || file.startsWith(`${p}/`);
+    const regex = p
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*\*\//g, '<<ANY_DIRS>>')
+      .replace(/\*\*/g, '<<ANY>>')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]')
+      .replace(/<<ANY_DIRS>>/g, '(?:.*/)?')
+      .replace(/<<ANY>>/g, '.*');
+    // A pattern without a slash matches the file name in any directory
+    return new RegExp(`^${p.includes('/') ? '' : '(?:.*/)?'}${regex}$`).test(file);
+  });
+}
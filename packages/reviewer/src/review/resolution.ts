@@ -0,0 +1,66 @@
+// Resolution of earlier review comments once the code they flagged changes
+
+import { DetailedReviewComment, Diff, FileDiff } from '../types';
+import { getChangedLines, isAgnusaiComment, parseCommentMetadata, trackLineMovement } from './deduplication';
+
+/** Lines either side of a flagged line whose change may fix its issue */
+const RESOLUTION_WINDOW = 3;
+
+/** One of our review comments whose flagged code has changed since it was made */
+export interface TouchedComment {
+  comment: DetailedReviewComment;
+  /** The code the comment flagged, from its metadata */
+  originalCode: string;
+  /** The diff hunks that changed it */
+  change: string;
+}
+
+/**
+ * Our open top-level review comments whose flagged line — or a line next to it — `diff`
+ * changes or deletes. `diff` holds the changes made since commit `baseSha`; only comments
+ * made on that commit are considered, since only their line numbers are old-side line
+ * numbers in it. Comments without `originalCode` metadata are skipped: there is nothing
+ * to judge the change against.
+ */
+export function findTouchedComments(comments: DetailedReviewComment[], diff: Diff, baseSha: string): TouchedComment[] {
+  const files = new Map(diff.files.map(file => [file.path.replace(/^\//, ''), file]));
+  const touched: TouchedComment[] = [];
+
+  for (const comment of comments) {
+    if (comment.inReplyToId || comment.resolved || !comment.path || !isAgnusaiComment(comment)) continue;
+    const metadata = parseCommentMetadata(comment.body);
+    const line = comment.originalLine ?? comment.line;
+    const file = files.get(comment.path.replace(/^\//, ''));
+    if (!metadata?.originalCode || metadata.commitSha !== baseSha || !line || !file) continue;
+    const { originalCode } = metadata;
+
+    const change = changeAround(file, line);
+    if (change) touched.push({ comment, originalCode, change });
+  }
+
+  return touched;
+}
+
+/** The hunks of `file` that change old-side `line` or its neighbours, or null if none do */
+function changeAround(file: FileDiff, line: number): string | null {
+  if (file.status === 'deleted') {
+    return file.hunks.map(hunk => hunk.content).join('\n') || '(file deleted)';
+  }
+
+  const movement = trackLineMovement(file);
+  const newLine = movement.get(line);
+  // Lines outside every hunk are unchanged, and hunks carry context either side of a change
+  if (newLine === undefined) return null;
+
+  const added = getChangedLines(file);
+  let changed = newLine === -1;
+  for (let offset = -RESOLUTION_WINDOW; offset <= RESOLUTION_WINDOW && !changed; offset++) {
+    changed = movement.get(line + offset) === -1 || (newLine !== -1 && added.has(newLine + offset));
+  }
+  if (!changed) return null;
+
+  return file.hunks
+    .filter(hunk => line >= hunk.oldStart && line < hunk.oldStart + Math.max(hunk.oldLines, 1))
+    .map(hunk => hunk.content)
+    .join('\n') || null;
+}
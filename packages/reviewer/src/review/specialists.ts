@@ -0,0 +1,122 @@
+// Specialist review pipeline — security, performance, correctness and test-coverage
+// reviewers run against the same context, each driven by its skill, and an
+// aggregator merges their comments into one review.
+
+import { ReviewComment, ReviewContext, ReviewResult, Skill } from '../types';
+
+export type SpecialistRole = 'security' | 'performance' | 'correctness' | 'test-coverage';
+
+export interface SpecialistReview {
+  role: SpecialistRole;
+  result: ReviewResult;
+}
+
+/** Roles in the order their findings are listed, with the focus each one is given */
+export const SPECIALISTS: Array<{ role: SpecialistRole; title: string; focus: string }> = [
+  { role: 'security', title: 'Security', focus: 'Security: injection, authentication and authorization, secrets, unsafe handling of untrusted input' },
+  { role: 'correctness', title: 'Correctness', focus: 'Correctness: logic errors, unhandled edge cases, error handling, type and null safety' },
+  { role: 'performance', title: 'Performance', focus: 'Performance: algorithmic cost, N+1 queries, unnecessary I/O and allocations, blocking calls' },
+  { role: 'test-coverage', title: 'Test coverage', focus: 'Test coverage: changed behaviour without tests, untested edge cases, weakened assertions' },
+];
+
+const SEVERITY_RANK: Record<ReviewComment['severity'], number> = { error: 2, warning: 1, info: 0 };
+
+/** `context` for one specialist: only its skill, and a focus on its area */
+export function specialistContext(context: ReviewContext, role: SpecialistRole, skill: Skill): ReviewContext {
+  const { focus } = SPECIALISTS.find(s => s.role === role)!;
+  return {
+    ...context,
+    skills: [skill],
+    config: { ...context.config, focusAreas: [focus] },
+  };
+}
+
+/**
+ * Run one review per specialist with at most `concurrency` in flight. A failed
+ * specialist is logged and returned in `failed` rather than failing the others.
+ */
+export async function runSpecialists(
+  context: ReviewContext,
+  skills: Map<SpecialistRole, Skill>,
+  review: (context: ReviewContext) => Promise<ReviewResult>,
+  concurrency = 4,
+): Promise<{ reviews: SpecialistReview[]; failed: SpecialistRole[] }> {
+  const roles = SPECIALISTS.map(s => s.role).filter(role => skills.has(role));
+  const reviews: SpecialistReview[] = [];
+  const failed: SpecialistRole[] = [];
+
+  let next = 0;
+  const worker = async () => {
+    while (next < roles.length) {
+      const role = roles[next++];
+      try {
+        console.log(`🔎 ${role} review started`);
+        const result = await review(specialistContext(context, role, skills.get(role)!));
+        reviews.push({ role, result });
+      } catch (error: any) {
+        console.warn(`⚠️  ${role} review failed: ${error.message}`);
+        failed.push(role);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, roles.length)) }, worker));
+
+  // Workers finish in any order — keep the listing order stable
+  const order = (role: SpecialistRole) => roles.indexOf(role);
+  reviews.sort((a, b) => order(a.role) - order(b.role));
+  failed.sort((a, b) => order(a) - order(b));
+  return { reviews, failed };
+}
+
+/**
+ * Merge specialist reviews into one. Comments on the same line of the same file
+ * conflict: the most severe wins, then the most confident. The verdict is
+ * `request_changes` if any kept comment is an error or any specialist asked for
+ * changes, `approve` only if every specialist ran and approved with no comments,
+ * and `comment` otherwise.
+ */
+export function aggregateSpecialistReviews(reviews: SpecialistReview[], failed: SpecialistRole[] = []): ReviewResult {
+  const byLine = new Map<string, ReviewComment>();
+  for (const { result } of reviews) {
+    for (const comment of result.comments) {
+      const key = `${comment.path.replace(/^\//, '')}:${comment.line}`;
+      const existing = byLine.get(key);
+      if (!existing || outranks(comment, existing)) byLine.set(key, comment);
+    }
+  }
+  const comments = [...byLine.values()];
+
+  const verdicts = reviews.map(r => r.result.verdict);
+  const verdict: ReviewResult['verdict'] =
+    comments.some(c => c.severity === 'error') || verdicts.includes('request_changes') ? 'request_changes'
+      : comments.length === 0 && failed.length === 0 && verdicts.every(v => v === 'approve') ? 'approve'
+        : 'comment';
+
+  // Partial-review notes repeat across specialists — list each once, at the end
+  const notes = new Set<string>();
+  const sections = reviews.map(({ role, result }) => {
+    const [text, ...rest] = result.summary.split(/\n\n(?=> ⚠️)/);
+    rest.forEach(n => notes.add(n));
+    return `**${titleOf(role)}:** ${text.trim()}`;
+  });
+  if (failed.length > 0) {
+    sections.push(`_The ${failed.map(titleOf).join(', ').toLowerCase()} review${failed.length > 1 ? 's' : ''} failed and ${failed.length > 1 ? 'are' : 'is'} not included._`);
+  }
+
+  return {
+    summary: [...sections, ...notes].join('\n\n'),
+    comments,
+    suggestions: reviews.flatMap(r => r.result.suggestions),
+    verdict,
+    cached: reviews.every(r => r.result.cached === true),
+  };
+}
+
+function outranks(a: ReviewComment, b: ReviewComment): boolean {
+  const bySeverity = SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity];
+  return bySeverity !== 0 ? bySeverity > 0 : (a.confidence ?? 0) > (b.confidence ?? 0);
+}
+
+function titleOf(role: SpecialistRole): string {
+  return SPECIALISTS.find(s => s.role === role)!.title;
+}
@@ -0,0 +1,152 @@
+// Code suggestions in review comments: checking they apply to the diff, and rendering them per platform
+
+import { CodeSuggestion, FileDiff, ReviewComment } from '../types';
+
+/**
+ * How a platform shows a suggested change: GitHub and GitLab apply ```suggestion blocks
+ * (GitLab needs the lines above the comment spelled out), everything else gets a patch.
+ */
+export type SuggestionFormat = 'github' | 'gitlab' | 'patch';
+
+/** A ```suggestion block in a comment body, fences included — the code is group 1 */
+const SUGGESTION_BLOCK = /^[ \t]*```suggestion[^\n]*\n([\s\S]*?)^[ \t]*```[ \t]*$\n?/gm;
+
+interface NewSideLine {
+  code: string;
+  added: boolean;
+  hunk: number;
+}
+
+export function suggestionFormat(vcsName: string): SuggestionFormat {
+  return vcsName === 'github' || vcsName === 'gitlab' ? vcsName : 'patch';
+}
+
+/**
+ * `comment` with its suggestion checked against `file` and rendered for `format`. The
+ * suggestion is the comment's ```suggestion block — or, failing that, its `suggestion`
+ * field or an entry of `suggestions` at the same path and line. It is kept only if it
+ * applies cleanly (see `checkSuggestion`); otherwise every block is removed from the
+ * body and the comment is posted without one. `startLine` is set only for a kept
+ * suggestion replacing several lines.
+ */
+export function attachSuggestion(
+  comment: ReviewComment,
+  file: FileDiff,
+  format: SuggestionFormat,
+  suggestions: CodeSuggestion[] = []
+): ReviewComment {
+  const { startLine, ...rest } = comment;
+  const lines = newSideLines(file);
+  const blocks = [...comment.body.matchAll(SUGGESTION_BLOCK)];
+  const description = comment.body.split('\n')[0].replace(/^\*\*Suggestion:\*\*\s*/, '').trim();
+
+  let suggestion: CodeSuggestion | null = null;
+  if (blocks.length > 0 || comment.suggestion !== undefined) {
+    const newCode = blocks.length > 0 ? blocks[0][1].replace(/\n$/, '') : comment.suggestion!;
+    suggestion = checkSuggestion(lines, comment.path, startLine ?? comment.line, comment.line, newCode, description);
+    if (!suggestion) console.warn(`⚠️  Dropping suggestion at ${comment.path}:${comment.line} — it does not apply to the lines it replaces`);
+  } else {
+    const given = suggestions.find(s => s.path.replace(/^\//, '') === comment.path.replace(/^\//, '') && s.line === comment.line);
+    if (given) {
+      const start = given.line - given.oldCode.split('\n').length + 1;
+      suggestion = checkSuggestion(lines, comment.path, start, given.line, given.newCode, given.description, given.oldCode);
+    }
+  }
+
+  const rendered = suggestion ? renderSuggestion(suggestion, format) : '';
+  let placed = false;
+  let body = comment.body
+    .replace(SUGGESTION_BLOCK, () => {
+      if (placed) return '';
+      placed = true;
+      return rendered ? `${rendered}\n` : '';
+    })
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (rendered && !placed) body = `${body}\n\n${rendered}`;
+
+  const replaced = suggestion ? suggestion.oldCode.split('\n').length : 1;
+  return replaced > 1 ? { ...rest, body, startLine: comment.line - replaced + 1 } : { ...rest, body };
+}
+
+/**
+ * `suggestion` as markdown: a block GitHub or GitLab can apply, or a ```diff patch of the
+ * replaced lines for platforms without suggestions (Azure DevOps, Bitbucket).
+ */
+export function renderSuggestion(suggestion: CodeSuggestion, format: SuggestionFormat): string {
+  const oldLines = suggestion.oldCode.split('\n');
+  const newLines = suggestion.newCode === '' ? [] : suggestion.newCode.split('\n');
+  switch (format) {
+    case 'github':
+      return ['```suggestion', ...newLines, '```'].join('\n');
+    case 'gitlab':
+      // GitLab anchors the block on the comment's line and counts the lines above it
+      return [`\`\`\`suggestion:-${oldLines.length - 1}+0`, ...newLines, '```'].join('\n');
+    case 'patch':
+      return ['```diff', ...oldLines.map(l => `-${l}`), ...newLines.map(l => `+${l}`), '```'].join('\n');
+  }
+}
+
+/**
+ * The suggestion replacing new-file lines `start` to `end` with `newCode`, or null if it
+ * would not apply cleanly to the head the diff was taken against. The lines must be
+ * consecutive added lines of one hunk — the only lines the model is shown, and the only
+ * ones it can have quoted — and, when `expectedOld` is given, hold that code. A
+ * suggestion that changes nothing, or that rewrites a line just outside the range (so
+ * the range is too short and applying it would repeat that line), is rejected.
+ */
+function checkSuggestion(
+  lines: Map<number, NewSideLine>,
+  path: string,
+  start: number,
+  end: number,
+  newCode: string,
+  description: string,
+  expectedOld?: string
+): CodeSuggestion | null {
+  const hunk = lines.get(end)?.hunk;
+  const replaced: string[] = [];
+  for (let n = start; n <= end; n++) {
+    const line = lines.get(n);
+    if (!line?.added || line.hunk !== hunk) return null;
+    replaced.push(line.code);
+  }
+
+  const oldCode = replaced.join('\n');
+  if (expectedOld !== undefined && !sameCode(expectedOld, oldCode)) return null;
+  if (sameCode(newCode, oldCode)) return null;
+
+  const newLines = newCode.split('\n');
+  const kept = new Set(replaced.map(l => l.trim()));
+  const around = new Set<string>();
+  for (let n = 1; n <= newLines.length; n++) {
+    for (const line of [lines.get(start - n), lines.get(end + n)]) {
+      if (line && line.hunk === hunk) around.add(line.code.trim());
+    }
+  }
+  const repeats = newLines.some(l => /\w/.test(l) && !kept.has(l.trim()) && around.has(l.trim()));
+  if (repeats) return null;
+
+  return { path, line: end, oldCode, newCode, description };
+}
+
+/** New-file line number → code for every added and context line of `file`'s hunks */
+function newSideLines(file: FileDiff): Map<number, NewSideLine> {
+  const lines = new Map<number, NewSideLine>();
+  file.hunks.forEach((hunk, index) => {
+    let lineNo = hunk.newStart;
+    for (const line of hunk.content.split('\n')) {
+      // '-' lines don't exist in the new file; '\' marks a missing newline at EOF
+      if (line.startsWith('-') || line.startsWith('\\')) continue;
+      const code = line.startsWith('+') || line.startsWith(' ') ? line.slice(1) : line;
+      lines.set(lineNo++, { code, added: line.startsWith('+'), hunk: index });
+    }
+  });
+  return lines;
+}
+
+/** Code equal but for trailing whitespace, which suggestions routinely drop */
+function sameCode(a: string, b: string): boolean {
+  const normalise = (code: string) => code.split('\n').map(l => l.trimEnd()).join('\n').trimEnd();
+  return normalise(a) === normalise(b);
+}
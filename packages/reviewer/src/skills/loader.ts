@@ -44,11 +44,13 @@ export class SkillLoader {
       const bodyContent = this.extractBody(content);
 
       return {
+        id: name,
         name: frontMatter.name || name,
         description: frontMatter.description || '',
         triggers: frontMatter.trigger || [],
         priority: frontMatter.priority || 'medium',
-        content: bodyContent
+        content: bodyContent,
+        specialistOnly: frontMatter.specialist === 'true'
       };
     } catch (error) {
       console.error(`Failed to load skill ${name}:`, error);
@@ -97,10 +99,11 @@ export class SkillLoader {
   }
 
   /**
-   * Match skills based on file paths - loads skills and matches
+   * Match skills based on file paths - loads skills and matches.
+   * Skills marked `specialist: true` are skipped unless `includeSpecialistOnly` is set.
    */
-  async matchSkills(filePaths: string[]): Promise<Skill[]> {
-    const skills = await this.loadSkills();
+  async matchSkills(filePaths: string[], options: { includeSpecialistOnly?: boolean } = {}): Promise<Skill[]> {
+    const skills = (await this.loadSkills()).filter(s => options.includeSpecialistOnly || !s.specialistOnly);
     const matched = new Set<Skill>();
 
     for (const filePath of filePaths) {
@@ -54,6 +54,7 @@ export interface ReviewComment {
   id?: string;
   path: string;
   line: number;
+  startLine?: number;  // first line of a multi-line comment; `line` is the last
   body: string;   // full markdown body generated by the LLM
   severity: 'info' | 'warning' | 'error';
   suggestion?: string;
@@ -97,6 +98,8 @@ export interface ReviewResult {
   comments: ReviewComment[];
   suggestions: CodeSuggestion[];
   verdict: 'approve' | 'request_changes' | 'comment';
+  /** Every LLM call behind this review was answered from the response cache */
+  cached?: boolean;
 }
 
 export type PRChangeType = 'bug' | 'feature' | 'refactor' | 'docs' | 'tests' | 'chore';
@@ -110,7 +113,7 @@ export interface PRDescriptionResult {
 
 export interface CodeSuggestion {
   path: string;
-  line: number;
+  line: number;   // last line replaced — `oldCode` holds this line and the ones before it
   oldCode: string;
   newCode: string;
   description: string;
@@ -119,11 +122,20 @@ export interface CodeSuggestion {
 export interface ReviewConfig {
   maxDiffSize: number;
   focusAreas: string[];
+  /** Files left out of reviews: globs (`docs/**`, `*.snap`), or paths that also cover everything under them */
   ignorePaths: string[];
   /** Minimum confidence threshold for comments (0.0–1.0). Default: 0.7 */
   precisionThreshold?: number;
   /** Generate and write PR title/body/labels after review (default: true) */
   enablePRDescription?: boolean;
+  /** Review diffs that exceed the model's context window in parts, then merge them (default: true) */
+  chunkedReview?: boolean;
+  /** Most parts a chunked review is split into; files beyond them are not reviewed (default: 10) */
+  maxReviewChunks?: number;
+  /** Run security, performance, correctness and test-coverage reviewers and merge their comments (default: false) */
+  specialistReview?: boolean;
+  /** Specialist reviews run at once (default: 4) */
+  specialistConcurrency?: number;
 }
 
 export interface Skill {
@@ -132,6 +144,10 @@ export interface Skill {
   triggers: string[];
   priority: 'low' | 'medium' | 'high';
   content: string;
+  /** Skill directory name, e.g. `security` */
+  id?: string;
+  /** Only used by the specialist reviewer of the same id, never in a single review */
+  specialistOnly?: boolean;
 }
 
 export interface Config {
@@ -144,6 +160,17 @@ export interface Config {
       project: string;
       token: string;
     };
+    gitlab?: {
+      token: string;
+      /** Self-managed instance root (default: https://gitlab.com) */
+      baseUrl?: string;
+    };
+    bitbucket?: {
+      /** Access token, or `username:app-password` */
+      token: string;
+      /** Data Center instance root — omit for Bitbucket Cloud */
+      baseUrl?: string;
+    };
   };
   tickets: TicketConfig[];
   llm: LLMConfig;
@@ -267,6 +294,10 @@ export interface DetailedReviewComment {
   position?: number | null;
   commitId?: string;
   inReplyToId?: number | null;
+  /** Thread the comment belongs to, on platforms where threads have their own IDs (Azure DevOps) */
+  threadId?: number;
+  /** Whether the comment's thread is resolved (GitHub) or closed, e.g. as fixed (Azure DevOps) */
+  resolved?: boolean;
   createdAt: string;
   updatedAt: string;
   htmlUrl: string;
@@ -386,3 +417,19 @@ export interface IncrementalReviewOptions {
   /** Skip updating the checkpoint after review */
   skipCheckpoint?: boolean;
 }
+
+/**
+ * Stage of a review, in the order a hosted review runs them: gathering the diff and
+ * PR data, retrieving graph context, the LLM call(s), the precision filter, and
+ * posting to the VCS
+ */
+export type ReviewPhase = 'context' | 'graph' | 'generation' | 'filtering' | 'posting';
+
+export type ReviewProgressEvent =
+  | { type: 'phase'; phase: ReviewPhase }
+  /** A comment as soon as the model has finished writing it — before the precision filter */
+  | { type: 'comment'; comment: ReviewComment }
+  /** The comments left after the precision filter; replaces every comment streamed so far */
+  | { type: 'filtered'; comments: ReviewComment[] };
+
+export type ReviewProgressListener = (event: ReviewProgressEvent) => void;
@@ -14,24 +14,43 @@ export interface ParsedSymbol {
 }
 
 export interface Edge {
-  from: string            // symbol id
-  to: string              // symbol id
+  from: string            // symbol id (file path for `imports`)
+  to: string              // symbol id, a bare name for `calls`, or the module / repo file for `imports`
   kind: EdgeKind
+  receiver?: string       // `calls` only: "this" / "User" / "svc" in `svc.save()`
+  reexport?: boolean      // `imports` only: `export … from` — importers of `from` also see `to`
 }
 
+/**
+ * How a bare `calls` edge was matched to a symbol:
+ * resolved — exactly one target; ambiguous — several equally likely targets;
+ * unresolved — no symbol in the repo (library or builtin call).
+ */
+export type EdgeResolution = 'resolved' | 'ambiguous' | 'unresolved'
+
 export interface BlastRadius {
   directCallers: ParsedSymbol[]      // 1 hop
   transitiveCallers: ParsedSymbol[]  // 2 hops
+  possibleCallers?: ParsedSymbol[]   // ambiguous calls that may target the symbol — not scored
   affectedFiles: string[]
   riskScore: number                  // 0-100
 }
 
+/** A symbol a question about a PR names, with what calls it and what it calls */
+export interface MentionedSymbol {
+  symbol: ParsedSymbol
+  callers: ParsedSymbol[]
+  callees: ParsedSymbol[]
+}
+
 export interface GraphReviewContext {
   changedSymbols: ParsedSymbol[]
   callers: ParsedSymbol[]
   callees: ParsedSymbol[]
   blastRadius: BlastRadius
   semanticNeighbors: ParsedSymbol[]
+  fileLinks?: Array<[string, string]>  // pairs of changed files joined by a direct call
+  mentionedSymbols?: MentionedSymbol[]  // set for questions — see Retriever.getAskContext
   priorExamples?: string[]
   rejectedExamples?: string[]
 }
@@ -44,14 +63,24 @@ export interface IndexProgress {
   symbolCount?: number
   edgeCount?: number
   durationMs?: number
+  timings?: IndexTimings  // sent with `done`
   message?: string
 }
 
+/** Wall-clock milliseconds per indexing phase */
+export interface IndexTimings {
+  scanMs: number     // walking the repo and loading tsconfig/package.json files
+  parseMs: number    // reading, parsing and resolving imports
+  persistMs: number  // writing symbols and edges to storage
+  embedMs: number
+}
+
 export interface IndexStats {
   symbolCount: number
   edgeCount: number
   fileCount: number
   durationMs: number
+  timings: IndexTimings
 }
 
 export const USER_ROLES = ['admin', 'member'] as const
@@ -60,7 +89,7 @@ export type UserRole = (typeof USER_ROLES)[number]
 export const ORG_ROLES = ['admin', 'member'] as const
 export type OrgRole = (typeof ORG_ROLES)[number]
 
-export const VCS_PLATFORMS = ['github', 'azure'] as const
+export const VCS_PLATFORMS = ['github', 'azure', 'gitlab', 'bitbucket'] as const
 export type VcsPlatform = (typeof VCS_PLATFORMS)[number]
 
 export interface OrgMembership {